@@ -44,9 +44,21 @@ app.use(
 for await (const route of [
   import('./routes/clients.route.ts'),
   import('./routes/projects.route.ts'),
+  import('./routes/tasks.route.ts'),
+  import('./routes/milestones.route.ts'),
   import('./routes/time-entries.route.ts'),
+  import('./routes/timers.route.ts'),
+  import('./routes/timesheets.route.ts'),
+  import('./routes/tags.route.ts'),
   import('./routes/reports.route.ts'),
+  import('./routes/budget-alerts.route.ts'),
   import('./routes/invoices.route.ts'),
+  import('./routes/payments.route.ts'),
+  import('./routes/calendar.route.ts'),
+  import('./routes/settings.route.ts'),
+  import('./routes/audit.route.ts'),
+  import('./routes/search.route.ts'),
+  import('./routes/trash.route.ts'),
   // always import the ui route last to ensure it catches all unmatched routes
   import('./routes/ui.route.ts'),
 ]) {
@@ -0,0 +1,92 @@
+import type { User } from 'better-auth';
+import { getContext } from 'hono/context-storage';
+import type { RequestIdVariables } from 'hono/request-id';
+
+import type { AuditAction, AuditEntity, Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+export interface AuditChange {
+  action: AuditAction;
+  entityType: AuditEntity;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+type AuditEnv = {
+  Variables: { subject: User } & RequestIdVariables;
+};
+
+/**
+ * Append changes to the audit log. The actor and request id are taken from
+ * the current request, so this is only called from authenticated routes.
+ * Pass the transaction client when the change is made in a transaction.
+ */
+export async function recordAudit(
+  db: Prisma.TransactionClient,
+  changes: AuditChange | AuditChange[],
+): Promise<void> {
+  const context = getContext<AuditEnv>();
+  const data = [changes].flat().map((change) => ({
+    action: change.action,
+    entityType: change.entityType,
+    entityId: change.entityId,
+    before: toSnapshot(change.before),
+    after: toSnapshot(change.after),
+    requestId: context.var.requestId,
+    userId: context.var.subject.id,
+  }));
+
+  if (data.length === 0) return;
+
+  await db.auditLog.createMany({ data });
+}
+
+/**
+ * The audit records of one entity, oldest first
+ */
+export function getEntityHistory(
+  userId: string,
+  entityType: AuditEntity,
+  entityId: string,
+) {
+  return prisma.auditLog.findMany({
+    where: { userId, entityType, entityId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * JSON snapshot of a record: its own fields, plus the fields of the records in
+ * its to-many relations (e.g. tags, invoice lines). To-one relations such as
+ * the project of a time entry are left out.
+ */
+function toSnapshot(record: unknown): Prisma.InputJsonValue | undefined {
+  if (record === undefined || record === null) return undefined;
+
+  // Dates become ISO strings and decimals strings
+  const json: Prisma.JsonValue = JSON.parse(JSON.stringify(record));
+  return stripRelations(json, 0) ?? undefined;
+}
+
+function stripRelations(
+  value: Prisma.JsonValue,
+  depth: number,
+): Prisma.JsonValue {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripRelations(item, depth));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) =>
+        Array.isArray(field)
+          ? depth === 0
+          : field === null || typeof field !== 'object',
+      )
+      .map(([key, field]) => [key, stripRelations(field ?? null, depth + 1)]),
+  );
+}
@@ -0,0 +1,303 @@
+import { addDays, subDays } from 'date-fns';
+
+import type { BudgetPeriod, Client, Project } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import {
+  calculateDurationHours,
+  calculatePercentage,
+  getBillableHourlyRate,
+  roundToTwoDecimals,
+} from './calculations.ts';
+import type { UserPreferences } from './settings.ts';
+import { getPeriodKey, startOfPeriod } from './settings.ts';
+
+export type BudgetedProject = Pick<
+  Project,
+  | 'id'
+  | 'clientId'
+  | 'hourlyRate'
+  | 'billingMode'
+  | 'budgetHours'
+  | 'budgetAmount'
+  | 'budgetPeriod'
+  | 'budgetStartsAt'
+  | 'budgetEndsAt'
+>;
+
+export interface BudgetUsage {
+  budget: number;
+  consumed: number;
+  remaining: number; // Negative once the budget is overrun
+  percent: number;
+  projected: number | null; // Consumed by the end of the period at the current pace; null for total budgets
+  runsOutAt: Date | null; // When the budget is used up at the current pace, if that happens within the period
+}
+
+export interface ProjectBudget {
+  period: BudgetPeriod;
+  periodStart: Date | null;
+  periodEnd: Date | null; // Exclusive
+  periodKey: string; // Identifies the period the alerts are raised for
+  hours: BudgetUsage | null;
+  amount: BudgetUsage | null;
+}
+
+type BudgetWindow = Pick<
+  ProjectBudget,
+  'period' | 'periodStart' | 'periodEnd' | 'periodKey'
+>;
+
+// The current pace is measured over the last four weeks of the period
+const PACE_DAYS = 28;
+
+export function hasBudget(project: BudgetedProject): boolean {
+  return project.budgetHours !== null || project.budgetAmount !== null;
+}
+
+/**
+ * The budget period running at the given time: the whole life of the
+ * project, the calendar month in the user's time zone, or the custom range
+ */
+export function getBudgetWindow(
+  project: BudgetedProject,
+  settings: UserPreferences,
+  now = new Date(),
+): BudgetWindow {
+  switch (project.budgetPeriod) {
+    case 'MONTHLY': {
+      const periodStart = startOfPeriod('month', now, settings);
+      return {
+        period: 'MONTHLY',
+        periodStart,
+        // 32 days on always lands in the next month
+        periodEnd: startOfPeriod('month', addDays(periodStart, 32), settings),
+        periodKey: getPeriodKey('month', now, settings),
+      };
+    }
+    case 'CUSTOM':
+      return {
+        period: 'CUSTOM',
+        periodStart: project.budgetStartsAt,
+        periodEnd: project.budgetEndsAt,
+        periodKey: `${project.budgetStartsAt?.toISOString()}/${project.budgetEndsAt?.toISOString()}`,
+      };
+    default: // TOTAL
+      return {
+        period: 'TOTAL',
+        periodStart: null,
+        periodEnd: null,
+        periodKey: 'total',
+      };
+  }
+}
+
+function toUsage(
+  budget: number,
+  consumed: number,
+  recent: number, // Consumed since paceStart
+  paceStart: Date,
+  window: BudgetWindow,
+  now: Date,
+): BudgetUsage {
+  // A period that is over has no pace left
+  const until =
+    window.periodEnd && window.periodEnd < now ? window.periodEnd : now;
+  const elapsedMs = until.getTime() - paceStart.getTime();
+  const perMs = elapsedMs > 0 ? recent / elapsedMs : 0;
+  const remaining = budget - consumed;
+
+  let runsOutAt: Date | null = null;
+  if (remaining > 0 && perMs > 0) {
+    runsOutAt = new Date(until.getTime() + remaining / perMs);
+    if (window.periodEnd && runsOutAt >= window.periodEnd) runsOutAt = null;
+  }
+
+  return {
+    budget,
+    consumed: roundToTwoDecimals(consumed),
+    remaining: roundToTwoDecimals(remaining),
+    percent: calculatePercentage(consumed, budget),
+    projected: window.periodEnd
+      ? roundToTwoDecimals(
+          consumed +
+            perMs * Math.max(window.periodEnd.getTime() - until.getTime(), 0),
+        )
+      : null,
+    runsOutAt,
+  };
+}
+
+/**
+ * Work out how much of their current budget period the given projects have
+ * consumed, in hours tracked and in billable amount (before rounding, at
+ * the rates in effect when the time was tracked), with the consumption
+ * projected at the pace of the last four weeks. Projects without a budget
+ * are left out of the result.
+ */
+export async function getProjectBudgets(
+  projects: BudgetedProject[],
+  settings: UserPreferences,
+  now = new Date(),
+): Promise<Map<string, ProjectBudget>> {
+  const budgeted = projects.filter(hasBudget).map((project) => ({
+    project,
+    window: getBudgetWindow(project, settings, now),
+  }));
+  if (budgeted.length === 0) return new Map();
+
+  const timeEntries = await prisma.timeEntry.findMany({
+    where: {
+      deletedAt: null,
+      OR: budgeted.map(({ project, window }) => ({
+        projectId: project.id,
+        startedAt: {
+          ...(window.periodStart ? { gte: window.periodStart } : {}),
+          ...(window.periodEnd ? { lt: window.periodEnd } : {}),
+        },
+      })),
+    },
+    select: {
+      projectId: true,
+      startedAt: true,
+      endedAt: true,
+      isBillable: true,
+      task: { select: { hourlyRate: true } },
+    },
+  });
+
+  const rates = await prisma.rate.findMany({
+    where: {
+      OR: [
+        { projectId: { in: budgeted.map(({ project }) => project.id) } },
+        {
+          clientId: {
+            in: budgeted.flatMap(({ project }) =>
+              project.clientId ? [project.clientId] : [],
+            ),
+          },
+        },
+      ],
+    },
+  });
+
+  const budgets = new Map<string, ProjectBudget>();
+  for (const { project, window } of budgeted) {
+    const ratedProject = {
+      ...project,
+      rates: rates.filter((rate) => rate.projectId === project.id),
+      client: project.clientId
+        ? {
+            id: project.clientId,
+            rates: rates.filter((rate) => rate.clientId === project.clientId),
+          }
+        : null,
+    };
+    const paceStart = new Date(
+      Math.max(
+        subDays(now, PACE_DAYS).getTime(),
+        window.periodStart?.getTime() ?? 0,
+      ),
+    );
+    const totals = { hours: 0, amount: 0, recentHours: 0, recentAmount: 0 };
+
+    for (const entry of timeEntries) {
+      if (entry.projectId !== project.id) continue;
+
+      const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
+      const amount =
+        hours * getBillableHourlyRate({ ...entry, project: ratedProject });
+      totals.hours += hours;
+      totals.amount += amount;
+      if (entry.startedAt >= paceStart) {
+        totals.recentHours += hours;
+        totals.recentAmount += amount;
+      }
+    }
+
+    budgets.set(project.id, {
+      ...window,
+      hours: project.budgetHours
+        ? toUsage(
+            parseFloat(project.budgetHours.toString()),
+            totals.hours,
+            totals.recentHours,
+            paceStart,
+            window,
+            now,
+          )
+        : null,
+      amount: project.budgetAmount
+        ? toUsage(
+            parseFloat(project.budgetAmount.toString()),
+            totals.amount,
+            totals.recentAmount,
+            paceStart,
+            window,
+            now,
+          )
+        : null,
+    });
+  }
+
+  return budgets;
+}
+
+/**
+ * The projects of a user with a budget that are open for new time
+ */
+export function findBudgetedProjects(
+  userId: string,
+  filter: { clientId?: string } = {},
+): Promise<(Project & { client: Client | null })[]> {
+  return prisma.project.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      archivedAt: null,
+      ...(filter.clientId ? { clientId: filter.clientId } : {}),
+      OR: [{ budgetHours: { not: null } }, { budgetAmount: { not: null } }],
+    },
+    orderBy: { name: 'asc' },
+    include: {
+      client: true,
+    },
+  });
+}
+
+/**
+ * Record an alert for each threshold, in percent, that the budgets have
+ * reached. An alert is raised once per project, metric, threshold and
+ * budget period, so polling again does not repeat it.
+ */
+export async function raiseBudgetAlerts(
+  userId: string,
+  budgets: Map<string, ProjectBudget>,
+  thresholds: number[],
+): Promise<number> {
+  const alerts = [...budgets].flatMap(([projectId, budget]) =>
+    (['HOURS', 'AMOUNT'] as const).flatMap((metric) => {
+      const usage = metric === 'HOURS' ? budget.hours : budget.amount;
+      if (!usage) return [];
+
+      return thresholds
+        .filter((threshold) => usage.percent >= threshold)
+        .map((threshold) => ({
+          metric,
+          threshold,
+          periodKey: budget.periodKey,
+          consumed: usage.consumed.toString(),
+          budget: usage.budget.toString(),
+          userId,
+          projectId,
+        }));
+    }),
+  );
+  if (alerts.length === 0) return 0;
+
+  const { count } = await prisma.budgetAlert.createMany({
+    data: alerts,
+    skipDuplicates: true,
+  });
+  return count;
+}
@@ -0,0 +1,141 @@
+import { addDays, addMinutes, startOfDay } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+import type { BusinessHours } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import type { UserPreferences } from './settings.ts';
+
+export type BusinessDay = Pick<
+  BusinessHours,
+  'weekday' | 'startMinute' | 'endMinute'
+>;
+
+export interface BusinessHoursSplit {
+  businessHours: number;
+  afterHours: number; // Outside business hours on working days
+  weekendHours: number; // On days off
+}
+
+// Monday to Friday, 09:00 - 17:00
+export const DEFAULT_BUSINESS_HOURS: BusinessDay[] = [1, 2, 3, 4, 5].map(
+  (weekday) => ({ weekday, startMinute: 9 * 60, endMinute: 17 * 60 }),
+);
+
+/**
+ * Get the weekly schedule of a user, falling back to the default one for
+ * users who never saved any
+ */
+export async function getBusinessHours(userId: string): Promise<BusinessDay[]> {
+  const days = await prisma.businessHours.findMany({
+    where: { userId },
+    orderBy: { weekday: 'asc' },
+  });
+
+  return days.length > 0 ? days : DEFAULT_BUSINESS_HOURS;
+}
+
+/**
+ * Split the hours between two dates into business hours, after hours and
+ * weekend hours, going day by day on the user's wall clock
+ */
+export function splitBusinessHours(
+  startedAt: Date,
+  endedAt: Date,
+  schedule: BusinessDay[],
+  settings: Pick<UserPreferences, 'timeZone'>,
+): BusinessHoursSplit {
+  const split: BusinessHoursSplit = {
+    businessHours: 0,
+    afterHours: 0,
+    weekendHours: 0,
+  };
+  const { timeZone } = settings;
+  let cursor = startedAt;
+
+  while (cursor < endedAt) {
+    const day = startOfDay(toZonedTime(cursor, timeZone));
+    const nextDay = fromZonedTime(addDays(day, 1), timeZone);
+    const segmentEnd = nextDay < endedAt ? nextDay : endedAt;
+    const segmentMs = segmentEnd.getTime() - cursor.getTime();
+
+    const businessDay = schedule.find(
+      (entry) => entry.weekday === day.getDay(),
+    );
+    if (businessDay) {
+      const open = fromZonedTime(
+        addMinutes(day, businessDay.startMinute),
+        timeZone,
+      );
+      const close = fromZonedTime(
+        addMinutes(day, businessDay.endMinute),
+        timeZone,
+      );
+      const businessMs = Math.max(
+        0,
+        Math.min(segmentEnd.getTime(), close.getTime()) -
+          Math.max(cursor.getTime(), open.getTime()),
+      );
+      split.businessHours += toHours(businessMs);
+      split.afterHours += toHours(segmentMs - businessMs);
+    } else {
+      split.weekendHours += toHours(segmentMs);
+    }
+
+    cursor = segmentEnd;
+  }
+
+  return split;
+}
+
+/**
+ * Whether a time is within business hours on the user's wall clock
+ */
+export function isWithinBusinessHours(
+  at: Date,
+  schedule: BusinessDay[],
+  settings: Pick<UserPreferences, 'timeZone'>,
+): boolean {
+  const local = toZonedTime(at, settings.timeZone);
+  const businessDay = schedule.find(
+    (entry) => entry.weekday === local.getDay(),
+  );
+  if (!businessDay) return false;
+
+  const minute = local.getHours() * 60 + local.getMinutes();
+  return minute >= businessDay.startMinute && minute < businessDay.endMinute;
+}
+
+/**
+ * Describe a schedule for error messages, e.g. "Mon 09:00-17:00, Tue 09:00-17:00"
+ */
+export function describeBusinessHours(schedule: BusinessDay[]): string {
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return [...schedule]
+    .sort((a, b) => a.weekday - b.weekday)
+    .map(
+      (day) =>
+        `${names[day.weekday]} ${formatMinutes(day.startMinute)}-${formatMinutes(day.endMinute)}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Format minutes after midnight as HH:mm
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parse HH:mm (24:00 allowed for the end of the day) into minutes after midnight
+ */
+export function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toHours(ms: number): number {
+  return ms / (1000 * 60 * 60);
+}
@@ -1,10 +1,17 @@
-import type { Project, TimeEntry } from '@iworked/db';
+import type { Project, Rate, Task, TimeEntry } from '@iworked/db';
+
+import type { ProjectWithRateHistory, RatedProject } from './rates.ts';
+import { findRateAt } from './rates.ts';
 
 /**
- * Calculate duration in hours between two dates
+ * Calculate duration in hours between two dates.
+ * A missing end date means the timer is still running, so it counts until now.
  */
-export function calculateDurationHours(startedAt: Date, endedAt: Date): number {
-  const durationMs = endedAt.getTime() - startedAt.getTime();
+export function calculateDurationHours(
+  startedAt: Date,
+  endedAt: Date | null,
+): number {
+  const durationMs = (endedAt ?? new Date()).getTime() - startedAt.getTime();
   return durationMs / (1000 * 60 * 60);
 }
 
@@ -13,7 +20,7 @@ export function calculateDurationHours(startedAt: Date, endedAt: Date): number {
  */
 export function calculateTimeEntryAmount(
   startedAt: Date,
-  endedAt: Date,
+  endedAt: Date | null,
   hourlyRate: number,
 ): number {
   const hours = calculateDurationHours(startedAt, endedAt);
@@ -27,32 +34,82 @@ export function roundToTwoDecimals(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
+/**
+ * Get the hourly rate in effect when a time entry started. The rate of the
+ * entry's task, when it has one, overrides the project rate; the project
+ * rate comes from its rate history, and a project without a rate falls back
+ * on the rate history of its client.
+ */
+export function getHourlyRate(
+  entry: Pick<TimeEntry, 'startedAt'> & {
+    project: RatedProject;
+    task?: Pick<Task, 'hourlyRate'> | null;
+  },
+): Rate['hourlyRate'] | null {
+  return (
+    entry.task?.hourlyRate ??
+    findRateAt(entry.project.rates, entry.startedAt) ??
+    entry.project.hourlyRate ??
+    findRateAt(entry.project.client?.rates, entry.startedAt)
+  );
+}
+
+/**
+ * Get the hourly rate a time entry is worth; non-billable time is worth nothing.
+ * Time on projects not billed by the hour is worth nothing either.
+ */
+export function getBillableHourlyRate(
+  entry: Pick<TimeEntry, 'isBillable' | 'startedAt'> & {
+    project: RatedProject & Pick<Project, 'billingMode'>;
+    task?: Pick<Task, 'hourlyRate'> | null;
+  },
+): number {
+  const hourlyRate = getHourlyRate(entry);
+  if (
+    !entry.isBillable ||
+    entry.project.billingMode !== 'HOURLY' ||
+    !hourlyRate
+  ) {
+    return 0;
+  }
+  return parseFloat(hourlyRate.toString());
+}
+
 /**
  * Calculate totals for a set of time entries
  */
 export function calculateTimeEntriesTotals(
-  timeEntries: (TimeEntry & { project: Project })[],
+  timeEntries: (TimeEntry & {
+    project: ProjectWithRateHistory;
+    task?: Task | null;
+  })[],
 ): {
   totalHours: number;
+  billableHours: number;
+  nonBillableHours: number;
   totalAmount: number;
 } {
   const totals = timeEntries.reduce(
     (acc, entry) => {
       const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
-      const hourlyRate = entry.project.hourlyRate
-        ? parseFloat(entry.project.hourlyRate.toString())
-        : 0;
-      const amount = hours * hourlyRate;
+      const amount = hours * getBillableHourlyRate(entry);
 
       acc.totalHours += hours;
+      if (entry.isBillable) {
+        acc.billableHours += hours;
+      } else {
+        acc.nonBillableHours += hours;
+      }
       acc.totalAmount += amount;
       return acc;
     },
-    { totalHours: 0, totalAmount: 0 },
+    { totalHours: 0, billableHours: 0, nonBillableHours: 0, totalAmount: 0 },
   );
 
   return {
     totalHours: roundToTwoDecimals(totals.totalHours),
+    billableHours: roundToTwoDecimals(totals.billableHours),
+    nonBillableHours: roundToTwoDecimals(totals.nonBillableHours),
     totalAmount: roundToTwoDecimals(totals.totalAmount),
   };
 }
@@ -61,9 +118,7 @@ export function calculateTimeEntriesTotals(
  * Group time entries by project and calculate totals
  */
 export function groupTimeEntriesByProject(
-  timeEntries: (TimeEntry & {
-    project: Project & { client?: { id: string; name: string } };
-  })[],
+  timeEntries: (TimeEntry & { project: ProjectWithRateHistory })[],
 ): Record<
   string,
   {
@@ -71,7 +126,7 @@ export function groupTimeEntriesByProject(
     projectName: string;
     clientId?: string;
     clientName?: string;
-    hourlyRate: number;
+    hourlyRate: number | null; // Null when the time was tracked at several rates
     totalHours: number;
     totalAmount: number;
     timeEntryIds: string[];
@@ -81,11 +136,13 @@ export function groupTimeEntriesByProject(
     (acc, entry) => {
       const projectId = entry.project.id;
       const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
-      const hourlyRate = entry.project.hourlyRate
-        ? parseFloat(entry.project.hourlyRate.toString())
-        : 0;
-      const amount = hours * hourlyRate;
+      const rate = getHourlyRate(entry);
+      const hourlyRate = rate ? parseFloat(rate.toString()) : 0;
+      const amount = hours * getBillableHourlyRate(entry);
 
+      if (acc[projectId] && acc[projectId].hourlyRate !== hourlyRate) {
+        acc[projectId].hourlyRate = null;
+      }
       if (!acc[projectId]) {
         acc[projectId] = {
           projectId,
@@ -114,7 +171,7 @@ export function groupTimeEntriesByProject(
  */
 export function groupTimeEntriesByClient(
   timeEntries: (TimeEntry & {
-    project: Project & {
+    project: ProjectWithRateHistory & {
       client: { id: string; name: string };
     };
   })[],
@@ -144,10 +201,7 @@ export function groupTimeEntriesByClient(
       const projectName = entry.project.name;
 
       const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
-      const hourlyRate = entry.project.hourlyRate
-        ? parseFloat(entry.project.hourlyRate.toString())
-        : 0;
-      const amount = hours * hourlyRate;
+      const amount = hours * getBillableHourlyRate(entry);
 
       if (!acc[clientId]) {
         acc[clientId] = {
@@ -180,6 +234,33 @@ export function groupTimeEntriesByClient(
   );
 }
 
+/**
+ * Calculate invoice total, amount paid and outstanding balance from its lines and payments
+ */
+export function calculateInvoiceBalance(
+  invoiceLines: { amount: { toString(): string } }[],
+  payments: { amount: { toString(): string } }[],
+): {
+  totalAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+} {
+  const totalAmount = invoiceLines.reduce(
+    (sum, line) => sum + parseFloat(line.amount.toString()),
+    0,
+  );
+  const paidAmount = payments.reduce(
+    (sum, payment) => sum + parseFloat(payment.amount.toString()),
+    0,
+  );
+
+  return {
+    totalAmount: roundToTwoDecimals(totalAmount),
+    paidAmount: roundToTwoDecimals(paidAmount),
+    outstandingAmount: roundToTwoDecimals(totalAmount - paidAmount),
+  };
+}
+
 /**
  * Format hours for display (e.g., "2.5 hours", "1 hour")
  */
@@ -191,8 +272,12 @@ export function formatHours(hours: number): string {
 /**
  * Format currency amount
  */
-export function formatCurrency(amount: number, currency = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(
+  amount: number,
+  currency = 'USD',
+  locale = 'en-US',
+): string {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
   }).format(roundToTwoDecimals(amount));
@@ -0,0 +1,254 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import type {
+  CalendarMatchRule,
+  Client,
+  Invoice,
+  Project,
+  TimeEntry,
+} from '@iworked/db';
+
+import type { CalendarOccurrence } from './ics.ts';
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean; // Dates only, end exclusive
+  summary: string;
+  description?: string;
+  updatedAt: Date;
+}
+
+export interface CalendarEventMatch {
+  projectId: string | null;
+  clientId: string | null;
+  matchedBy: 'keyword' | 'domain' | null;
+  matchedValue: string | null; // Keyword or domain that matched
+}
+
+// Mail providers whose domain says nothing about the client
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'gmx.com',
+  'proton.me',
+  'protonmail.com',
+]);
+
+/**
+ * Generate a new calendar feed token along with the hash that is stored
+ */
+export function generateCalendarToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashCalendarToken(token) };
+}
+
+export function hashCalendarToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A time entry as a timed event. Running timers end now.
+ */
+export function timeEntryToEvent(
+  entry: TimeEntry & { project: Project & { client: Client | null } },
+  now = new Date(),
+): CalendarEvent {
+  const client = entry.project.client?.name;
+
+  return {
+    uid: `time-entry-${entry.id}@iworked`,
+    start: entry.startedAt,
+    end: entry.endedAt ?? now,
+    summary: `${entry.endedAt ? '' : '(Running) '}${entry.project.name}${client ? ` (${client})` : ''}`,
+    description: entry.note ?? undefined,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+/**
+ * The sent and paid milestones of an invoice as all-day events
+ */
+export function invoiceToEvents(
+  invoice: Invoice & { client: Client },
+): CalendarEvent[] {
+  const label = `Invoice ${invoice.invoiceNumber ?? invoice.id.slice(0, 8)}`;
+  const milestones = [
+    { key: 'sent', date: invoice.sentAt, summary: `${label} sent to` },
+    { key: 'paid', date: invoice.paidAt, summary: `${label} paid by` },
+  ];
+
+  return milestones
+    .filter(({ date }) => date)
+    .map(({ key, date, summary }) => {
+      const start = startOfUTCDay(date!);
+      return {
+        uid: `invoice-${invoice.id}-${key}@iworked`,
+        start,
+        end: new Date(start.getTime() + 24 * 60 * 60 * 1000),
+        allDay: true,
+        summary: `${summary} ${invoice.client.name}`,
+        updatedAt: invoice.updatedAt,
+      };
+    });
+}
+
+/**
+ * Render events as an iCalendar document (RFC 5545)
+ */
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//iworked//Time Tracking//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+      event.allDay
+        ? `DTSTART;VALUE=DATE:${formatDate(event.start)}`
+        : `DTSTART:${formatDateTime(event.start)}`,
+      event.allDay
+        ? `DTEND;VALUE=DATE:${formatDate(event.end)}`
+        : `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  // Content lines end with CRLF, including the last one
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape TEXT values: backslashes, semicolons, commas and line breaks
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets, continuing them on lines that start with
+ * a space. Multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+/**
+ * Find the project of a calendar event: by the longest keyword rule found in
+ * its summary, otherwise by comparing the attendees' email domains with each
+ * client's email. A client matched by domain only gives a project when it has
+ * exactly one; otherwise the client is suggested and the project left open.
+ */
+export function matchCalendarEvent(
+  event: Pick<CalendarOccurrence, 'summary' | 'attendees'>,
+  rules: (Pick<CalendarMatchRule, 'keyword' | 'projectId'> & {
+    project: Pick<Project, 'clientId'>;
+  })[],
+  clients: (Pick<Client, 'id' | 'email'> & {
+    projects: Pick<Project, 'id'>[];
+  })[],
+  ownDomain?: string,
+): CalendarEventMatch {
+  const summary = event.summary.toLowerCase();
+  const rule = rules
+    .filter((rule) => summary.includes(rule.keyword.toLowerCase()))
+    .sort((a, b) => b.keyword.length - a.keyword.length)[0];
+  if (rule) {
+    return {
+      projectId: rule.projectId,
+      clientId: rule.project.clientId,
+      matchedBy: 'keyword',
+      matchedValue: rule.keyword,
+    };
+  }
+
+  const domains = new Set(
+    event.attendees
+      .map(getEmailDomain)
+      .filter((domain) => domain && domain !== ownDomain),
+  );
+  for (const client of clients) {
+    const domain = client.email ? getEmailDomain(client.email) : null;
+    if (!domain || PUBLIC_EMAIL_DOMAINS.has(domain) || !domains.has(domain)) {
+      continue;
+    }
+    return {
+      projectId: client.projects.length === 1 ? client.projects[0].id : null,
+      clientId: client.id,
+      matchedBy: 'domain',
+      matchedValue: domain,
+    };
+  }
+
+  return {
+    projectId: null,
+    clientId: null,
+    matchedBy: null,
+    matchedValue: null,
+  };
+}
+
+export function getEmailDomain(email: string): string | null {
+  const domain = email.split('@')[1]?.trim().toLowerCase();
+  return domain || null;
+}
@@ -2,11 +2,23 @@ import type {
   Client,
   Invoice,
   InvoiceLine,
+  Payment,
   Project,
+  Task,
   TimeEntry,
 } from '@iworked/db';
 
-import { calculateDurationHours, roundToTwoDecimals } from './calculations.ts';
+import {
+  calculateDurationHours,
+  calculateInvoiceBalance,
+  getBillableHourlyRate,
+  getHourlyRate,
+  roundToTwoDecimals,
+} from './calculations.ts';
+import type { ProjectWithRateHistory } from './rates.ts';
+import { resolveRoundingPolicy, roundEntryHours } from './rounding.ts';
+import type { UserPreferences } from './settings.ts';
+import { formatUserDate, formatUserDateTime } from './settings.ts';
 
 /**
  * Convert array of objects to CSV format
@@ -27,11 +39,8 @@ export function arrayToCSV<T extends Record<string, any>>(
     headers
       .map((header) => {
         const value = item[header.key];
-        // Escape commas and quotes in CSV
-        if (
-          typeof value === 'string' &&
-          (value.includes(',') || value.includes('"'))
-        ) {
+        // Escape commas, quotes and line breaks in CSV
+        if (typeof value === 'string' && /[",\r\n]/.test(value)) {
           return `"${value.replace(/"/g, '""')}"`;
         }
         return value ?? '';
@@ -47,40 +56,49 @@ export function arrayToCSV<T extends Record<string, any>>(
  */
 export function exportTimeEntriesToCSV(
   timeEntries: (TimeEntry & {
-    project: Project & {
-      client: Client | null;
-    };
+    project: ProjectWithRateHistory;
+    task?: Task | null;
   })[],
+  settings: UserPreferences,
 ): string {
   const headers = [
     { key: 'startedAt' as const, label: 'Start Date/Time' },
     { key: 'endedAt' as const, label: 'End Date/Time' },
     { key: 'duration' as const, label: 'Duration (Hours)' },
+    { key: 'roundedDuration' as const, label: 'Rounded Duration (Hours)' },
     { key: 'clientName' as const, label: 'Client' },
     { key: 'projectName' as const, label: 'Project' },
     { key: 'hourlyRate' as const, label: 'Hourly Rate' },
     { key: 'amount' as const, label: 'Amount' },
     { key: 'note' as const, label: 'Note' },
+    { key: 'isBillable' as const, label: 'Billable' },
     { key: 'isLocked' as const, label: 'Locked' },
   ];
 
   const csvData = timeEntries.map((entry) => {
     const duration = calculateDurationHours(entry.startedAt, entry.endedAt);
-    const hourlyRate = entry.project.hourlyRate
-      ? parseFloat(entry.project.hourlyRate.toString())
-      : 0;
-    const amount = duration * hourlyRate;
+    const rate = getHourlyRate(entry);
+    const hourlyRate = rate ? parseFloat(rate.toString()) : 0;
+    const roundedDuration = roundEntryHours(
+      duration,
+      resolveRoundingPolicy(entry.project, entry.project.client),
+    );
+    const amount = roundedDuration * getBillableHourlyRate(entry);
 
     return {
-      startedAt: entry.startedAt.toISOString(),
-      endedAt: entry.endedAt.toISOString(),
+      // Offsets are kept so the file can be imported again
+      startedAt: formatUserDateTime(entry.startedAt, settings),
+      // Running timers have no end yet; their duration is counted until now
+      endedAt: entry.endedAt ? formatUserDateTime(entry.endedAt, settings) : '',
       duration: roundToTwoDecimals(duration),
+      roundedDuration,
       clientName: entry.project.client?.name || 'No Client',
       projectName: entry.project.name,
       hourlyRate: roundToTwoDecimals(hourlyRate),
       amount: roundToTwoDecimals(amount),
       note: entry.note || '',
-      isLocked: entry.isLocked ? 'Yes' : 'No',
+      isBillable: entry.isBillable ? 'Yes' : 'No',
+      isLocked: entry.invoiceId ? 'Yes' : 'No',
     };
   });
 
@@ -94,7 +112,9 @@ export function exportInvoicesToCSV(
   invoices: (Invoice & {
     client: Client;
     invoiceLines: (InvoiceLine & { project: Project })[];
+    payments: Payment[];
   })[],
+  settings: UserPreferences,
 ): string {
   const headers = [
     { key: 'invoiceNumber' as const, label: 'Invoice Number' },
@@ -102,16 +122,30 @@ export function exportInvoicesToCSV(
     { key: 'status' as const, label: 'Status' },
     { key: 'dateFrom' as const, label: 'Period From' },
     { key: 'dateTo' as const, label: 'Period To' },
+    { key: 'trackedHours' as const, label: 'Tracked Hours' },
+    { key: 'billedHours' as const, label: 'Billed Hours' },
     { key: 'totalAmount' as const, label: 'Total Amount' },
     { key: 'sentAt' as const, label: 'Sent Date' },
     { key: 'paidAt' as const, label: 'Paid Date' },
     { key: 'paidAmount' as const, label: 'Paid Amount' },
+    { key: 'outstandingAmount' as const, label: 'Outstanding Amount' },
     { key: 'createdAt' as const, label: 'Created Date' },
   ];
 
   const csvData = invoices.map((invoice) => {
-    const totalAmount = invoice.invoiceLines.reduce(
-      (sum, line) => sum + parseFloat(line.amount.toString()),
+    const { totalAmount, paidAmount, outstandingAmount } =
+      calculateInvoiceBalance(invoice.invoiceLines, invoice.payments);
+    // Milestone lines bill one unit each, not hours
+    const hourLines = invoice.invoiceLines.filter(
+      (line) => line.milestoneId === null,
+    );
+    // Lines without raw hours were entered by hand or predate rounding
+    const trackedHours = hourLines.reduce(
+      (sum, line) => sum + parseFloat((line.rawHours ?? line.hours).toString()),
+      0,
+    );
+    const billedHours = hourLines.reduce(
+      (sum, line) => sum + parseFloat(line.hours.toString()),
       0,
     );
 
@@ -119,15 +153,16 @@ export function exportInvoicesToCSV(
       invoiceNumber: invoice.invoiceNumber || invoice.id.substring(0, 8), // Use invoiceNumber field, fallback to ID
       clientName: invoice.client.name,
       status: invoice.status,
-      dateFrom: invoice.dateFrom.toISOString().split('T')[0],
-      dateTo: invoice.dateTo.toISOString().split('T')[0],
-      totalAmount: roundToTwoDecimals(totalAmount),
-      sentAt: invoice.sentAt?.toISOString().split('T')[0] || '',
-      paidAt: invoice.paidAt?.toISOString().split('T')[0] || '',
-      paidAmount: invoice.paidAmount
-        ? roundToTwoDecimals(parseFloat(invoice.paidAmount.toString()))
-        : '',
-      createdAt: invoice.createdAt.toISOString().split('T')[0],
+      dateFrom: formatUserDate(invoice.dateFrom, settings),
+      dateTo: formatUserDate(invoice.dateTo, settings),
+      trackedHours: roundToTwoDecimals(trackedHours),
+      billedHours: roundToTwoDecimals(billedHours),
+      totalAmount,
+      sentAt: invoice.sentAt ? formatUserDate(invoice.sentAt, settings) : '',
+      paidAt: invoice.paidAt ? formatUserDate(invoice.paidAt, settings) : '',
+      paidAmount: invoice.payments.length > 0 ? paidAmount : '',
+      outstandingAmount: invoice.status === 'DRAFT' ? '' : outstandingAmount,
+      createdAt: formatUserDate(invoice.createdAt, settings),
     };
   });
 
@@ -0,0 +1,314 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseICS } from './ics.ts';
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+
+const starts = (content: string, from: string, to: string, zone?: string) =>
+  parseICS(content, { from: new Date(from), to: new Date(to) }, zone).map(
+    (occurrence) => occurrence.startedAt.toISOString(),
+  );
+
+// Outlook names zones after Windows and defines them in a VTIMEZONE
+const WINDOWS_ZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:W. Europe Standard Time',
+  'BEGIN:STANDARD',
+  'DTSTART:16010101T030000',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10',
+  'END:STANDARD',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:16010101T020000',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3',
+  'END:DAYLIGHT',
+  'END:VTIMEZONE',
+];
+
+describe('iCalendar parsing', () => {
+  describe('Events', () => {
+    it('should read a timed event with its details', () => {
+      const [occurrence] = parseICS(
+        calendar(
+          ...event(
+            'UID:standup@example.com',
+            'DTSTART:20250602T090000Z',
+            'DTEND:20250602T091500Z',
+            'SUMMARY:Standup\\, daily',
+            'ORGANIZER:mailto:Lead@Example.com',
+            'ATTENDEE;CN=Dev:mailto:dev@example.com',
+          ),
+        ),
+        {
+          from: new Date('2025-06-01T00:00:00Z'),
+          to: new Date('2025-06-30T00:00:00Z'),
+        },
+      );
+
+      assert.strictEqual(occurrence.uid, 'standup@example.com');
+      assert.strictEqual(occurrence.summary, 'Standup, daily');
+      assert.strictEqual(
+        occurrence.startedAt.toISOString(),
+        '2025-06-02T09:00:00.000Z',
+      );
+      assert.strictEqual(
+        occurrence.endedAt.toISOString(),
+        '2025-06-02T09:15:00.000Z',
+      );
+      assert.deepStrictEqual(occurrence.attendees, [
+        'lead@example.com',
+        'dev@example.com',
+      ]);
+    });
+
+    it('should leave out all-day and cancelled events', () => {
+      const content = calendar(
+        ...event(
+          'UID:holiday',
+          'DTSTART;VALUE=DATE:20250602',
+          'DTEND;VALUE=DATE:20250603',
+        ),
+        ...event(
+          'UID:cancelled',
+          'DTSTART:20250602T100000Z',
+          'DTEND:20250602T110000Z',
+          'STATUS:CANCELLED',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-06-30T00:00:00Z'),
+        [],
+      );
+    });
+
+    it('should reject a file without a calendar', () => {
+      assert.throws(
+        () =>
+          parseICS('BEGIN:VEVENT\r\nEND:VEVENT', {
+            from: new Date('2025-06-01T00:00:00Z'),
+            to: new Date('2025-06-30T00:00:00Z'),
+          }),
+        { message: 'Not an iCalendar file' },
+      );
+    });
+  });
+
+  describe('Recurrence rules', () => {
+    it('should expand a weekly rule on several days up to its count', () => {
+      const content = calendar(
+        ...event(
+          'UID:sync',
+          'DTSTART:20250602T140000Z',
+          'DURATION:PT30M',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-07-01T00:00:00Z'),
+        [
+          '2025-06-02T14:00:00.000Z',
+          '2025-06-04T14:00:00.000Z',
+          '2025-06-09T14:00:00.000Z',
+        ],
+      );
+    });
+
+    it('should stop at UNTIL', () => {
+      const content = calendar(
+        ...event(
+          'UID:daily',
+          'DTSTART:20250602T080000Z',
+          'DTEND:20250602T083000Z',
+          'RRULE:FREQ=DAILY;INTERVAL=2;UNTIL=20250606T080000Z',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-07-01T00:00:00Z'),
+        [
+          '2025-06-02T08:00:00.000Z',
+          '2025-06-04T08:00:00.000Z',
+          '2025-06-06T08:00:00.000Z',
+        ],
+      );
+    });
+
+    it('should expand monthly rules on the nth weekday and last day', () => {
+      const content = calendar(
+        ...event(
+          'UID:review',
+          'DTSTART:20250107T100000Z',
+          'DURATION:PT1H',
+          'RRULE:FREQ=MONTHLY;BYDAY=1TU',
+        ),
+        ...event(
+          'UID:close',
+          'DTSTART:20250131T160000Z',
+          'DURATION:PT1H',
+          'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-02-01T00:00:00Z', '2025-04-01T00:00:00Z'),
+        [
+          '2025-02-04T10:00:00.000Z',
+          '2025-02-28T16:00:00.000Z',
+          '2025-03-04T10:00:00.000Z',
+          '2025-03-31T16:00:00.000Z',
+        ],
+      );
+    });
+
+    it('should find the occurrences of a rule that started years before the range', () => {
+      const content = calendar(
+        ...event(
+          'UID:old',
+          'DTSTART:20000103T090000Z',
+          'DURATION:PT1H',
+          'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO',
+        ),
+      );
+
+      // Every other Monday from 3 January 2000 lands on 2 June 2025
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-06-20T00:00:00Z'),
+        ['2025-06-02T09:00:00.000Z', '2025-06-16T09:00:00.000Z'],
+      );
+    });
+
+    it('should count the occurrences before the range towards COUNT', () => {
+      const content = calendar(
+        ...event(
+          'UID:limited',
+          'DTSTART:20250601T090000Z',
+          'DURATION:PT1H',
+          'RRULE:FREQ=DAILY;COUNT=5',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-04T00:00:00Z', '2025-06-30T00:00:00Z'),
+        ['2025-06-04T09:00:00.000Z', '2025-06-05T09:00:00.000Z'],
+      );
+    });
+  });
+
+  describe('Exceptions', () => {
+    it('should leave out EXDATEs', () => {
+      const content = calendar(
+        ...event(
+          'UID:daily',
+          'DTSTART;TZID=Europe/Berlin:20250602T090000',
+          'DURATION:PT1H',
+          'RRULE:FREQ=DAILY;COUNT=4',
+          'EXDATE;TZID=Europe/Berlin:20250603T090000,20250604T090000',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-06-30T00:00:00Z'),
+        ['2025-06-02T07:00:00.000Z', '2025-06-05T07:00:00.000Z'],
+      );
+    });
+
+    it('should replace a modified instance', () => {
+      const content = calendar(
+        ...event(
+          'UID:weekly',
+          'DTSTART:20250602T090000Z',
+          'DURATION:PT1H',
+          'RRULE:FREQ=WEEKLY;COUNT=2',
+        ),
+        ...event(
+          'UID:weekly',
+          'RECURRENCE-ID:20250609T090000Z',
+          'DTSTART:20250610T130000Z',
+          'DURATION:PT1H',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-06-01T00:00:00Z', '2025-06-30T00:00:00Z'),
+        ['2025-06-02T09:00:00.000Z', '2025-06-10T13:00:00.000Z'],
+      );
+    });
+  });
+
+  describe('Time zones', () => {
+    it('should read IANA zones across a daylight saving change', () => {
+      const content = calendar(
+        ...event(
+          'UID:weekly',
+          'DTSTART;TZID=Europe/Berlin:20250321T090000',
+          'DURATION:PT1H',
+          'RRULE:FREQ=WEEKLY;COUNT=2',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-03-01T00:00:00Z', '2025-04-01T00:00:00Z'),
+        ['2025-03-21T08:00:00.000Z', '2025-03-28T08:00:00.000Z'],
+      );
+      assert.deepStrictEqual(
+        starts(
+          content.replace('20250321T090000', '20250328T090000'),
+          '2025-03-01T00:00:00Z',
+          '2025-04-30T00:00:00Z',
+        ),
+        ['2025-03-28T08:00:00.000Z', '2025-04-04T07:00:00.000Z'],
+      );
+    });
+
+    it('should read other zone names through their VTIMEZONE', () => {
+      const content = calendar(
+        ...WINDOWS_ZONE,
+        ...event(
+          'UID:weekly',
+          'DTSTART;TZID=W. Europe Standard Time:20250328T090000',
+          'DURATION:PT1H',
+          'RRULE:FREQ=WEEKLY;COUNT=2',
+        ),
+        ...event(
+          'UID:autumn',
+          'DTSTART;TZID=W. Europe Standard Time:20251027T090000',
+          'DURATION:PT1H',
+        ),
+      );
+
+      assert.deepStrictEqual(
+        starts(content, '2025-03-01T00:00:00Z', '2025-12-31T00:00:00Z'),
+        [
+          '2025-03-28T08:00:00.000Z',
+          '2025-04-04T07:00:00.000Z',
+          '2025-10-27T08:00:00.000Z',
+        ],
+      );
+    });
+
+    it('should read floating times in the default time zone', () => {
+      const content = calendar(
+        ...event('UID:floating', 'DTSTART:20250602T090000', 'DURATION:PT1H'),
+      );
+
+      assert.deepStrictEqual(
+        starts(
+          content,
+          '2025-06-01T00:00:00Z',
+          '2025-06-30T00:00:00Z',
+          'America/New_York',
+        ),
+        ['2025-06-02T13:00:00.000Z'],
+      );
+    });
+  });
+});
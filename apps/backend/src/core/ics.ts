@@ -0,0 +1,726 @@
+import { fromZonedTime } from 'date-fns-tz';
+import { HTTPException } from 'hono/http-exception';
+
+import { isIanaTimeZone } from './settings.ts';
+
+/**
+ * One occurrence of a timed calendar event
+ */
+export interface CalendarOccurrence {
+  id: string; // Event UID and the start of the occurrence
+  uid: string;
+  summary: string;
+  description?: string;
+  attendees: string[]; // Email addresses of the organizer and attendees
+  startedAt: Date;
+  endedAt: Date;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string; // Raw UNTIL value, resolved in the zone of the event
+  byDay: { weekday: number; n?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+interface Observance {
+  onset: Date; // Wall clock time the offset starts to apply
+  rule?: RecurrenceRule;
+  offset: number; // Minutes east of UTC
+}
+
+interface Transition {
+  onset: Date; // Wall clock time the offset starts to apply
+  offset: number; // Minutes east of UTC
+}
+
+interface TimeZoneDefinition {
+  observances: Observance[];
+  transitions: Transition[]; // Onsets of all observances in order
+  expandedUntil: Date | null; // Wall clock time the transitions are known to
+}
+
+interface ZoneContext {
+  timeZones: Map<string, TimeZoneDefinition>; // VTIMEZONE definitions by TZID
+  defaultTimeZone: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an iCalendar file (RFC 5545) into the occurrences of its timed events
+ * within a range. Recurring events are expanded (FREQ, INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH) with their EXDATEs and modified instances.
+ * Times are read in their TZID: IANA zones directly, other names through the
+ * VTIMEZONE in the file, and floating times in the default time zone.
+ * All-day and cancelled events are left out.
+ */
+export function parseICS(
+  content: string,
+  range: { from: Date; to: Date },
+  defaultTimeZone = 'UTC',
+): CalendarOccurrence[] {
+  const calendar = parseComponents(content).find(
+    (component) => component.name === 'VCALENDAR',
+  );
+  if (!calendar) {
+    throw new HTTPException(400, {
+      message: 'Not an iCalendar file',
+      cause: {
+        code: 'api/invalid-ics',
+        detail: 'The file has no VCALENDAR component',
+      },
+    });
+  }
+
+  const context: ZoneContext = {
+    timeZones: readTimeZones(calendar),
+    defaultTimeZone,
+  };
+  const events = calendar.components.filter(
+    (component) => component.name === 'VEVENT',
+  );
+
+  // Modified instances of recurring events replace the generated occurrence
+  const overrides = new Map<string, Set<number>>();
+  for (const event of events) {
+    const recurrenceId = getProperty(event, 'RECURRENCE-ID');
+    const uid = getProperty(event, 'UID')?.value;
+    if (!recurrenceId || !uid) continue;
+    const instant = readDateTime(recurrenceId, context);
+    if (!instant) continue;
+    if (!overrides.has(uid)) overrides.set(uid, new Set());
+    overrides.get(uid)!.add(instant.getTime());
+  }
+
+  return events
+    .flatMap((event) => expandEvent(event, range, context, overrides))
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
+
+function expandEvent(
+  event: IcsComponent,
+  range: { from: Date; to: Date },
+  context: ZoneContext,
+  overrides: Map<string, Set<number>>,
+): CalendarOccurrence[] {
+  const dtstart = getProperty(event, 'DTSTART');
+  if (
+    !dtstart ||
+    isDateValue(dtstart) ||
+    getProperty(event, 'STATUS')?.value.toUpperCase() === 'CANCELLED'
+  ) {
+    return [];
+  }
+
+  const startedAt = readDateTime(dtstart, context);
+  if (!startedAt) return [];
+
+  const dtend = getProperty(event, 'DTEND');
+  const duration = getProperty(event, 'DURATION');
+  const endedAt = dtend
+    ? readDateTime(dtend, context)
+    : duration
+      ? new Date(startedAt.getTime() + parseDuration(duration.value))
+      : null;
+  if (!endedAt || endedAt <= startedAt) return [];
+
+  const uid = getProperty(event, 'UID')?.value ?? `${startedAt.getTime()}`;
+  const details = {
+    uid,
+    summary: unescapeText(getProperty(event, 'SUMMARY')?.value ?? ''),
+    description: getProperty(event, 'DESCRIPTION')
+      ? unescapeText(getProperty(event, 'DESCRIPTION')!.value)
+      : undefined,
+    attendees: event.properties
+      .filter((p) => p.name === 'ATTENDEE' || p.name === 'ORGANIZER')
+      .map((p) => p.value.replace(/^mailto:/i, '').toLowerCase())
+      .filter((email) => email.includes('@')),
+  };
+  const occurrence = (start: Date): CalendarOccurrence => ({
+    id: `${uid}/${start.toISOString()}`,
+    ...details,
+    startedAt: start,
+    endedAt: new Date(
+      start.getTime() + endedAt.getTime() - startedAt.getTime(),
+    ),
+  });
+  const inRange = (start: Date, end: Date) =>
+    start < range.to && end > range.from;
+
+  const rrule = getProperty(event, 'RRULE');
+  if (!rrule || getProperty(event, 'RECURRENCE-ID')) {
+    return inRange(startedAt, endedAt) ? [occurrence(startedAt)] : [];
+  }
+
+  const rule = parseRecurrenceRule(rrule.value);
+  const tzid = dtstart.value.endsWith('Z') ? 'UTC' : dtstart.params.TZID;
+  const until = rule.until
+    ? readDateTime(
+        {
+          name: 'UNTIL',
+          params: tzid ? { TZID: tzid } : {},
+          value: rule.until,
+        },
+        context,
+      )
+    : null;
+  const excluded = new Set([
+    ...(overrides.get(uid) ?? []),
+    ...event.properties
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) =>
+        p.value
+          .split(',')
+          .map((value) => readDateTime({ ...p, value }, context)?.getTime()),
+      ),
+  ]);
+
+  const occurrences: CalendarOccurrence[] = [];
+  // Wall clock limits, a couple of days around the range to cover any offset
+  const limit = new Date(range.to.getTime() + 2 * DAY_MS);
+  const from = new Date(
+    range.from.getTime() -
+      (endedAt.getTime() - startedAt.getTime()) -
+      2 * DAY_MS,
+  );
+  let generated = 0;
+
+  // Occurrences before the range are only generated when COUNT needs them
+  for (const local of expandRule(
+    parseLocal(dtstart.value)!,
+    rule,
+    limit,
+    rule.count ? undefined : from,
+  )) {
+    generated++;
+    if (rule.count && generated > rule.count) break;
+    if (local < from) continue;
+
+    const start = toInstant(local, tzid, context);
+    if ((until && start > until) || start >= range.to) break;
+    if (excluded.has(start.getTime())) continue;
+
+    const next = occurrence(start);
+    if (inRange(next.startedAt, next.endedAt)) {
+      occurrences.push(next);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Generate the wall clock starts of a recurrence rule in order, from its
+ * first occurrence until a period starts after the limit. Periods that end
+ * before the given wall clock time are skipped.
+ */
+function* expandRule(
+  start: Date,
+  rule: RecurrenceRule,
+  limit: Date,
+  from?: Date,
+): Generator<Date> {
+  const startDay = startOfDay(start);
+  const timeOfDay = start.getTime() - startDay.getTime();
+  const firstPeriod = from ? periodsBefore(startDay, rule, from) : 0;
+
+  for (let period = firstPeriod; ; period++) {
+    const { anchor, dates } = periodDates(startDay, rule, period);
+    if (anchor > limit) return;
+
+    for (const date of dates) {
+      const occurrence = new Date(date.getTime() + timeOfDay);
+      if (occurrence >= start) {
+        yield occurrence;
+      }
+    }
+  }
+}
+
+/**
+ * The number of whole periods of a recurrence rule that end before a date
+ */
+function periodsBefore(
+  startDay: Date,
+  rule: RecurrenceRule,
+  date: Date,
+): number {
+  const day = startOfDay(date);
+  let periods: number;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      periods = (day.getTime() - startDay.getTime()) / DAY_MS;
+      break;
+    case 'WEEKLY': {
+      const weekStart =
+        startDay.getTime() - ((startDay.getUTCDay() + 6) % 7) * DAY_MS;
+      periods = (day.getTime() - weekStart) / (7 * DAY_MS);
+      break;
+    }
+    case 'MONTHLY':
+      periods =
+        (day.getUTCFullYear() - startDay.getUTCFullYear()) * 12 +
+        day.getUTCMonth() -
+        startDay.getUTCMonth();
+      break;
+    case 'YEARLY':
+      periods = day.getUTCFullYear() - startDay.getUTCFullYear();
+      break;
+  }
+
+  return Math.max(0, Math.floor(periods / rule.interval));
+}
+
+/**
+ * The dates of one period of a recurrence rule: a day, week, month or year
+ * depending on its frequency
+ */
+function periodDates(
+  startDay: Date,
+  rule: RecurrenceRule,
+  period: number,
+): { anchor: Date; dates: Date[] } {
+  const step = period * rule.interval;
+  const year = startDay.getUTCFullYear();
+  const month = startDay.getUTCMonth();
+  const inMonths = (date: Date) =>
+    rule.byMonth.length === 0 || rule.byMonth.includes(date.getUTCMonth() + 1);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(startDay.getTime() + step * DAY_MS);
+      const matches =
+        inMonths(day) &&
+        (rule.byMonthDay.length === 0 ||
+          monthDays(day, rule.byMonthDay).includes(day.getUTCDate())) &&
+        (rule.byDay.length === 0 ||
+          rule.byDay.some((d) => d.weekday === day.getUTCDay()));
+      return { anchor: day, dates: matches ? [day] : [] };
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const weekStart = new Date(
+        startDay.getTime() -
+          ((startDay.getUTCDay() + 6) % 7) * DAY_MS +
+          step * 7 * DAY_MS,
+      );
+      const weekdays =
+        rule.byDay.length > 0
+          ? rule.byDay.map((d) => d.weekday)
+          : [startDay.getUTCDay()];
+      const dates = weekdays
+        .map(
+          (weekday) =>
+            new Date(weekStart.getTime() + ((weekday + 6) % 7) * DAY_MS),
+        )
+        .filter(inMonths)
+        .sort((a, b) => a.getTime() - b.getTime());
+      return { anchor: weekStart, dates };
+    }
+    case 'MONTHLY': {
+      const anchor = new Date(Date.UTC(year, month + step, 1));
+      return {
+        anchor,
+        dates: inMonths(anchor) ? datesInMonth(anchor, rule, startDay) : [],
+      };
+    }
+    case 'YEARLY': {
+      const anchor = new Date(Date.UTC(year + step, 0, 1));
+      const months =
+        rule.byMonth.length > 0 ? rule.byMonth.map((m) => m - 1) : [month];
+      return {
+        anchor,
+        dates: months
+          .sort((a, b) => a - b)
+          .flatMap((m) =>
+            datesInMonth(new Date(Date.UTC(year + step, m, 1)), rule, startDay),
+          ),
+      };
+    }
+  }
+}
+
+/**
+ * The dates of a month matching BYDAY (with optional ordinals) and
+ * BYMONTHDAY, or the day of month of the first occurrence without either
+ */
+function datesInMonth(
+  monthStart: Date,
+  rule: RecurrenceRule,
+  startDay: Date,
+): Date[] {
+  const length = daysInMonth(monthStart);
+  const at = (day: number) =>
+    new Date(monthStart.getTime() + (day - 1) * DAY_MS);
+
+  let days: number[];
+  if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(({ weekday, n }) => {
+      const matching = Array.from({ length }, (_, i) => i + 1).filter(
+        (day) => at(day).getUTCDay() === weekday,
+      );
+      if (!n) return matching;
+      const pick = n > 0 ? matching[n - 1] : matching[matching.length + n];
+      return pick ? [pick] : [];
+    });
+    if (rule.byMonthDay.length > 0) {
+      const allowed = monthDays(monthStart, rule.byMonthDay);
+      days = days.filter((day) => allowed.includes(day));
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    days = monthDays(monthStart, rule.byMonthDay);
+  } else {
+    days = startDay.getUTCDate() <= length ? [startDay.getUTCDate()] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b).map(at);
+}
+
+/**
+ * BYMONTHDAY values as days of the month of the given date; negative values
+ * count from the end
+ */
+function monthDays(date: Date, byMonthDay: number[]): number[] {
+  const length = daysInMonth(date);
+  return byMonthDay
+    .map((day) => (day < 0 ? length + day + 1 : day))
+    .filter((day) => day >= 1 && day <= length);
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    }),
+  );
+  const list = (key: string) =>
+    parts[key] ? String(parts[key]).split(',').filter(Boolean) : [];
+
+  const freq = String(parts.FREQ ?? '').toUpperCase();
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new HTTPException(400, {
+      message: 'Unsupported recurrence rule',
+      cause: {
+        code: 'api/invalid-ics',
+        detail: `Recurrence frequency "${freq}" is not supported`,
+      },
+    });
+  }
+
+  return {
+    freq: freq as RecurrenceRule['freq'],
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL,
+    byDay: list('BYDAY')
+      .map((day) => /^([+-]?\d+)?([A-Z]{2})$/.exec(day.toUpperCase()))
+      .filter((match) => match && WEEKDAYS.includes(match[2]))
+      .map((match) => ({
+        weekday: WEEKDAYS.indexOf(match![2]),
+        n: match![1] ? Number(match![1]) : undefined,
+      })),
+    byMonthDay: list('BYMONTHDAY').map(Number).filter(Number.isInteger),
+    byMonth: list('BYMONTH').map(Number).filter(Number.isInteger),
+  };
+}
+
+/**
+ * Read the STANDARD and DAYLIGHT observances of every VTIMEZONE, used for
+ * TZIDs that are not IANA zone names (e.g. Windows zone names from Outlook)
+ */
+function readTimeZones(
+  calendar: IcsComponent,
+): Map<string, TimeZoneDefinition> {
+  const timeZones = new Map<string, TimeZoneDefinition>();
+
+  for (const zone of calendar.components) {
+    const tzid = zone.name === 'VTIMEZONE' && getProperty(zone, 'TZID')?.value;
+    if (!tzid) continue;
+
+    const observances = zone.components.flatMap((observance) => {
+      const onset = parseLocal(getProperty(observance, 'DTSTART')?.value ?? '');
+      const offset = parseUtcOffset(
+        getProperty(observance, 'TZOFFSETTO')?.value ?? '',
+      );
+      if (!onset || offset === null) return [];
+      const rrule = getProperty(observance, 'RRULE');
+      return [
+        {
+          onset,
+          offset,
+          rule: rrule ? parseRecurrenceRule(rrule.value) : undefined,
+        },
+      ];
+    });
+
+    timeZones.set(tzid, { observances, transitions: [], expandedUntil: null });
+  }
+
+  return timeZones;
+}
+
+/**
+ * The offset in effect at a wall clock time: that of the observance with the
+ * latest onset before it. The onsets of the observances are expanded once,
+ * a year past the latest time asked for, and again only for later times.
+ */
+function observanceOffset(zone: TimeZoneDefinition, local: Date): number {
+  if (!zone.expandedUntil || zone.expandedUntil < local) {
+    const limit = new Date(local.getTime() + 366 * DAY_MS);
+    zone.transitions = zone.observances
+      .flatMap(({ onset, rule, offset }) =>
+        rule
+          ? observanceOnsets(onset, rule, limit).map((date) => ({
+              onset: date,
+              offset,
+            }))
+          : [{ onset, offset }],
+      )
+      .sort((a, b) => a.onset.getTime() - b.onset.getTime());
+    zone.expandedUntil = limit;
+  }
+
+  // Binary search for the last transition at or before the time
+  const { transitions } = zone;
+  let low = 0;
+  let high = transitions.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (transitions[middle].onset <= local) low = middle + 1;
+    else high = middle;
+  }
+
+  return low > 0
+    ? transitions[low - 1].offset
+    : (zone.observances[0]?.offset ?? 0);
+}
+
+/**
+ * The onsets of a recurring observance up to a limit, within its COUNT and
+ * UNTIL
+ */
+function observanceOnsets(
+  onset: Date,
+  rule: RecurrenceRule,
+  limit: Date,
+): Date[] {
+  const until = rule.until ? parseLocal(rule.until) : null;
+  const onsets: Date[] = [];
+
+  for (const date of expandRule(onset, rule, limit)) {
+    if (date > limit || (until && date > until)) break;
+    if (rule.count && onsets.length >= rule.count) break;
+    onsets.push(date);
+  }
+
+  return onsets;
+}
+
+function readDateTime(
+  property: IcsProperty,
+  context: ZoneContext,
+): Date | null {
+  const local = parseLocal(property.value);
+  if (!local) return null;
+  if (property.value.endsWith('Z')) return local;
+  return toInstant(local, property.params.TZID, context);
+}
+
+/**
+ * Convert a wall clock time to an instant in the zone of its TZID
+ */
+function toInstant(
+  local: Date,
+  tzid: string | undefined,
+  context: ZoneContext,
+): Date {
+  const wallClock = local.toISOString().slice(0, 19);
+  const zone = tzid?.replace(/^\//, '');
+
+  if (zone && isIanaTimeZone(zone)) {
+    return fromZonedTime(wallClock, zone);
+  }
+  const zoneDefinition = tzid ? context.timeZones.get(tzid) : undefined;
+  if (zoneDefinition && zoneDefinition.observances.length > 0) {
+    return new Date(
+      local.getTime() - observanceOffset(zoneDefinition, local) * 60 * 1000,
+    );
+  }
+  return fromZonedTime(wallClock, context.defaultTimeZone);
+}
+
+/**
+ * A DATE or DATE-TIME value as a wall clock time in UTC fields
+ */
+function parseLocal(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value,
+  );
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+    ),
+  );
+}
+
+function isDateValue(property: IcsProperty): boolean {
+  return property.params.VALUE === 'DATE' || /^\d{8}$/.test(property.value);
+}
+
+/**
+ * UTC offset as +hhmm[ss] in minutes
+ */
+function parseUtcOffset(value: string): number | null {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value);
+  if (!match) return null;
+  const [, sign, hours, minutes] = match;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
+
+/**
+ * DURATION value such as PT1H30M or P1D in milliseconds
+ */
+function parseDuration(value: string): number {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value,
+    );
+  if (!match) return 0;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) =>
+    part === undefined ? 0 : part,
+  );
+  const total =
+    ((Number(weeks) * 7 + Number(days)) * 24 * 60 * 60 +
+      Number(hours) * 60 * 60 +
+      Number(minutes) * 60 +
+      Number(seconds)) *
+    1000;
+  return sign === '-' ? -total : total;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char,
+  );
+}
+
+function getProperty(
+  component: IcsComponent,
+  name: string,
+): IcsProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Unfold the content lines and nest them into components
+ */
+function parseComponents(content: string): IcsComponent[] {
+  const root: IcsComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = {
+        name: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  return root.components;
+}
+
+/**
+ * Split a content line into its name, parameters and value. Parameter values
+ * may be quoted and contain colons and semicolons.
+ */
+function parseContentLine(line: string): IcsProperty | null {
+  const segments: string[] = [];
+  let segment = '';
+  let inQuotes = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      segments.push(segment);
+      segment = '';
+      continue;
+    } else if (!inQuotes && char === ':') {
+      segments.push(segment);
+      valueStart = i + 1;
+      break;
+    }
+    segment += char;
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...params] = segments;
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, ...rest] = param.split('=');
+        return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+      }),
+    ),
+    value: line.slice(valueStart),
+  };
+}
@@ -0,0 +1,230 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { HTTPException } from 'hono/http-exception';
+
+import { exportTimeEntriesToCSV } from './export.ts';
+import { parseCSV, readTimeEntryRows } from './import.ts';
+import { DEFAULT_USER_SETTINGS } from './settings.ts';
+
+type ExportedTimeEntry = Parameters<typeof exportTimeEntriesToCSV>[0][number];
+
+const exported = (
+  startedAt: string,
+  endedAt: string,
+  note: string,
+  isBillable = true,
+) =>
+  ({
+    id: `entry-${startedAt}`,
+    startedAt: new Date(startedAt),
+    endedAt: new Date(endedAt),
+    note,
+    isBillable,
+    invoiceId: null,
+    task: null,
+    project: {
+      name: 'Website, phase 2',
+      hourlyRate: null,
+      billingMode: 'HOURLY',
+      roundingIncrement: null,
+      roundingMode: null,
+      roundingScope: null,
+      rates: [],
+      client: {
+        name: 'Acme "Global"',
+        roundingIncrement: null,
+        roundingMode: null,
+        roundingScope: null,
+        rates: [],
+      },
+    },
+  }) as unknown as ExportedTimeEntry;
+
+const rejectsWith = (code: string) => (error: unknown) =>
+  error instanceof HTTPException &&
+  (error.cause as { code: string }).code === code;
+
+describe('Time entry CSV import', () => {
+  describe('parseCSV', () => {
+    it('should split rows and values', () => {
+      assert.deepStrictEqual(parseCSV('a,b,c\n1,2,3\n'), [
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should read quoted values with commas, quotes and line breaks', () => {
+      assert.deepStrictEqual(
+        parseCSV('note,client\n"Call, then ""fix""\nand deploy",Acme'),
+        [
+          ['note', 'client'],
+          ['Call, then "fix"\nand deploy', 'Acme'],
+        ],
+      );
+    });
+
+    it('should handle CRLF line endings, a BOM and blank lines', () => {
+      assert.deepStrictEqual(parseCSV('\uFEFFa,b\r\n\r\n1,2\r\n,\r\n'), [
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should keep empty values', () => {
+      assert.deepStrictEqual(parseCSV('a,b,c\n1,,3'), [
+        ['a', 'b', 'c'],
+        ['1', '', '3'],
+      ]);
+    });
+
+    it('should reject a file ending inside a quoted value', () => {
+      assert.throws(
+        () => parseCSV('a,b\n"unterminated,2'),
+        rejectsWith('api/invalid-csv'),
+      );
+    });
+  });
+
+  describe('readTimeEntryRows', () => {
+    it('should read the columns of an export without a mapping', () => {
+      const { entries, errors } = readTimeEntryRows(
+        parseCSV(
+          [
+            'Start Date/Time,End Date/Time,Client,Project,Note,Billable',
+            '2025-06-02T09:00:00Z,2025-06-02T10:30:00Z,Acme,Website,Design,No',
+          ].join('\n'),
+        ),
+      );
+
+      assert.deepStrictEqual(errors, []);
+      assert.deepStrictEqual(entries, [
+        {
+          row: 2,
+          startedAt: new Date('2025-06-02T09:00:00Z'),
+          endedAt: new Date('2025-06-02T10:30:00Z'),
+          clientName: 'Acme',
+          projectName: 'Website',
+          note: 'Design',
+          isBillable: false,
+        },
+      ]);
+    });
+
+    it('should read mapped columns and a duration instead of an end', () => {
+      const { entries, errors } = readTimeEntryRows(
+        parseCSV(
+          ['from,hours,customer,job', '2025-06-02T09:00:00Z,1.5,Acme,Web'].join(
+            '\n',
+          ),
+        ),
+        {
+          startedAt: 'from',
+          duration: 'hours',
+          client: 'customer',
+          project: 'job',
+        },
+      );
+
+      assert.deepStrictEqual(errors, []);
+      assert.strictEqual(
+        entries[0].endedAt.toISOString(),
+        '2025-06-02T10:30:00.000Z',
+      );
+      assert.strictEqual(entries[0].isBillable, undefined);
+    });
+
+    it('should report every problem of a row with its row number', () => {
+      const { entries, errors } = readTimeEntryRows(
+        parseCSV(
+          [
+            'Start Date/Time,End Date/Time,Client,Project,Billable',
+            'yesterday,2025-06-02T10:00:00Z,,Website,maybe',
+            '2025-06-02T09:00:00Z,2025-06-02T10:00:00Z,Acme,Website,Yes',
+          ].join('\n'),
+        ),
+      );
+
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0].row, 3);
+      assert.deepStrictEqual(
+        errors.map(({ row, field, code }) => ({ row, field, code })),
+        [
+          { row: 2, field: 'startedAt', code: 'api/invalid-date' },
+          { row: 2, field: 'client', code: 'api/missing-client' },
+          { row: 2, field: 'isBillable', code: 'api/invalid-billable' },
+        ],
+      );
+    });
+
+    it('should reject rows that end before they start', () => {
+      const { errors } = readTimeEntryRows(
+        parseCSV(
+          [
+            'Start Date/Time,End Date/Time,Client,Project',
+            '2025-06-02T10:00:00Z,2025-06-02T09:00:00Z,Acme,Website',
+          ].join('\n'),
+        ),
+      );
+
+      assert.deepStrictEqual(
+        errors.map(({ field, code }) => ({ field, code })),
+        [{ field: 'endedAt', code: 'api/invalid-time-range' }],
+      );
+    });
+
+    it('should reject a file without the required columns', () => {
+      assert.throws(
+        () => readTimeEntryRows(parseCSV('Client,Project\nAcme,Website')),
+        rejectsWith('api/import-column-missing'),
+      );
+    });
+
+    it('should reject a mapping to a column that is not in the file', () => {
+      assert.throws(
+        () =>
+          readTimeEntryRows(
+            parseCSV(
+              'Start Date/Time,End Date/Time,Client,Project\n2025-06-02T09:00:00Z,2025-06-02T10:00:00Z,Acme,Web',
+            ),
+            { note: 'Comment' },
+          ),
+        rejectsWith('api/import-column-missing'),
+      );
+    });
+  });
+
+  describe('Round trip', () => {
+    it('should import the time entries export as it was exported', () => {
+      const timeEntries = [
+        exported(
+          '2025-06-02T07:00:00Z',
+          '2025-06-02T08:15:00Z',
+          'Kick-off, with "stakeholders"\nand notes',
+        ),
+        exported('2025-06-03T22:30:00Z', '2025-06-03T23:45:00Z', '', false),
+      ];
+      // Exported in the user's zone, with its offset
+      const csv = exportTimeEntriesToCSV(timeEntries, {
+        ...DEFAULT_USER_SETTINGS,
+        timeZone: 'Europe/Berlin',
+      });
+
+      const { entries, errors } = readTimeEntryRows(parseCSV(csv));
+
+      assert.deepStrictEqual(errors, []);
+      assert.deepStrictEqual(
+        entries,
+        timeEntries.map((entry, index) => ({
+          row: index + 2,
+          startedAt: entry.startedAt,
+          endedAt: entry.endedAt,
+          clientName: 'Acme "Global"',
+          projectName: 'Website, phase 2',
+          note: entry.note || undefined,
+          isBillable: entry.isBillable,
+        })),
+      );
+    });
+  });
+});
@@ -0,0 +1,576 @@
+import { HTTPException } from 'hono/http-exception';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from './audit.ts';
+import { getBusinessHours, splitBusinessHours } from './business-hours.ts';
+import type { UserPreferences } from './settings.ts';
+import {
+  checkBulkTimeEntryOverlaps,
+  sanitizeInput,
+  validateTimeEntryDuration,
+} from './validation.ts';
+
+export const TIME_ENTRY_IMPORT_FIELDS = [
+  'startedAt',
+  'endedAt',
+  'duration',
+  'client',
+  'project',
+  'note',
+  'isBillable',
+] as const;
+
+export type TimeEntryImportField = (typeof TIME_ENTRY_IMPORT_FIELDS)[number];
+
+/**
+ * Column header to read each field from
+ */
+export type TimeEntryImportMapping = Partial<
+  Record<TimeEntryImportField, string>
+>;
+
+/**
+ * Column headers written by exportTimeEntriesToCSV, so an export can be
+ * imported back without a mapping
+ */
+export const DEFAULT_TIME_ENTRY_IMPORT_MAPPING: Record<
+  TimeEntryImportField,
+  string
+> = {
+  startedAt: 'Start Date/Time',
+  endedAt: 'End Date/Time',
+  duration: 'Duration (Hours)',
+  client: 'Client',
+  project: 'Project',
+  note: 'Note',
+  isBillable: 'Billable',
+};
+
+export interface ImportRowError {
+  row: number; // Row number in the file with the header as row 1, or the record position in JSON
+  field?: TimeEntryImportField;
+  code: string;
+  message: string;
+}
+
+export interface ImportedTimeEntryRow {
+  row: number;
+  startedAt: Date;
+  endedAt: Date;
+  clientName: string;
+  projectName: string;
+  note?: string;
+  isBillable?: boolean;
+}
+
+/**
+ * Parse CSV text into rows of raw values. Handles quoted values with commas,
+ * escaped quotes and line breaks, CRLF line endings and a leading BOM.
+ * Blank lines are skipped.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inQuotes = true;
+        break;
+      case ',':
+        row.push(value);
+        value = '';
+        break;
+      case '\r':
+        break;
+      case '\n':
+        row.push(value);
+        rows.push(row);
+        row = [];
+        value = '';
+        break;
+      default:
+        value += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new HTTPException(400, {
+      message: 'Malformed CSV file',
+      cause: {
+        code: 'api/invalid-csv',
+        detail: 'The file ends inside a quoted value',
+      },
+    });
+  }
+
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter((values) => values.some((v) => v.trim() !== ''));
+}
+
+/**
+ * Read time entries from parsed CSV rows using the column mapping. Rows that
+ * cannot become a time entry are reported with every problem found on them.
+ */
+export function readTimeEntryRows(
+  rows: string[][],
+  mapping: TimeEntryImportMapping = {},
+): { entries: ImportedTimeEntryRow[]; errors: ImportRowError[] } {
+  const [header, ...dataRows] = rows;
+  if (!header) {
+    throw new HTTPException(400, {
+      message: 'Malformed CSV file',
+      cause: {
+        code: 'api/invalid-csv',
+        detail: 'The file has no header row',
+      },
+    });
+  }
+
+  const columns = resolveColumns(header, mapping);
+
+  const entries: ImportedTimeEntryRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  dataRows.forEach((values, index) => {
+    const row = index + 2;
+    const rowErrors: ImportRowError[] = [];
+    const read = (field: TimeEntryImportField) => {
+      const column = columns[field];
+      return column === undefined ? '' : (values[column] ?? '').trim();
+    };
+    const fail = (field: TimeEntryImportField, code: string, message: string) =>
+      rowErrors.push({ row, field, code, message });
+
+    const startedAt = parseDate(read('startedAt'));
+    if (!startedAt) {
+      fail(
+        'startedAt',
+        'api/invalid-date',
+        read('startedAt')
+          ? `Start time "${read('startedAt')}" is not a valid date`
+          : 'Start time is required',
+      );
+    }
+
+    let endedAt: Date | null = null;
+    if (read('endedAt')) {
+      endedAt = parseDate(read('endedAt'));
+      if (!endedAt) {
+        fail(
+          'endedAt',
+          'api/invalid-date',
+          `End time "${read('endedAt')}" is not a valid date`,
+        );
+      }
+    } else if (read('duration')) {
+      const duration = Number(read('duration'));
+      if (!Number.isFinite(duration)) {
+        fail(
+          'duration',
+          'api/invalid-duration',
+          `Duration "${read('duration')}" is not a number of hours`,
+        );
+      } else if (startedAt) {
+        endedAt = new Date(startedAt.getTime() + duration * 60 * 60 * 1000);
+      }
+    } else {
+      fail(
+        'endedAt',
+        'api/missing-end-time',
+        'End time is required; running timers cannot be imported',
+      );
+    }
+
+    if (startedAt && endedAt) {
+      try {
+        validateTimeEntryDuration(startedAt, endedAt);
+      } catch (error) {
+        if (!(error instanceof HTTPException)) throw error;
+        fail('endedAt', (error.cause as { code: string }).code, error.message);
+      }
+    }
+
+    const clientName = read('client');
+    if (!clientName || clientName === 'No Client') {
+      fail('client', 'api/missing-client', 'Client is required');
+    }
+
+    const projectName = read('project');
+    if (!projectName) {
+      fail('project', 'api/missing-project', 'Project is required');
+    }
+
+    const isBillable = parseBoolean(read('isBillable'));
+    if (isBillable === null) {
+      fail(
+        'isBillable',
+        'api/invalid-billable',
+        `Billable must be Yes or No, got "${read('isBillable')}"`,
+      );
+    }
+
+    if (rowErrors.length > 0 || !startedAt || !endedAt) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    entries.push({
+      row,
+      startedAt,
+      endedAt,
+      clientName,
+      projectName,
+      note: sanitizeInput(read('note')),
+      isBillable: isBillable ?? undefined,
+    });
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Check the rows for overlaps with each other and with existing entries in
+ * one pass. The later row of each overlapping pair is reported, unless one
+ * of the pair already is, so every overlapping row is reported and the rows
+ * left over do not overlap. Nothing is reported when the user allows
+ * overlaps; whether the rows are rejected or only warned about is up to the
+ * caller.
+ */
+export async function findImportOverlaps(
+  userId: string,
+  entries: ImportedTimeEntryRow[],
+  settings: Pick<UserPreferences, 'overlapPolicy'>,
+): Promise<ImportRowError[]> {
+  if (settings.overlapPolicy === 'ALLOW') return [];
+
+  const warnings = await checkBulkTimeEntryOverlaps(userId, entries, 'WARN');
+
+  const errors = new Map<number, ImportRowError>();
+  for (const { code, entryIndexes, entryIndex, conflictingEntry } of warnings) {
+    if (entryIndexes) {
+      const [first, second] = entryIndexes;
+      if (errors.has(first) || errors.has(second)) continue;
+      errors.set(second, {
+        row: entries[second].row,
+        code,
+        message: `Overlaps with row ${entries[first].row}`,
+      });
+    } else if (entryIndex !== undefined && !errors.has(entryIndex)) {
+      errors.set(entryIndex, {
+        row: entries[entryIndex].row,
+        code,
+        message: `Overlaps with the existing entry for project "${conflictingEntry?.project}" from ${conflictingEntry?.startedAt} to ${conflictingEntry?.endedAt ?? 'now (running)'}`,
+      });
+    }
+  }
+
+  return [...errors.values()];
+}
+
+/**
+ * Rows outside the user's business hours, when they chose to enforce them
+ */
+export async function findImportOutsideBusinessHours(
+  userId: string,
+  entries: ImportedTimeEntryRow[],
+  settings: Pick<UserPreferences, 'timeZone' | 'enforceBusinessHours'>,
+): Promise<ImportRowError[]> {
+  if (!settings.enforceBusinessHours) return [];
+
+  const schedule = await getBusinessHours(userId);
+  return entries.flatMap((entry) => {
+    const { afterHours, weekendHours } = splitBusinessHours(
+      entry.startedAt,
+      entry.endedAt,
+      schedule,
+      settings,
+    );
+    if (afterHours === 0 && weekendHours === 0) return [];
+
+    return [
+      {
+        row: entry.row,
+        code: 'api/outside-business-hours',
+        message:
+          weekendHours > 0 ? 'Falls on a day off' : 'Outside business hours',
+      },
+    ];
+  });
+}
+
+interface ImportProjectTarget {
+  row: number;
+  clientName: string;
+  projectName: string;
+}
+
+export interface ImportProjectRef {
+  clientId?: string; // Unset when the client is to be created
+  projectId?: string; // Unset when the project is to be created
+  projectKey: string;
+  billableByDefault: boolean;
+}
+
+/**
+ * Match the client and project names of imported rows to the user's clients
+ * and projects, case-insensitively like the duplicate name checks. Rows on
+ * archived clients or projects are rejected, and so are rows on missing ones
+ * unless createMissing is set.
+ */
+export async function resolveImportProjects<T extends ImportProjectTarget>(
+  userId: string,
+  entries: T[],
+  createMissing: boolean,
+): Promise<{ resolved: (T & ImportProjectRef)[]; errors: ImportRowError[] }> {
+  const clients = await prisma.client.findMany({
+    where: { userId, deletedAt: null },
+    include: { projects: { where: { deletedAt: null } } },
+  });
+  const clientsByName = new Map(
+    clients.map((client) => [client.name.toLowerCase(), client]),
+  );
+
+  const resolved: (T & ImportProjectRef)[] = [];
+  const errors: ImportRowError[] = [];
+
+  for (const entry of entries) {
+    const client = clientsByName.get(entry.clientName.toLowerCase());
+    const project = client?.projects.find(
+      (p) => p.name.toLowerCase() === entry.projectName.toLowerCase(),
+    );
+
+    if (client?.archivedAt) {
+      errors.push({
+        row: entry.row,
+        field: 'client',
+        code: 'api/client-archived',
+        message: `Client "${client.name}" is archived`,
+      });
+      continue;
+    }
+    if (project?.archivedAt) {
+      errors.push({
+        row: entry.row,
+        field: 'project',
+        code: 'api/project-archived',
+        message: `Project "${project.name}" is archived`,
+      });
+      continue;
+    }
+    if (!project && !createMissing) {
+      errors.push(
+        client
+          ? {
+              row: entry.row,
+              field: 'project',
+              code: 'api/project-not-found',
+              message: `Project "${entry.projectName}" not found for client "${client.name}"`,
+            }
+          : {
+              row: entry.row,
+              field: 'client',
+              code: 'api/client-not-found',
+              message: `Client "${entry.clientName}" not found`,
+            },
+      );
+      continue;
+    }
+
+    resolved.push({
+      ...entry,
+      clientName: client?.name ?? entry.clientName,
+      projectName: project?.name ?? entry.projectName,
+      clientId: client?.id,
+      projectId: project?.id,
+      projectKey: `${entry.clientName.toLowerCase()}/${entry.projectName.toLowerCase()}`,
+      billableByDefault: project?.billableByDefault ?? true,
+    });
+  }
+
+  return { resolved, errors };
+}
+
+/**
+ * Clients and projects that importing the resolved rows would create
+ */
+export function planImportProjects(
+  entries: (ImportProjectTarget & ImportProjectRef)[],
+) {
+  const clientsToCreate = new Map<string, string>();
+  const projectsToCreate = new Map<
+    string,
+    { clientName: string; name: string }
+  >();
+
+  for (const entry of entries) {
+    if (!entry.clientId) {
+      clientsToCreate.set(entry.clientName.toLowerCase(), entry.clientName);
+    }
+    if (!entry.projectId && !projectsToCreate.has(entry.projectKey)) {
+      projectsToCreate.set(entry.projectKey, {
+        clientName: entry.clientName,
+        name: entry.projectName,
+      });
+    }
+  }
+
+  return {
+    clientsToCreate: [...clientsToCreate.values()],
+    projectsToCreate: [...projectsToCreate.entries()].map(
+      ([projectKey, project]) => ({ projectKey, ...project }),
+    ),
+  };
+}
+
+/**
+ * Create the clients and projects the resolved rows are missing and return
+ * the project id of every row
+ */
+export async function createImportProjects(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  entries: (ImportProjectTarget & ImportProjectRef)[],
+) {
+  const { clientsToCreate, projectsToCreate } = planImportProjects(entries);
+
+  const clientIds = new Map(
+    entries
+      .filter((entry) => entry.clientId)
+      .map((entry) => [entry.clientName.toLowerCase(), entry.clientId!]),
+  );
+  for (const name of clientsToCreate) {
+    const client = await tx.client.create({
+      data: { name, userId },
+    });
+    await recordAudit(tx, {
+      action: 'CREATE',
+      entityType: 'CLIENT',
+      entityId: client.id,
+      after: client,
+    });
+    clientIds.set(name.toLowerCase(), client.id);
+  }
+
+  const projectIds = new Map<string, string>();
+  for (const { projectKey, clientName, name } of projectsToCreate) {
+    const project = await tx.project.create({
+      data: {
+        name,
+        clientId: clientIds.get(clientName.toLowerCase())!,
+        userId,
+      },
+    });
+    await recordAudit(tx, {
+      action: 'CREATE',
+      entityType: 'PROJECT',
+      entityId: project.id,
+      after: project,
+    });
+    projectIds.set(projectKey, project.id);
+  }
+
+  return {
+    projectIds: entries.map(
+      (entry) => entry.projectId ?? projectIds.get(entry.projectKey)!,
+    ),
+    createdClients: clientsToCreate,
+    createdProjects: projectsToCreate.map(({ clientName, name }) => ({
+      clientName,
+      name,
+    })),
+  };
+}
+
+function resolveColumns(
+  header: string[],
+  mapping: TimeEntryImportMapping,
+): Partial<Record<TimeEntryImportField, number>> {
+  const normalizedHeader = header.map((label) => label.trim().toLowerCase());
+
+  const columns = Object.fromEntries(
+    TIME_ENTRY_IMPORT_FIELDS.map((field) => {
+      const label = mapping[field] ?? DEFAULT_TIME_ENTRY_IMPORT_MAPPING[field];
+      const column = normalizedHeader.indexOf(label.trim().toLowerCase());
+
+      // Columns named in the mapping must exist, default ones are optional
+      if (column === -1 && mapping[field] !== undefined) {
+        throw new HTTPException(400, {
+          message: 'Mapped column not found',
+          cause: {
+            code: 'api/import-column-missing',
+            detail: `Column "${label}" mapped to ${field} is not in the file header`,
+          },
+        });
+      }
+
+      return [field, column === -1 ? undefined : column];
+    }),
+  ) as Partial<Record<TimeEntryImportField, number>>;
+
+  const missing: TimeEntryImportField[] = (
+    ['startedAt', 'client', 'project'] as const
+  ).filter((field) => columns[field] === undefined);
+  if (columns.endedAt === undefined && columns.duration === undefined) {
+    missing.push('endedAt');
+  }
+  if (missing.length > 0) {
+    throw new HTTPException(400, {
+      message: 'Required columns not found',
+      cause: {
+        code: 'api/import-column-missing',
+        detail: `No column found for ${missing.join(', ')}. Provide a mapping for them.`,
+      },
+    });
+  }
+
+  return columns;
+}
+
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Yes/No as exported, or true/false and 1/0. Empty means not given.
+ */
+export function parseBoolean(value: string): boolean | null | undefined {
+  if (!value) return undefined;
+  switch (value.toLowerCase()) {
+    case 'yes':
+    case 'true':
+    case '1':
+      return true;
+    case 'no':
+    case 'false':
+    case '0':
+      return false;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { HTTPException } from 'hono/http-exception';
+
+import {
+  FALLBACK_CLIENT_NAME,
+  FALLBACK_PROJECT_NAME,
+  parseExternalExport,
+} from './importers.ts';
+
+const togglCSV = (...rows: string[]) =>
+  [
+    'Start date,Start time,End date,End time,Duration,Client,Project,Description,Billable',
+    ...rows,
+  ].join('\n');
+
+const STANDUP =
+  '2025-06-02,09:00:00,2025-06-02,09:15:00,00:15:00,Acme,Website,Standup,Yes';
+
+const ids = (...args: Parameters<typeof parseExternalExport>) =>
+  parseExternalExport(...args).entries.map((entry) => entry.externalId);
+
+describe('External importers', () => {
+  describe('Row fingerprints', () => {
+    it('should give rows without an id the same id on every import', () => {
+      const content = togglCSV(
+        STANDUP,
+        '2025-06-02,10:00:00,2025-06-02,11:00:00,01:00:00,Acme,Website,Design,Yes',
+      );
+
+      const first = ids('TOGGL', content);
+
+      assert.strictEqual(first.length, 2);
+      assert.match(first[0], /^row:[0-9a-f]{32}:1$/);
+      assert.deepStrictEqual(ids('TOGGL', content), first);
+      assert.notStrictEqual(first[0], first[1]);
+    });
+
+    it('should tell identical rows apart by their occurrence', () => {
+      const [first, second] = ids('TOGGL', togglCSV(STANDUP, STANDUP));
+
+      assert.strictEqual(first.replace(/:1$/, ':2'), second);
+    });
+
+    it('should not depend on the position of the row in the file', () => {
+      const design =
+        '2025-06-02,10:00:00,2025-06-02,11:00:00,01:00:00,Acme,Website,Design,Yes';
+
+      const [standup] = ids('TOGGL', togglCSV(STANDUP, design));
+      const [, moved] = ids('TOGGL', togglCSV(design, STANDUP));
+
+      assert.strictEqual(moved, standup);
+    });
+
+    it('should leave the billable flag out of the fingerprint', () => {
+      const [billable] = ids('TOGGL', togglCSV(STANDUP));
+      const [nonBillable] = ids(
+        'TOGGL',
+        togglCSV(STANDUP.replace(/Yes$/, 'No')),
+      );
+
+      assert.strictEqual(nonBillable, billable);
+    });
+
+    it('should use the id of the source tool when there is one', () => {
+      const content = JSON.stringify([
+        {
+          id: 4242,
+          start: '2025-06-02T09:00:00Z',
+          stop: '2025-06-02T10:00:00Z',
+          project: 'Website',
+        },
+      ]);
+
+      assert.deepStrictEqual(ids('TOGGL', content), ['4242']);
+    });
+  });
+
+  describe('JSON exports', () => {
+    it('should read the fields of Clockify time entries', () => {
+      const { entries, errors } = parseExternalExport(
+        'CLOCKIFY',
+        JSON.stringify({
+          timeentries: [
+            {
+              _id: 'abc',
+              description: 'Design',
+              billable: false,
+              timeInterval: {
+                start: '2025-06-02T09:00:00Z',
+                end: '2025-06-02T10:00:00Z',
+              },
+              project: { name: 'Website', clientName: 'Acme' },
+            },
+          ],
+        }),
+      );
+
+      assert.deepStrictEqual(errors, []);
+      assert.deepStrictEqual(entries, [
+        {
+          row: 1,
+          externalId: 'abc',
+          startedAt: new Date('2025-06-02T09:00:00Z'),
+          endedAt: new Date('2025-06-02T10:00:00Z'),
+          clientName: 'Acme',
+          projectName: 'Website',
+          note: 'Design',
+          isBillable: false,
+        },
+      ]);
+    });
+
+    it('should ignore fields of an unexpected type', () => {
+      const { entries } = parseExternalExport(
+        'HARVEST',
+        JSON.stringify({
+          time_entries: [
+            {
+              id: 7,
+              spent_date: '2025-06-02',
+              hours: 2,
+              notes: 42,
+              billable: 'yes',
+              client: 'Acme',
+              project: { name: ['Website'] },
+            },
+          ],
+        }),
+      );
+
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0].note, undefined);
+      assert.strictEqual(entries[0].isBillable, undefined);
+      assert.strictEqual(entries[0].clientName, FALLBACK_CLIENT_NAME);
+      assert.strictEqual(entries[0].projectName, FALLBACK_PROJECT_NAME);
+    });
+
+    it('should report running timers', () => {
+      const { entries, errors } = parseExternalExport(
+        'TOGGL',
+        JSON.stringify([
+          { id: 1, start: '2025-06-02T09:00:00Z', duration: -1749 },
+        ]),
+      );
+
+      assert.deepStrictEqual(entries, []);
+      assert.deepStrictEqual(
+        errors.map(({ code }) => code),
+        ['api/running-timer'],
+      );
+    });
+
+    it('should reject a file that is not a list of time entries', () => {
+      assert.throws(
+        () => parseExternalExport('HARVEST', JSON.stringify({ entries: 1 })),
+        (error) =>
+          error instanceof HTTPException &&
+          (error.cause as { code: string }).code === 'api/invalid-import-file',
+      );
+    });
+  });
+
+  describe('Harvest days', () => {
+    it('should lay out the hours of a day back to back from 9:00', () => {
+      const { entries } = parseExternalExport(
+        'HARVEST',
+        [
+          'Date,Client,Project,Notes,Hours,Billable?',
+          '2025-06-02,Acme,Website,Design,1.5,Yes',
+          '2025-06-02,Acme,Website,Review,0.5,No',
+        ].join('\n'),
+        'Europe/Berlin',
+      );
+
+      assert.deepStrictEqual(
+        entries.map(({ startedAt, endedAt }) => [
+          startedAt.toISOString(),
+          endedAt.toISOString(),
+        ]),
+        [
+          ['2025-06-02T07:00:00.000Z', '2025-06-02T08:30:00.000Z'],
+          ['2025-06-02T08:30:00.000Z', '2025-06-02T09:00:00.000Z'],
+        ],
+      );
+    });
+  });
+});
@@ -0,0 +1,501 @@
+import { createHash } from 'node:crypto';
+
+import { fromZonedTime } from 'date-fns-tz';
+import { HTTPException } from 'hono/http-exception';
+
+import type { ImportSource } from '@iworked/db';
+
+import type { ImportRowError } from './import.ts';
+import { parseBoolean, parseCSV } from './import.ts';
+import { validateTimeEntryDuration } from './validation.ts';
+
+export interface ExternalTimeEntry {
+  row: number;
+  externalId: string;
+  startedAt: Date;
+  endedAt: Date;
+  clientName: string;
+  projectName: string;
+  note?: string;
+  isBillable?: boolean;
+}
+
+/**
+ * An entry as read from an export, before its id and times are settled
+ */
+interface RawExternalEntry {
+  row: number;
+  id?: string; // Native id when the export has one
+  fingerprint: string[]; // Values identifying the row when it has no id
+  startedAt: Date | null;
+  endedAt: Date | null;
+  hours?: number; // Duration, used when there is no end time
+  isRunning?: boolean;
+  clientName?: string;
+  projectName?: string;
+  note?: string;
+  isBillable?: boolean | null;
+}
+
+/**
+ * An entry that may only have a day and hours, laid out by layoutDays
+ */
+type DayEntry = RawExternalEntry & { dayStart: Date | null };
+
+type JsonRecord = Record<string, unknown>;
+
+// Entries of tools that only track hours per day are laid out from this hour
+const DAY_START_HOUR = 9;
+
+// Names used when the source entry has no client or project
+export const FALLBACK_CLIENT_NAME = 'No Client';
+export const FALLBACK_PROJECT_NAME = 'No Project';
+
+/**
+ * Read the detailed report export of Toggl Track, Clockify or Harvest, as CSV
+ * or JSON. Wall clock times without a zone are read in the given IANA time
+ * zone. Rows that cannot become a time entry are returned as errors.
+ */
+export function parseExternalExport(
+  source: ImportSource,
+  content: string,
+  timeZone = 'UTC',
+): { entries: ExternalTimeEntry[]; errors: ImportRowError[] } {
+  const isJSON = /^\s*[[{]/.test(content);
+  let rawEntries: RawExternalEntry[];
+
+  switch (source) {
+    case 'TOGGL':
+      rawEntries = isJSON
+        ? readTogglJSON(parseJSON(content))
+        : readTogglCSV(content, timeZone);
+      break;
+    case 'CLOCKIFY':
+      rawEntries = isJSON
+        ? readClockifyJSON(parseJSON(content))
+        : readClockifyCSV(content, timeZone);
+      break;
+    case 'HARVEST':
+      rawEntries = layoutDays(
+        isJSON
+          ? readHarvestJSON(parseJSON(content), timeZone)
+          : readHarvestCSV(content, timeZone),
+      );
+      break;
+  }
+
+  const entries: ExternalTimeEntry[] = [];
+  const errors: ImportRowError[] = [];
+  const fingerprintCounts = new Map<string, number>();
+
+  for (const raw of rawEntries) {
+    // Identical rows without an id are told apart by their occurrence
+    const fingerprint = hashFingerprint(raw.fingerprint);
+    const occurrence = (fingerprintCounts.get(fingerprint) ?? 0) + 1;
+    fingerprintCounts.set(fingerprint, occurrence);
+    const externalId = raw.id ?? `row:${fingerprint}:${occurrence}`;
+
+    const fail = (code: string, message: string) =>
+      errors.push({ row: raw.row, code, message });
+
+    if (raw.isRunning) {
+      fail('api/running-timer', 'Running timers cannot be imported');
+      continue;
+    }
+    if (!raw.startedAt) {
+      fail('api/invalid-date', 'Start time is missing or not a valid date');
+      continue;
+    }
+    if (raw.isBillable === null) {
+      fail('api/invalid-billable', 'Billable must be Yes or No');
+      continue;
+    }
+
+    const endedAt =
+      raw.endedAt ??
+      (raw.hours !== undefined && Number.isFinite(raw.hours)
+        ? new Date(raw.startedAt.getTime() + raw.hours * 60 * 60 * 1000)
+        : null);
+    if (!endedAt) {
+      fail('api/missing-end-time', 'End time or duration is required');
+      continue;
+    }
+
+    try {
+      validateTimeEntryDuration(raw.startedAt, endedAt);
+    } catch (error) {
+      if (!(error instanceof HTTPException)) throw error;
+      fail((error.cause as { code: string }).code, error.message);
+      continue;
+    }
+
+    entries.push({
+      row: raw.row,
+      externalId,
+      startedAt: raw.startedAt,
+      endedAt,
+      clientName: raw.clientName || FALLBACK_CLIENT_NAME,
+      projectName: raw.projectName || FALLBACK_PROJECT_NAME,
+      note: raw.note?.trim() || undefined,
+      isBillable: raw.isBillable,
+    });
+  }
+
+  return { entries, errors };
+}
+
+/**
+ * Toggl Track detailed report CSV: Start date, Start time, End date, End
+ * time, Duration (hh:mm:ss), Client, Project, Description, Billable
+ */
+function readTogglCSV(content: string, timeZone: string): RawExternalEntry[] {
+  return readCSVRecords(content, 'Toggl Track', [
+    'Start date',
+    'Start time',
+    'Project',
+  ]).map(({ row, get }) => ({
+    row,
+    fingerprint: [
+      'Start date',
+      'Start time',
+      'End date',
+      'End time',
+      'Client',
+      'Project',
+      'Description',
+    ].map(get),
+    startedAt: parseWallClock(get('Start date'), get('Start time'), timeZone),
+    endedAt: parseWallClock(get('End date'), get('End time'), timeZone),
+    hours: get('Duration') ? parseDurationHours(get('Duration')) : undefined,
+    clientName: get('Client'),
+    projectName: get('Project'),
+    note: get('Description'),
+    isBillable: parseBoolean(get('Billable')),
+  }));
+}
+
+/**
+ * Toggl Track detailed report JSON, or a list of time entries with project
+ * and client names
+ */
+function readTogglJSON(json: unknown): RawExternalEntry[] {
+  return readJSONRecords(json, 'Toggl Track', ['data']).map((record, index) => {
+    const end = record.end ?? record.stop;
+    const dur = readNumber(record.dur);
+    const duration = readNumber(record.duration);
+    return {
+      row: index + 1,
+      id: readId(record.id),
+      fingerprint: [JSON.stringify(record)],
+      startedAt: parseTimestamp(record.start),
+      endedAt: parseTimestamp(end),
+      // Report exports give dur in milliseconds, time entries duration in seconds
+      hours:
+        dur !== undefined
+          ? dur / 3_600_000
+          : duration !== undefined && duration >= 0
+            ? duration / 3600
+            : undefined,
+      // Toggl marks running entries with a missing end and negative duration
+      isRunning: !end && duration !== undefined && duration < 0,
+      clientName: readString(record.client) ?? readString(record.client_name),
+      projectName:
+        readString(record.project) ?? readString(record.project_name),
+      note: readString(record.description),
+      isBillable:
+        readBoolean(record.is_billable) ?? readBoolean(record.billable),
+    };
+  });
+}
+
+/**
+ * Clockify detailed report CSV: Start Date, Start Time, End Date, End Time,
+ * Duration (decimal), Client, Project, Description, Billable
+ */
+function readClockifyCSV(
+  content: string,
+  timeZone: string,
+): RawExternalEntry[] {
+  return readCSVRecords(content, 'Clockify', [
+    'Start Date',
+    'Start Time',
+    'Project',
+  ]).map(({ row, get }) => ({
+    row,
+    fingerprint: [
+      'Start Date',
+      'Start Time',
+      'End Date',
+      'End Time',
+      'Client',
+      'Project',
+      'Description',
+    ].map(get),
+    startedAt: parseWallClock(get('Start Date'), get('Start Time'), timeZone),
+    endedAt: parseWallClock(get('End Date'), get('End Time'), timeZone),
+    hours: get('Duration (decimal)')
+      ? Number(get('Duration (decimal)'))
+      : undefined,
+    clientName: get('Client'),
+    projectName: get('Project'),
+    note: get('Description'),
+    isBillable: parseBoolean(get('Billable')),
+  }));
+}
+
+/**
+ * Clockify detailed report JSON, or a list of time entries with their time
+ * interval and project
+ */
+function readClockifyJSON(json: unknown): RawExternalEntry[] {
+  return readJSONRecords(json, 'Clockify', ['timeentries', 'timeEntries']).map(
+    (record, index) => {
+      const timeInterval = readRecord(record.timeInterval);
+      const project = readRecord(record.project);
+      return {
+        row: index + 1,
+        id: readId(record._id) ?? readId(record.id),
+        fingerprint: [JSON.stringify(record)],
+        startedAt: parseTimestamp(timeInterval?.start),
+        endedAt: parseTimestamp(timeInterval?.end),
+        isRunning: Boolean(timeInterval?.start && !timeInterval?.end),
+        clientName:
+          readString(record.clientName) ?? readString(project?.clientName),
+        projectName:
+          readString(record.projectName) ?? readString(project?.name),
+        note: readString(record.description),
+        isBillable: readBoolean(record.billable),
+      };
+    },
+  );
+}
+
+/**
+ * Harvest detailed time report CSV: Date, Hours, Client, Project, Notes,
+ * Billable?. It has no start times, so entries are laid out per day.
+ */
+function readHarvestCSV(content: string, timeZone: string): DayEntry[] {
+  return readCSVRecords(content, 'Harvest', ['Date', 'Project', 'Hours']).map(
+    ({ row, get }) => ({
+      row,
+      fingerprint: ['Date', 'Hours', 'Client', 'Project', 'Notes'].map(get),
+      startedAt: null,
+      endedAt: null,
+      dayStart: parseWallClock(get('Date'), `${DAY_START_HOUR}:00`, timeZone),
+      hours: Number(get('Hours')),
+      clientName: get('Client'),
+      projectName: get('Project'),
+      note: get('Notes'),
+      isBillable: parseBoolean(get('Billable?')),
+    }),
+  );
+}
+
+/**
+ * Harvest time entries JSON as returned by its API. Entries tracked in
+ * duration mode have no start time and are laid out per day.
+ */
+function readHarvestJSON(json: unknown, timeZone: string): DayEntry[] {
+  return readJSONRecords(json, 'Harvest', ['time_entries']).map(
+    (record, index) => {
+      const spentDate = readString(record.spent_date) ?? '';
+      const startedTime = readString(record.started_time);
+      const endedTime = readString(record.ended_time);
+      return {
+        row: index + 1,
+        id: readId(record.id),
+        fingerprint: [JSON.stringify(record)],
+        startedAt: startedTime
+          ? parseWallClock(spentDate, startedTime, timeZone)
+          : null,
+        endedAt: endedTime
+          ? parseWallClock(spentDate, endedTime, timeZone)
+          : null,
+        dayStart: parseWallClock(spentDate, `${DAY_START_HOUR}:00`, timeZone),
+        hours: readNumber(record.hours),
+        isRunning: record.is_running === true,
+        clientName: readString(readRecord(record.client)?.name),
+        projectName: readString(readRecord(record.project)?.name),
+        note: readString(record.notes),
+        isBillable: readBoolean(record.billable),
+      };
+    },
+  );
+}
+
+/**
+ * Give entries that only have a day and hours a start time, back to back
+ * from the start of their day in file order
+ */
+function layoutDays(rawEntries: DayEntry[]): RawExternalEntry[] {
+  const dayCursors = new Map<number, number>();
+
+  return rawEntries.map(({ dayStart, ...raw }) => {
+    if (raw.startedAt || !dayStart || raw.hours === undefined) {
+      return raw;
+    }
+
+    const startedAt = dayCursors.get(dayStart.getTime()) ?? dayStart.getTime();
+    dayCursors.set(dayStart.getTime(), startedAt + raw.hours * 60 * 60 * 1000);
+
+    return { ...raw, startedAt: new Date(startedAt) };
+  });
+}
+
+function readCSVRecords(
+  content: string,
+  toolName: string,
+  requiredColumns: string[],
+) {
+  const [header, ...rows] = parseCSV(content);
+  const columns = (header ?? []).map((label) => label.trim().toLowerCase());
+
+  const missing = requiredColumns.filter(
+    (column) => !columns.includes(column.toLowerCase()),
+  );
+  if (missing.length > 0) {
+    throw new HTTPException(400, {
+      message: `Not a ${toolName} export`,
+      cause: {
+        code: 'api/import-column-missing',
+        detail: `Columns not found: ${missing.join(', ')}. Export the detailed report from ${toolName} as CSV.`,
+      },
+    });
+  }
+
+  return rows.map((values, index) => ({
+    row: index + 2,
+    get: (column: string) => {
+      const position = columns.indexOf(column.toLowerCase());
+      return position === -1 ? '' : (values[position] ?? '').trim();
+    },
+  }));
+}
+
+function readJSONRecords(
+  json: unknown,
+  toolName: string,
+  listKeys: string[],
+): JsonRecord[] {
+  const list = Array.isArray(json)
+    ? json
+    : listKeys.map((key) => readRecord(json)?.[key]).find(Array.isArray);
+
+  if (!list) {
+    throw new HTTPException(400, {
+      message: `Not a ${toolName} export`,
+      cause: {
+        code: 'api/invalid-import-file',
+        detail: `Expected a list of time entries${listKeys.length ? ` or an object with ${listKeys.join(' or ')}` : ''}`,
+      },
+    });
+  }
+
+  return list.flatMap((record: unknown): JsonRecord[] => {
+    const read = readRecord(record);
+    return read ? [read] : [];
+  });
+}
+
+function readRecord(value: unknown): JsonRecord | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as JsonRecord)
+    : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function readBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+// Ids are numbers in Toggl and Harvest, strings in Clockify
+function readId(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : undefined;
+}
+
+function parseJSON(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new HTTPException(400, {
+      message: 'The import file is not valid JSON',
+      cause: {
+        code: 'api/invalid-import-file',
+        detail: (error as Error).message,
+      },
+    });
+  }
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Date as YYYY-MM-DD, MM/DD/YYYY or DD.MM.YYYY and a 24h or am/pm time,
+ * taken in the given time zone
+ */
+function parseWallClock(
+  date: string,
+  time: string,
+  timeZone: string,
+): Date | null {
+  const dateMatch =
+    /^(?<year>\d{4})-(?<month>\d{1,2})-(?<day>\d{1,2})$/.exec(date) ??
+    /^(?<month>\d{1,2})\/(?<day>\d{1,2})\/(?<year>\d{4})$/.exec(date) ??
+    /^(?<day>\d{1,2})\.(?<month>\d{1,2})\.(?<year>\d{4})$/.exec(date);
+  const timeMatch =
+    /^(?<hour>\d{1,2}):(?<minute>\d{2})(?::(?<second>\d{2}))?\s*(?<meridiem>[ap]m)?$/i.exec(
+      time,
+    );
+  if (!dateMatch?.groups || !timeMatch?.groups) return null;
+
+  const { year, month, day } = dateMatch.groups;
+  const { minute, second = '0', meridiem } = timeMatch.groups;
+  let hour = Number(timeMatch.groups.hour);
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+
+  const wallClock = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      hour,
+      Number(minute),
+      Number(second),
+    ),
+  );
+  if (isNaN(wallClock.getTime())) return null;
+
+  return fromZonedTime(wallClock.toISOString().slice(0, 19), timeZone);
+}
+
+/**
+ * Duration as hh:mm:ss, hh:mm or decimal hours
+ */
+function parseDurationHours(value: string): number {
+  const match = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(value);
+  if (!match) return Number(value);
+  const [, hours, minutes, seconds = '0'] = match;
+  return Number(hours) + Number(minutes) / 60 + Number(seconds) / 3600;
+}
+
+function hashFingerprint(values: string[]): string {
+  return createHash('sha256')
+    .update(values.join('\u001f'))
+    .digest('hex')
+    .slice(0, 32);
+}
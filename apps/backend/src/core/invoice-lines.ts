@@ -0,0 +1,341 @@
+import { HTTPException } from 'hono/http-exception';
+
+import type {
+  Client,
+  Invoice,
+  InvoiceStatus,
+  LineGrouping,
+  Milestone,
+  Project,
+  Rate,
+  Task,
+  TimeEntry,
+} from '@iworked/db';
+import { Prisma, prisma } from '@iworked/db';
+
+import { calculateDurationHours, getHourlyRate } from './calculations.ts';
+import type { CursorPosition, SortOrder } from './pagination.ts';
+import { RATE_HISTORY } from './rates.ts';
+import type { RoundingPolicy } from './rounding.ts';
+import { calculateRoundedHours, resolveRoundingPolicy } from './rounding.ts';
+import { matchesSearch } from './search.ts';
+
+type BillableTimeEntry = TimeEntry & {
+  project: Project & {
+    rates: Rate[];
+    client: (Client & { rates: Rate[] }) | null;
+  };
+  task: Task | null;
+};
+
+type InvoiceableMilestone = Milestone & { project: Project };
+
+/**
+ * Find the unbilled time entries of a client within a date range.
+ * Running timers are left out until they are stopped, and non-billable
+ * entries are never invoiced. Only projects billed by the hour are invoiced
+ * for their time.
+ */
+export function findBillableTimeEntries(
+  db: Prisma.TransactionClient,
+  invoice: Pick<Invoice, 'userId' | 'clientId' | 'dateFrom' | 'dateTo'>,
+): Promise<BillableTimeEntry[]> {
+  return db.timeEntry.findMany({
+    where: {
+      userId: invoice.userId,
+      deletedAt: null,
+      project: { clientId: invoice.clientId, billingMode: 'HOURLY' },
+      invoiceId: null,
+      isBillable: true,
+      endedAt: { not: null },
+      startedAt: {
+        gte: invoice.dateFrom,
+        lte: invoice.dateTo,
+      },
+    },
+    include: {
+      project: {
+        include: RATE_HISTORY,
+      },
+      task: true,
+    },
+  });
+}
+
+/**
+ * Find the milestones of a client's fixed-fee projects that were completed
+ * within a date range and are not invoiced yet
+ */
+export function findInvoiceableMilestones(
+  db: Prisma.TransactionClient,
+  invoice: Pick<Invoice, 'userId' | 'clientId' | 'dateFrom' | 'dateTo'>,
+): Promise<InvoiceableMilestone[]> {
+  return db.milestone.findMany({
+    where: {
+      userId: invoice.userId,
+      project: {
+        clientId: invoice.clientId,
+        billingMode: 'FIXED_FEE',
+        deletedAt: null,
+      },
+      status: 'COMPLETED',
+      completedAt: {
+        gte: invoice.dateFrom,
+        lte: invoice.dateTo,
+      },
+    },
+    orderBy: [{ dueDate: 'asc' }, { name: 'asc' }],
+    include: {
+      project: true,
+    },
+  });
+}
+
+/**
+ * Create one invoice line per milestone, billing it as a single unit at its
+ * amount, and mark the milestones invoiced
+ */
+export async function createMilestoneLines(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  milestones: InvoiceableMilestone[],
+) {
+  const lines = await Promise.all(
+    milestones.map((milestone) =>
+      tx.invoiceLine.create({
+        data: {
+          description: `${milestone.project.name}: ${milestone.name}`,
+          hours: '1',
+          rate: milestone.amount,
+          amount: milestone.amount,
+          invoiceId,
+          projectId: milestone.projectId,
+          milestoneId: milestone.id,
+        },
+      }),
+    ),
+  );
+
+  await tx.milestone.updateMany({
+    where: {
+      id: { in: milestones.map((milestone) => milestone.id) },
+    },
+    data: { status: 'INVOICED' },
+  });
+
+  return lines;
+}
+
+/**
+ * Create the invoice lines of the given time entries and link the entries to
+ * their line, which locks them (FR-6, FR-7). Lines are made per project, or
+ * per task with the time outside any task on the project line. Either way a
+ * task with its own rate gets a line of its own, and time billed at another
+ * rate of the project's rate history too, since a line has one rate.
+ * Line hours follow the project's rounding policy and the tracked hours are
+ * kept next to them.
+ */
+export async function createTimeEntryLines(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  timeEntries: BillableTimeEntry[],
+  grouping: LineGrouping = 'PROJECT',
+) {
+  // Group time entries by line and calculate totals
+  const lineTotals = timeEntries.reduce(
+    (acc, entry) => {
+      const task =
+        grouping === 'TASK' || entry.task?.hourlyRate ? entry.task : null;
+      const hourlyRate = getHourlyRate(entry);
+      const key = `${task?.id ?? entry.project.id}:${hourlyRate}`;
+
+      if (!acc[key]) {
+        acc[key] = {
+          projectId: entry.project.id,
+          taskId: task?.id ?? null,
+          description: task
+            ? `${entry.project.name}: ${task.name}`
+            : entry.project.name,
+          hourlyRate: hourlyRate ? parseFloat(hourlyRate.toString()) : 0,
+          rounding: resolveRoundingPolicy(entry.project, entry.project.client),
+          entryHours: [],
+          timeEntryIds: [],
+        };
+      }
+
+      acc[key].entryHours.push(
+        calculateDurationHours(entry.startedAt, entry.endedAt),
+      );
+      acc[key].timeEntryIds.push(entry.id);
+
+      return acc;
+    },
+    {} as Record<
+      string,
+      {
+        projectId: string;
+        taskId: string | null;
+        description: string;
+        hourlyRate: number;
+        rounding: RoundingPolicy | null;
+        entryHours: number[];
+        timeEntryIds: string[];
+      }
+    >,
+  );
+
+  return Promise.all(
+    Object.values(lineTotals).map(async (lineTotal) => {
+      // Round to the project increment, or to 2 decimal places without one (BR-2)
+      const { rawHours, roundedHours: hours } = calculateRoundedHours(
+        lineTotal.entryHours,
+        lineTotal.rounding,
+      );
+      const rate = Math.round(lineTotal.hourlyRate * 100) / 100;
+      const amount = Math.round(hours * rate * 100) / 100;
+
+      const line = await tx.invoiceLine.create({
+        data: {
+          description: lineTotal.description,
+          hours: hours.toString(),
+          rawHours: rawHours.toString(),
+          rate: rate.toString(),
+          amount: amount.toString(),
+          invoiceId,
+          projectId: lineTotal.projectId,
+          taskId: lineTotal.taskId,
+        },
+      });
+
+      // Entries billed by another invoice since they were selected are left
+      // alone, and the whole transaction rolls back
+      const { count } = await tx.timeEntry.updateMany({
+        where: {
+          id: { in: lineTotal.timeEntryIds },
+          invoiceId: null,
+        },
+        data: {
+          invoiceId,
+          invoiceLineId: line.id,
+        },
+      });
+      if (count !== lineTotal.timeEntryIds.length) {
+        throw new HTTPException(409, {
+          message: 'Time entries already invoiced',
+          cause: {
+            code: 'api/time-entries-already-invoiced',
+            detail: `${lineTotal.timeEntryIds.length - count} of the time entries for ${lineTotal.description} were invoiced by another invoice in the meantime`,
+          },
+        });
+      }
+
+      return line;
+    }),
+  );
+}
+
+/**
+ * Rebuild the time entry and milestone lines of a draft invoice from the
+ * time entries and completed milestones in its date range, grouped as when
+ * it was created. Entries and milestones that fell out of the range are
+ * released, new ones are billed, and manual lines (with the entries billed on
+ * them) are kept.
+ */
+export async function recalculateInvoiceLines(
+  tx: Prisma.TransactionClient,
+  invoice: Pick<
+    Invoice,
+    'id' | 'userId' | 'clientId' | 'dateFrom' | 'dateTo' | 'lineGrouping'
+  >,
+) {
+  // Release the entries billed on time entry lines, then drop those lines
+  await tx.timeEntry.updateMany({
+    where: {
+      invoiceId: invoice.id,
+      OR: [{ invoiceLineId: null }, { invoiceLine: { isManual: false } }],
+    },
+    data: {
+      invoiceId: null,
+      invoiceLineId: null,
+    },
+  });
+
+  const milestoneLines = await tx.invoiceLine.findMany({
+    where: {
+      invoiceId: invoice.id,
+      milestoneId: { not: null },
+    },
+    select: { milestoneId: true },
+  });
+
+  await tx.invoiceLine.deleteMany({
+    where: {
+      invoiceId: invoice.id,
+      isManual: false,
+    },
+  });
+
+  // A milestone billed on another invoice meanwhile stays with that invoice
+  await tx.milestone.updateMany({
+    where: {
+      id: { in: milestoneLines.map((line) => line.milestoneId!) },
+      invoiceLines: { none: { invoice: { deletedAt: null } } },
+    },
+    data: { status: 'COMPLETED' },
+  });
+
+  const timeEntries = await findBillableTimeEntries(tx, invoice);
+  const milestones = await findInvoiceableMilestones(tx, invoice);
+
+  return [
+    ...(await createTimeEntryLines(
+      tx,
+      invoice.id,
+      timeEntries,
+      invoice.lineGrouping,
+    )),
+    ...(await createMilestoneLines(tx, invoice.id, milestones)),
+  ];
+}
+
+/**
+ * A page of invoice ids ordered by the invoice total (the sum of its lines),
+ * which is not stored and so can't be sorted on by Prisma
+ */
+export async function findInvoiceIdsByTotal(
+  filter: {
+    userId: string;
+    status?: InvoiceStatus;
+    clientId?: string;
+    query?: string; // Full-text search, as the `q` filter of the list
+  },
+  page: {
+    order: SortOrder;
+    after?: CursorPosition;
+    skip: number;
+    take: number;
+  },
+): Promise<{ id: string; totalAmount: number }[]> {
+  const direction = Prisma.raw(page.order === 'desc' ? 'DESC' : 'ASC');
+  const operator = Prisma.raw(page.order === 'desc' ? '<' : '>');
+
+  return prisma.$queryRaw`
+    SELECT i."id", coalesce(sum(il."amount"), 0)::float8 AS "totalAmount"
+    FROM "Invoice" AS i
+    LEFT JOIN "InvoiceLine" AS il ON il."invoiceId" = i."id"
+    WHERE i."userId" = ${filter.userId}
+      AND i."deletedAt" IS NULL
+      ${filter.status ? Prisma.sql`AND i."status" = ${filter.status}::"InvoiceStatus"` : Prisma.empty}
+      ${filter.clientId ? Prisma.sql`AND i."clientId" = ${filter.clientId}` : Prisma.empty}
+      ${filter.query ? Prisma.sql`AND ${matchesSearch('i', filter.query)}` : Prisma.empty}
+    GROUP BY i."id"
+    ${
+      page.after
+        ? Prisma.sql`HAVING (coalesce(sum(il."amount"), 0), i."id") ${operator} (${page.after.value}::numeric, ${page.after.id})`
+        : Prisma.empty
+    }
+    ORDER BY "totalAmount" ${direction}, i."id" ${direction}
+    OFFSET ${page.skip}
+    LIMIT ${page.take}
+  `;
+}
@@ -2,8 +2,12 @@
  * Get next invoice number for a user
  * This would typically be implemented with a database counter or sequence
  */
+import { formatInTimeZone } from 'date-fns-tz';
+
 import { prisma } from '@iworked/db';
 
+import { getUserSettings } from './settings.ts';
+
 /**
  * Generate invoice number in format: INV-YYYY-NNNN
  * Where YYYY is the current year and NNNN is a zero-padded sequential number
@@ -33,7 +37,12 @@ export function parseInvoiceNumber(invoiceNumber: string): {
 }
 
 export async function getNextInvoiceNumber(userId: string): Promise<string> {
-  const currentYear = new Date().getFullYear();
+  // The year as it is where the user lives, which differs around New Year
+  const { timeZone } = await getUserSettings(userId);
+  const currentYear = parseInt(
+    formatInTimeZone(new Date(), timeZone, 'yyyy'),
+    10,
+  );
 
   // Find the highest sequence number for the current year for this user
   const lastInvoice = await prisma.invoice.findFirst({
@@ -0,0 +1,251 @@
+import { createHash } from 'node:crypto';
+
+import PDFDocument from 'pdfkit';
+
+import type { Client, Invoice, InvoiceLine, Project } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from './audit.ts';
+import { formatCurrency, roundToTwoDecimals } from './calculations.ts';
+import type { UserPreferences } from './settings.ts';
+import { formatUserDate, getUserSettings } from './settings.ts';
+import { getStorage } from './storage.ts';
+
+type InvoiceWithDetails = Invoice & {
+  client: Client;
+  invoiceLines: (InvoiceLine & { project: Project })[];
+};
+
+/**
+ * Everything that ends up on the rendered PDF, in plain values
+ */
+function toRenderModel(invoice: InvoiceWithDetails, settings: UserPreferences) {
+  const lines = invoice.invoiceLines.map((line) => ({
+    description: line.description,
+    // Milestone lines bill one unit each, so they show no hours
+    hours: line.milestoneId ? null : parseFloat(line.hours.toString()),
+    rate: parseFloat(line.rate.toString()),
+    amount: parseFloat(line.amount.toString()),
+  }));
+
+  return {
+    invoiceNumber: invoice.invoiceNumber || invoice.id.substring(0, 8),
+    status: invoice.status,
+    issuedAt: formatUserDate(invoice.sentAt ?? invoice.createdAt, settings),
+    dateFrom: formatUserDate(invoice.dateFrom, settings),
+    dateTo: formatUserDate(invoice.dateTo, settings),
+    currency: settings.currency,
+    locale: settings.locale,
+    client: {
+      name: invoice.client.name,
+      email: invoice.client.email,
+    },
+    notes: invoice.notes,
+    lines,
+    totalAmount: roundToTwoDecimals(
+      lines.reduce((sum, line) => sum + line.amount, 0),
+    ),
+  };
+}
+
+/**
+ * Fingerprint of the invoice data, used to detect when a stored PDF is stale
+ */
+export function getInvoicePdfChecksum(
+  invoice: InvoiceWithDetails,
+  settings: UserPreferences,
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify(toRenderModel(invoice, settings)))
+    .digest('hex');
+}
+
+/**
+ * Render an invoice as an A4 PDF document
+ */
+export function renderInvoicePdf(
+  invoice: InvoiceWithDetails,
+  settings: UserPreferences,
+): Promise<Buffer> {
+  const model = toRenderModel(invoice, settings);
+  const formatAmount = (amount: number) =>
+    formatCurrency(amount, model.currency, model.locale);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: { Title: `Invoice ${model.invoiceNumber}` },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const columns = {
+      description: { x: left, width: 260 },
+      hours: { x: left + 270, width: 60 },
+      rate: { x: left + 340, width: 70 },
+      amount: { x: left + 420, width: right - left - 420 },
+    };
+
+    // Header
+    doc.font('Helvetica-Bold').fontSize(24).text('INVOICE', { align: 'right' });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(`Invoice number: ${model.invoiceNumber}`, { align: 'right' })
+      .text(`Issued: ${model.issuedAt}`, { align: 'right' })
+      .text(`Period: ${model.dateFrom} to ${model.dateTo}`, { align: 'right' })
+      .text(`Status: ${model.status}`, { align: 'right' });
+
+    // Client
+    doc.moveDown(2);
+    doc.font('Helvetica-Bold').fontSize(12).text('Bill to', left);
+    doc.font('Helvetica').fontSize(10).text(model.client.name);
+    if (model.client.email) {
+      doc.text(model.client.email);
+    }
+
+    // Lines
+    doc.moveDown(2);
+    const drawRow = (
+      values: Record<keyof typeof columns, string>,
+      bold = false,
+    ) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 40) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+      let bottom = y;
+      for (const [key, column] of Object.entries(columns)) {
+        doc.text(values[key as keyof typeof columns], column.x, y, {
+          width: column.width,
+          align: key === 'description' ? 'left' : 'right',
+        });
+        bottom = Math.max(bottom, doc.y);
+      }
+      doc.x = left;
+      doc.y = bottom + 6;
+    };
+    const drawRule = () => {
+      doc
+        .moveTo(left, doc.y)
+        .lineTo(right, doc.y)
+        .strokeColor('#cccccc')
+        .stroke();
+      doc.y += 6;
+    };
+
+    drawRow(
+      {
+        description: 'Description',
+        hours: 'Hours',
+        rate: 'Rate',
+        amount: 'Amount',
+      },
+      true,
+    );
+    drawRule();
+    for (const line of model.lines) {
+      drawRow({
+        description: line.description,
+        hours: line.hours?.toFixed(2) ?? '',
+        rate: formatAmount(line.rate),
+        amount: formatAmount(line.amount),
+      });
+    }
+    drawRule();
+    drawRow(
+      {
+        description: 'Total',
+        hours: '',
+        rate: '',
+        amount: formatAmount(model.totalAmount),
+      },
+      true,
+    );
+
+    // Notes
+    if (model.notes) {
+      doc.moveDown(2);
+      doc.font('Helvetica-Bold').fontSize(12).text('Notes', left);
+      doc
+        .font('Helvetica')
+        .fontSize(10)
+        .text(model.notes, left, doc.y, {
+          width: right - left,
+        });
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Get the PDF of an invoice, rendering and storing it again when the stored
+ * copy is missing or no longer matches the invoice (e.g. after a draft edit).
+ * Every rendering is recorded in the audit log.
+ */
+export async function getInvoicePdf(
+  invoiceId: string,
+  userId: string,
+  options: { force?: boolean } = {},
+): Promise<{ buffer: Buffer; filename: string; pdfUrl: string }> {
+  const invoice = await prisma.invoice.findUniqueOrThrow({
+    where: {
+      id: invoiceId,
+      userId,
+      deletedAt: null,
+    },
+    include: {
+      client: true,
+      invoiceLines: {
+        include: {
+          project: true,
+        },
+      },
+    },
+  });
+
+  const settings = await getUserSettings(userId);
+  const storage = getStorage();
+  const checksum = getInvoicePdfChecksum(invoice, settings);
+  const filename = `invoice-${invoice.invoiceNumber || invoice.id}.pdf`;
+  const pdfUrl = `/api/invoices/${invoice.id}/pdf`;
+
+  if (!options.force && invoice.pdfKey && invoice.pdfChecksum === checksum) {
+    const stored = await storage.get(invoice.pdfKey);
+    if (stored) {
+      return { buffer: stored, filename, pdfUrl };
+    }
+  }
+
+  const buffer = await renderInvoicePdf(invoice, settings);
+  const pdfKey = `invoices/${userId}/${invoice.id}.pdf`;
+  await storage.put(pdfKey, buffer);
+
+  await prisma.$transaction(async (tx) => {
+    const updated = await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        pdfKey,
+        pdfChecksum: checksum,
+        pdfUrl,
+      },
+    });
+
+    await recordAudit(tx, {
+      action: 'UPDATE',
+      entityType: 'INVOICE',
+      entityId: invoice.id,
+      before: invoice,
+      after: updated,
+    });
+  });
+
+  return { buffer, filename, pdfUrl };
+}
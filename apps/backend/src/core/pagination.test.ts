@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { HTTPException } from 'hono/http-exception';
+
+import type { ListSort } from './pagination.ts';
+import {
+  decodeCursor,
+  encodeCursor,
+  toPage,
+  whereAfterCursor,
+} from './pagination.ts';
+
+const byStart: ListSort = { field: 'startedAt', order: 'desc' };
+const byName: ListSort = { field: 'name', order: 'asc' };
+
+const isInvalidCursor = (error: unknown) =>
+  error instanceof HTTPException &&
+  error.status === 400 &&
+  (error.cause as { code: string }).code === 'api/invalid-cursor';
+
+describe('Cursor pagination', () => {
+  describe('encodeCursor and decodeCursor', () => {
+    it('should round trip a date as its ISO string', () => {
+      const cursor = encodeCursor(
+        byStart,
+        new Date('2025-06-02T09:00:00Z'),
+        'entry-1',
+      );
+
+      assert.deepStrictEqual(decodeCursor(cursor, byStart), {
+        value: '2025-06-02T09:00:00.000Z',
+        id: 'entry-1',
+      });
+    });
+
+    it('should keep numbers as numbers and other values as strings', () => {
+      const byTotal: ListSort = { field: 'totalAmount', order: 'asc' };
+
+      assert.deepStrictEqual(
+        decodeCursor(encodeCursor(byTotal, 125.5, 'invoice-1'), byTotal),
+        { value: 125.5, id: 'invoice-1' },
+      );
+      assert.deepStrictEqual(
+        decodeCursor(encodeCursor(byName, 'Acme', 'client-1'), byName),
+        { value: 'Acme', id: 'client-1' },
+      );
+    });
+
+    it('should make cursors safe to pass in a URL', () => {
+      const cursor = encodeCursor(byName, 'Ünïcödé / ? & =', 'client-1');
+
+      assert.match(cursor, /^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject a cursor made for another sort', () => {
+      const cursor = encodeCursor(byStart, new Date(), 'entry-1');
+
+      assert.throws(
+        () => decodeCursor(cursor, { ...byStart, order: 'asc' }),
+        isInvalidCursor,
+      );
+      assert.throws(
+        () => decodeCursor(cursor, { field: 'createdAt', order: 'desc' }),
+        isInvalidCursor,
+      );
+    });
+
+    it('should reject a cursor that is not one', () => {
+      assert.throws(
+        () => decodeCursor('not-a-cursor', byName),
+        isInvalidCursor,
+      );
+      assert.throws(
+        () =>
+          decodeCursor(
+            Buffer.from(
+              JSON.stringify({ sort: 'name:asc', value: {} }),
+            ).toString('base64url'),
+            byName,
+          ),
+        isInvalidCursor,
+      );
+    });
+  });
+
+  describe('whereAfterCursor', () => {
+    const where = { userId: 'user-1', deletedAt: null };
+
+    it('should leave the filter as is without a cursor', () => {
+      assert.strictEqual(whereAfterCursor(where, byName, undefined), where);
+    });
+
+    it('should continue after the last row in ascending order', () => {
+      const cursor = encodeCursor(byName, 'Acme', 'client-1');
+
+      assert.deepStrictEqual(whereAfterCursor(where, byName, cursor), {
+        AND: [
+          where,
+          {
+            OR: [
+              { name: { gt: 'Acme' } },
+              { name: 'Acme', id: { gt: 'client-1' } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should continue before the last row in descending order', () => {
+      const cursor = encodeCursor(
+        byStart,
+        new Date('2025-06-02T09:00:00Z'),
+        'entry-1',
+      );
+
+      assert.deepStrictEqual(whereAfterCursor(where, byStart, cursor), {
+        AND: [
+          where,
+          {
+            OR: [
+              { startedAt: { lt: '2025-06-02T09:00:00.000Z' } },
+              {
+                startedAt: '2025-06-02T09:00:00.000Z',
+                id: { lt: 'entry-1' },
+              },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe('toPage', () => {
+    const rows = ['a', 'b', 'c'].map((name) => ({ id: `id-${name}`, name }));
+
+    it('should trim the extra row and give a cursor after the last one', () => {
+      const page = toPage(rows, 2, byName);
+
+      assert.deepStrictEqual(
+        page.data.map((row) => row.id),
+        ['id-a', 'id-b'],
+      );
+      assert.strictEqual(page.hasMore, true);
+      assert.deepStrictEqual(decodeCursor(page.nextCursor!, byName), {
+        value: 'b',
+        id: 'id-b',
+      });
+    });
+
+    it('should give no cursor on the last page', () => {
+      const page = toPage(rows, 3, byName);
+
+      assert.strictEqual(page.data.length, 3);
+      assert.strictEqual(page.hasMore, false);
+      assert.strictEqual(page.nextCursor, null);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { HTTPException } from 'hono/http-exception';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListSort<F extends string = string> {
+  field: F;
+  order: SortOrder;
+}
+
+export interface CursorPosition {
+  value: string | number; // Sort value of the last row of the previous page
+  id: string; // Breaks ties between rows with the same sort value
+}
+
+export interface PageInfo {
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * Encode the position after a row as an opaque cursor. The cursor remembers
+ * the sort it was made for, so it can't be replayed with another one.
+ */
+export function encodeCursor(
+  sort: ListSort,
+  value: unknown,
+  id: string,
+): string {
+  const position: CursorPosition = {
+    value:
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'number'
+          ? value
+          : String(value),
+    id,
+  };
+
+  return Buffer.from(
+    JSON.stringify({ sort: `${sort.field}:${sort.order}`, ...position }),
+  ).toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeCursor for the same sort
+ */
+export function decodeCursor(cursor: string, sort: ListSort): CursorPosition {
+  try {
+    const {
+      sort: cursorSort,
+      value,
+      id,
+    } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+
+    if (
+      cursorSort === `${sort.field}:${sort.order}` &&
+      ['string', 'number'].includes(typeof value) &&
+      typeof id === 'string'
+    ) {
+      return { value, id };
+    }
+  } catch {
+    // Reported below like any other cursor that can't be used
+  }
+
+  throw new HTTPException(400, {
+    message: 'Invalid cursor',
+    cause: {
+      code: 'api/invalid-cursor',
+      detail:
+        'Use the nextCursor of a previous page, with the same sort and order',
+    },
+  });
+}
+
+/**
+ * Order rows by the sort field, then by id so rows with the same value keep a
+ * stable order across pages
+ */
+export function toOrderBy<T>(sort: ListSort): T {
+  return [{ [sort.field]: sort.order }, { id: sort.order }] as T;
+}
+
+/**
+ * Narrow a filter to the rows that come after the cursor in the sort order.
+ * Without a cursor the filter is returned as is.
+ */
+export function whereAfterCursor<T>(
+  where: T,
+  sort: ListSort,
+  cursor: string | undefined,
+): T {
+  if (!cursor) return where;
+
+  const position = decodeCursor(cursor, sort);
+  const operator = sort.order === 'desc' ? 'lt' : 'gt';
+
+  return {
+    AND: [
+      where,
+      {
+        OR: [
+          { [sort.field]: { [operator]: position.value } },
+          { [sort.field]: position.value, id: { [operator]: position.id } },
+        ],
+      },
+    ],
+  } as T;
+}
+
+/**
+ * Trim the rows fetched with one extra (take: pageSize + 1) to the page, and
+ * give the cursor of the next one when there are more rows
+ */
+export function toPage<T extends { id: string }>(
+  rows: T[],
+  pageSize: number,
+  sort: ListSort,
+  valueOf: (row: T) => unknown = (row) => row[sort.field as keyof T],
+): { data: T[] } & PageInfo {
+  const data = rows.slice(0, pageSize);
+  const last = data.at(-1);
+  const hasMore = rows.length > pageSize && last !== undefined;
+
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(sort, valueOf(last), last.id) : null,
+  };
+}
@@ -0,0 +1,48 @@
+import type { Prisma } from '@iworked/db';
+
+import { calculateInvoiceBalance } from './calculations.ts';
+
+/**
+ * Recompute the paid amount of an invoice from its Payment rows and move it
+ * to PAID once the payments cover the total (or back to SENT when a payment
+ * is removed and a balance is outstanding again)
+ */
+export async function syncInvoicePayments(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: {
+      invoiceLines: true,
+      payments: {
+        orderBy: { paidAt: 'desc' },
+      },
+    },
+  });
+
+  const balance = calculateInvoiceBalance(
+    invoice.invoiceLines,
+    invoice.payments,
+  );
+  const settled = balance.totalAmount > 0 && balance.outstandingAmount <= 0;
+
+  const updateData: Prisma.InvoiceUpdateInput = {
+    paidAmount: balance.paidAmount > 0 ? balance.paidAmount.toString() : null,
+  };
+
+  if (settled && invoice.status === 'SENT') {
+    updateData.status = 'PAID';
+    updateData.paidAt = invoice.payments[0].paidAt;
+  } else if (!settled && invoice.status === 'PAID') {
+    updateData.status = 'SENT';
+    updateData.paidAt = null;
+  }
+
+  await tx.invoice.update({
+    where: { id: invoiceId },
+    data: updateData,
+  });
+
+  return balance;
+}
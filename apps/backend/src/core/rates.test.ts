@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Prisma } from '@iworked/db';
+
+import { findRateAt } from './rates.ts';
+
+const rate = (hourlyRate: number, effectiveFrom: string) => ({
+  hourlyRate: new Prisma.Decimal(hourlyRate),
+  effectiveFrom: new Date(effectiveFrom),
+});
+
+const rateAt = (rates: ReturnType<typeof rate>[] | undefined, at: string) =>
+  findRateAt(rates, new Date(at))?.toNumber() ?? null;
+
+describe('Rate history', () => {
+  describe('findRateAt', () => {
+    // Listed out of order, as they may come from the database
+    const history = [
+      rate(120, '2025-07-01T00:00:00Z'),
+      rate(100, '2025-01-01T00:00:00Z'),
+      rate(110, '2025-04-01T00:00:00Z'),
+    ];
+
+    it('should give no rate without a history', () => {
+      assert.strictEqual(rateAt(undefined, '2025-05-01T00:00:00Z'), null);
+      assert.strictEqual(rateAt([], '2025-05-01T00:00:00Z'), null);
+    });
+
+    it('should give the latest rate effective at the time', () => {
+      assert.strictEqual(rateAt(history, '2025-02-15T12:00:00Z'), 100);
+      assert.strictEqual(rateAt(history, '2025-05-01T00:00:00Z'), 110);
+      assert.strictEqual(rateAt(history, '2026-01-01T00:00:00Z'), 120);
+    });
+
+    it('should take a rate from the instant it is effective', () => {
+      assert.strictEqual(rateAt(history, '2025-04-01T00:00:00Z'), 110);
+      assert.strictEqual(rateAt(history, '2025-03-31T23:59:59Z'), 100);
+    });
+
+    it('should give the first rate for time before the history starts', () => {
+      assert.strictEqual(rateAt(history, '2024-06-01T00:00:00Z'), 100);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import type { Client, Prisma, Project, Rate } from '@iworked/db';
+
+import { recordAudit } from './audit.ts';
+
+type RateHistory = Pick<Rate, 'hourlyRate' | 'effectiveFrom'>[];
+
+export type RatedProject = Pick<Project, 'hourlyRate'> & {
+  rates: RateHistory;
+  client: (Pick<Client, 'id'> & { rates: RateHistory }) | null;
+};
+
+/**
+ * Include for the project of time entries, so they are priced with the rate
+ * history of the project and of its client
+ */
+export const RATE_HISTORY = {
+  rates: true,
+  client: { include: { rates: true } },
+} satisfies Prisma.ProjectInclude;
+
+export type ProjectWithRateHistory = Prisma.ProjectGetPayload<{
+  include: typeof RATE_HISTORY;
+}>;
+
+/**
+ * The rate of a history in effect at the given time; time before the first
+ * effective date is at the first rate
+ */
+export function findRateAt(
+  rates: RateHistory | undefined,
+  at: Date,
+): Rate['hourlyRate'] | null {
+  if (!rates?.length) return null;
+
+  let first = rates[0];
+  let current: RateHistory[number] | null = null;
+  for (const rate of rates) {
+    if (rate.effectiveFrom < first.effectiveFrom) first = rate;
+    if (
+      rate.effectiveFrom <= at &&
+      (!current || rate.effectiveFrom > current.effectiveFrom)
+    ) {
+      current = rate;
+    }
+  }
+  return (current ?? first).hourlyRate;
+}
+
+/**
+ * Make the current rate of a project the rate of its history in effect now,
+ * auditing the project when it changes
+ */
+export async function syncProjectRate(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  now = new Date(),
+) {
+  const rates = await tx.rate.findMany({ where: { projectId } });
+  const hourlyRate = findRateAt(rates, now);
+  if (!hourlyRate) return;
+
+  const project = await tx.project.findUniqueOrThrow({
+    where: { id: projectId },
+  });
+  if (project.hourlyRate?.equals(hourlyRate)) return;
+
+  const updated = await tx.project.update({
+    where: { id: projectId },
+    data: { hourlyRate },
+  });
+  await recordAudit(tx, {
+    action: 'UPDATE',
+    entityType: 'PROJECT',
+    entityId: projectId,
+    before: project,
+    after: updated,
+  });
+}
+
+/**
+ * Replace the rates of a history with the same effective date by a new one,
+ * recording both in the audit log
+ */
+async function replaceRate(
+  tx: Prisma.TransactionClient,
+  owner: { projectId: string } | { clientId: string },
+  data: Prisma.RateUncheckedCreateInput,
+): Promise<Rate> {
+  const replaced = await tx.rate.findMany({
+    where: { ...owner, effectiveFrom: data.effectiveFrom },
+  });
+  await tx.rate.deleteMany({
+    where: { id: { in: replaced.map((rate) => rate.id) } },
+  });
+  const created = await tx.rate.create({ data });
+
+  await recordAudit(tx, [
+    ...replaced.map((rate) => ({
+      action: 'DELETE' as const,
+      entityType: 'RATE' as const,
+      entityId: rate.id,
+      before: rate,
+    })),
+    {
+      action: 'CREATE',
+      entityType: 'RATE',
+      entityId: created.id,
+      after: created,
+    },
+  ]);
+
+  return created;
+}
+
+/**
+ * Add a rate to the history of a project, replacing one with the same
+ * effective date. Before the first rate of a project, the rates time was
+ * priced at until then are copied into its history, so past time is not
+ * re-priced: its hourlyRate from the creation of the project, or else the
+ * history of its client.
+ */
+export async function addProjectRate(
+  tx: Prisma.TransactionClient,
+  project: Pick<
+    Project,
+    'id' | 'userId' | 'clientId' | 'hourlyRate' | 'createdAt'
+  >,
+  rate: { hourlyRate: number; effectiveFrom: Date },
+): Promise<Rate> {
+  const historyLength = await tx.rate.count({
+    where: { projectId: project.id },
+  });
+  if (historyLength === 0) {
+    const previous: RateHistory = project.hourlyRate
+      ? [{ hourlyRate: project.hourlyRate, effectiveFrom: project.createdAt }]
+      : project.clientId
+        ? await tx.rate.findMany({ where: { clientId: project.clientId } })
+        : [];
+
+    for (const seed of previous) {
+      if (seed.effectiveFrom >= rate.effectiveFrom) continue;
+
+      const seeded = await tx.rate.create({
+        data: {
+          hourlyRate: seed.hourlyRate,
+          effectiveFrom: seed.effectiveFrom,
+          userId: project.userId,
+          projectId: project.id,
+        },
+      });
+      await recordAudit(tx, {
+        action: 'CREATE',
+        entityType: 'RATE',
+        entityId: seeded.id,
+        after: seeded,
+      });
+    }
+  }
+
+  const created = await replaceRate(
+    tx,
+    { projectId: project.id },
+    {
+      hourlyRate: rate.hourlyRate.toString(),
+      effectiveFrom: rate.effectiveFrom,
+      userId: project.userId,
+      projectId: project.id,
+    },
+  );
+
+  await syncProjectRate(tx, project.id);
+  return created;
+}
+
+/**
+ * Add a rate to the history of a client, replacing one with the same
+ * effective date
+ */
+export function addClientRate(
+  tx: Prisma.TransactionClient,
+  client: Pick<Client, 'id' | 'userId'>,
+  rate: { hourlyRate: number; effectiveFrom: Date },
+): Promise<Rate> {
+  return replaceRate(
+    tx,
+    { clientId: client.id },
+    {
+      hourlyRate: rate.hourlyRate.toString(),
+      effectiveFrom: rate.effectiveFrom,
+      userId: client.userId,
+      clientId: client.id,
+    },
+  );
+}
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { RoundingPolicy } from './rounding.ts';
+import {
+  calculateRoundedHours,
+  resolveRoundingPolicy,
+  roundHours,
+} from './rounding.ts';
+
+const policy = (
+  increment: number,
+  mode: RoundingPolicy['mode'] = 'UP',
+  scope: RoundingPolicy['scope'] = 'ENTRY',
+): RoundingPolicy => ({ increment, mode, scope });
+
+describe('Time rounding', () => {
+  describe('roundHours', () => {
+    it('should only round to 0.01 without a policy', () => {
+      assert.strictEqual(roundHours(1.23456, null), 1.23);
+    });
+
+    it('should round up to the next increment', () => {
+      // 61 minutes with a 15 minute increment
+      assert.strictEqual(roundHours(61 / 60, policy(15)), 1.25);
+      assert.strictEqual(roundHours(0.01, policy(6)), 0.1);
+    });
+
+    it('should round down to the previous increment', () => {
+      assert.strictEqual(roundHours(74 / 60, policy(15, 'DOWN')), 1);
+    });
+
+    it('should round to the nearest increment', () => {
+      assert.strictEqual(roundHours(67 / 60, policy(15, 'NEAREST')), 1);
+      assert.strictEqual(roundHours(68 / 60, policy(15, 'NEAREST')), 1.25);
+    });
+
+    it('should leave exact multiples alone despite floating point noise', () => {
+      // 0.1 + 0.2 is 0.30000000000000004
+      assert.strictEqual(roundHours(0.1 + 0.2, policy(6)), 0.3);
+      assert.strictEqual(roundHours(0.7, policy(6, 'DOWN')), 0.7);
+      assert.strictEqual(roundHours(1.5, policy(30)), 1.5);
+    });
+
+    it('should keep zero hours at zero', () => {
+      assert.strictEqual(roundHours(0, policy(15)), 0);
+    });
+  });
+
+  describe('calculateRoundedHours', () => {
+    it('should round each entry with the ENTRY scope', () => {
+      // Three 10 minute entries, each rounded up to 15 minutes
+      const hours = [10 / 60, 10 / 60, 10 / 60];
+
+      assert.deepStrictEqual(calculateRoundedHours(hours, policy(15)), {
+        rawHours: 0.5,
+        roundedHours: 0.75,
+      });
+    });
+
+    it('should round the total once with the LINE scope', () => {
+      const hours = [10 / 60, 10 / 60, 10 / 60];
+
+      assert.deepStrictEqual(
+        calculateRoundedHours(hours, policy(15, 'UP', 'LINE')),
+        { rawHours: 0.5, roundedHours: 0.5 },
+      );
+    });
+
+    it('should add up the hours as tracked without a policy', () => {
+      assert.deepStrictEqual(calculateRoundedHours([1.111, 2.222], null), {
+        rawHours: 3.33,
+        roundedHours: 3.33,
+      });
+    });
+
+    it('should give zero hours for no entries', () => {
+      assert.deepStrictEqual(calculateRoundedHours([], policy(15)), {
+        rawHours: 0,
+        roundedHours: 0,
+      });
+    });
+  });
+
+  describe('resolveRoundingPolicy', () => {
+    const none = {
+      roundingIncrement: null,
+      roundingMode: null,
+      roundingScope: null,
+    };
+
+    it('should apply no policy without an increment', () => {
+      assert.strictEqual(resolveRoundingPolicy(none, none), null);
+    });
+
+    it('should fall back to the client default', () => {
+      assert.deepStrictEqual(
+        resolveRoundingPolicy(none, {
+          roundingIncrement: 6,
+          roundingMode: 'NEAREST',
+          roundingScope: 'LINE',
+        }),
+        policy(6, 'NEAREST', 'LINE'),
+      );
+    });
+
+    it('should let the project override the client', () => {
+      assert.deepStrictEqual(
+        resolveRoundingPolicy(
+          { ...none, roundingIncrement: 15 },
+          {
+            roundingIncrement: 6,
+            roundingMode: 'DOWN',
+            roundingScope: null,
+          },
+        ),
+        policy(15, 'DOWN', 'ENTRY'),
+      );
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type {
+  Client,
+  Project,
+  RoundingMode,
+  RoundingScope,
+  Task,
+  TimeEntry,
+} from '@iworked/db';
+
+import {
+  calculateDurationHours,
+  getBillableHourlyRate,
+  getHourlyRate,
+  roundToTwoDecimals,
+} from './calculations.ts';
+import type { ProjectWithRateHistory } from './rates.ts';
+
+export interface RoundingPolicy {
+  increment: number; // Minutes
+  mode: RoundingMode;
+  scope: RoundingScope;
+}
+
+type RoundingSettings = Pick<
+  Project | Client,
+  'roundingIncrement' | 'roundingMode' | 'roundingScope'
+>;
+
+type RoundableTimeEntry = TimeEntry & {
+  project: ProjectWithRateHistory;
+  task?: Task | null;
+};
+
+/**
+ * Resolve the rounding policy of a project, falling back to its client's
+ * default. Without an increment no policy applies and hours are only rounded
+ * to 0.01 (BR-2).
+ */
+export function resolveRoundingPolicy(
+  project: RoundingSettings,
+  client?: RoundingSettings | null,
+): RoundingPolicy | null {
+  const increment = project.roundingIncrement ?? client?.roundingIncrement;
+  if (!increment) {
+    return null;
+  }
+
+  return {
+    increment,
+    mode: project.roundingMode ?? client?.roundingMode ?? 'UP',
+    scope: project.roundingScope ?? client?.roundingScope ?? 'ENTRY',
+  };
+}
+
+/**
+ * Round hours to the policy increment in the policy direction
+ */
+export function roundHours(
+  hours: number,
+  policy: RoundingPolicy | null,
+): number {
+  if (!policy) {
+    return roundToTwoDecimals(hours);
+  }
+
+  const incrementHours = policy.increment / 60;
+  // Drop floating point noise so exact multiples are not pushed to the next increment
+  const increments = Math.round((hours / incrementHours) * 1e6) / 1e6;
+
+  let rounded: number;
+  switch (policy.mode) {
+    case 'DOWN':
+      rounded = Math.floor(increments);
+      break;
+    case 'NEAREST':
+      rounded = Math.round(increments);
+      break;
+    default: // UP
+      rounded = Math.ceil(increments);
+  }
+
+  return roundToTwoDecimals(rounded * incrementHours);
+}
+
+/**
+ * Add up the hours of a set of time entries, both as tracked and after
+ * applying the rounding policy per entry or on the total
+ */
+export function calculateRoundedHours(
+  entryHours: number[],
+  policy: RoundingPolicy | null,
+): { rawHours: number; roundedHours: number } {
+  const rawHours = entryHours.reduce((sum, hours) => sum + hours, 0);
+
+  const roundedHours =
+    policy?.scope === 'ENTRY'
+      ? entryHours.reduce((sum, hours) => sum + roundHours(hours, policy), 0)
+      : roundHours(rawHours, policy);
+
+  return {
+    rawHours: roundToTwoDecimals(rawHours),
+    roundedHours: roundToTwoDecimals(roundedHours),
+  };
+}
+
+/**
+ * Round a single time entry; policies that round the line total leave
+ * entries as tracked
+ */
+export function roundEntryHours(
+  hours: number,
+  policy: RoundingPolicy | null,
+): number {
+  return policy?.scope === 'ENTRY'
+    ? roundHours(hours, policy)
+    : roundToTwoDecimals(hours);
+}
+
+/**
+ * Rounded hours and amount per project for the billable entries, the way
+ * they would end up on an invoice. Time on tasks with their own rate is
+ * rounded apart, as it is billed on a line of its own.
+ */
+export function calculateRoundedHoursByProject(
+  timeEntries: RoundableTimeEntry[],
+): Record<string, { roundedHours: number; amount: number }> {
+  return sumGroups(
+    roundEntryGroups(timeEntries, (entry) =>
+      entry.task?.hourlyRate ? entry.task.id : entry.project.id,
+    ),
+    'projectId',
+  );
+}
+
+/**
+ * Rounded hours and amount per task for the billable entries, the way they
+ * would end up on an invoice with one line per task. Time outside any task
+ * is keyed by its project id.
+ */
+export function calculateRoundedHoursByTask(
+  timeEntries: RoundableTimeEntry[],
+): Record<string, { roundedHours: number; amount: number }> {
+  return sumGroups(
+    roundEntryGroups(
+      timeEntries,
+      (entry) => entry.task?.id ?? entry.project.id,
+    ),
+    'key',
+  );
+}
+
+interface RoundedGroup {
+  key: string;
+  projectId: string;
+  roundedHours: number;
+  amount: number;
+}
+
+// Round the billable entries of each group with the policy of their project.
+// Time at different rates of the rate history is rounded apart, as on an invoice.
+function roundEntryGroups(
+  timeEntries: RoundableTimeEntry[],
+  keyOf: (entry: RoundableTimeEntry) => string,
+): RoundedGroup[] {
+  const groups = timeEntries
+    .filter((entry) => entry.isBillable)
+    .reduce(
+      (acc, entry) => {
+        const rateKey = `${keyOf(entry)}:${getHourlyRate(entry)}`;
+        acc[rateKey] ??= { key: keyOf(entry), entry, entryHours: [] };
+        acc[rateKey].entryHours.push(
+          calculateDurationHours(entry.startedAt, entry.endedAt),
+        );
+        return acc;
+      },
+      {} as Record<
+        string,
+        { key: string; entry: RoundableTimeEntry; entryHours: number[] }
+      >,
+    );
+
+  return Object.values(groups).map(({ key, entry, entryHours }) => {
+    const { roundedHours } = calculateRoundedHours(
+      entryHours,
+      resolveRoundingPolicy(entry.project, entry.project.client),
+    );
+
+    return {
+      key,
+      projectId: entry.project.id,
+      roundedHours,
+      // Entries of a group share their rate
+      amount: roundToTwoDecimals(roundedHours * getBillableHourlyRate(entry)),
+    };
+  });
+}
+
+// Add up the groups by their key or by project
+function sumGroups(
+  groups: RoundedGroup[],
+  by: 'key' | 'projectId',
+): Record<string, { roundedHours: number; amount: number }> {
+  return groups.reduce(
+    (acc, group) => {
+      const { roundedHours, amount } = group;
+      acc[group[by]] ??= { roundedHours: 0, amount: 0 };
+      acc[group[by]].roundedHours = roundToTwoDecimals(
+        acc[group[by]].roundedHours + roundedHours,
+      );
+      acc[group[by]].amount = roundToTwoDecimals(
+        acc[group[by]].amount + amount,
+      );
+      return acc;
+    },
+    {} as Record<string, { roundedHours: number; amount: number }>,
+  );
+}
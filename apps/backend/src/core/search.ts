@@ -0,0 +1,220 @@
+import { Prisma, prisma } from '@iworked/db';
+
+import type { ListSort } from './pagination.ts';
+import { decodeCursor } from './pagination.ts';
+
+export const SEARCH_ENTITIES = [
+  'TIME_ENTRY',
+  'PROJECT',
+  'CLIENT',
+  'INVOICE',
+] as const;
+
+export type SearchEntity = (typeof SEARCH_ENTITIES)[number];
+
+export interface SearchResult {
+  type: SearchEntity;
+  id: string;
+  title: string;
+  highlight: string; // Matching text with the matched words in <mark> tags
+  rank: number;
+  date: Date; // When the entry started, or when the record was created
+}
+
+// Tables holding a generated "searchVector" column
+const SEARCH_TABLES: Record<SearchEntity, string> = {
+  TIME_ENTRY: 'TimeEntry',
+  PROJECT: 'Project',
+  CLIENT: 'Client',
+  INVOICE: 'Invoice',
+};
+
+// ts_headline copies the text as is, so the matched words are wrapped in
+// private use characters and the text is HTML-escaped before they become tags
+const MARK_START = '\uE000';
+const MARK_STOP = '\uE001';
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, MaxWords=25, MinWords=10, MaxFragments=2`;
+
+/**
+ * The matching fragments of a text, with the markers dropped from the text
+ * itself so only ts_headline places them
+ */
+function headline(text: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`ts_headline('english', translate(${text}, ${MARK_START + MARK_STOP}, ''), q, ${HEADLINE_OPTIONS})`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+/**
+ * Condition matching the rows of a searchable table, aliased as given, to the
+ * query
+ */
+export function matchesSearch(alias: string, query: string): Prisma.Sql {
+  return Prisma.sql`${Prisma.raw(`${alias}."searchVector"`)} @@ websearch_to_tsquery('english', ${query})`;
+}
+
+// Matching records of each kind, with the same columns so they can be combined
+const matchQueries: Record<
+  SearchEntity,
+  (userId: string, query: string) => Prisma.Sql
+> = {
+  TIME_ENTRY: (userId, query) => Prisma.sql`
+    SELECT 'TIME_ENTRY' AS "type", te."id", p."name" AS "title",
+      ${headline(Prisma.sql`coalesce(te."note", '')`)} AS "highlight",
+      ts_rank(te."searchVector", q) AS "rank",
+      te."startedAt" AS "date"
+    FROM "TimeEntry" AS te
+    JOIN "Project" AS p ON p."id" = te."projectId",
+      websearch_to_tsquery('english', ${query}) AS q
+    WHERE te."userId" = ${userId} AND te."deletedAt" IS NULL AND te."searchVector" @@ q
+  `,
+  PROJECT: (userId, query) => Prisma.sql`
+    SELECT 'PROJECT' AS "type", p."id", p."name" AS "title",
+      ${headline(Prisma.sql`concat_ws(' ', p."name", p."description")`)} AS "highlight",
+      ts_rank(p."searchVector", q) AS "rank",
+      p."createdAt" AS "date"
+    FROM "Project" AS p,
+      websearch_to_tsquery('english', ${query}) AS q
+    WHERE p."userId" = ${userId} AND p."deletedAt" IS NULL AND p."searchVector" @@ q
+  `,
+  CLIENT: (userId, query) => Prisma.sql`
+    SELECT 'CLIENT' AS "type", c."id", c."name" AS "title",
+      ${headline(Prisma.sql`concat_ws(' ', c."name", c."email")`)} AS "highlight",
+      ts_rank(c."searchVector", q) AS "rank",
+      c."createdAt" AS "date"
+    FROM "Client" AS c,
+      websearch_to_tsquery('english', ${query}) AS q
+    WHERE c."userId" = ${userId} AND c."deletedAt" IS NULL AND c."searchVector" @@ q
+  `,
+  INVOICE: (userId, query) => Prisma.sql`
+    SELECT 'INVOICE' AS "type", i."id", coalesce(i."invoiceNumber", c."name") AS "title",
+      ${headline(Prisma.sql`concat_ws(' ', i."invoiceNumber", i."notes")`)} AS "highlight",
+      ts_rank(i."searchVector", q) AS "rank",
+      i."createdAt" AS "date"
+    FROM "Invoice" AS i
+    JOIN "Client" AS c ON c."id" = i."clientId",
+      websearch_to_tsquery('english', ${query}) AS q
+    WHERE i."userId" = ${userId} AND i."deletedAt" IS NULL AND i."searchVector" @@ q
+  `,
+};
+
+/**
+ * Search the time entries, projects, clients and invoices of a user, best
+ * matches first. The query uses the web search syntax: quoted phrases, "or"
+ * and -excluded words.
+ */
+export async function search(
+  userId: string,
+  query: string,
+  options: { types: readonly SearchEntity[]; page: number; pageSize: number },
+): Promise<{ results: SearchResult[]; totalCount: number }> {
+  const matches = Prisma.join(
+    options.types.map((type) => matchQueries[type](userId, query)),
+    ' UNION ALL ',
+  );
+
+  const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT count(*) AS "count" FROM (${matches}) AS matches
+  `;
+
+  const results = await prisma.$queryRaw<SearchResult[]>`
+    SELECT * FROM (${matches}) AS matches
+    ORDER BY "rank" DESC, "date" DESC
+    OFFSET ${(options.page - 1) * options.pageSize}
+    LIMIT ${options.pageSize}
+  `;
+
+  return {
+    results: results.map((result) => ({
+      ...result,
+      highlight: escapeHtml(result.highlight)
+        .replaceAll(MARK_START, '<mark>')
+        .replaceAll(MARK_STOP, '</mark>'),
+    })),
+    totalCount: Number(count),
+  };
+}
+
+// Sort fields of the list endpoints that hold text; the others are timestamps
+const TEXT_SORT_FIELDS = ['name'];
+
+export interface SearchFilter {
+  userId: string;
+  query: string;
+  conditions: Prisma.Sql[]; // Other filters of the list, on the table aliased "t"
+}
+
+function whereMatching(filter: SearchFilter): Prisma.Sql {
+  return Prisma.join(
+    [
+      Prisma.sql`t."userId" = ${filter.userId}`,
+      Prisma.sql`t."deletedAt" IS NULL`,
+      matchesSearch('t', filter.query),
+      ...filter.conditions,
+    ],
+    ' AND ',
+  );
+}
+
+/**
+ * Number of the records of one kind matching the query and the other filters
+ * of a list endpoint
+ */
+export async function countMatching(
+  type: SearchEntity,
+  filter: SearchFilter,
+): Promise<number> {
+  const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT count(*) AS "count" FROM ${Prisma.raw(`"${SEARCH_TABLES[type]}"`)} AS t
+    WHERE ${whereMatching(filter)}
+  `;
+
+  return Number(count);
+}
+
+/**
+ * A page of the ids of the records of one kind matching the query, for the
+ * `q` filter of the list endpoints. The search, the other filters and the
+ * sort all run in the database, so only the ids of the page are loaded.
+ */
+export async function findMatchingPage(
+  type: SearchEntity,
+  filter: SearchFilter,
+  page: {
+    sort: ListSort;
+    cursor?: string;
+    skip: number;
+    take: number;
+  },
+): Promise<string[]> {
+  const column = Prisma.raw(`t."${page.sort.field}"`);
+  const direction = Prisma.raw(page.sort.order === 'desc' ? 'DESC' : 'ASC');
+  const operator = Prisma.raw(page.sort.order === 'desc' ? '<' : '>');
+  const after = page.cursor && decodeCursor(page.cursor, page.sort);
+
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT t."id" FROM ${Prisma.raw(`"${SEARCH_TABLES[type]}"`)} AS t
+    WHERE ${whereMatching(filter)}
+      ${
+        after
+          ? Prisma.sql`AND (${column}, t."id") ${operator} (${
+              TEXT_SORT_FIELDS.includes(page.sort.field)
+                ? after.value
+                : new Date(after.value)
+            }, ${after.id})`
+          : Prisma.empty
+      }
+    ORDER BY ${column} ${direction}, t."id" ${direction}
+    OFFSET ${page.skip}
+    LIMIT ${page.take}
+  `;
+
+  return rows.map((row) => row.id);
+}
@@ -0,0 +1,216 @@
+import type { Day } from 'date-fns';
+import {
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+import type { UserSettings } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+export type UserPreferences = Pick<
+  UserSettings,
+  | 'timeZone'
+  | 'weekStartsOn'
+  | 'locale'
+  | 'currency'
+  | 'dateFormat'
+  | 'overlapPolicy'
+  | 'enforceBusinessHours'
+  | 'budgetAlertThresholds'
+>;
+
+export type CalendarPeriod = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'dd/MM/yyyy',
+  'MM/dd/yyyy',
+  'dd.MM.yyyy',
+  'd MMM yyyy',
+] as const;
+
+export const DEFAULT_USER_SETTINGS: UserPreferences = {
+  timeZone: 'UTC',
+  weekStartsOn: 1, // Monday
+  locale: 'en-US',
+  currency: 'USD',
+  dateFormat: 'yyyy-MM-dd',
+  overlapPolicy: 'REJECT',
+  enforceBusinessHours: false,
+  budgetAlertThresholds: [75, 90, 100], // Percent of a project budget
+};
+
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+export function isLocale(value: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return Intl.supportedValuesOf('currency').includes(value);
+}
+
+const ianaTimeZones = new Map<string, boolean>();
+
+export function isIanaTimeZone(zone: string): boolean {
+  if (!ianaTimeZones.has(zone)) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      ianaTimeZones.set(zone, true);
+    } catch {
+      ianaTimeZones.set(zone, false);
+    }
+  }
+  return ianaTimeZones.get(zone)!;
+}
+
+/**
+ * Get the settings of a user, falling back to the defaults for users who
+ * never saved any
+ */
+export async function getUserSettings(
+  userId: string,
+): Promise<UserPreferences> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+  });
+
+  return settings ?? DEFAULT_USER_SETTINGS;
+}
+
+/**
+ * Start of the day, week, month, quarter or year containing the date, as
+ * seen in the user's time zone
+ */
+export function startOfPeriod(
+  period: CalendarPeriod,
+  date: Date,
+  settings: UserPreferences,
+): Date {
+  const zoned = toZonedTime(date, settings.timeZone);
+  let start: Date;
+
+  switch (period) {
+    case 'day':
+      start = startOfDay(zoned);
+      break;
+    case 'week':
+      start = startOfWeek(zoned, {
+        weekStartsOn: settings.weekStartsOn as Day,
+      });
+      break;
+    case 'quarter':
+      start = startOfQuarter(zoned);
+      break;
+    case 'year':
+      start = startOfYear(zoned);
+      break;
+    default: // month
+      start = startOfMonth(zoned);
+  }
+
+  return fromZonedTime(start, settings.timeZone);
+}
+
+/**
+ * Key of the day (YYYY-MM-DD), week (YYYY-MM-DD of its first day) or month
+ * (YYYY-MM) the date falls in, in the user's time zone
+ */
+export function getPeriodKey(
+  period: 'day' | 'week' | 'month',
+  date: Date,
+  settings: UserPreferences,
+): string {
+  switch (period) {
+    case 'week':
+      return format(
+        startOfWeek(toZonedTime(date, settings.timeZone), {
+          weekStartsOn: settings.weekStartsOn as Day,
+        }),
+        'yyyy-MM-dd',
+      );
+    case 'month':
+      return formatInTimeZone(date, settings.timeZone, 'yyyy-MM');
+    default: // day
+      return formatInTimeZone(date, settings.timeZone, 'yyyy-MM-dd');
+  }
+}
+
+/**
+ * Day of the week (0 = Sunday) and hour of the date on the user's wall clock
+ */
+export function getWallClock(
+  date: Date,
+  settings: UserPreferences,
+): { dayOfWeek: number; hour: number } {
+  const zoned = toZonedTime(date, settings.timeZone);
+  return { dayOfWeek: zoned.getDay(), hour: zoned.getHours() };
+}
+
+/**
+ * Names of the weekdays with their index (0 = Sunday), starting from the
+ * user's first day of the week
+ */
+export function getOrderedWeekdays(
+  settings: UserPreferences,
+): { day: string; index: number }[] {
+  return WEEKDAYS.map((_, offset) => {
+    const index = (settings.weekStartsOn + offset) % 7;
+    return { day: WEEKDAYS[index], index };
+  });
+}
+
+/**
+ * Format a date with the user's date format, in their time zone
+ */
+export function formatUserDate(date: Date, settings: UserPreferences): string {
+  return formatInTimeZone(date, settings.timeZone, settings.dateFormat);
+}
+
+/**
+ * ISO 8601 date and time with the offset of the user's time zone,
+ * e.g. 2025-03-14T09:30:00+03:00
+ */
+export function formatUserDateTime(
+  date: Date,
+  settings: UserPreferences,
+): string {
+  return formatInTimeZone(date, settings.timeZone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+}
+
+/**
+ * Resolve a date or date-time input. Plain dates (YYYY-MM-DD) are whole days
+ * in the user's time zone: the start of the day, or its last millisecond for
+ * the end of a range.
+ */
+export function resolveDateInput(
+  value: string,
+  edge: 'start' | 'end',
+  settings: UserPreferences,
+): Date {
+  if (value.includes('T')) {
+    return new Date(value);
+  }
+
+  return fromZonedTime(
+    `${value}T${edge === 'start' ? '00:00:00.000' : '23:59:59.999'}`,
+    settings.timeZone,
+  );
+}
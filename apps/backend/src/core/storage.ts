@@ -0,0 +1,70 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+/**
+ * Minimal contract every file storage backend has to fulfil
+ */
+export interface FileStorage {
+  put(key: string, content: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Store files on the local disk under the given root directory
+ */
+export function createLocalDiskStorage(rootDir: string): FileStorage {
+  const root = resolve(rootDir);
+
+  const pathOf = (key: string) => {
+    const path = resolve(join(root, key));
+    // A sibling such as <root>-x shares the prefix but is outside the root
+    const fromRoot = relative(root, path);
+    if (
+      fromRoot === '..' ||
+      fromRoot.startsWith(`..${sep}`) ||
+      isAbsolute(fromRoot)
+    ) {
+      throw new Error(`Storage key "${key}" escapes the storage root`);
+    }
+    return path;
+  };
+
+  return {
+    async put(key, content) {
+      const path = pathOf(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content);
+    },
+    async get(key) {
+      try {
+        return await readFile(pathOf(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(pathOf(key), { force: true });
+    },
+  };
+}
+
+let storage: FileStorage | undefined;
+
+/**
+ * Get the active storage backend, local disk unless another one was plugged in
+ */
+export function getStorage(): FileStorage {
+  storage ??= createLocalDiskStorage(process.env.STORAGE_DIR ?? 'storage');
+  return storage;
+}
+
+/**
+ * Plug in a different storage backend (e.g. object storage)
+ */
+export function setStorage(backend: FileStorage): void {
+  storage = backend;
+}
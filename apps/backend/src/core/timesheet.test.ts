@@ -0,0 +1,240 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { HTTPException } from 'hono/http-exception';
+
+import type { BusinessDay } from './business-hours.ts';
+import type { TimesheetDay } from './timesheet.ts';
+import { planTimesheetChanges } from './timesheet.ts';
+
+type TimesheetEntry = Parameters<typeof planTimesheetChanges>[0][number];
+
+// Monday 2 June 2025, in UTC
+const day: TimesheetDay = {
+  date: '2025-06-02',
+  weekday: 1,
+  start: new Date('2025-06-02T00:00:00Z'),
+  end: new Date('2025-06-03T00:00:00Z'),
+};
+
+const schedule: BusinessDay[] = [
+  { weekday: 1, startMinute: 8 * 60, endMinute: 16 * 60 },
+];
+
+const settings = { timeZone: 'UTC' };
+
+const at = (time: string) => new Date(`2025-06-02T${time}:00Z`);
+
+const entry = (
+  id: string,
+  projectId: string,
+  startedAt: string,
+  endedAt: string | null,
+  extra: Partial<TimesheetEntry> = {},
+) =>
+  ({
+    id,
+    projectId,
+    startedAt: at(startedAt),
+    endedAt: endedAt ? at(endedAt) : null,
+    invoiceId: null,
+    task: null,
+    ...extra,
+  }) as TimesheetEntry;
+
+const plan = (entries: TimesheetEntry[], projectId: string, hours: number) =>
+  planTimesheetChanges(
+    entries,
+    [day],
+    [{ projectId, date: day.date, hours }],
+    schedule,
+    settings,
+  );
+
+const rejectsWith = (code: string) => (error: unknown) =>
+  error instanceof HTTPException &&
+  (error.cause as { code: string }).code === code;
+
+describe('Timesheet changes', () => {
+  describe('Lowered cells', () => {
+    it('should shorten the latest entry of the cell', () => {
+      const changes = plan(
+        [
+          entry('a', 'project-1', '09:00', '10:00'),
+          entry('b', 'project-1', '10:00', '11:00'),
+        ],
+        'project-1',
+        1.5,
+      );
+
+      assert.deepStrictEqual(changes, {
+        create: [],
+        update: [{ id: 'b', startedAt: at('10:00'), endedAt: at('10:30') }],
+        delete: [],
+      });
+    });
+
+    it('should move the entries of an emptied cell to the trash', () => {
+      const changes = plan(
+        [
+          entry('a', 'project-1', '09:00', '10:00'),
+          entry('b', 'project-1', '10:00', '11:00'),
+        ],
+        'project-1',
+        0,
+      );
+
+      assert.deepStrictEqual(changes.delete, ['a', 'b']);
+      assert.deepStrictEqual(changes.update, []);
+    });
+  });
+
+  describe('Raised cells', () => {
+    it('should extend the entry when it is the last of the day', () => {
+      const changes = plan(
+        [entry('a', 'project-1', '09:00', '10:00')],
+        'project-1',
+        2,
+      );
+
+      assert.deepStrictEqual(changes, {
+        create: [],
+        update: [{ id: 'a', startedAt: at('09:00'), endedAt: at('11:00') }],
+        delete: [],
+      });
+    });
+
+    it('should add the time after the other time of the day', () => {
+      const changes = plan(
+        [
+          entry('a', 'project-1', '09:00', '10:00'),
+          entry('b', 'project-2', '10:00', '12:00'),
+        ],
+        'project-1',
+        1.5,
+      );
+
+      assert.deepStrictEqual(changes, {
+        create: [
+          {
+            projectId: 'project-1',
+            startedAt: at('12:00'),
+            endedAt: at('12:30'),
+          },
+        ],
+        update: [],
+        delete: [],
+      });
+    });
+
+    it('should start new time at the beginning of the business day', () => {
+      const changes = plan([], 'project-1', 3);
+
+      assert.deepStrictEqual(changes.create, [
+        {
+          projectId: 'project-1',
+          startedAt: at('08:00'),
+          endedAt: at('11:00'),
+        },
+      ]);
+    });
+
+    it('should use the time freed up by lowered cells', () => {
+      const changes = planTimesheetChanges(
+        [
+          entry('a', 'project-1', '08:00', '10:00'),
+          entry('b', 'project-2', '10:00', '12:00'),
+        ],
+        [day],
+        [
+          { projectId: 'project-1', date: day.date, hours: 3 },
+          { projectId: 'project-2', date: day.date, hours: 1 },
+        ],
+        schedule,
+        settings,
+      );
+
+      assert.deepStrictEqual(changes, {
+        create: [
+          {
+            projectId: 'project-1',
+            startedAt: at('11:00'),
+            endedAt: at('12:00'),
+          },
+        ],
+        update: [{ id: 'b', startedAt: at('10:00'), endedAt: at('11:00') }],
+        delete: [],
+      });
+    });
+
+    it('should not extend an entry on a DONE task', () => {
+      const changes = plan(
+        [
+          entry('a', 'project-1', '09:00', '10:00', {
+            task: { status: 'DONE' },
+          }),
+        ],
+        'project-1',
+        2,
+      );
+
+      assert.deepStrictEqual(changes, {
+        create: [
+          {
+            projectId: 'project-1',
+            startedAt: at('10:00'),
+            endedAt: at('11:00'),
+          },
+        ],
+        update: [],
+        delete: [],
+      });
+    });
+
+    it('should reject time that would run past midnight', () => {
+      assert.throws(
+        () => plan([entry('a', 'project-1', '20:00', '23:00')], 'project-1', 5),
+        rejectsWith('api/timesheet-day-full'),
+      );
+    });
+  });
+
+  describe('Read-only cells', () => {
+    it('should reject changes to invoiced time', () => {
+      assert.throws(
+        () =>
+          plan(
+            [
+              entry('a', 'project-1', '09:00', '10:00', {
+                invoiceId: 'invoice-1',
+              }),
+            ],
+            'project-1',
+            2,
+          ),
+        rejectsWith('api/timesheet-cell-read-only'),
+      );
+    });
+
+    it('should reject changes to a running timer', () => {
+      assert.throws(
+        () => plan([entry('a', 'project-1', '09:00', null)], 'project-1', 0),
+        rejectsWith('api/timesheet-cell-read-only'),
+      );
+    });
+
+    it('should leave a cell alone when its hours do not change', () => {
+      const changes = plan(
+        [
+          entry('a', 'project-1', '09:00', '10:00', {
+            invoiceId: 'invoice-1',
+          }),
+        ],
+        'project-1',
+        1,
+      );
+
+      assert.deepStrictEqual(changes, { create: [], update: [], delete: [] });
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { addDays, format } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { HTTPException } from 'hono/http-exception';
+
+import type { Client, Project, Task, TimeEntry } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import type { BusinessDay } from './business-hours.ts';
+import { formatMinutes } from './business-hours.ts';
+import { calculateDurationHours, roundToTwoDecimals } from './calculations.ts';
+import type { UserPreferences } from './settings.ts';
+import { resolveDateInput, startOfPeriod } from './settings.ts';
+
+export interface TimesheetDay {
+  date: string; // YYYY-MM-DD in the user's time zone
+  weekday: number; // 0 = Sunday
+  start: Date;
+  end: Date; // Start of the next day
+}
+
+export interface TimesheetCell {
+  date: string;
+  hours: number;
+  entryIds: string[];
+  readOnly: boolean; // Holds time billed on an invoice or a running timer
+}
+
+export interface TimesheetRow {
+  project: {
+    id: string;
+    name: string;
+    client: { id: string; name: string } | null;
+  };
+  cells: TimesheetCell[];
+  totalHours: number;
+}
+
+export interface TimesheetCellUpdate {
+  projectId: string;
+  date: string;
+  hours: number;
+}
+
+export interface TimesheetChanges {
+  create: { projectId: string; startedAt: Date; endedAt: Date }[];
+  update: { id: string; startedAt: Date; endedAt: Date }[];
+  delete: string[];
+}
+
+type TimesheetEntry = TimeEntry & {
+  project: Project & { client: Client | null };
+  task: Pick<Task, 'status'> | null;
+};
+
+// Where new time goes on days without business hours
+const DEFAULT_DAY_START_MINUTE = 9 * 60;
+
+// Shortest time entry, and so the smallest change made to a cell
+const MINUTE_HOURS = 1 / 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The seven days of the week containing the given date (today by default),
+ * starting on the user's first day of the week in their time zone
+ */
+export function getTimesheetWeek(
+  start: string | undefined,
+  settings: UserPreferences,
+): TimesheetDay[] {
+  const weekStart = toZonedTime(
+    startOfPeriod(
+      'week',
+      start ? resolveDateInput(start, 'start', settings) : new Date(),
+      settings,
+    ),
+    settings.timeZone,
+  );
+
+  return Array.from({ length: 7 }, (_, offset) => {
+    const day = addDays(weekStart, offset);
+    return {
+      date: format(day, 'yyyy-MM-dd'),
+      weekday: day.getDay(),
+      start: fromZonedTime(day, settings.timeZone),
+      end: fromZonedTime(addDays(day, 1), settings.timeZone),
+    };
+  });
+}
+
+/**
+ * The time entries of a user starting within the days of a timesheet
+ */
+export function findTimesheetEntries(
+  userId: string,
+  days: TimesheetDay[],
+): Promise<TimesheetEntry[]> {
+  return prisma.timeEntry.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      startedAt: {
+        gte: days[0].start,
+        lt: days[days.length - 1].end,
+      },
+    },
+    orderBy: { startedAt: 'asc' },
+    include: {
+      project: {
+        include: {
+          client: true,
+        },
+      },
+      task: { select: { status: true } },
+    },
+  });
+}
+
+/**
+ * Lay out the time entries of a week as a project × day grid. Entries count
+ * towards the day they start on. Cells holding an invoiced entry or a running
+ * timer are read-only.
+ */
+export function buildTimesheet(
+  entries: TimesheetEntry[],
+  days: TimesheetDay[],
+): { rows: TimesheetRow[]; dailyTotals: number[]; totalHours: number } {
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const dayIndex = days.findIndex(
+      (day) => entry.startedAt >= day.start && entry.startedAt < day.end,
+    );
+    if (dayIndex === -1) continue;
+
+    if (!rows.has(entry.projectId)) {
+      rows.set(entry.projectId, {
+        project: {
+          id: entry.project.id,
+          name: entry.project.name,
+          client: entry.project.client
+            ? { id: entry.project.client.id, name: entry.project.client.name }
+            : null,
+        },
+        cells: days.map((day) => ({
+          date: day.date,
+          hours: 0,
+          entryIds: [],
+          readOnly: false,
+        })),
+        totalHours: 0,
+      });
+    }
+
+    const row = rows.get(entry.projectId)!;
+    const cell = row.cells[dayIndex];
+    const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
+
+    cell.hours += hours;
+    cell.entryIds.push(entry.id);
+    cell.readOnly ||= entry.invoiceId !== null || entry.endedAt === null;
+    row.totalHours += hours;
+  }
+
+  const sortedRows = [...rows.values()]
+    .sort(
+      (a, b) =>
+        (a.project.client?.name ?? '').localeCompare(
+          b.project.client?.name ?? '',
+        ) || a.project.name.localeCompare(b.project.name),
+    )
+    .map((row) => ({
+      ...row,
+      cells: row.cells.map((cell) => ({
+        ...cell,
+        hours: roundToTwoDecimals(cell.hours),
+      })),
+      totalHours: roundToTwoDecimals(row.totalHours),
+    }));
+
+  const dailyTotals = days.map((_, dayIndex) =>
+    roundToTwoDecimals(
+      [...rows.values()].reduce(
+        (sum, row) => sum + row.cells[dayIndex].hours,
+        0,
+      ),
+    ),
+  );
+
+  return {
+    rows: sortedRows,
+    dailyTotals,
+    totalHours: roundToTwoDecimals(
+      dailyTotals.reduce((sum, hours) => sum + hours, 0),
+    ),
+  };
+}
+
+/**
+ * Work out the time entry changes that bring the edited cells to their new
+ * hours. Lowered cells lose time from their latest entries. Raised cells
+ * extend their entry when it is the last of the day, otherwise the extra time
+ * is added as a new entry after the other time of the day, starting no
+ * earlier than the beginning of the business day. Raised cells that don't fit
+ * before the end of the day are rejected.
+ */
+export function planTimesheetChanges(
+  entries: TimesheetEntry[],
+  days: TimesheetDay[],
+  updates: TimesheetCellUpdate[],
+  schedule: BusinessDay[],
+  settings: Pick<UserPreferences, 'timeZone'>,
+): TimesheetChanges {
+  const changes: TimesheetChanges = { create: [], update: [], delete: [] };
+  // Times of the entries as they will be once the changes are made
+  const times = new Map(
+    entries.map((entry) => [
+      entry.id,
+      { startedAt: entry.startedAt, endedAt: entry.endedAt },
+    ]),
+  );
+
+  for (const day of days) {
+    const dayEntries = entries
+      .filter(
+        (entry) => entry.startedAt >= day.start && entry.startedAt < day.end,
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+    const dayUpdates = updates.filter((update) => update.date === day.date);
+
+    const cellOf = (update: TimesheetCellUpdate) => {
+      const cellEntries = dayEntries.filter(
+        (entry) => entry.projectId === update.projectId,
+      );
+      const hours = cellEntries.reduce(
+        (sum, entry) =>
+          sum + calculateDurationHours(entry.startedAt, entry.endedAt),
+        0,
+      );
+
+      if (Math.abs(update.hours - hours) < MINUTE_HOURS) return null;
+
+      if (
+        cellEntries.some((entry) => entry.invoiceId || entry.endedAt === null)
+      ) {
+        throw new HTTPException(400, {
+          message: 'Timesheet cell is read-only',
+          cause: {
+            code: 'api/timesheet-cell-read-only',
+            detail: `The time of project ${update.projectId} on ${day.date} is billed on an invoice or has a running timer`,
+          },
+        });
+      }
+
+      return { entries: cellEntries, hours };
+    };
+
+    // Lower cells first, so raised ones can use the time they free up
+    for (const update of dayUpdates) {
+      const cell = cellOf(update);
+      if (!cell || update.hours > cell.hours) continue;
+
+      let remaining = update.hours;
+      for (const entry of cell.entries) {
+        const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
+
+        if (remaining >= hours - MINUTE_HOURS) {
+          remaining = Math.max(remaining - hours, 0);
+        } else if (remaining >= MINUTE_HOURS) {
+          const endedAt = new Date(
+            entry.startedAt.getTime() + Math.round(remaining * HOUR_MS),
+          );
+          changes.update.push({
+            id: entry.id,
+            startedAt: entry.startedAt,
+            endedAt,
+          });
+          times.set(entry.id, { startedAt: entry.startedAt, endedAt });
+          remaining = 0;
+        } else {
+          // Less than the minimum entry duration is left, so the entry goes
+          changes.delete.push(entry.id);
+          times.delete(entry.id);
+          remaining = 0;
+        }
+      }
+    }
+
+    // New time goes after everything else tracked on the day
+    const startMinute =
+      schedule.find((businessDay) => businessDay.weekday === day.weekday)
+        ?.startMinute ?? DEFAULT_DAY_START_MINUTE;
+    let cursor = Math.max(
+      fromZonedTime(
+        `${day.date}T${formatMinutes(startMinute)}:00`,
+        settings.timeZone,
+      ).getTime(),
+      ...dayEntries
+        .filter((entry) => times.has(entry.id))
+        .map((entry) => (times.get(entry.id)!.endedAt ?? new Date()).getTime()),
+    );
+
+    for (const update of dayUpdates) {
+      const cell = cellOf(update);
+      if (!cell || update.hours < cell.hours) continue;
+
+      const extraMs = Math.round((update.hours - cell.hours) * HOUR_MS);
+      if (cursor + extraMs > day.end.getTime()) {
+        throw new HTTPException(400, {
+          message: 'Timesheet day is full',
+          cause: {
+            code: 'api/timesheet-day-full',
+            detail: `The time of project ${update.projectId} on ${day.date} would run past the end of the day; ${roundToTwoDecimals(Math.max(day.end.getTime() - cursor, 0) / HOUR_MS)} hours are left after the other time of the day`,
+          },
+        });
+      }
+
+      // The last entry is extended when it ends where the new time starts,
+      // unless its task is DONE and takes no new time
+      const last = cell.entries.at(-1);
+
+      if (
+        last?.endedAt &&
+        last.endedAt.getTime() === cursor &&
+        last.task?.status !== 'DONE'
+      ) {
+        const endedAt = new Date(cursor + extraMs);
+        changes.update.push({
+          id: last.id,
+          startedAt: last.startedAt,
+          endedAt,
+        });
+      } else {
+        changes.create.push({
+          projectId: update.projectId,
+          startedAt: new Date(cursor),
+          endedAt: new Date(cursor + extraMs),
+        });
+      }
+
+      cursor += extraMs;
+    }
+  }
+
+  return changes;
+}
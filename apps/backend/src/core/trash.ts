@@ -0,0 +1,161 @@
+import { addDays, subDays } from 'date-fns';
+
+import { prisma } from '@iworked/db';
+
+export const TRASH_ENTITIES = [
+  'TIME_ENTRY',
+  'PROJECT',
+  'CLIENT',
+  'INVOICE',
+] as const;
+
+export type TrashEntity = (typeof TRASH_ENTITIES)[number];
+
+export interface TrashItem {
+  type: TrashEntity;
+  id: string;
+  title: string;
+  deletedAt: Date;
+  purgeAt: Date; // When the item is removed for good
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Days deleted records stay in the trash, from TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * The trash of a user, most recently deleted first. Time entries and projects
+ * deleted along with their project or client are restored with it, so only
+ * the record that was deleted is listed.
+ */
+export async function listTrash(
+  userId: string,
+  options: { types: readonly TrashEntity[]; page: number; pageSize: number },
+): Promise<{ items: TrashItem[]; totalCount: number }> {
+  const take = options.page * options.pageSize;
+  const deletedFirst = { deletedAt: 'desc' } as const;
+  const wants = (type: TrashEntity) => options.types.includes(type);
+
+  const timeEntryWhere = {
+    userId,
+    deletedAt: { not: null },
+    project: { deletedAt: null },
+  };
+  const projectWhere = {
+    userId,
+    deletedAt: { not: null },
+    client: { deletedAt: null },
+  };
+  const clientWhere = { userId, deletedAt: { not: null } };
+  const invoiceWhere = { userId, deletedAt: { not: null } };
+
+  const [timeEntries, projects, clients, invoices] = await Promise.all([
+    wants('TIME_ENTRY')
+      ? prisma.timeEntry.findMany({
+          where: timeEntryWhere,
+          orderBy: deletedFirst,
+          take,
+          include: { project: true },
+        })
+      : [],
+    wants('PROJECT')
+      ? prisma.project.findMany({
+          where: projectWhere,
+          orderBy: deletedFirst,
+          take,
+        })
+      : [],
+    wants('CLIENT')
+      ? prisma.client.findMany({
+          where: clientWhere,
+          orderBy: deletedFirst,
+          take,
+        })
+      : [],
+    wants('INVOICE')
+      ? prisma.invoice.findMany({
+          where: invoiceWhere,
+          orderBy: deletedFirst,
+          take,
+          include: { client: true },
+        })
+      : [],
+  ]);
+
+  const counts = await Promise.all([
+    wants('TIME_ENTRY') ? prisma.timeEntry.count({ where: timeEntryWhere }) : 0,
+    wants('PROJECT') ? prisma.project.count({ where: projectWhere }) : 0,
+    wants('CLIENT') ? prisma.client.count({ where: clientWhere }) : 0,
+    wants('INVOICE') ? prisma.invoice.count({ where: invoiceWhere }) : 0,
+  ]);
+
+  const retentionDays = getTrashRetentionDays();
+  const toItem = (
+    type: TrashEntity,
+    record: { id: string; deletedAt: Date | null },
+    title: string,
+  ): TrashItem => ({
+    type,
+    id: record.id,
+    title,
+    deletedAt: record.deletedAt!,
+    purgeAt: addDays(record.deletedAt!, retentionDays),
+  });
+
+  const items = [
+    ...timeEntries.map((entry) =>
+      toItem(
+        'TIME_ENTRY',
+        entry,
+        `${entry.project.name}, ${entry.startedAt.toISOString()}`,
+      ),
+    ),
+    ...projects.map((project) => toItem('PROJECT', project, project.name)),
+    ...clients.map((client) => toItem('CLIENT', client, client.name)),
+    ...invoices.map((invoice) =>
+      toItem('INVOICE', invoice, invoice.invoiceNumber ?? invoice.client.name),
+    ),
+  ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  return {
+    items: items.slice((options.page - 1) * options.pageSize, take),
+    totalCount: counts.reduce((sum, count) => sum + count, 0),
+  };
+}
+
+/**
+ * Permanently remove the records that were deleted before the retention
+ * window, children first so no relation is left dangling
+ */
+export async function purgeTrash(now = new Date()): Promise<{
+  invoices: number;
+  timeEntries: number;
+  projects: number;
+  clients: number;
+}> {
+  const deletedAt = { lt: subDays(now, getTrashRetentionDays()) };
+
+  return prisma.$transaction(async (tx) => {
+    const invoices = await tx.invoice.deleteMany({ where: { deletedAt } });
+    const timeEntries = await tx.timeEntry.deleteMany({ where: { deletedAt } });
+
+    // Tasks and milestones go with their project
+    await tx.task.deleteMany({ where: { project: { deletedAt } } });
+    await tx.milestone.deleteMany({ where: { project: { deletedAt } } });
+    const projects = await tx.project.deleteMany({ where: { deletedAt } });
+    const clients = await tx.client.deleteMany({ where: { deletedAt } });
+
+    return {
+      invoices: invoices.count,
+      timeEntries: timeEntries.count,
+      projects: projects.count,
+      clients: clients.count,
+    };
+  });
+}
@@ -1,21 +1,56 @@
 import { HTTPException } from 'hono/http-exception';
 
+import type {
+  OverlapPolicy,
+  Prisma,
+  Project,
+  Task,
+  TimeEntry,
+} from '@iworked/db';
 import { prisma } from '@iworked/db';
+import { overlap } from '@iworked/isomorphic';
+
+import type { BusinessDay } from './business-hours.ts';
+import {
+  describeBusinessHours,
+  getBusinessHours,
+  isWithinBusinessHours,
+  splitBusinessHours,
+} from './business-hours.ts';
+import type { UserPreferences } from './settings.ts';
+
+export interface TimeEntryOverlapWarning {
+  code: 'api/time-entry-overlap';
+  detail: string;
+  conflictingEntry?: {
+    id: string;
+    project: string;
+    client?: string;
+    startedAt: string;
+    endedAt: string | null;
+  };
+  entryIndex?: number; // Bulk only: the new entry that overlaps
+  entryIndexes?: [number, number]; // Bulk only: two new entries overlapping
+}
 
 /**
- * Check for overlapping time entries for a user
+ * Check for overlapping time entries for a user.
+ * A null end date (on either side) means a running timer, which is treated as
+ * occupying everything from its start onwards.
+ * With the REJECT policy the first overlap is thrown; with WARN the overlaps
+ * are returned; with ALLOW nothing is checked.
  */
 export async function checkTimeEntryOverlap(
   userId: string,
   startedAt: Date,
-  endedAt: Date,
+  endedAt: Date | null,
   excludeEntryId?: string,
-): Promise<void> {
-  const overlappingEntries = await prisma.timeEntry.findMany({
-    where: {
-      userId,
-      id: excludeEntryId ? { not: excludeEntryId } : undefined,
-      OR: [
+  policy: OverlapPolicy = 'REJECT',
+): Promise<TimeEntryOverlapWarning[]> {
+  if (policy === 'ALLOW') return [];
+
+  const conditions: Prisma.TimeEntryWhereInput[] = endedAt
+    ? [
         {
           // New entry starts during existing entry
           startedAt: { lte: startedAt },
@@ -31,6 +66,26 @@ export async function checkTimeEntryOverlap(
           startedAt: { gte: startedAt },
           endedAt: { lte: endedAt },
         },
+      ]
+    : [
+        {
+          // Existing entry ends after the new running entry starts
+          endedAt: { gt: startedAt },
+        },
+      ];
+
+  const overlappingEntries = await prisma.timeEntry.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      id: excludeEntryId ? { not: excludeEntryId } : undefined,
+      OR: [
+        ...conditions,
+        {
+          // Existing entry is a running timer
+          endedAt: null,
+          ...(endedAt ? { startedAt: { lt: endedAt } } : {}),
+        },
       ],
     },
     include: {
@@ -42,23 +97,28 @@ export async function checkTimeEntryOverlap(
     },
   });
 
-  if (overlappingEntries.length > 0) {
-    const overlap = overlappingEntries[0];
+  const warnings = overlappingEntries.map(
+    (overlap): TimeEntryOverlapWarning => ({
+      code: 'api/time-entry-overlap',
+      detail: `Overlaps with entry for project "${overlap.project.name}" (${overlap.project.client?.name}) from ${overlap.startedAt.toISOString()} to ${overlap.endedAt?.toISOString() ?? 'now (running)'}`,
+      conflictingEntry: {
+        id: overlap.id,
+        project: overlap.project.name,
+        client: overlap.project.client?.name,
+        startedAt: overlap.startedAt.toISOString(),
+        endedAt: overlap.endedAt?.toISOString() ?? null,
+      },
+    }),
+  );
+
+  if (policy === 'REJECT' && warnings.length > 0) {
     throw new HTTPException(400, {
       message: 'Time entry overlaps with existing entry',
-      cause: {
-        code: 'api/time-entry-overlap',
-        detail: `Overlaps with entry for project "${overlap.project.name}" (${overlap.project.client?.name}) from ${overlap.startedAt.toISOString()} to ${overlap.endedAt.toISOString()}`,
-        conflictingEntry: {
-          id: overlap.id,
-          project: overlap.project.name,
-          client: overlap.project.client?.name,
-          startedAt: overlap.startedAt.toISOString(),
-          endedAt: overlap.endedAt.toISOString(),
-        },
-      },
+      cause: warnings[0],
     });
   }
+
+  return warnings;
 }
 
 /**
@@ -105,35 +165,112 @@ export function validateTimeEntryDuration(
   }
 }
 
+/**
+ * Validate the period of a project budget: a custom period needs a start
+ * before its end
+ */
+export function validateBudgetPeriod(
+  budget: Pick<Project, 'budgetPeriod' | 'budgetStartsAt' | 'budgetEndsAt'>,
+): void {
+  if (budget.budgetPeriod !== 'CUSTOM') return;
+
+  if (!budget.budgetStartsAt || !budget.budgetEndsAt) {
+    throw new HTTPException(400, {
+      message: 'Custom budget period needs a start and an end',
+      cause: {
+        code: 'api/invalid-budget-period',
+        detail:
+          'budgetStartsAt and budgetEndsAt are required for a CUSTOM budget period',
+      },
+    });
+  }
+
+  if (budget.budgetEndsAt <= budget.budgetStartsAt) {
+    throw new HTTPException(400, {
+      message: 'Budget period must end after it starts',
+      cause: {
+        code: 'api/invalid-budget-period',
+        detail: 'budgetEndsAt must be greater than budgetStartsAt',
+      },
+    });
+  }
+}
+
+/**
+ * Validate the start of a running timer, which cannot begin in the future
+ */
+export function validateTimerStart(startedAt: Date, now = new Date()): void {
+  if (startedAt > now) {
+    throw new HTTPException(400, {
+      message: 'Timer cannot start in the future',
+      cause: {
+        code: 'api/invalid-time-range',
+        detail: 'startedAt must not be later than the current time',
+      },
+    });
+  }
+}
+
 /**
  * Validate business hours (optional feature)
  */
 export function validateBusinessHours(
   startedAt: Date,
   endedAt: Date,
-  businessHours?: { start: number; end: number }, // Hours in 24h format, e.g., { start: 9, end: 17 }
+  schedule?: BusinessDay[], // Weekly schedule, see core/business-hours.ts
+  settings: Pick<UserPreferences, 'timeZone'> = { timeZone: 'UTC' },
 ): void {
-  if (!businessHours) return;
+  if (!schedule) return;
 
-  const startHour = startedAt.getHours();
-  const endHour = endedAt.getHours();
+  const { afterHours, weekendHours } = splitBusinessHours(
+    startedAt,
+    endedAt,
+    schedule,
+    settings,
+  );
 
-  if (startHour < businessHours.start || startHour >= businessHours.end) {
+  if (weekendHours > 0) {
     throw new HTTPException(400, {
-      message: 'Time entry start time is outside business hours',
+      message: 'Time entry falls on a day off',
       cause: {
         code: 'api/outside-business-hours',
-        detail: `Business hours are ${businessHours.start}:00 - ${businessHours.end}:00`,
+        detail: `Business hours are ${describeBusinessHours(schedule)}`,
       },
     });
   }
 
-  if (endHour < businessHours.start || endHour > businessHours.end) {
+  if (afterHours > 0) {
     throw new HTTPException(400, {
-      message: 'Time entry end time is outside business hours',
+      message: 'Time entry is outside business hours',
       cause: {
         code: 'api/outside-business-hours',
-        detail: `Business hours are ${businessHours.start}:00 - ${businessHours.end}:00`,
+        detail: `Business hours are ${describeBusinessHours(schedule)}`,
+      },
+    });
+  }
+}
+
+/**
+ * Refuse a time entry outside the user's business hours, when they chose to
+ * enforce them. A running timer (no end) must start within them.
+ */
+export async function checkBusinessHours(
+  userId: string,
+  startedAt: Date,
+  endedAt: Date | null,
+  settings: Pick<UserPreferences, 'timeZone' | 'enforceBusinessHours'>,
+): Promise<void> {
+  if (!settings.enforceBusinessHours) return;
+
+  const schedule = await getBusinessHours(userId);
+  if (endedAt) {
+    validateBusinessHours(startedAt, endedAt, schedule, settings);
+  } else if (!isWithinBusinessHours(startedAt, schedule, settings)) {
+    throw new HTTPException(400, {
+      message: 'Timer starts outside business hours',
+      cause: {
+        code: 'api/outside-business-hours',
+        detail: `Business hours are ${describeBusinessHours(schedule)}`,
       },
     });
   }
@@ -155,6 +292,7 @@ export async function checkDuplicateClientName(
         mode: 'insensitive',
       },
       id: excludeClientId ? { not: excludeClientId } : undefined,
+      deletedAt: null,
     },
   });
   if (duplicate) {
@@ -186,6 +324,7 @@ export async function checkDuplicateProjectName(
         mode: 'insensitive',
       },
       id: excludeProjectId ? { not: excludeProjectId } : undefined,
+      deletedAt: null,
     },
   });
   if (duplicate) {
@@ -199,6 +338,215 @@ export async function checkDuplicateProjectName(
   }
 }
 
+/**
+ * Check for duplicate tag name per user
+ */
+export async function checkDuplicateTagName(
+  userId: string,
+  name: string,
+  excludeTagId?: string,
+): Promise<void> {
+  const duplicate = await prisma.tag.findFirst({
+    where: {
+      userId,
+      name: {
+        equals: name.trim(),
+        mode: 'insensitive',
+      },
+      id: excludeTagId ? { not: excludeTagId } : undefined,
+    },
+  });
+  if (duplicate) {
+    throw new HTTPException(400, {
+      message: 'Duplicate tag name',
+      cause: {
+        code: 'api/duplicate-tag-name',
+        detail: `Tag name "${name.trim()}" already exists for this user.`,
+      },
+    });
+  }
+}
+
+/**
+ * Check for duplicate task name per project
+ */
+export async function checkDuplicateTaskName(
+  projectId: string,
+  name: string,
+  excludeTaskId?: string,
+): Promise<void> {
+  const duplicate = await prisma.task.findFirst({
+    where: {
+      projectId,
+      name: {
+        equals: name.trim(),
+        mode: 'insensitive',
+      },
+      id: excludeTaskId ? { not: excludeTaskId } : undefined,
+    },
+  });
+  if (duplicate) {
+    throw new HTTPException(400, {
+      message: 'Duplicate task name',
+      cause: {
+        code: 'api/duplicate-task-name',
+        detail: `Task name "${name.trim()}" already exists for this project.`,
+      },
+    });
+  }
+}
+
+/**
+ * Check for duplicate calendar match keyword per user
+ */
+export async function checkDuplicateCalendarKeyword(
+  userId: string,
+  keyword: string,
+  excludeRuleId?: string,
+): Promise<void> {
+  const duplicate = await prisma.calendarMatchRule.findFirst({
+    where: {
+      userId,
+      keyword: {
+        equals: keyword.trim(),
+        mode: 'insensitive',
+      },
+      id: excludeRuleId ? { not: excludeRuleId } : undefined,
+    },
+  });
+  if (duplicate) {
+    throw new HTTPException(400, {
+      message: 'Duplicate keyword',
+      cause: {
+        code: 'api/duplicate-calendar-keyword',
+        detail: `A rule for keyword "${keyword.trim()}" already exists for this user.`,
+      },
+    });
+  }
+}
+
+/**
+ * Verify all tags exist and belong to the user
+ */
+export async function checkTagsExist(
+  userId: string,
+  tagIds: string[],
+): Promise<void> {
+  const uniqueIds = [...new Set(tagIds)];
+  const tags = await prisma.tag.findMany({
+    where: {
+      id: { in: uniqueIds },
+      userId,
+    },
+    select: { id: true },
+  });
+  if (tags.length !== uniqueIds.length) {
+    const foundIds = tags.map((tag) => tag.id);
+    const missingIds = uniqueIds.filter((id) => !foundIds.includes(id));
+    throw new HTTPException(400, {
+      message: 'Some tags were not found',
+      cause: {
+        code: 'api/tags-not-found',
+        detail: `Tags not found: ${missingIds.join(', ')}`,
+      },
+    });
+  }
+}
+
+/**
+ * Verify a client exists, belongs to the user and is not archived
+ */
+export async function checkClientNotArchived(
+  userId: string,
+  clientId: string,
+): Promise<void> {
+  const client = await prisma.client.findUniqueOrThrow({
+    where: {
+      id: clientId,
+      userId,
+      deletedAt: null,
+    },
+  });
+  if (client.archivedAt) {
+    throw new HTTPException(400, {
+      message: 'Client is archived',
+      cause: {
+        code: 'api/client-archived',
+        detail: `Client "${client.name}" is archived. Unarchive it to add new work.`,
+      },
+    });
+  }
+}
+
+/**
+ * Verify a project exists, belongs to the user and neither it nor its client
+ * is archived, and return it
+ */
+export async function checkProjectNotArchived(
+  userId: string,
+  projectId: string,
+): Promise<Project> {
+  const project = await prisma.project.findUniqueOrThrow({
+    where: {
+      id: projectId,
+      userId,
+      deletedAt: null,
+    },
+    include: {
+      client: true,
+    },
+  });
+  if (project.archivedAt || project.client?.archivedAt) {
+    throw new HTTPException(400, {
+      message: 'Project is archived',
+      cause: {
+        code: 'api/project-archived',
+        detail: project.archivedAt
+          ? `Project "${project.name}" is archived. Unarchive it to track new time.`
+          : `Client "${project.client?.name}" of project "${project.name}" is archived. Unarchive it to track new time.`,
+      },
+    });
+  }
+  return project;
+}
+
+/**
+ * Verify a task exists, belongs to the user, is a task of the project the
+ * time is tracked on and is not DONE, and return it
+ */
+export async function checkTaskInProject(
+  userId: string,
+  taskId: string,
+  projectId: string,
+): Promise<Task> {
+  const task = await prisma.task.findUniqueOrThrow({
+    where: {
+      id: taskId,
+      userId,
+      project: { deletedAt: null },
+    },
+  });
+  if (task.projectId !== projectId) {
+    throw new HTTPException(400, {
+      message: 'Task belongs to another project',
+      cause: {
+        code: 'api/task-not-in-project',
+        detail: `Task "${task.name}" is not a task of the project the time is tracked on.`,
+      },
+    });
+  }
+  if (task.status === 'DONE') {
+    throw new HTTPException(400, {
+      message: 'Task is done',
+      cause: {
+        code: 'api/task-done',
+        detail: `Task "${task.name}" is DONE. Reopen it to track new time.`,
+      },
+    });
+  }
+  return task;
+}
+
 /**
  * Sanitize input strings
  */
@@ -240,6 +588,8 @@ export function validateName(name: string, fieldName = 'name'): string {
 /**
  * Check for overlapping time entries for multiple entries in a single query
  * This is optimized for bulk operations to avoid N database queries
+ * The policy is applied as in checkTimeEntryOverlap. Entries deleted by the
+ * same operation can be left out with ignoredEntryIds.
  */
 export async function checkBulkTimeEntryOverlaps(
   userId: string,
@@ -248,8 +598,18 @@ export async function checkBulkTimeEntryOverlaps(
     endedAt: Date;
     excludeEntryId?: string;
   }>,
-): Promise<void> {
-  if (entries.length === 0) return;
+  policy: OverlapPolicy = 'REJECT',
+  ignoredEntryIds: string[] = [],
+): Promise<TimeEntryOverlapWarning[]> {
+  if (entries.length === 0 || policy === 'ALLOW') return [];
+
+  const warnings: TimeEntryOverlapWarning[] = [];
+  const report = (message: string, warning: TimeEntryOverlapWarning) => {
+    if (policy === 'REJECT') {
+      throw new HTTPException(400, { message, cause: warning });
+    }
+    warnings.push(warning);
+  };
 
   // First, check for overlaps within the new entries themselves
   for (let i = 0; i < entries.length; i++) {
@@ -262,13 +622,10 @@ export async function checkBulkTimeEntryOverlaps(
         entry1.startedAt < entry2.endedAt && entry2.startedAt < entry1.endedAt;
 
       if (overlaps) {
-        throw new HTTPException(400, {
-          message: `Time entries ${i + 1} and ${j + 1} overlap with each other`,
-          cause: {
-            code: 'api/time-entry-overlap',
-            detail: `Entry ${i + 1} (${entry1.startedAt.toISOString()} to ${entry1.endedAt.toISOString()}) overlaps with entry ${j + 1} (${entry2.startedAt.toISOString()} to ${entry2.endedAt.toISOString()})`,
-            entryIndexes: [i, j],
-          },
+        report(`Time entries ${i + 1} and ${j + 1} overlap with each other`, {
+          code: 'api/time-entry-overlap',
+          detail: `Entry ${i + 1} (${entry1.startedAt.toISOString()} to ${entry1.endedAt.toISOString()}) overlaps with entry ${j + 1} (${entry2.startedAt.toISOString()} to ${entry2.endedAt.toISOString()})`,
+          entryIndexes: [i, j],
         });
       }
     }
@@ -283,18 +640,22 @@ export async function checkBulkTimeEntryOverlaps(
   const latestEnd = new Date(Math.max(...allEndTimes.map((d) => d.getTime())));
 
   // Get all excluded entry IDs
-  const excludeIds = entries
-    .map((entry) => entry.excludeEntryId)
-    .filter(Boolean) as string[];
+  const excludeIds = [
+    ...(entries
+      .map((entry) => entry.excludeEntryId)
+      .filter(Boolean) as string[]),
+    ...ignoredEntryIds,
+  ];
 
   // Single query to get all existing entries in the time range
   const existingEntries = await prisma.timeEntry.findMany({
     where: {
       userId,
+      deletedAt: null,
       ...(excludeIds.length > 0 ? { id: { notIn: excludeIds } } : {}),
-      // Use a more efficient range query
+      // Use a more efficient range query, running timers included
       startedAt: { lt: latestEnd },
-      endedAt: { gt: earliestStart },
+      OR: [{ endedAt: { gt: earliestStart } }, { endedAt: null }],
     },
     include: {
       project: {
@@ -313,26 +674,56 @@ export async function checkBulkTimeEntryOverlaps(
 
       // Check if intervals overlap using simple date comparison
       const overlaps =
-        newEntry.startedAt < existingEntry.endedAt &&
+        (existingEntry.endedAt === null ||
+          newEntry.startedAt < existingEntry.endedAt) &&
         existingEntry.startedAt < newEntry.endedAt;
 
       if (overlaps) {
-        throw new HTTPException(400, {
-          message: `Time entry ${index + 1} overlaps with existing entry`,
-          cause: {
-            code: 'api/time-entry-overlap',
-            detail: `Entry ${index + 1} (${newEntry.startedAt.toISOString()} to ${newEntry.endedAt.toISOString()}) overlaps with entry for project "${existingEntry.project.name}" (${existingEntry.project.client?.name}) from ${existingEntry.startedAt.toISOString()} to ${existingEntry.endedAt.toISOString()}`,
-            conflictingEntry: {
-              id: existingEntry.id,
-              project: existingEntry.project.name,
-              client: existingEntry.project.client?.name,
-              startedAt: existingEntry.startedAt.toISOString(),
-              endedAt: existingEntry.endedAt.toISOString(),
-            },
-            entryIndex: index,
+        report(`Time entry ${index + 1} overlaps with existing entry`, {
+          code: 'api/time-entry-overlap',
+          detail: `Entry ${index + 1} (${newEntry.startedAt.toISOString()} to ${newEntry.endedAt.toISOString()}) overlaps with entry for project "${existingEntry.project.name}" (${existingEntry.project.client?.name}) from ${existingEntry.startedAt.toISOString()} to ${existingEntry.endedAt?.toISOString() ?? 'now (running)'}`,
+          conflictingEntry: {
+            id: existingEntry.id,
+            project: existingEntry.project.name,
+            client: existingEntry.project.client?.name,
+            startedAt: existingEntry.startedAt.toISOString(),
+            endedAt: existingEntry.endedAt?.toISOString() ?? null,
           },
+          entryIndex: index,
         });
       }
     }
   }
+
+  return warnings;
+}
+
+/**
+ * Find every pair of overlapping time entries, earliest start first in each
+ * pair. Running timers occupy everything up to now; entries that only touch
+ * do not overlap.
+ */
+export function findOverlappingPairs<
+  T extends Pick<TimeEntry, 'startedAt' | 'endedAt'>,
+>(entries: T[], now = new Date()): [T, T][] {
+  const sorted = [...entries].sort(
+    (a, b) => a.startedAt.getTime() - b.startedAt.getTime(),
+  );
+  const toSlot = (entry: T) => ({
+    start: entry.startedAt.toISOString(),
+    end: (entry.endedAt ?? now).toISOString(),
+  });
+
+  const pairs: [T, T][] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const end = sorted[i].endedAt ?? now;
+    // Later entries starting after this one ends cannot overlap it
+    for (let j = i + 1; j < sorted.length && sorted[j].startedAt < end; j++) {
+      if (overlap([toSlot(sorted[i]), toSlot(sorted[j])]) !== -1) {
+        pairs.push([sorted[i], sorted[j]]);
+      }
+    }
+  }
+
+  return pairs;
 }
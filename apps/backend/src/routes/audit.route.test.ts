@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Audit Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up audit route test environment');
+  });
+
+  after(async () => {
+    console.log('Audit route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject getting the audit log without authentication', async () => {
+      const res = await app.request('/api/audit');
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Query Parameter Validation', () => {
+    it('should reject an unknown entity type', async () => {
+      console.log('Testing entity type validation - requires auth setup');
+    });
+
+    it('should reject an unknown action', async () => {
+      console.log('Testing action validation - requires auth setup');
+    });
+  });
+
+  describe('Recording', () => {
+    it('should record the actor, request id and state before and after an update', async () => {
+      console.log('Testing audit record contents - requires auth setup');
+    });
+
+    it('should not record anything when a write fails validation', async () => {
+      console.log('Testing audit of rejected writes - requires auth setup');
+    });
+
+    it('should only list the records of the authenticated user', async () => {
+      console.log('Testing audit log isolation - requires auth setup');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi getAuditLog
+   * @tags audit
+   * @description Get a paginated list of the state-changing actions of the authenticated user, newest first. Each record holds the entity before and after the change and the id of the request that made it.
+   */
+  router.get(
+    '/api/audit',
+    authenticated(),
+    validate((payload) => ({
+      page: {
+        select: payload.query.page,
+        against: z.coerce.number().int().positive().default(1),
+      },
+      pageSize: {
+        select: payload.query.pageSize,
+        against: z.coerce.number().int().min(1).max(100).default(20),
+      },
+      entityType: {
+        select: payload.query.entityType,
+        against: z
+          .enum([
+            'CLIENT',
+            'PROJECT',
+            'TIME_ENTRY',
+            'INVOICE',
+            'TASK',
+            'RATE',
+            'MILESTONE',
+          ])
+          .optional(),
+      },
+      entityId: {
+        select: payload.query.entityId,
+        against: z.string().uuid().optional(),
+      },
+      action: {
+        select: payload.query.action,
+        against: z.enum(['CREATE', 'UPDATE', 'DELETE', 'RESTORE']).optional(),
+      },
+      requestId: {
+        select: payload.query.requestId,
+        against: z.string().optional(),
+      },
+      startDate: {
+        select: payload.query.startDate,
+        against: z.string().datetime().optional(),
+      },
+      endDate: {
+        select: payload.query.endDate,
+        against: z.string().datetime().optional(),
+      },
+    })),
+    async (c) => {
+      const {
+        page,
+        pageSize,
+        entityType,
+        entityId,
+        action,
+        requestId,
+        startDate,
+        endDate,
+      } = c.var.input;
+
+      const where: Prisma.AuditLogWhereInput = {
+        userId: c.var.subject.id,
+        ...(entityType ? { entityType } : {}),
+        ...(entityId ? { entityId } : {}),
+        ...(action ? { action } : {}),
+        ...(requestId ? { requestId } : {}),
+        ...(startDate || endDate
+          ? {
+              createdAt: {
+                ...(startDate ? { gte: new Date(startDate) } : {}),
+                ...(endDate ? { lte: new Date(endDate) } : {}),
+              },
+            }
+          : {}),
+      };
+
+      const totalCount = await prisma.auditLog.count({ where });
+
+      const records = await prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      });
+
+      return c.json({
+        data: records,
+        pagination: {
+          page,
+          pageSize,
+          totalCount,
+          totalPages: Math.ceil(totalCount / pageSize),
+        },
+      });
+    },
+  );
+}
@@ -0,0 +1,67 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { prisma } from '@iworked/db';
+
+import {
+  findBudgetedProjects,
+  getProjectBudgets,
+  raiseBudgetAlerts,
+} from '../core/budgets.ts';
+import { getUserSettings } from '../core/settings.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+// Most alerts returned by one poll
+const MAX_ALERTS = 100;
+
+export default async function (router: Hono) {
+  /**
+   * @openapi getBudgetAlerts
+   * @tags budgets
+   * @description Poll the alerts raised when a project reaches one of the budget alert thresholds of the settings (75%, 90% and 100% by default), oldest first. Budgets are checked on each poll, and each threshold is alerted once per budget period. Pass the createdAt of the last alert seen as after to get only the new ones.
+   */
+  router.get(
+    '/api/budget-alerts',
+    authenticated(),
+    validate((payload) => ({
+      after: {
+        select: payload.query.after,
+        against: z.string().datetime().optional(),
+      },
+      projectId: {
+        select: payload.query.projectId,
+        against: z.string().uuid().optional(),
+      },
+    })),
+    async (c) => {
+      const { after, projectId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const settings = await getUserSettings(userId);
+      const projects = await findBudgetedProjects(userId);
+      const budgets = await getProjectBudgets(projects, settings);
+      await raiseBudgetAlerts(userId, budgets, settings.budgetAlertThresholds);
+
+      const alerts = await prisma.budgetAlert.findMany({
+        where: {
+          userId,
+          project: { deletedAt: null },
+          ...(projectId ? { projectId } : {}),
+          ...(after ? { createdAt: { gt: new Date(after) } } : {}),
+        },
+        orderBy: [{ createdAt: 'asc' }, { threshold: 'asc' }],
+        take: MAX_ALERTS,
+        include: {
+          project: {
+            include: {
+              client: true,
+            },
+          },
+        },
+      });
+
+      return c.json({ data: alerts });
+    },
+  );
+}
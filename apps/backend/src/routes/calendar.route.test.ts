@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Calendar Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up calendar route test environment');
+  });
+
+  after(async () => {
+    console.log('Calendar route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject creating a feed token without authentication', async () => {
+      const res = await app.request('/api/calendar/token', {
+        method: 'POST',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject revoking the feed token without authentication', async () => {
+      const res = await app.request('/api/calendar/token', {
+        method: 'DELETE',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Feed Token', () => {
+    it('should reject the feed without a token', async () => {
+      const res = await app.request('/api/calendar.ics');
+      assert.strictEqual(res.status, 400);
+
+      const data = (await res.json()) as { error: string; cause: any };
+      assert.strictEqual(data.cause.code, 'api/validation-failed');
+    });
+
+    it('should reject the feed with an unknown token', async () => {
+      const res = await app.request('/api/calendar.ics?token=unknown-token');
+      assert.strictEqual(res.status, 401);
+
+      const data = (await res.json()) as { error: string; cause: any };
+      assert.strictEqual(data.cause.code, 'api/invalid-calendar-token');
+    });
+
+    it('should reject a window beyond one year', async () => {
+      const res = await app.request(
+        '/api/calendar.ics?token=unknown-token&pastDays=1000',
+      );
+
+      assert.strictEqual(res.status, 400);
+    });
+
+    it('should stop serving the feed once the token is revoked', async () => {
+      console.log('Testing token revocation - requires auth setup');
+    });
+  });
+
+  describe('Feed Content', () => {
+    it('should emit time entries as events with project and client', async () => {
+      console.log('Testing time entry events - requires auth setup');
+    });
+
+    it('should emit invoice sent and paid milestones as all-day events', async () => {
+      console.log('Testing invoice milestones - requires auth setup');
+    });
+
+    it('should filter the feed by client and project', async () => {
+      console.log('Testing feed filters - requires auth setup');
+    });
+  });
+
+  describe('Calendar Match Rules', () => {
+    it('should reject listing rules without authentication', async () => {
+      const res = await app.request('/api/calendar/rules');
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject creating rules without authentication', async () => {
+      const res = await app.request('/api/calendar/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyword: 'standup',
+          projectId: 'valid-uuid-format',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject duplicate keywords per user', async () => {
+      console.log('Testing duplicate keywords - requires auth setup');
+    });
+  });
+
+  describe('Calendar Import', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:standup@example.com',
+      'SUMMARY:Standup',
+      'DTSTART;TZID=Europe/Berlin:20250721T093000',
+      'DTEND;TZID=Europe/Berlin:20250721T094500',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=10',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should reject imports without authentication', async () => {
+      const form = new FormData();
+      form.append('file', new File([ics], 'calendar.ics'));
+      form.append('dateFrom', '2025-07-01T00:00:00Z');
+      form.append('dateTo', '2025-08-01T00:00:00Z');
+
+      const res = await app.request('/api/calendar/import', {
+        method: 'POST',
+        body: form,
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should expand recurring events within the date range', async () => {
+      console.log('Testing recurrence expansion - requires auth setup');
+    });
+
+    it('should match projects by keyword rules and attendee domains', async () => {
+      console.log('Testing project matching - requires auth setup');
+    });
+  });
+});
@@ -0,0 +1,464 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import {
+  buildCalendar,
+  generateCalendarToken,
+  getEmailDomain,
+  hashCalendarToken,
+  invoiceToEvents,
+  matchCalendarEvent,
+  timeEntryToEvent,
+} from '../core/calendar.ts';
+import { parseICS } from '../core/ics.ts';
+import { isIanaTimeZone } from '../core/settings.ts';
+import {
+  checkDuplicateCalendarKeyword,
+  checkProjectNotArchived,
+  validateTimeEntryDuration,
+} from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+const MAX_ICS_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_IMPORT_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default async function (router: Hono) {
+  /**
+   * @openapi createCalendarToken
+   * @tags calendar
+   * @description Create the token of the calendar feed, replacing the previous one. The token is only returned once.
+   */
+  router.post('/api/calendar/token', authenticated(), async (c) => {
+    const userId = c.var.subject.id;
+    const { token, tokenHash } = generateCalendarToken();
+
+    await prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { tokenHash, userId },
+      update: { tokenHash, lastUsedAt: null },
+    });
+
+    const url = new URL('/api/calendar.ics', c.req.url);
+    url.searchParams.set('token', token);
+
+    return c.json({ token, url: url.toString() }, 201);
+  });
+
+  /**
+   * @openapi revokeCalendarToken
+   * @tags calendar
+   * @description Revoke the token of the calendar feed. Subscribed calendars stop receiving updates.
+   */
+  router.delete('/api/calendar/token', authenticated(), async (c) => {
+    const { count } = await prisma.calendarFeed.deleteMany({
+      where: { userId: c.var.subject.id },
+    });
+
+    if (count === 0) {
+      throw new HTTPException(404, {
+        message: 'No calendar feed token',
+        cause: {
+          code: 'api/calendar-token-not-found',
+          detail: 'There is no calendar feed token to revoke',
+        },
+      });
+    }
+
+    return c.json({ message: 'Calendar feed token revoked successfully' });
+  });
+
+  /**
+   * @openapi getCalendarFeed
+   * @tags calendar
+   * @description iCalendar feed of the time entries and invoice sent/paid milestones within a rolling window, for calendar subscriptions. Authenticated by the feed token instead of a session.
+   */
+  router.get(
+    '/api/calendar.ics',
+    validate((payload) => ({
+      token: {
+        select: payload.query.token,
+        against: z.string().min(1),
+      },
+      clientId: {
+        select: payload.query.clientId,
+        against: z.string().uuid().optional(),
+      },
+      projectId: {
+        select: payload.query.projectId,
+        against: z.string().uuid().optional(),
+      },
+      pastDays: {
+        select: payload.query.pastDays,
+        against: z.coerce.number().int().min(0).max(366).default(90),
+      },
+      futureDays: {
+        select: payload.query.futureDays,
+        against: z.coerce.number().int().min(0).max(366).default(30),
+      },
+    })),
+    async (c) => {
+      const { token, clientId, projectId, pastDays, futureDays } = c.var.input;
+
+      const feed = await prisma.calendarFeed.findUnique({
+        where: { tokenHash: hashCalendarToken(token) },
+      });
+      if (!feed) {
+        throw new HTTPException(401, {
+          message: 'Invalid calendar feed token',
+          cause: {
+            code: 'api/invalid-calendar-token',
+            detail: 'The calendar feed token is unknown or was revoked',
+          },
+        });
+      }
+
+      await prisma.calendarFeed.update({
+        where: { id: feed.id },
+        data: { lastUsedAt: new Date() },
+      });
+
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - pastDays * DAY_MS);
+      const windowEnd = new Date(now.getTime() + futureDays * DAY_MS);
+
+      const timeEntryWhere: Prisma.TimeEntryWhereInput = {
+        userId: feed.userId,
+        deletedAt: null,
+        startedAt: {
+          gte: windowStart,
+          lte: windowEnd,
+        },
+      };
+      const invoiceWhere: Prisma.InvoiceWhereInput = {
+        userId: feed.userId,
+        deletedAt: null,
+        OR: [
+          { sentAt: { gte: windowStart, lte: windowEnd } },
+          { paidAt: { gte: windowStart, lte: windowEnd } },
+        ],
+      };
+
+      if (projectId) {
+        timeEntryWhere.projectId = projectId;
+        invoiceWhere.invoiceLines = { some: { projectId } };
+      }
+
+      if (clientId) {
+        timeEntryWhere.project = { clientId };
+        invoiceWhere.clientId = clientId;
+      }
+
+      const [timeEntries, invoices] = await Promise.all([
+        prisma.timeEntry.findMany({
+          where: timeEntryWhere,
+          orderBy: { startedAt: 'asc' },
+          include: {
+            project: {
+              include: {
+                client: true,
+              },
+            },
+          },
+        }),
+        prisma.invoice.findMany({
+          where: invoiceWhere,
+          include: {
+            client: true,
+          },
+        }),
+      ]);
+
+      const calendar = buildCalendar('iworked', [
+        ...timeEntries.map((entry) => timeEntryToEvent(entry, now)),
+        // Milestones outside the window are left out
+        ...invoices
+          .flatMap((invoice) => invoiceToEvents(invoice))
+          .filter(
+            (event) => event.end > windowStart && event.start <= windowEnd,
+          ),
+      ]);
+
+      return new Response(calendar, {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': 'inline; filename="iworked.ics"',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    },
+  );
+
+  /**
+   * @openapi getCalendarMatchRules
+   * @tags calendar
+   * @description Get the keyword rules that match imported calendar events to projects.
+   */
+  router.get('/api/calendar/rules', authenticated(), async (c) => {
+    const rules = await prisma.calendarMatchRule.findMany({
+      where: {
+        userId: c.var.subject.id,
+        project: { deletedAt: null },
+      },
+      orderBy: { keyword: 'asc' },
+      include: {
+        project: {
+          include: {
+            client: true,
+          },
+        },
+      },
+    });
+
+    return c.json({ data: rules });
+  });
+
+  /**
+   * @openapi createCalendarMatchRule
+   * @tags calendar
+   * @description Create a rule matching calendar events whose summary contains the keyword to a project.
+   */
+  router.post(
+    '/api/calendar/rules',
+    authenticated(),
+    validate((payload) => ({
+      keyword: {
+        select: payload.body.keyword,
+        against: z.string().trim().min(1).max(100),
+      },
+      projectId: {
+        select: payload.body.projectId,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { keyword, projectId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      await checkProjectNotArchived(userId, projectId);
+      await checkDuplicateCalendarKeyword(userId, keyword);
+
+      const rule = await prisma.calendarMatchRule.create({
+        data: {
+          keyword,
+          projectId,
+          userId,
+        },
+      });
+
+      return c.json(rule, 201);
+    },
+  );
+
+  /**
+   * @openapi updateCalendarMatchRule
+   * @tags calendar
+   * @description Change the keyword or project of a calendar match rule.
+   */
+  router.patch(
+    '/api/calendar/rules/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      keyword: {
+        select: payload.body.keyword,
+        against: z.string().trim().min(1).max(100).optional(),
+      },
+      projectId: {
+        select: payload.body.projectId,
+        against: z.string().uuid().optional(),
+      },
+    })),
+    async (c) => {
+      const { id, keyword, projectId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if rule exists and belongs to user
+      const existingRule = await prisma.calendarMatchRule.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+        },
+      });
+
+      const updateData: Prisma.CalendarMatchRuleUpdateInput = {};
+
+      if (keyword !== undefined) {
+        await checkDuplicateCalendarKeyword(userId, keyword, id);
+        updateData.keyword = keyword;
+      }
+
+      if (projectId !== undefined) {
+        await checkProjectNotArchived(userId, projectId);
+        updateData.project = { connect: { id: projectId } };
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return c.json(existingRule);
+      }
+
+      const rule = await prisma.calendarMatchRule.update({
+        where: { id },
+        data: updateData,
+      });
+
+      return c.json(rule);
+    },
+  );
+
+  /**
+   * @openapi deleteCalendarMatchRule
+   * @tags calendar
+   * @description Delete a calendar match rule.
+   */
+  router.delete(
+    '/api/calendar/rules/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if rule exists and belongs to user
+      await prisma.calendarMatchRule.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+        },
+      });
+
+      await prisma.calendarMatchRule.delete({
+        where: { id },
+      });
+
+      return c.json({ message: 'Calendar match rule deleted successfully' });
+    },
+  );
+
+  /**
+   * @openapi importCalendarEvents
+   * @tags calendar
+   * @description Propose time entries from the timed events of an uploaded .ics file within a date range, recurring events included. Projects are matched by keyword rules against the summary, then by attendee email domains against client emails. Nothing is created: confirmed proposals are sent to bulkCreateTimeEntries, which checks them for overlaps.
+   */
+  router.post(
+    '/api/calendar/import',
+    authenticated(),
+    validate('multipart/form-data', (payload) => ({
+      file: {
+        select: payload.body.file,
+        against: z
+          .instanceof(File)
+          .refine((file) => file.size <= MAX_ICS_FILE_SIZE, {
+            message: 'File must be 5 MB or smaller',
+          }),
+      },
+      dateFrom: {
+        select: payload.body.dateFrom,
+        against: z.string().datetime(),
+      },
+      dateTo: {
+        select: payload.body.dateTo,
+        against: z.string().datetime(),
+      },
+      timeZone: {
+        select: payload.body.timeZone,
+        against: z
+          .string()
+          .refine((zone) => isIanaTimeZone(zone), {
+            message: 'Unknown time zone',
+          })
+          .default('UTC'), // For events with floating times
+      },
+    })),
+    async (c) => {
+      const { file, dateFrom, dateTo, timeZone } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const from = new Date(dateFrom);
+      const to = new Date(dateTo);
+      if (to <= from) {
+        throw new HTTPException(400, {
+          message: 'Invalid date range',
+          cause: {
+            code: 'api/invalid-date-range',
+            detail: 'dateTo must be after dateFrom',
+          },
+        });
+      }
+      if (to.getTime() - from.getTime() > MAX_IMPORT_RANGE_DAYS * DAY_MS) {
+        throw new HTTPException(400, {
+          message: 'Date range too long',
+          cause: {
+            code: 'api/date-range-too-long',
+            detail: `Calendar events can be imported for at most ${MAX_IMPORT_RANGE_DAYS} days at once`,
+          },
+        });
+      }
+
+      const occurrences = parseICS(await file.text(), { from, to }, timeZone);
+
+      const [rules, clients] = await Promise.all([
+        prisma.calendarMatchRule.findMany({
+          where: {
+            userId,
+            project: {
+              archivedAt: null,
+              deletedAt: null,
+              OR: [{ client: null }, { client: { archivedAt: null } }],
+            },
+          },
+          include: { project: true },
+        }),
+        prisma.client.findMany({
+          where: { userId, archivedAt: null, deletedAt: null },
+          include: {
+            projects: { where: { archivedAt: null, deletedAt: null } },
+          },
+        }),
+      ]);
+      const ownDomain = getEmailDomain(c.var.subject.email) ?? undefined;
+
+      const proposals = [];
+      const skipped = [];
+
+      for (const occurrence of occurrences) {
+        try {
+          validateTimeEntryDuration(occurrence.startedAt, occurrence.endedAt);
+        } catch (error) {
+          if (!(error instanceof HTTPException)) throw error;
+          skipped.push({
+            eventId: occurrence.id,
+            summary: occurrence.summary,
+            code: (error.cause as { code: string }).code,
+            reason: error.message,
+          });
+          continue;
+        }
+
+        proposals.push({
+          eventId: occurrence.id,
+          summary: occurrence.summary,
+          attendees: occurrence.attendees,
+          startedAt: occurrence.startedAt.toISOString(),
+          endedAt: occurrence.endedAt.toISOString(),
+          note: occurrence.summary || undefined,
+          ...matchCalendarEvent(occurrence, rules, clients, ownDomain),
+        });
+      }
+
+      return c.json({ data: proposals, skipped });
+    },
+  );
+}
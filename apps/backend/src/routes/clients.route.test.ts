@@ -59,6 +59,22 @@ describe('Clients Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject archive requests without authentication', async () => {
+      const res = await app.request('/api/clients/fake-id/archive', {
+        method: 'POST',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject unarchive requests without authentication', async () => {
+      const res = await app.request('/api/clients/fake-id/unarchive', {
+        method: 'POST',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
   });
 
   describe('Input Validation - Attack Invalid Data', () => {
@@ -231,6 +247,14 @@ describe('Clients Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject an empty search filter', async () => {
+      const res = await app.request('/api/clients?q=%20', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
   });
 
   describe('Content-Type Validation', () => {
@@ -287,6 +311,34 @@ describe('Clients Route - Error-First Testing', () => {
     });
   });
 
+  describe('Cursor Pagination and Sorting', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown sort field', async () => {
+      const res = await app.request('/api/clients?sort=unknown', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject paging with a cursor without authentication', async () => {
+      const res = await app.request(
+        '/api/clients?sort=name&order=asc&cursor=abc',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a cursor made for another sort', async () => {
+      console.log('Testing cursor and sort mismatch - requires auth setup');
+    });
+
+    it('should return every client exactly once when following nextCursor', async () => {
+      console.log('Testing cursor pages - requires auth and database setup');
+    });
+  });
+
   describe('Happy Path - Normal Operation', () => {
     it('should accept valid client creation data', async () => {
       // This test would work with proper authentication
@@ -305,4 +357,80 @@ describe('Clients Route - Error-First Testing', () => {
       console.log('Client update test - requires authentication setup');
     });
   });
+
+  describe('Archival', () => {
+    it('should hide archived clients from the list by default', async () => {
+      console.log('Archived client filtering test - requires auth setup');
+    });
+
+    it('should list archived clients when includeArchived is true', async () => {
+      console.log('includeArchived listing test - requires auth setup');
+    });
+
+    it('should keep archived clients resolvable on existing invoices', async () => {
+      console.log('Archived client invoice test - requires auth setup');
+    });
+  });
+
+  describe('Trash', () => {
+    it('should reject deleting a client without authentication', async () => {
+      const res = await app.request(
+        '/api/clients/123e4567-e89b-12d3-a456-426614174000',
+        { method: 'DELETE' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject restoring a client without authentication', async () => {
+      const res = await app.request(
+        '/api/clients/123e4567-e89b-12d3-a456-426614174000/restore',
+        { method: 'POST' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should refuse deleting a client with invoices', async () => {
+      console.log('Client with invoices deletion test - requires auth setup');
+    });
+
+    it('should trash the projects and time entries of a deleted client', async () => {
+      console.log('Client cascade trash test - requires auth setup');
+    });
+
+    it('should restore the projects deleted along with the client', async () => {
+      console.log('Client cascade restore test - requires auth setup');
+    });
+  });
+
+  describe('Rate History', () => {
+    it('should reject listing rates without authentication', async () => {
+      const res = await app.request(
+        '/api/clients/123e4567-e89b-12d3-a456-426614174000/rates',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject adding a rate without authentication', async () => {
+      const res = await app.request(
+        '/api/clients/123e4567-e89b-12d3-a456-426614174000/rates',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            hourlyRate: 95,
+            effectiveFrom: '2026-01-01',
+          }),
+        },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should price projects without a rate at the client rate', async () => {
+      console.log('Client rate fallback test - requires auth setup');
+    });
+  });
 });
@@ -1,9 +1,16 @@
 import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 
-import type { Prisma } from '@iworked/db';
-import { prisma } from '@iworked/db';
+import { Prisma, prisma } from '@iworked/db';
 
+import { recordAudit } from '../core/audit.ts';
+import type { ListSort } from '../core/pagination.ts';
+import { toOrderBy, toPage, whereAfterCursor } from '../core/pagination.ts';
+import { addClientRate } from '../core/rates.ts';
+import type { SearchFilter } from '../core/search.ts';
+import { countMatching, findMatchingPage } from '../core/search.ts';
+import { getUserSettings, resolveDateInput } from '../core/settings.ts';
 import {
   checkDuplicateClientName,
   sanitizeInput,
@@ -30,9 +37,22 @@ export default async function (router: Hono) {
         select: payload.body.email,
         against: z.string().email().optional(),
       },
+      roundingIncrement: {
+        select: payload.body.roundingIncrement,
+        against: z.number().int().min(1).max(60).nullable().optional(),
+      },
+      roundingMode: {
+        select: payload.body.roundingMode,
+        against: z.enum(['UP', 'DOWN', 'NEAREST']).nullable().optional(),
+      },
+      roundingScope: {
+        select: payload.body.roundingScope,
+        against: z.enum(['ENTRY', 'LINE']).nullable().optional(),
+      },
     })),
     async (c) => {
-      const { name, email } = c.var.input;
+      const { name, email, roundingIncrement, roundingMode, roundingScope } =
+        c.var.input;
       const userId = c.var.subject.id;
 
       // Validate and sanitize input
@@ -42,12 +62,26 @@ export default async function (router: Hono) {
       // Check for duplicate client name
       await checkDuplicateClientName(userId, validatedName);
 
-      const client = await prisma.client.create({
-        data: {
-          name: validatedName,
-          email: sanitizedEmail,
-          userId,
-        },
+      const client = await prisma.$transaction(async (tx) => {
+        const created = await tx.client.create({
+          data: {
+            name: validatedName,
+            email: sanitizedEmail,
+            roundingIncrement,
+            roundingMode,
+            roundingScope,
+            userId,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'CLIENT',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
       });
 
       return c.json(client, 201);
@@ -57,7 +91,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getClients
    * @tags clients
-   * @description Get a paginated list of clients for the authenticated user.
+   * @description Get a paginated list of clients for the authenticated user. Archived clients are hidden unless includeArchived is true. q filters by full-text search on the name and email. Sort by createdAt or name; pass the nextCursor of a page as cursor to get the next one.
    */
   router.get(
     '/api/clients',
@@ -71,38 +105,101 @@ export default async function (router: Hono) {
         select: payload.query.pageSize,
         against: z.coerce.number().int().min(1).max(100).default(20),
       },
+      includeArchived: {
+        select: payload.query.includeArchived,
+        against: z
+          .enum(['true', 'false'])
+          .default('false')
+          .transform((value) => value === 'true'),
+      },
+      q: {
+        select: payload.query.q,
+        against: z.string().trim().min(1).max(200).optional(),
+      },
+      cursor: {
+        select: payload.query.cursor,
+        against: z.string().optional(),
+      },
+      sort: {
+        select: payload.query.sort,
+        against: z.enum(['createdAt', 'name']).default('createdAt'),
+      },
+      order: {
+        select: payload.query.order,
+        against: z.enum(['asc', 'desc']).default('desc'),
+      },
     })),
     async (c) => {
-      const { page, pageSize } = c.var.input;
+      const { page, pageSize, includeArchived, q, cursor, sort, order } =
+        c.var.input;
+      const sortBy: ListSort = { field: sort, order };
 
       const where: Prisma.ClientWhereInput = {
         userId: c.var.subject.id,
+        deletedAt: null,
+        ...(includeArchived ? {} : { archivedAt: null }),
       };
-
-      const totalCount = await prisma.client.count({ where });
-
-      const clients = await prisma.client.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
-        include: {
-          _count: {
-            select: {
-              projects: true,
-              invoices: true,
-            },
+      const skip = cursor ? 0 : (page - 1) * pageSize;
+      const include = {
+        _count: {
+          select: {
+            projects: { where: { deletedAt: null } },
+            invoices: { where: { deletedAt: null } },
           },
         },
-      });
+      } satisfies Prisma.ClientInclude;
+
+      let totalCount: number | undefined;
+      let clients;
+      if (q) {
+        // The search runs in SQL, which picks the page of matching clients
+        const filter: SearchFilter = {
+          userId: c.var.subject.id,
+          query: q,
+          conditions: includeArchived
+            ? []
+            : [Prisma.sql`t."archivedAt" IS NULL`],
+        };
+        totalCount = cursor ? undefined : await countMatching('CLIENT', filter);
+        const ids = await findMatchingPage('CLIENT', filter, {
+          sort: sortBy,
+          cursor,
+          skip,
+          take: pageSize + 1,
+        });
+        const found = await prisma.client.findMany({
+          where: { id: { in: ids } },
+          include,
+        });
+        clients = ids.flatMap(
+          (id) => found.find((client) => client.id === id) ?? [],
+        );
+      } else {
+        // Pages after a cursor are neither counted nor offset
+        totalCount = cursor ? undefined : await prisma.client.count({ where });
+        clients = await prisma.client.findMany({
+          where: whereAfterCursor(where, sortBy, cursor),
+          orderBy: toOrderBy<Prisma.ClientOrderByWithRelationInput[]>(sortBy),
+          skip,
+          take: pageSize + 1,
+          include,
+        });
+      }
+
+      const { data, ...pageInfo } = toPage(clients, pageSize, sortBy);
 
       return c.json({
-        data: clients,
+        data,
         pagination: {
-          page,
           pageSize,
-          totalCount,
-          totalPages: Math.ceil(totalCount / pageSize),
+          ...(totalCount !== undefined
+            ? {
+                page,
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+              }
+            : {}),
+          ...pageInfo,
         },
       });
     },
@@ -129,14 +226,16 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           projects: {
+            where: { deletedAt: null },
             orderBy: { createdAt: 'desc' },
           },
           _count: {
             select: {
-              invoices: true,
+              invoices: { where: { deletedAt: null } },
             },
           },
         },
@@ -167,9 +266,28 @@ export default async function (router: Hono) {
         select: payload.body.email,
         against: z.string().email().optional(),
       },
+      roundingIncrement: {
+        select: payload.body.roundingIncrement,
+        against: z.number().int().min(1).max(60).nullable().optional(),
+      },
+      roundingMode: {
+        select: payload.body.roundingMode,
+        against: z.enum(['UP', 'DOWN', 'NEAREST']).nullable().optional(),
+      },
+      roundingScope: {
+        select: payload.body.roundingScope,
+        against: z.enum(['ENTRY', 'LINE']).nullable().optional(),
+      },
     })),
     async (c) => {
-      const { id, name, email } = c.var.input;
+      const {
+        id,
+        name,
+        email,
+        roundingIncrement,
+        roundingMode,
+        roundingScope,
+      } = c.var.input;
       const userId = c.var.subject.id;
 
       // Check if client exists and belongs to user
@@ -177,6 +295,7 @@ export default async function (router: Hono) {
         where: {
           id,
           userId,
+          deletedAt: null,
         },
       });
 
@@ -192,16 +311,404 @@ export default async function (router: Hono) {
         updateData.email = sanitizeInput(email);
       }
 
+      if (roundingIncrement !== undefined) {
+        updateData.roundingIncrement = roundingIncrement;
+      }
+
+      if (roundingMode !== undefined) {
+        updateData.roundingMode = roundingMode;
+      }
+
+      if (roundingScope !== undefined) {
+        updateData.roundingScope = roundingScope;
+      }
+
       if (Object.keys(updateData).length === 0) {
         return c.json(existingClient);
       }
 
-      const client = await prisma.client.update({
-        where: { id },
-        data: updateData,
+      const client = await prisma.$transaction(async (tx) => {
+        const updated = await tx.client.update({
+          where: { id },
+          data: updateData,
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'CLIENT',
+          entityId: id,
+          before: existingClient,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(client);
+    },
+  );
+
+  /**
+   * @openapi archiveClient
+   * @tags clients
+   * @description Archive a client. It is hidden from listings and its projects no longer accept new time entries.
+   */
+  router.post(
+    '/api/clients/:id/archive',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if client exists and belongs to user
+      const existingClient = await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+      });
+
+      if (existingClient.archivedAt) {
+        return c.json(existingClient);
+      }
+
+      const client = await prisma.$transaction(async (tx) => {
+        const updated = await tx.client.update({
+          where: { id },
+          data: { archivedAt: new Date() },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'CLIENT',
+          entityId: id,
+          before: existingClient,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(client);
+    },
+  );
+
+  /**
+   * @openapi unarchiveClient
+   * @tags clients
+   * @description Restore an archived client.
+   */
+  router.post(
+    '/api/clients/:id/unarchive',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if client exists and belongs to user
+      const existingClient = await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+      });
+
+      const client = await prisma.$transaction(async (tx) => {
+        const updated = await tx.client.update({
+          where: { id },
+          data: { archivedAt: null },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'CLIENT',
+          entityId: id,
+          before: existingClient,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(client);
+    },
+  );
+  /**
+   * @openapi deleteClient
+   * @tags clients
+   * @description Move a client to the trash, with its projects and their time entries. A client with invoices cannot be deleted; archive it instead.
+   */
+  router.delete(
+    '/api/clients/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if client exists and belongs to user
+      const existingClient = await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          _count: {
+            select: {
+              invoices: { where: { deletedAt: null } },
+            },
+          },
+        },
+      });
+
+      if (existingClient._count.invoices > 0) {
+        throw new HTTPException(400, {
+          message: 'Client has invoices and cannot be deleted',
+          cause: {
+            code: 'api/client-has-invoices',
+            detail: `Client "${existingClient.name}" has ${existingClient._count.invoices} invoices. Archive it instead.`,
+          },
+        });
+      }
+
+      // Projects and time entries share the timestamp, so they are restored together
+      const deletedAt = new Date();
+      await prisma.$transaction(async (tx) => {
+        await tx.timeEntry.updateMany({
+          where: {
+            project: { clientId: id, deletedAt: null },
+            deletedAt: null,
+          },
+          data: { deletedAt },
+        });
+        await tx.project.updateMany({
+          where: { clientId: id, deletedAt: null },
+          data: { deletedAt },
+        });
+        await tx.client.update({
+          where: { id },
+          data: { deletedAt },
+        });
+
+        const { _count, ...before } = existingClient;
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'CLIENT',
+          entityId: id,
+          before,
+        });
+      });
+
+      return c.json({ message: 'Client deleted successfully' });
+    },
+  );
+
+  /**
+   * @openapi restoreClient
+   * @tags clients
+   * @description Take a client out of the trash, with the projects and time entries deleted along with it.
+   */
+  router.post(
+    '/api/clients/:id/restore',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if client is in the trash and belongs to user
+      const existingClient = await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: { not: null },
+        },
+      });
+
+      // A client of the same name may have been created in the meantime
+      await checkDuplicateClientName(userId, existingClient.name, id);
+
+      const client = await prisma.$transaction(async (tx) => {
+        await tx.timeEntry.updateMany({
+          where: {
+            project: { clientId: id, deletedAt: existingClient.deletedAt },
+            deletedAt: existingClient.deletedAt,
+          },
+          data: { deletedAt: null },
+        });
+        await tx.project.updateMany({
+          where: { clientId: id, deletedAt: existingClient.deletedAt },
+          data: { deletedAt: null },
+        });
+        const restored = await tx.client.update({
+          where: { id },
+          data: { deletedAt: null },
+        });
+
+        await recordAudit(tx, {
+          action: 'RESTORE',
+          entityType: 'CLIENT',
+          entityId: id,
+          before: existingClient,
+          after: restored,
+        });
+
+        return restored;
       });
 
       return c.json(client);
     },
   );
+  /**
+   * @openapi getClientRates
+   * @tags clients
+   * @description Get the rate history of a client, oldest first. It prices the time of the client's projects that have no rate of their own, at the rate in effect when the time started.
+   */
+  router.get(
+    '/api/clients/:id/rates',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if client exists and belongs to user
+      await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+      });
+
+      const rates = await prisma.rate.findMany({
+        where: { clientId: id },
+        orderBy: { effectiveFrom: 'asc' },
+      });
+
+      return c.json({ data: rates });
+    },
+  );
+
+  /**
+   * @openapi addClientRate
+   * @tags clients
+   * @description Add a rate to the history of a client, in effect from effectiveFrom (a plain date is the start of the day in the user's time zone), replacing a rate with the same effective date.
+   */
+  router.post(
+    '/api/clients/:id/rates',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      hourlyRate: {
+        select: payload.body.hourlyRate,
+        against: z.coerce.number().positive().max(99999999),
+      },
+      effectiveFrom: {
+        select: payload.body.effectiveFrom,
+        against: z.union([z.string().datetime(), z.string().date()]),
+      },
+    })),
+    async (c) => {
+      const { id, hourlyRate, effectiveFrom } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if client exists and belongs to user
+      const existingClient = await prisma.client.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      const settings = await getUserSettings(userId);
+
+      const rate = await prisma.$transaction((tx) =>
+        addClientRate(tx, existingClient, {
+          hourlyRate,
+          effectiveFrom: resolveDateInput(effectiveFrom, 'start', settings),
+        }),
+      );
+
+      return c.json(rate, 201);
+    },
+  );
+
+  /**
+   * @openapi deleteClientRate
+   * @tags clients
+   * @description Remove a rate from the history of a client.
+   */
+  router.delete(
+    '/api/clients/:id/rates/:rateId',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      rateId: {
+        select: payload.params.rateId,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id, rateId } = c.var.input;
+
+      // Check if rate exists and belongs to a client of the user
+      const existingRate = await prisma.rate.findUniqueOrThrow({
+        where: {
+          id: rateId,
+          userId: c.var.subject.id,
+          clientId: id,
+          client: { deletedAt: null },
+        },
+      });
+
+      await prisma.$transaction(async (tx) => {
+        await tx.rate.delete({
+          where: { id: rateId },
+        });
+
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'RATE',
+          entityId: rateId,
+          before: existingRate,
+        });
+      });
+
+      return c.json({ message: 'Rate deleted successfully' });
+    },
+  );
 }
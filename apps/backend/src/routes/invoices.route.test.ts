@@ -296,6 +296,14 @@ describe('Invoices Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject PDF generation without authentication', async () => {
+      const res = await app.request('/api/invoices/valid-uuid-format/pdf', {
+        method: 'POST',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
   });
 
   describe('Query Parameter Validation', () => {
@@ -325,6 +333,14 @@ describe('Invoices Route - Error-First Testing', () => {
       assert.strictEqual(res.status, 401);
     });
 
+    it('should reject a search filter without authentication', async () => {
+      const res = await app.request('/api/invoices?q=INV-2025-001', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
     it('should reject excessive page sizes', async () => {
       const res = await app.request('/api/invoices?pageSize=999', {
         headers: { Authorization: invalidAuthHeader },
@@ -377,6 +393,135 @@ describe('Invoices Route - Error-First Testing', () => {
         'Testing time entry locking on invoice creation - requires auth and database setup',
       );
     });
+
+    it('should only unlock entries billed by the deleted invoice', async () => {
+      console.log(
+        'Testing unlocking with overlapping invoice ranges - requires auth and database setup',
+      );
+    });
+
+    it('should release billed entries when their last project line is removed', async () => {
+      console.log(
+        'Testing invoice line removal unlocking - requires auth and database setup',
+      );
+    });
+
+    it('should reject marking an invoice PAID with a balance outstanding', async () => {
+      console.log(
+        'Testing partial paidAmount on status change - requires auth and database setup',
+      );
+    });
+  });
+
+  describe('Invoice Lines - Billed Time Entries', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject adding a line with malformed time entry IDs', async () => {
+      const res = await app.request('/api/invoices/valid-uuid-format/lines', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          description: 'Extra work',
+          rate: 50,
+          projectId: 'valid-uuid-format',
+          timeEntryIds: ['not-a-uuid'],
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject billing entries that are already on an invoice', async () => {
+      console.log(
+        'Testing double billing prevention - requires auth and database setup',
+      );
+    });
+  });
+
+  describe('Line Grouping', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown line grouping', async () => {
+      const res = await app.request('/api/invoices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          clientId: '123e4567-e89b-12d3-a456-426614174000',
+          dateFrom: '2025-07-01',
+          dateTo: '2025-07-31',
+          lineGrouping: 'TAG',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should create one line per task with TASK grouping', async () => {
+      console.log(
+        'Testing per-task invoice lines - requires auth and database setup',
+      );
+    });
+
+    it('should give tasks with their own rate a line of their own', async () => {
+      console.log('Testing task rate lines - requires auth and database setup');
+    });
+
+    it('should keep the line grouping when recalculating', async () => {
+      console.log(
+        'Testing grouping on recalculation - requires auth and database setup',
+      );
+    });
+  });
+
+  describe('Draft Recalculation', () => {
+    it('should reject recalculation without authentication', async () => {
+      const res = await app.request(
+        '/api/invoices/valid-uuid-format/recalculate',
+        { method: 'POST' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should rebuild project lines when the date range changes', async () => {
+      console.log(
+        'Testing line refresh on date range change - requires auth and database setup',
+      );
+    });
+
+    it('should unlock entries that fall out of the new range', async () => {
+      console.log(
+        'Testing entry release on narrower range - requires auth and database setup',
+      );
+    });
+
+    it('should keep manually added lines', async () => {
+      console.log(
+        'Testing manual line preservation - requires auth and database setup',
+      );
+    });
+  });
+
+  describe('Revision History', () => {
+    it('should reject getting the history without authentication', async () => {
+      const res = await app.request(
+        '/api/invoices/123e4567-e89b-12d3-a456-426614174000/history',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should record line edits and payments as invoice updates', async () => {
+      console.log(
+        'Testing invoice history of lines and payments - requires auth and database setup',
+      );
+    });
   });
 
   describe('System Invariants - Status Flow FR-8', () => {
@@ -433,6 +578,38 @@ describe('Invoices Route - Error-First Testing', () => {
         'Testing PDF generation failure handling - requires auth setup',
       );
     });
+
+    it('should regenerate the PDF after the draft changes', async () => {
+      console.log('Testing stale PDF regeneration - requires auth setup');
+    });
+  });
+
+  describe('Cursor Pagination and Sorting', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown sort field', async () => {
+      const res = await app.request('/api/invoices?sort=unknown', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject paging with a cursor without authentication', async () => {
+      const res = await app.request(
+        '/api/invoices?sort=totalAmount&order=asc&cursor=abc',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a cursor made for another sort', async () => {
+      console.log('Testing cursor and sort mismatch - requires auth setup');
+    });
+
+    it('should page through invoices ordered by their total', async () => {
+      console.log('Testing cursor pages - requires auth and database setup');
+    });
   });
 
   describe('Happy Path - Normal Operation', () => {
@@ -468,4 +645,36 @@ describe('Invoices Route - Error-First Testing', () => {
       console.log('Status filtering test - requires authentication setup');
     });
   });
+
+  describe('Trash', () => {
+    it('should reject deleting an invoice without authentication', async () => {
+      const res = await app.request(
+        '/api/invoices/123e4567-e89b-12d3-a456-426614174000',
+        { method: 'DELETE' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject restoring an invoice without authentication', async () => {
+      const res = await app.request(
+        '/api/invoices/123e4567-e89b-12d3-a456-426614174000/restore',
+        { method: 'POST' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should keep the number of a deleted draft invoice', async () => {
+      console.log('Trashed invoice numbering test - requires auth setup');
+    });
+
+    it('should unlock the time entries of a deleted draft invoice', async () => {
+      console.log('Trashed invoice unlock test - requires auth setup');
+    });
+
+    it('should rebuild the project lines when restoring', async () => {
+      console.log('Invoice restore recalculation test - requires auth setup');
+    });
+  });
 });
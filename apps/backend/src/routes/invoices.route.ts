@@ -2,18 +2,48 @@ import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 
-import type { Prisma } from '@iworked/db';
-import { prisma } from '@iworked/db';
-
+import { Prisma, prisma } from '@iworked/db';
+
+import { getEntityHistory, recordAudit } from '../core/audit.ts';
+import {
+  calculateDurationHours,
+  calculateInvoiceBalance,
+  roundToTwoDecimals,
+} from '../core/calculations.ts';
+import {
+  createMilestoneLines,
+  createTimeEntryLines,
+  findBillableTimeEntries,
+  findInvoiceIdsByTotal,
+  findInvoiceableMilestones,
+  recalculateInvoiceLines,
+} from '../core/invoice-lines.ts';
 import { getNextInvoiceNumber } from '../core/invoice-numbering.ts';
+import { getInvoicePdf } from '../core/invoice-pdf.ts';
+import type { ListSort } from '../core/pagination.ts';
+import {
+  decodeCursor,
+  toOrderBy,
+  toPage,
+  whereAfterCursor,
+} from '../core/pagination.ts';
+import {
+  calculateRoundedHours,
+  resolveRoundingPolicy,
+} from '../core/rounding.ts';
+import type { SearchFilter } from '../core/search.ts';
+import { countMatching, findMatchingPage } from '../core/search.ts';
+import { getUserSettings, resolveDateInput } from '../core/settings.ts';
+import { getStorage } from '../core/storage.ts';
 import { authenticated } from '../middlewares/auth.ts';
+import { output } from '../middlewares/output.ts';
 import { validate } from '../middlewares/validator.ts';
 
 export default async function (router: Hono) {
   /**
    * @openapi createInvoice
    * @tags invoices
-   * @description Create a draft invoice from time entries for a client within a date range.
+   * @description Create a draft invoice from time entries for a client within a date range. lineGrouping PROJECT gives one line per project; TASK gives one line per task, with the time outside any task on its project's line. Tasks with their own rate always get a line of their own. Time is billed at the rate in effect when it started, with a line per rate. Only hourly projects are billed for their time; milestones of fixed-fee projects completed within the range get a line each, at their amount.
    */
   router.post(
     '/api/invoices',
@@ -25,18 +55,24 @@ export default async function (router: Hono) {
       },
       dateFrom: {
         select: payload.body.dateFrom,
-        against: z.string().datetime(),
+        against: z.union([z.string().datetime(), z.string().date()]),
       },
       dateTo: {
         select: payload.body.dateTo,
-        against: z.string().datetime(),
+        against: z.union([z.string().datetime(), z.string().date()]),
+      },
+      lineGrouping: {
+        select: payload.body.lineGrouping,
+        against: z.enum(['PROJECT', 'TASK']).default('PROJECT'),
       },
     })),
     async (c) => {
-      const { clientId, dateFrom, dateTo } = c.var.input;
+      const { clientId, dateFrom, dateTo, lineGrouping } = c.var.input;
 
-      const startDate = new Date(dateFrom);
-      const endDate = new Date(dateTo);
+      // Plain dates cover whole days in the user's time zone
+      const settings = await getUserSettings(c.var.subject.id);
+      const startDate = resolveDateInput(dateFrom, 'start', settings);
+      const endDate = resolveDateInput(dateTo, 'end', settings);
 
       if (endDate <= startDate) {
         throw new HTTPException(400, {
@@ -53,67 +89,32 @@ export default async function (router: Hono) {
         where: {
           id: clientId,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
       });
 
-      // Get unlocked time entries for the client within the date range
-      const timeEntries = await prisma.timeEntry.findMany({
-        where: {
-          userId: c.var.subject.id,
-          project: { clientId },
-          isLocked: false,
-          startedAt: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-        include: {
-          project: true,
-        },
-      });
+      const billable = {
+        userId: c.var.subject.id,
+        clientId,
+        dateFrom: startDate,
+        dateTo: endDate,
+      };
+      const timeEntries = await findBillableTimeEntries(prisma, billable);
+      const milestones = await findInvoiceableMilestones(prisma, billable);
 
-      if (timeEntries.length === 0) {
+      if (timeEntries.length === 0 && milestones.length === 0) {
         throw new HTTPException(400, {
           message:
             'No unlocked time entries found for the specified client and date range',
           cause: {
             code: 'api/no-time-entries',
-            detail: 'No billable time entries available for invoicing',
+            detail:
+              'No billable time entries or completed milestones available for invoicing',
           },
         });
       }
 
-      // Group time entries by project and calculate totals
-      const projectTotals = timeEntries.reduce(
-        (acc, entry) => {
-          const projectId = entry.project.id;
-          const projectName = entry.project.name;
-          const hourlyRate = entry.project.hourlyRate
-            ? parseFloat(entry.project.hourlyRate.toString())
-            : 0;
-          const durationHours =
-            (entry.endedAt.getTime() - entry.startedAt.getTime()) /
-            (1000 * 60 * 60);
-
-          if (!acc[projectId]) {
-            acc[projectId] = {
-              projectId,
-              projectName,
-              hourlyRate,
-              totalHours: 0,
-              timeEntryIds: [],
-            };
-          }
-
-          acc[projectId].totalHours += durationHours;
-          acc[projectId].timeEntryIds.push(entry.id);
-
-          return acc;
-        },
-        {} as Record<string, any>,
-      );
-
-      const result = await prisma.$transaction(async (tx) => {
+      const createdInvoice = await prisma.$transaction(async (tx) => {
         // Generate invoice number
         const invoiceNumber = await getNextInvoiceNumber(c.var.subject.id);
 
@@ -124,57 +125,38 @@ export default async function (router: Hono) {
             invoiceNumber,
             dateFrom: startDate,
             dateTo: endDate,
+            lineGrouping,
             clientId,
             userId: c.var.subject.id,
           },
         });
 
-        // Create invoice lines for each project
-        const invoiceLines = await Promise.all(
-          Object.values(projectTotals).map(async (project: any) => {
-            const hours = Math.round(project.totalHours * 100) / 100; // Round to 2 decimal places (BR-2)
-            const rate = Math.round(project.hourlyRate * 100) / 100;
-            const amount = Math.round(hours * rate * 100) / 100;
-
-            return tx.invoiceLine.create({
-              data: {
-                description: project.projectName,
-                hours: hours.toString(),
-                rate: rate.toString(),
-                amount: amount.toString(),
-                invoiceId: invoice.id,
-                projectId: project.projectId,
+        // Create invoice lines for each project or task and lock their time entries
+        await createTimeEntryLines(tx, invoice.id, timeEntries, lineGrouping);
+        await createMilestoneLines(tx, invoice.id, milestones);
+
+        // The created invoice with lines
+        const created = await tx.invoice.findUnique({
+          where: { id: invoice.id },
+          include: {
+            client: true,
+            invoiceLines: {
+              include: {
+                project: true,
+                task: true,
               },
-            });
-          }),
-        );
-
-        // Lock the time entries (FR-6, FR-7)
-        await tx.timeEntry.updateMany({
-          where: {
-            id: {
-              in: timeEntries.map((entry) => entry.id),
             },
           },
-          data: {
-            isLocked: true,
-          },
         });
 
-        return { invoice, invoiceLines };
-      });
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'INVOICE',
+          entityId: invoice.id,
+          after: created,
+        });
 
-      // Return the created invoice with lines
-      const createdInvoice = await prisma.invoice.findUnique({
-        where: { id: result.invoice.id },
-        include: {
-          client: true,
-          invoiceLines: {
-            include: {
-              project: true,
-            },
-          },
-        },
+        return created;
       });
 
       return c.json(createdInvoice, 201);
@@ -184,7 +166,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getInvoices
    * @tags invoices
-   * @description Get a paginated list of invoices for the authenticated user.
+   * @description Get a paginated list of invoices for the authenticated user. q filters by full-text search on the invoice number and notes. Sort by createdAt, dateFrom or totalAmount; pass the nextCursor of a page as cursor to get the next one.
    */
   router.get(
     '/api/invoices',
@@ -206,48 +188,128 @@ export default async function (router: Hono) {
         select: payload.query.clientId,
         against: z.string().uuid().optional(),
       },
+      q: {
+        select: payload.query.q,
+        against: z.string().trim().min(1).max(200).optional(),
+      },
+      cursor: {
+        select: payload.query.cursor,
+        against: z.string().optional(),
+      },
+      sort: {
+        select: payload.query.sort,
+        against: z
+          .enum(['createdAt', 'dateFrom', 'totalAmount'])
+          .default('createdAt'),
+      },
+      order: {
+        select: payload.query.order,
+        against: z.enum(['asc', 'desc']).default('desc'),
+      },
     })),
     async (c) => {
-      const { page, pageSize, status, clientId } = c.var.input;
+      const { page, pageSize, status, clientId, q, cursor, sort, order } =
+        c.var.input;
+      const sortBy: ListSort = { field: sort, order };
 
       const where: Prisma.InvoiceWhereInput = {
         userId: c.var.subject.id,
+        deletedAt: null,
         ...(status ? { status } : {}),
         ...(clientId ? { clientId } : {}),
       };
+      // The search runs in SQL, along with the other filters of the list
+      const filter: SearchFilter | undefined = q
+        ? {
+            userId: c.var.subject.id,
+            query: q,
+            conditions: [
+              ...(status
+                ? [Prisma.sql`t."status" = ${status}::"InvoiceStatus"`]
+                : []),
+              ...(clientId ? [Prisma.sql`t."clientId" = ${clientId}`] : []),
+            ],
+          }
+        : undefined;
+
+      // Pages after a cursor are neither counted nor offset
+      const totalCount = cursor
+        ? undefined
+        : filter
+          ? await countMatching('INVOICE', filter)
+          : await prisma.invoice.count({ where });
+      const skip = cursor ? 0 : (page - 1) * pageSize;
+      const include = {
+        client: true,
+        invoiceLines: true,
+        payments: true,
+      } satisfies Prisma.InvoiceInclude;
+
+      let ids: string[] | undefined;
+      if (sort === 'totalAmount') {
+        // Totals are summed from the lines, so the page is picked in SQL
+        const rows = await findInvoiceIdsByTotal(
+          { userId: c.var.subject.id, status, clientId, query: q },
+          {
+            order,
+            after: cursor ? decodeCursor(cursor, sortBy) : undefined,
+            skip,
+            take: pageSize + 1,
+          },
+        );
+        ids = rows.map((row) => row.id);
+      } else if (filter) {
+        ids = await findMatchingPage('INVOICE', filter, {
+          sort: sortBy,
+          cursor,
+          skip,
+          take: pageSize + 1,
+        });
+      }
 
-      const totalCount = await prisma.invoice.count({ where });
-
-      const invoices = await prisma.invoice.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
-        include: {
-          client: true,
-          invoiceLines: true,
-        },
-      });
+      let invoices;
+      if (ids) {
+        const found = await prisma.invoice.findMany({
+          where: { id: { in: ids } },
+          include,
+        });
+        invoices = ids.flatMap(
+          (id) => found.find((invoice) => invoice.id === id) ?? [],
+        );
+      } else {
+        invoices = await prisma.invoice.findMany({
+          where: whereAfterCursor(where, sortBy, cursor),
+          orderBy: toOrderBy<Prisma.InvoiceOrderByWithRelationInput[]>(sortBy),
+          skip,
+          take: pageSize + 1,
+          include,
+        });
+      }
 
-      // Calculate totals for each invoice
-      const invoicesWithTotals = invoices.map((invoice) => {
-        const totalAmount = invoice.invoiceLines.reduce((sum, line) => {
-          return sum + parseFloat(line.amount.toString());
-        }, 0);
+      // Calculate totals and outstanding balance for each invoice
+      const invoicesWithTotals = invoices.map((invoice) => ({
+        ...invoice,
+        ...calculateInvoiceBalance(invoice.invoiceLines, invoice.payments),
+      }));
 
-        return {
-          ...invoice,
-          totalAmount: Math.round(totalAmount * 100) / 100,
-        };
-      });
+      const { data, ...pageInfo } = toPage(
+        invoicesWithTotals,
+        pageSize,
+        sortBy,
+      );
 
       return c.json({
-        data: invoicesWithTotals,
+        data,
         pagination: {
-          page,
           pageSize,
-          totalCount,
-          totalPages: Math.ceil(totalCount / pageSize),
+          ...(totalCount !== undefined
+            ? {
+                page,
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+              }
+            : {}),
+          ...pageInfo,
         },
       });
     },
@@ -256,7 +318,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getInvoice
    * @tags invoices
-   * @description Get a specific invoice by ID.
+   * @description Get a specific invoice by ID, with the time entries it billed.
    */
   router.get(
     '/api/invoices/:id',
@@ -274,33 +336,75 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           client: true,
           invoiceLines: {
             include: {
               project: true,
+              task: true,
+            },
+          },
+          payments: {
+            orderBy: { paidAt: 'desc' },
+          },
+          timeEntries: {
+            orderBy: { startedAt: 'asc' },
+            include: {
+              project: true,
+              task: true,
             },
           },
         },
       });
 
-      // Calculate total amount
-      const totalAmount = invoice.invoiceLines.reduce((sum, line) => {
-        return sum + parseFloat(line.amount.toString());
-      }, 0);
-
+      // Calculate total amount and outstanding balance
       return c.json({
         ...invoice,
-        totalAmount: Math.round(totalAmount * 100) / 100,
+        ...calculateInvoiceBalance(invoice.invoiceLines, invoice.payments),
       });
     },
   );
 
+  /**
+   * @openapi getInvoiceHistory
+   * @tags invoices
+   * @description Get the audit records of an invoice, oldest first. Line edits, payments and status changes appear as updates with the invoice before and after them.
+   */
+  router.get(
+    '/api/invoices/:id/history',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const history = await getEntityHistory(userId, 'INVOICE', id);
+
+      // Without any record, check if invoice exists and belongs to user
+      if (history.length === 0) {
+        await prisma.invoice.findUniqueOrThrow({
+          where: {
+            id,
+            userId,
+          },
+        });
+      }
+
+      return c.json({ data: history });
+    },
+  );
+
   /**
    * @openapi updateInvoiceStatus
    * @tags invoices
-   * @description Update invoice status (forward transitions only: draft → sent → paid).
+   * @description Update invoice status (forward transitions only: draft → sent → paid). Marking an invoice PAID records the remaining balance as a payment; a paidAmount below it is rejected, as partial payments are recorded through the payments endpoints.
    */
   router.patch(
     '/api/invoices/:id/status',
@@ -327,6 +431,11 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          invoiceLines: true,
+          payments: true,
         },
       });
 
@@ -356,33 +465,90 @@ export default async function (router: Hono) {
       if (status === 'SENT') {
         updateData.sentAt = new Date();
       } else if (status === 'PAID') {
-        updateData.paidAt = new Date();
-        if (paidAmount !== undefined) {
-          updateData.paidAmount = paidAmount.toString();
+        // Record the given amount (or the remaining balance) as a payment
+        const balance = calculateInvoiceBalance(
+          existingInvoice.invoiceLines,
+          existingInvoice.payments,
+        );
+        const amount =
+          paidAmount !== undefined
+            ? roundToTwoDecimals(paidAmount)
+            : balance.outstandingAmount;
+
+        if (amount > balance.outstandingAmount) {
+          throw new HTTPException(400, {
+            message: 'Payment exceeds the outstanding balance',
+            cause: {
+              code: 'api/payment-exceeds-balance',
+              detail: `Outstanding balance is ${balance.outstandingAmount}, got a payment of ${amount}`,
+            },
+          });
+        }
+
+        // An invoice is only paid once nothing is outstanding
+        if (amount < balance.outstandingAmount) {
+          throw new HTTPException(400, {
+            message: 'Payment does not settle the outstanding balance',
+            cause: {
+              code: 'api/payment-below-balance',
+              detail: `Outstanding balance is ${balance.outstandingAmount}, got a payment of ${amount}. Record partial payments with POST /api/invoices/${id}/payments`,
+            },
+          });
+        }
+
+        const paidAt = new Date();
+        updateData.paidAt = paidAt;
+        updateData.paidAmount = roundToTwoDecimals(
+          balance.paidAmount + amount,
+        ).toString();
+        if (amount > 0) {
+          updateData.payments = {
+            create: {
+              amount: amount.toString(),
+              paidAt,
+              userId: c.var.subject.id,
+            },
+          };
         }
       }
 
-      const invoice = await prisma.invoice.update({
-        where: { id },
-        data: updateData,
-        include: {
-          client: true,
-          invoiceLines: {
-            include: {
-              project: true,
+      const invoice = await prisma.$transaction(async (tx) => {
+        const updated = await tx.invoice.update({
+          where: { id },
+          data: updateData,
+          include: {
+            client: true,
+            invoiceLines: {
+              include: {
+                project: true,
+              },
             },
+            payments: true,
           },
-        },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: updated,
+        });
+
+        return updated;
       });
 
-      return c.json(invoice);
+      return c.json({
+        ...invoice,
+        ...calculateInvoiceBalance(invoice.invoiceLines, invoice.payments),
+      });
     },
   );
 
   /**
    * @openapi generateInvoicePdf
    * @tags invoices
-   * @description Generate and get download link for invoice PDF.
+   * @description Render the invoice PDF, store it and get its download link.
    */
   router.post(
     '/api/invoices/:id/pdf',
@@ -396,43 +562,44 @@ export default async function (router: Hono) {
     async (c) => {
       const { id } = c.var.input;
 
-      // Check if invoice exists and belongs to user
-      await prisma.invoice.findUniqueOrThrow({
-        where: {
-          id,
-          userId: c.var.subject.id,
-        },
-        include: {
-          client: true,
-          invoiceLines: {
-            include: {
-              project: true,
-            },
-          },
-        },
-      });
-
-      // For MVP, return a placeholder PDF URL (FR-10)
-      // In production, this would integrate with a PDF generation service
-      const pdfUrl = `https://example.com/pdfs/invoice-${id}.pdf`;
-
-      // Update invoice with PDF URL
-      await prisma.invoice.update({
-        where: { id },
-        data: { pdfUrl },
+      const { pdfUrl } = await getInvoicePdf(id, c.var.subject.id, {
+        force: true,
       });
 
       return c.json({
         pdfUrl,
-        message: 'PDF generation initiated',
+        message: 'PDF generated successfully',
       });
     },
   );
 
+  /**
+   * @openapi downloadInvoicePdf
+   * @tags invoices
+   * @description Download the invoice PDF (FR-10), regenerated if the invoice changed since it was rendered.
+   */
+  router.get(
+    '/api/invoices/:id/pdf',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      const { buffer, filename } = await getInvoicePdf(id, c.var.subject.id);
+
+      return output.attachment(buffer, filename, 'application/pdf');
+    },
+  );
+
   /**
    * @openapi deleteInvoice
    * @tags invoices
-   * @description Delete a draft invoice and unlock associated time entries.
+   * @description Move a draft invoice to the trash, unlock associated time entries and put its milestones back to COMPLETED. It keeps its number and lines, and can be restored until the trash is purged.
    */
   router.delete(
     '/api/invoices/:id',
@@ -451,6 +618,7 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           invoiceLines: true,
@@ -468,50 +636,128 @@ export default async function (router: Hono) {
         });
       }
 
-      // Get time entries that were locked by this invoice
-      const projectIds = existingInvoice.invoiceLines.map(
-        (line) => line.projectId,
-      );
-      const timeEntries = await prisma.timeEntry.findMany({
+      // Unlink the billed time entries and trash the invoice in a transaction
+      await prisma.$transaction(async (tx) => {
+        // Unlock the time entries billed by this invoice
+        await tx.timeEntry.updateMany({
+          where: {
+            invoiceId: id,
+          },
+          data: {
+            invoiceId: null,
+            invoiceLineId: null,
+          },
+        });
+
+        // Its milestones can be invoiced again
+        await tx.milestone.updateMany({
+          where: {
+            invoiceLines: { some: { invoiceId: id } },
+          },
+          data: { status: 'COMPLETED' },
+        });
+
+        // The stored PDF goes below, and is rendered again once restored
+        await tx.invoice.update({
+          where: { id },
+          data: { deletedAt: new Date(), pdfKey: null, pdfChecksum: null },
+        });
+
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+        });
+      });
+
+      if (existingInvoice.pdfKey) {
+        await getStorage().delete(existingInvoice.pdfKey);
+      }
+
+      return c.json({ message: 'Invoice deleted successfully' });
+    },
+  );
+
+  /**
+   * @openapi restoreInvoice
+   * @tags invoices
+   * @description Take a draft invoice out of the trash. Its project and milestone lines are rebuilt from the time entries and completed milestones in its date range that are not billed elsewhere in the meantime; manual lines are kept. Its client must not be in the trash.
+   */
+  router.post(
+    '/api/invoices/:id/restore',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if invoice is in the trash and belongs to user
+      const existingInvoice = await prisma.invoice.findUniqueOrThrow({
         where: {
+          id,
           userId: c.var.subject.id,
-          projectId: { in: projectIds },
-          isLocked: true,
-          startedAt: {
-            gte: existingInvoice.dateFrom,
-            lte: existingInvoice.dateTo,
-          },
+          deletedAt: { not: null },
+        },
+        include: {
+          client: true,
+          invoiceLines: true,
         },
       });
 
-      // Delete invoice and unlock time entries in a transaction
-      await prisma.$transaction(async (tx) => {
-        // Delete invoice (this will cascade delete invoice lines)
-        await tx.invoice.delete({
+      if (existingInvoice.client.deletedAt) {
+        throw new HTTPException(400, {
+          message: 'Client is in the trash',
+          cause: {
+            code: 'api/parent-in-trash',
+            detail: `Restore client "${existingInvoice.client.name}" to restore its invoices`,
+          },
+        });
+      }
+
+      const invoice = await prisma.$transaction(async (tx) => {
+        await tx.invoice.update({
           where: { id },
+          data: { deletedAt: null },
         });
+        await recalculateInvoiceLines(tx, existingInvoice);
 
-        // Unlock the time entries
-        await tx.timeEntry.updateMany({
-          where: {
-            id: {
-              in: timeEntries.map((entry) => entry.id),
+        const refreshedInvoice = await tx.invoice.findUniqueOrThrow({
+          where: { id },
+          include: {
+            client: true,
+            invoiceLines: {
+              include: {
+                project: true,
+                task: true,
+              },
             },
           },
-          data: {
-            isLocked: false,
-          },
         });
+
+        await recordAudit(tx, {
+          action: 'RESTORE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: refreshedInvoice,
+        });
+
+        return refreshedInvoice;
       });
 
-      return c.json({ message: 'Invoice deleted successfully' });
+      return c.json(invoice);
     },
   );
 
   /**
    * @openapi updateInvoice
    * @tags invoices
-   * @description Update invoice details (DRAFT status only).
+   * @description Update invoice details (DRAFT status only). Changing the date range recalculates the project and milestone lines.
    */
   router.patch(
     '/api/invoices/:id',
@@ -523,11 +769,11 @@ export default async function (router: Hono) {
       },
       dateFrom: {
         select: payload.body.dateFrom,
-        against: z.string().datetime().optional(),
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
       },
       dateTo: {
         select: payload.body.dateTo,
-        against: z.string().datetime().optional(),
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
       },
     })),
     async (c) => {
@@ -538,6 +784,7 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           invoiceLines: true,
@@ -555,20 +802,25 @@ export default async function (router: Hono) {
         });
       }
 
+      // Plain dates cover whole days in the user's time zone
+      const settings = await getUserSettings(c.var.subject.id);
+      const newDateFrom = dateFrom
+        ? resolveDateInput(dateFrom, 'start', settings)
+        : existingInvoice.dateFrom;
+      const newDateTo = dateTo
+        ? resolveDateInput(dateTo, 'end', settings)
+        : existingInvoice.dateTo;
+
       const updateData: Prisma.InvoiceUpdateInput = {};
 
       if (dateFrom !== undefined) {
-        updateData.dateFrom = new Date(dateFrom);
+        updateData.dateFrom = newDateFrom;
       }
       if (dateTo !== undefined) {
-        updateData.dateTo = new Date(dateTo);
+        updateData.dateTo = newDateTo;
       }
 
       // Validate date range if both dates are provided or being updated
-      const newDateFrom = dateFrom
-        ? new Date(dateFrom)
-        : existingInvoice.dateFrom;
-      const newDateTo = dateTo ? new Date(dateTo) : existingInvoice.dateTo;
 
       if (newDateTo <= newDateFrom) {
         throw new HTTPException(400, {
@@ -584,19 +836,100 @@ export default async function (router: Hono) {
         return c.json(existingInvoice);
       }
 
-      const invoice = await prisma.invoice.update({
-        where: { id },
-        data: updateData,
-        include: {
-          client: true,
-          invoiceLines: {
-            include: {
-              project: true,
+      // Changing the period refreshes the project lines and locked entries
+      const invoice = await prisma.$transaction(async (tx) => {
+        const updatedInvoice = await tx.invoice.update({
+          where: { id },
+          data: updateData,
+        });
+
+        await recalculateInvoiceLines(tx, updatedInvoice);
+
+        const refreshedInvoice = await tx.invoice.findUniqueOrThrow({
+          where: { id },
+          include: {
+            client: true,
+            invoiceLines: {
+              include: {
+                project: true,
+                task: true,
+              },
             },
           },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: refreshedInvoice,
+        });
+
+        return refreshedInvoice;
+      });
+
+      return c.json(invoice);
+    },
+  );
+
+  /**
+   * @openapi recalculateInvoice
+   * @tags invoices
+   * @description Rebuild the project and milestone lines of a draft invoice from the time entries and completed milestones in its date range. Manual lines are kept.
+   */
+  router.post(
+    '/api/invoices/:id/recalculate',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if invoice exists, belongs to user, and is draft
+      const existingInvoice = await prisma.invoice.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+          status: 'DRAFT',
+        },
+        include: {
+          invoiceLines: true,
         },
       });
 
+      const invoice = await prisma.$transaction(async (tx) => {
+        await recalculateInvoiceLines(tx, existingInvoice);
+
+        const refreshedInvoice = await tx.invoice.findUniqueOrThrow({
+          where: { id },
+          include: {
+            client: true,
+            invoiceLines: {
+              include: {
+                project: true,
+                task: true,
+              },
+            },
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: refreshedInvoice,
+        });
+
+        return refreshedInvoice;
+      });
+
       return c.json(invoice);
     },
   );
@@ -635,12 +968,16 @@ export default async function (router: Hono) {
       const { id, lineId, description, hours, rate } = c.var.input;
 
       // Check if invoice exists, belongs to user, and is draft
-      await prisma.invoice.findUniqueOrThrow({
+      const existingInvoice = await prisma.invoice.findUniqueOrThrow({
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
           status: 'DRAFT',
         },
+        include: {
+          invoiceLines: true,
+        },
       });
 
       // Check if invoice line exists and belongs to this invoice
@@ -672,12 +1009,28 @@ export default async function (router: Hono) {
         return c.json(existingLine);
       }
 
-      const invoiceLine = await prisma.invoiceLine.update({
-        where: { id: lineId },
-        data: updateData,
-        include: {
-          project: true,
-        },
+      const invoiceLine = await prisma.$transaction(async (tx) => {
+        const updated = await tx.invoiceLine.update({
+          where: { id: lineId },
+          data: updateData,
+          include: {
+            project: true,
+          },
+        });
+
+        // Line changes are recorded on the invoice
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: await tx.invoice.findUniqueOrThrow({
+            where: { id },
+            include: { invoiceLines: true },
+          }),
+        });
+
+        return updated;
       });
 
       return c.json(invoiceLine);
@@ -687,7 +1040,7 @@ export default async function (router: Hono) {
   /**
    * @openapi addInvoiceLine
    * @tags invoices
-   * @description Add a new line to a draft invoice.
+   * @description Add a new line to a draft invoice. When timeEntryIds are given, those unbilled entries are linked to the invoice and hours default to their total.
    */
   router.post(
     '/api/invoices/:id/lines',
@@ -703,7 +1056,7 @@ export default async function (router: Hono) {
       },
       hours: {
         select: payload.body.hours,
-        against: z.coerce.number().positive(),
+        against: z.coerce.number().positive().optional(),
       },
       rate: {
         select: payload.body.rate,
@@ -713,41 +1066,142 @@ export default async function (router: Hono) {
         select: payload.body.projectId,
         against: z.string().uuid(),
       },
+      timeEntryIds: {
+        select: payload.body.timeEntryIds,
+        against: z.array(z.string().uuid()).min(1).max(100).optional(),
+      },
     })),
     async (c) => {
-      const { id, description, hours, rate, projectId } = c.var.input;
+      const {
+        id,
+        description,
+        hours: requestedHours,
+        rate,
+        projectId,
+        timeEntryIds,
+      } = c.var.input;
+      const userId = c.var.subject.id;
 
       // Check if invoice exists, belongs to user, and is draft
-      await prisma.invoice.findUniqueOrThrow({
+      const existingInvoice = await prisma.invoice.findUniqueOrThrow({
         where: {
           id,
-          userId: c.var.subject.id,
+          userId,
+          deletedAt: null,
           status: 'DRAFT',
         },
+        include: {
+          invoiceLines: true,
+        },
       });
 
       // Verify project exists and belongs to user
-      await prisma.project.findUniqueOrThrow({
+      const project = await prisma.project.findUniqueOrThrow({
         where: {
           id: projectId,
-          userId: c.var.subject.id,
+          userId,
+          deletedAt: null,
+        },
+        include: {
+          client: true,
         },
       });
 
+      // Entries billed through this line must be stopped, billable, unbilled and on the same project
+      const timeEntries = timeEntryIds
+        ? await prisma.timeEntry.findMany({
+            where: {
+              id: { in: timeEntryIds },
+              userId,
+              deletedAt: null,
+              projectId,
+              invoiceId: null,
+              isBillable: true,
+              endedAt: { not: null },
+            },
+          })
+        : [];
+
+      if (timeEntryIds && timeEntries.length !== timeEntryIds.length) {
+        const foundIds = new Set(timeEntries.map((entry) => entry.id));
+        const unavailableIds = timeEntryIds.filter(
+          (entryId) => !foundIds.has(entryId),
+        );
+        throw new HTTPException(400, {
+          message: 'Some time entries cannot be billed on this line',
+          cause: {
+            code: 'api/time-entries-unavailable',
+            detail: `Time entries not found, running, non-billable, already billed or on another project: ${unavailableIds.join(', ')}`,
+          },
+        });
+      }
+
+      // Hours default to the entries' total under the project's rounding policy
+      const { rawHours, roundedHours } = calculateRoundedHours(
+        timeEntries.map((entry) =>
+          calculateDurationHours(entry.startedAt, entry.endedAt),
+        ),
+        resolveRoundingPolicy(project, project.client),
+      );
+      const hours = requestedHours ?? roundedHours;
+
+      if (hours <= 0) {
+        throw new HTTPException(400, {
+          message: 'Invoice line hours are required',
+          cause: {
+            code: 'api/invalid-line-hours',
+            detail: 'Provide hours or the time entries to bill on this line',
+          },
+        });
+      }
+
       const amount = Math.round(hours * rate * 100) / 100;
 
-      const invoiceLine = await prisma.invoiceLine.create({
-        data: {
-          description,
-          hours: hours.toString(),
-          rate: rate.toString(),
-          amount: amount.toString(),
-          invoiceId: id,
-          projectId,
-        },
-        include: {
-          project: true,
-        },
+      const invoiceLine = await prisma.$transaction(async (tx) => {
+        const line = await tx.invoiceLine.create({
+          data: {
+            description,
+            hours: hours.toString(),
+            rawHours: timeEntries.length > 0 ? rawHours.toString() : null,
+            rate: rate.toString(),
+            amount: amount.toString(),
+            isManual: true,
+            invoiceId: id,
+            projectId,
+          },
+          include: {
+            project: true,
+          },
+        });
+
+        // Link the time entries to the line, which locks them (FR-7)
+        if (timeEntries.length > 0) {
+          await tx.timeEntry.updateMany({
+            where: {
+              id: {
+                in: timeEntries.map((entry) => entry.id),
+              },
+            },
+            data: {
+              invoiceId: id,
+              invoiceLineId: line.id,
+            },
+          });
+        }
+
+        // Line changes are recorded on the invoice
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: await tx.invoice.findUniqueOrThrow({
+            where: { id },
+            include: { invoiceLines: true },
+          }),
+        });
+
+        return line;
       });
 
       return c.json(invoiceLine, 201);
@@ -757,7 +1211,7 @@ export default async function (router: Hono) {
   /**
    * @openapi deleteInvoiceLine
    * @tags invoices
-   * @description Remove a line from a draft invoice.
+   * @description Remove a line from a draft invoice and unlock the time entries billed on it. A milestone billed on it goes back to COMPLETED.
    */
   router.delete(
     '/api/invoices/:id/lines/:lineId',
@@ -776,24 +1230,60 @@ export default async function (router: Hono) {
       const { id, lineId } = c.var.input;
 
       // Check if invoice exists, belongs to user, and is draft
-      await prisma.invoice.findUniqueOrThrow({
+      const existingInvoice = await prisma.invoice.findUniqueOrThrow({
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
           status: 'DRAFT',
         },
+        include: {
+          invoiceLines: true,
+        },
       });
 
       // Check if invoice line exists and belongs to this invoice
-      await prisma.invoiceLine.findUniqueOrThrow({
+      const existingLine = await prisma.invoiceLine.findUniqueOrThrow({
         where: {
           id: lineId,
           invoiceId: id,
         },
       });
 
-      await prisma.invoiceLine.delete({
-        where: { id: lineId },
+      await prisma.$transaction(async (tx) => {
+        // Unlock the time entries billed on this line
+        await tx.timeEntry.updateMany({
+          where: {
+            invoiceLineId: lineId,
+          },
+          data: {
+            invoiceId: null,
+            invoiceLineId: null,
+          },
+        });
+
+        await tx.invoiceLine.delete({
+          where: { id: lineId },
+        });
+
+        if (existingLine.milestoneId) {
+          await tx.milestone.update({
+            where: { id: existingLine.milestoneId },
+            data: { status: 'COMPLETED' },
+          });
+        }
+
+        // Line changes are recorded on the invoice
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: existingInvoice,
+          after: await tx.invoice.findUniqueOrThrow({
+            where: { id },
+            include: { invoiceLines: true },
+          }),
+        });
       });
 
       return c.json({ message: 'Invoice line deleted successfully' });
@@ -0,0 +1,348 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from '../core/audit.ts';
+import { getUserSettings, resolveDateInput } from '../core/settings.ts';
+import { checkProjectNotArchived, validateName } from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi createMilestone
+   * @tags milestones
+   * @description Create a milestone on a fixed-fee project, with the amount billed for it and its due date. Milestones start PENDING.
+   */
+  router.post(
+    '/api/milestones',
+    authenticated(),
+    validate((payload) => ({
+      projectId: {
+        select: payload.body.projectId,
+        against: z.string().uuid(),
+      },
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(255),
+      },
+      amount: {
+        select: payload.body.amount,
+        against: z.coerce.number().positive().max(99999999),
+      },
+      dueDate: {
+        select: payload.body.dueDate,
+        against: z.union([z.string().datetime(), z.string().date()]),
+      },
+    })),
+    async (c) => {
+      const { projectId, name, amount, dueDate } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const validatedName = validateName(name, 'Milestone name');
+
+      // Verify project exists, belongs to user and is open for new work
+      const project = await checkProjectNotArchived(userId, projectId);
+
+      if (project.billingMode !== 'FIXED_FEE') {
+        throw new HTTPException(400, {
+          message: 'Project is not billed by milestones',
+          cause: {
+            code: 'api/project-not-fixed-fee',
+            detail: `Project "${project.name}" is billed ${project.billingMode}. Set its billingMode to FIXED_FEE to add milestones.`,
+          },
+        });
+      }
+
+      // Plain dates are the start of the day in the user's time zone
+      const settings = await getUserSettings(userId);
+
+      const milestone = await prisma.$transaction(async (tx) => {
+        const created = await tx.milestone.create({
+          data: {
+            name: validatedName,
+            amount: amount.toString(),
+            dueDate: resolveDateInput(dueDate, 'start', settings),
+            projectId,
+            userId,
+          },
+          include: {
+            project: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'MILESTONE',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
+      });
+
+      return c.json(milestone, 201);
+    },
+  );
+
+  /**
+   * @openapi getMilestones
+   * @tags milestones
+   * @description Get the milestones of the authenticated user, optionally of one project or with one status, by due date.
+   */
+  router.get(
+    '/api/milestones',
+    authenticated(),
+    validate((payload) => ({
+      projectId: {
+        select: payload.query.projectId,
+        against: z.string().uuid().optional(),
+      },
+      status: {
+        select: payload.query.status,
+        against: z.enum(['PENDING', 'COMPLETED', 'INVOICED']).optional(),
+      },
+    })),
+    async (c) => {
+      const { projectId, status } = c.var.input;
+
+      const where: Prisma.MilestoneWhereInput = {
+        userId: c.var.subject.id,
+        project: { deletedAt: null },
+        ...(projectId ? { projectId } : {}),
+        ...(status ? { status } : {}),
+      };
+
+      const milestones = await prisma.milestone.findMany({
+        where,
+        orderBy: [{ dueDate: 'asc' }, { name: 'asc' }],
+        include: {
+          project: true,
+        },
+      });
+
+      return c.json({ data: milestones });
+    },
+  );
+
+  /**
+   * @openapi getMilestone
+   * @tags milestones
+   * @description Get a specific milestone by ID, with the invoice lines it is billed on.
+   */
+  router.get(
+    '/api/milestones/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      const milestone = await prisma.milestone.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          project: { deletedAt: null },
+        },
+        include: {
+          project: {
+            include: {
+              client: true,
+            },
+          },
+          invoiceLines: {
+            where: { invoice: { deletedAt: null } },
+          },
+        },
+      });
+
+      return c.json(milestone);
+    },
+  );
+
+  /**
+   * @openapi updateMilestone
+   * @tags milestones
+   * @description Update a milestone, or mark it COMPLETED or back to PENDING. A completed milestone is invoiced with the other work of its client for the date range it was completed in; completedAt can be changed while it is COMPLETED and defaults to now. Invoiced milestones cannot be changed; remove their invoice line first.
+   */
+  router.patch(
+    '/api/milestones/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(255).optional(),
+      },
+      amount: {
+        select: payload.body.amount,
+        against: z.coerce.number().positive().max(99999999).optional(),
+      },
+      dueDate: {
+        select: payload.body.dueDate,
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
+      },
+      status: {
+        select: payload.body.status,
+        against: z.enum(['PENDING', 'COMPLETED']).optional(),
+      },
+      completedAt: {
+        select: payload.body.completedAt,
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
+      },
+    })),
+    async (c) => {
+      const { id, name, amount, dueDate, status, completedAt } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if milestone exists and belongs to user
+      const existingMilestone = await prisma.milestone.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          project: { deletedAt: null },
+        },
+        include: {
+          project: true,
+        },
+      });
+
+      if (existingMilestone.status === 'INVOICED') {
+        throw new HTTPException(400, {
+          message: 'Milestone is invoiced',
+          cause: {
+            code: 'api/milestone-invoiced',
+            detail: `Milestone "${existingMilestone.name}" is billed on an invoice. Remove its invoice line to change it.`,
+          },
+        });
+      }
+
+      const settings = await getUserSettings(userId);
+      const updateData: Prisma.MilestoneUpdateInput = {};
+
+      if (name !== undefined) {
+        updateData.name = validateName(name, 'Milestone name');
+      }
+
+      if (amount !== undefined) updateData.amount = amount.toString();
+
+      if (dueDate !== undefined) {
+        updateData.dueDate = resolveDateInput(dueDate, 'start', settings);
+      }
+
+      if (status === 'PENDING') {
+        updateData.status = 'PENDING';
+        updateData.completedAt = null;
+      } else if (
+        status === 'COMPLETED' ||
+        (completedAt && existingMilestone.status === 'COMPLETED')
+      ) {
+        updateData.status = 'COMPLETED';
+        updateData.completedAt = completedAt
+          ? resolveDateInput(completedAt, 'start', settings)
+          : (existingMilestone.completedAt ?? new Date());
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return c.json(existingMilestone);
+      }
+
+      const milestone = await prisma.$transaction(async (tx) => {
+        const updated = await tx.milestone.update({
+          where: { id },
+          data: updateData,
+          include: {
+            project: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'MILESTONE',
+          entityId: id,
+          before: existingMilestone,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(milestone);
+    },
+  );
+
+  /**
+   * @openapi deleteMilestone
+   * @tags milestones
+   * @description Delete a milestone that was never billed on an invoice.
+   */
+  router.delete(
+    '/api/milestones/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if milestone exists and belongs to user
+      const existingMilestone = await prisma.milestone.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          project: { deletedAt: null },
+        },
+        include: {
+          _count: {
+            select: {
+              invoiceLines: true,
+            },
+          },
+        },
+      });
+
+      // Lines of invoices in the trash still hold on to it
+      if (
+        existingMilestone.status === 'INVOICED' ||
+        existingMilestone._count.invoiceLines > 0
+      ) {
+        throw new HTTPException(400, {
+          message: 'Milestone is invoiced',
+          cause: {
+            code: 'api/milestone-invoiced',
+            detail: `Milestone "${existingMilestone.name}" is billed on an invoice and cannot be deleted.`,
+          },
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.milestone.delete({
+          where: { id },
+        });
+
+        const { _count, ...before } = existingMilestone;
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'MILESTONE',
+          entityId: id,
+          before,
+        });
+      });
+
+      return c.json({ message: 'Milestone deleted successfully' });
+    },
+  );
+}
@@ -0,0 +1,237 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from '../core/audit.ts';
+import {
+  calculateInvoiceBalance,
+  roundToTwoDecimals,
+} from '../core/calculations.ts';
+import { syncInvoicePayments } from '../core/payments.ts';
+import { sanitizeInput } from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi createPayment
+   * @tags payments
+   * @description Record a (partial) payment against a sent invoice. The invoice becomes PAID once fully covered.
+   */
+  router.post(
+    '/api/invoices/:id/payments',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      amount: {
+        select: payload.body.amount,
+        against: z.coerce.number().positive(),
+      },
+      paidAt: {
+        select: payload.body.paidAt,
+        against: z.string().datetime().optional(),
+      },
+      notes: {
+        select: payload.body.notes,
+        against: z.string().optional(),
+      },
+    })),
+    async (c) => {
+      const { id, amount, paidAt, notes } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if invoice exists and belongs to user
+      const invoice = await prisma.invoice.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: null,
+        },
+        include: {
+          invoiceLines: true,
+          payments: true,
+        },
+      });
+
+      if (invoice.status === 'DRAFT') {
+        throw new HTTPException(400, {
+          message: 'Payments can only be recorded for sent invoices',
+          cause: {
+            code: 'api/invoice-not-sent',
+            detail: 'Invoice must be in SENT status to receive payments',
+          },
+        });
+      }
+
+      if (invoice.status === 'PAID') {
+        throw new HTTPException(400, {
+          message: 'Invoice is already paid',
+          cause: {
+            code: 'api/invoice-already-paid',
+            detail: 'No outstanding balance is left on this invoice',
+          },
+        });
+      }
+
+      const { outstandingAmount } = calculateInvoiceBalance(
+        invoice.invoiceLines,
+        invoice.payments,
+      );
+      const roundedAmount = roundToTwoDecimals(amount);
+
+      if (roundedAmount > outstandingAmount) {
+        throw new HTTPException(400, {
+          message: 'Payment exceeds the outstanding balance',
+          cause: {
+            code: 'api/payment-exceeds-balance',
+            detail: `Outstanding balance is ${outstandingAmount}, got a payment of ${roundedAmount}`,
+          },
+        });
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+          data: {
+            amount: roundedAmount.toString(),
+            paidAt: paidAt ? new Date(paidAt) : new Date(),
+            notes: sanitizeInput(notes),
+            invoiceId: id,
+            userId,
+          },
+        });
+
+        const balance = await syncInvoicePayments(tx, id);
+
+        // Payments are recorded on the invoice they settle
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: invoice,
+          after: await tx.invoice.findUniqueOrThrow({
+            where: { id },
+            include: { invoiceLines: true, payments: true },
+          }),
+        });
+
+        return { payment, balance };
+      });
+
+      return c.json(
+        {
+          ...result.payment,
+          balance: result.balance,
+        },
+        201,
+      );
+    },
+  );
+
+  /**
+   * @openapi getPayments
+   * @tags payments
+   * @description List the payments recorded against an invoice with its outstanding balance.
+   */
+  router.get(
+    '/api/invoices/:id/payments',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      const invoice = await prisma.invoice.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          invoiceLines: true,
+          payments: {
+            orderBy: { paidAt: 'desc' },
+          },
+        },
+      });
+
+      return c.json({
+        data: invoice.payments,
+        balance: calculateInvoiceBalance(
+          invoice.invoiceLines,
+          invoice.payments,
+        ),
+      });
+    },
+  );
+
+  /**
+   * @openapi deletePayment
+   * @tags payments
+   * @description Remove a payment recorded by mistake. A PAID invoice goes back to SENT if a balance remains.
+   */
+  router.delete(
+    '/api/invoices/:id/payments/:paymentId',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      paymentId: {
+        select: payload.params.paymentId,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id, paymentId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if payment exists and belongs to this invoice and user
+      await prisma.payment.findUniqueOrThrow({
+        where: {
+          id: paymentId,
+          invoiceId: id,
+          userId,
+        },
+      });
+
+      const invoice = await prisma.invoice.findUniqueOrThrow({
+        where: { id },
+        include: { invoiceLines: true, payments: true },
+      });
+
+      const balance = await prisma.$transaction(async (tx) => {
+        await tx.payment.delete({
+          where: { id: paymentId },
+        });
+
+        const updatedBalance = await syncInvoicePayments(tx, id);
+
+        // Payments are recorded on the invoice they settle
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'INVOICE',
+          entityId: id,
+          before: invoice,
+          after: await tx.invoice.findUniqueOrThrow({
+            where: { id },
+            include: { invoiceLines: true, payments: true },
+          }),
+        });
+
+        return updatedBalance;
+      });
+
+      return c.json({ message: 'Payment deleted successfully', balance });
+    },
+  );
+}
@@ -214,6 +214,14 @@ describe('Projects Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject an overlong search filter', async () => {
+      const res = await app.request(`/api/projects?q=${'a'.repeat(201)}`, {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
   });
 
   describe('URL Parameter Validation', () => {
@@ -280,6 +288,45 @@ describe('Projects Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject archiving a project without authentication', async () => {
+      const res = await app.request('/api/projects/valid-uuid-format/archive', {
+        method: 'POST',
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject an unknown rounding mode', async () => {
+      const res = await app.request('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          name: 'Valid Project Name',
+          clientId: 'valid-uuid-format',
+          roundingIncrement: 15,
+          roundingMode: 'SIDEWAYS',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should inherit the client rounding policy when none is set', async () => {
+      console.log('Client rounding default test - requires auth setup');
+    });
+
+    it('should reject projects for archived clients', async () => {
+      console.log('Archived client project creation - requires auth setup');
+    });
+
+    it('should reject time entries on archived projects', async () => {
+      console.log('Archived project time entry test - requires auth setup');
+    });
   });
 
   describe('System Invariants - Data Consistency', () => {
@@ -299,6 +346,38 @@ describe('Projects Route - Error-First Testing', () => {
       // Test that rate changes don't affect existing invoices
       console.log('Testing hourly rate preservation - requires auth setup');
     });
+
+    it('should keep the client rates of past time when adding the first project rate', async () => {
+      console.log('Testing first project rate seeding - requires auth setup');
+    });
+  });
+
+  describe('Cursor Pagination and Sorting', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown sort field', async () => {
+      const res = await app.request('/api/projects?sort=unknown', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject paging with a cursor without authentication', async () => {
+      const res = await app.request(
+        '/api/projects?sort=name&order=asc&cursor=abc',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a cursor made for another sort', async () => {
+      console.log('Testing cursor and sort mismatch - requires auth setup');
+    });
+
+    it('should return every project exactly once when following nextCursor', async () => {
+      console.log('Testing cursor pages - requires auth and database setup');
+    });
   });
 
   describe('Happy Path - Normal Operation', () => {
@@ -321,5 +400,161 @@ describe('Projects Route - Error-First Testing', () => {
     it('should filter projects by client correctly', async () => {
       console.log('Client filtering test - requires authentication setup');
     });
+
+    it('should hide archived projects unless includeArchived is true', async () => {
+      console.log('Archived project filtering test - requires auth setup');
+    });
+  });
+
+  describe('Trash', () => {
+    it('should reject deleting a project without authentication', async () => {
+      const res = await app.request(
+        '/api/projects/123e4567-e89b-12d3-a456-426614174000',
+        { method: 'DELETE' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject restoring a project without authentication', async () => {
+      const res = await app.request(
+        '/api/projects/123e4567-e89b-12d3-a456-426614174000/restore',
+        { method: 'POST' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should refuse deleting an invoiced project', async () => {
+      console.log('Invoiced project deletion test - requires auth setup');
+    });
+
+    it('should trash the time entries of a deleted project', async () => {
+      console.log('Project cascade trash test - requires auth setup');
+    });
+
+    it('should refuse restoring a project whose client is in the trash', async () => {
+      console.log('Trashed client restore test - requires auth setup');
+    });
+
+    it('should refuse restoring a project whose name is taken', async () => {
+      console.log('Restored project name test - requires auth setup');
+    });
+  });
+
+  describe('Budgets', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject a budget without authentication', async () => {
+      const res = await app.request('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          name: 'Fixed budget',
+          clientId: '123e4567-e89b-12d3-a456-426614174000',
+          budgetHours: 40,
+          budgetPeriod: 'TOTAL',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a custom budget period without an end', async () => {
+      console.log('Custom budget period test - requires auth setup');
+    });
+
+    it('should reject a budget period that ends before it starts', async () => {
+      console.log('Budget period order test - requires auth setup');
+    });
+
+    it('should report consumed and remaining budget on the project', async () => {
+      console.log('Budget consumption test - requires auth setup');
+    });
+
+    it('should value budget consumption at the task rate', async () => {
+      console.log('Budget task rate test - requires auth setup');
+    });
+  });
+
+  describe('Billing Modes', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown billing mode', async () => {
+      const res = await app.request('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          name: 'Retainer',
+          clientId: '123e4567-e89b-12d3-a456-426614174000',
+          billingMode: 'RETAINER',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should not bill the time of fixed-fee projects by the hour', async () => {
+      console.log('Fixed-fee time billing test - requires auth setup');
+    });
+
+    it('should not bill anything on non-billable projects', async () => {
+      console.log('Non-billable project test - requires auth setup');
+    });
+  });
+
+  describe('Rate History', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject listing rates without authentication', async () => {
+      const res = await app.request(
+        '/api/projects/123e4567-e89b-12d3-a456-426614174000/rates',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a rate without an effective date', async () => {
+      const res = await app.request(
+        '/api/projects/123e4567-e89b-12d3-a456-426614174000/rates',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: invalidAuthHeader,
+          },
+          body: JSON.stringify({ hourlyRate: 120 }),
+        },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject deleting a rate without authentication', async () => {
+      const res = await app.request(
+        '/api/projects/123e4567-e89b-12d3-a456-426614174000/rates/123e4567-e89b-12d3-a456-426614174001',
+        { method: 'DELETE' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should keep the rate of past time when the project rate changes', async () => {
+      console.log('Rate change history test - requires auth setup');
+    });
+
+    it('should bill time at the rate in effect when it started', async () => {
+      console.log('Effective rate test - requires auth setup');
+    });
+
+    it('should split invoice lines by rate', async () => {
+      console.log('Invoice lines per rate test - requires auth setup');
+    });
   });
 });
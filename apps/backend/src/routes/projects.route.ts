@@ -1,12 +1,22 @@
 import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 
-import type { Prisma } from '@iworked/db';
-import { prisma } from '@iworked/db';
+import { Prisma, prisma } from '@iworked/db';
 
+import { recordAudit } from '../core/audit.ts';
+import { getProjectBudgets } from '../core/budgets.ts';
+import type { ListSort } from '../core/pagination.ts';
+import { toOrderBy, toPage, whereAfterCursor } from '../core/pagination.ts';
+import { addProjectRate, syncProjectRate } from '../core/rates.ts';
+import type { SearchFilter } from '../core/search.ts';
+import { countMatching, findMatchingPage } from '../core/search.ts';
+import { getUserSettings, resolveDateInput } from '../core/settings.ts';
 import {
+  checkClientNotArchived,
   checkDuplicateProjectName,
   sanitizeInput,
+  validateBudgetPeriod,
   validateName,
 } from '../core/validation.ts';
 import { authenticated } from '../middlewares/auth.ts';
@@ -16,7 +26,7 @@ export default async function (router: Hono) {
   /**
    * @openapi createProject
    * @tags projects
-   * @description Create a new project for a client.
+   * @description Create a new project for a client. billingMode HOURLY bills its time at the hourly rate; FIXED_FEE bills its milestones instead, and its time is tracked but not billed; NON_BILLABLE bills nothing. A project can have a budget in hours and/or in billable amount, over its whole life (TOTAL), per calendar month (MONTHLY) or between budgetStartsAt and budgetEndsAt (CUSTOM).
    */
   router.post(
     '/api/projects',
@@ -38,37 +48,120 @@ export default async function (router: Hono) {
         select: payload.body.clientId,
         against: z.string().uuid(),
       },
+      billableByDefault: {
+        select: payload.body.billableByDefault,
+        against: z.boolean().optional(),
+      },
+      billingMode: {
+        select: payload.body.billingMode,
+        against: z.enum(['HOURLY', 'FIXED_FEE', 'NON_BILLABLE']).optional(),
+      },
+      roundingIncrement: {
+        select: payload.body.roundingIncrement,
+        against: z.number().int().min(1).max(60).nullable().optional(),
+      },
+      roundingMode: {
+        select: payload.body.roundingMode,
+        against: z.enum(['UP', 'DOWN', 'NEAREST']).nullable().optional(),
+      },
+      roundingScope: {
+        select: payload.body.roundingScope,
+        against: z.enum(['ENTRY', 'LINE']).nullable().optional(),
+      },
+      budgetHours: {
+        select: payload.body.budgetHours,
+        against: z.coerce.number().positive().max(9999999).optional(),
+      },
+      budgetAmount: {
+        select: payload.body.budgetAmount,
+        against: z.coerce.number().positive().optional(),
+      },
+      budgetPeriod: {
+        select: payload.body.budgetPeriod,
+        against: z.enum(['TOTAL', 'MONTHLY', 'CUSTOM']).optional(),
+      },
+      budgetStartsAt: {
+        select: payload.body.budgetStartsAt,
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
+      },
+      budgetEndsAt: {
+        select: payload.body.budgetEndsAt,
+        against: z.union([z.string().datetime(), z.string().date()]).optional(),
+      },
     })),
     async (c) => {
-      const { name, description, hourlyRate, clientId } = c.var.input;
+      const {
+        name,
+        description,
+        hourlyRate,
+        clientId,
+        billableByDefault,
+        billingMode,
+        roundingIncrement,
+        roundingMode,
+        roundingScope,
+        budgetHours,
+        budgetAmount,
+        budgetPeriod,
+        budgetStartsAt,
+        budgetEndsAt,
+      } = c.var.input;
       const userId = c.var.subject.id;
 
       // Validate and sanitize input
       const validatedName = validateName(name, 'Project name');
       const sanitizedDescription = sanitizeInput(description);
 
-      // Verify client exists and belongs to user
-      await prisma.client.findUniqueOrThrow({
-        where: {
-          id: clientId,
-          userId,
-        },
-      });
+      // Verify client exists, belongs to user and is not archived
+      await checkClientNotArchived(userId, clientId);
 
       // Check for duplicate project name within this client
       await checkDuplicateProjectName(userId, clientId, validatedName);
 
-      const project = await prisma.project.create({
-        data: {
-          name: validatedName,
-          description: sanitizedDescription,
-          hourlyRate: hourlyRate ? hourlyRate.toString() : null,
-          clientId,
-          userId,
-        },
-        include: {
-          client: true,
-        },
+      // Plain dates cover whole days in the user's time zone
+      const settings = await getUserSettings(userId);
+      const budget = {
+        budgetPeriod:
+          budgetHours || budgetAmount ? (budgetPeriod ?? 'TOTAL') : null,
+        budgetStartsAt: budgetStartsAt
+          ? resolveDateInput(budgetStartsAt, 'start', settings)
+          : null,
+        budgetEndsAt: budgetEndsAt
+          ? resolveDateInput(budgetEndsAt, 'end', settings)
+          : null,
+      };
+      validateBudgetPeriod(budget);
+
+      const project = await prisma.$transaction(async (tx) => {
+        const created = await tx.project.create({
+          data: {
+            name: validatedName,
+            description: sanitizedDescription,
+            hourlyRate: hourlyRate ? hourlyRate.toString() : null,
+            billableByDefault,
+            billingMode,
+            roundingIncrement,
+            roundingMode,
+            roundingScope,
+            budgetHours: budgetHours ? budgetHours.toString() : null,
+            budgetAmount: budgetAmount ? budgetAmount.toString() : null,
+            ...budget,
+            clientId,
+            userId,
+          },
+          include: {
+            client: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'PROJECT',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
       });
 
       return c.json(project, 201);
@@ -78,7 +171,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getProjects
    * @tags projects
-   * @description Get a paginated list of projects for the authenticated user.
+   * @description Get a paginated list of projects for the authenticated user, with the consumption of their current budget period. Archived projects, and projects of archived clients, are hidden unless includeArchived is true. q filters by full-text search on the name and description. Sort by createdAt or name; pass the nextCursor of a page as cursor to get the next one.
    */
   router.get(
     '/api/projects',
@@ -96,39 +189,129 @@ export default async function (router: Hono) {
         select: payload.query.clientId,
         against: z.string().uuid().optional(),
       },
+      includeArchived: {
+        select: payload.query.includeArchived,
+        against: z
+          .enum(['true', 'false'])
+          .default('false')
+          .transform((value) => value === 'true'),
+      },
+      q: {
+        select: payload.query.q,
+        against: z.string().trim().min(1).max(200).optional(),
+      },
+      cursor: {
+        select: payload.query.cursor,
+        against: z.string().optional(),
+      },
+      sort: {
+        select: payload.query.sort,
+        against: z.enum(['createdAt', 'name']).default('createdAt'),
+      },
+      order: {
+        select: payload.query.order,
+        against: z.enum(['asc', 'desc']).default('desc'),
+      },
     })),
     async (c) => {
-      const { page, pageSize, clientId } = c.var.input;
+      const {
+        page,
+        pageSize,
+        clientId,
+        includeArchived,
+        q,
+        cursor,
+        sort,
+        order,
+      } = c.var.input;
+      const sortBy: ListSort = { field: sort, order };
 
       const where: Prisma.ProjectWhereInput = {
         userId: c.var.subject.id,
+        deletedAt: null,
         ...(clientId ? { clientId } : {}),
+        ...(includeArchived
+          ? {}
+          : {
+              archivedAt: null,
+              OR: [{ client: null }, { client: { archivedAt: null } }],
+            }),
       };
-
-      const totalCount = await prisma.project.count({ where });
-
-      const projects = await prisma.project.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
-        include: {
-          client: true,
-          _count: {
-            select: {
-              timeEntries: true,
-            },
+      const skip = cursor ? 0 : (page - 1) * pageSize;
+      const include = {
+        client: true,
+        _count: {
+          select: {
+            timeEntries: { where: { deletedAt: null } },
           },
         },
-      });
+      } satisfies Prisma.ProjectInclude;
+
+      let totalCount: number | undefined;
+      let projects;
+      if (q) {
+        // The search runs in SQL, which picks the page of matching projects
+        const filter: SearchFilter = {
+          userId: c.var.subject.id,
+          query: q,
+          conditions: [
+            ...(clientId ? [Prisma.sql`t."clientId" = ${clientId}`] : []),
+            ...(includeArchived
+              ? []
+              : [
+                  Prisma.sql`t."archivedAt" IS NULL`,
+                  Prisma.sql`(t."clientId" IS NULL OR t."clientId" IN (SELECT "id" FROM "Client" WHERE "archivedAt" IS NULL))`,
+                ]),
+          ],
+        };
+        totalCount = cursor
+          ? undefined
+          : await countMatching('PROJECT', filter);
+        const ids = await findMatchingPage('PROJECT', filter, {
+          sort: sortBy,
+          cursor,
+          skip,
+          take: pageSize + 1,
+        });
+        const found = await prisma.project.findMany({
+          where: { id: { in: ids } },
+          include,
+        });
+        projects = ids.flatMap(
+          (id) => found.find((project) => project.id === id) ?? [],
+        );
+      } else {
+        // Pages after a cursor are neither counted nor offset
+        totalCount = cursor ? undefined : await prisma.project.count({ where });
+        projects = await prisma.project.findMany({
+          where: whereAfterCursor(where, sortBy, cursor),
+          orderBy: toOrderBy<Prisma.ProjectOrderByWithRelationInput[]>(sortBy),
+          skip,
+          take: pageSize + 1,
+          include,
+        });
+      }
+
+      const { data, ...pageInfo } = toPage(projects, pageSize, sortBy);
+
+      const settings = await getUserSettings(c.var.subject.id);
+      const budgets = await getProjectBudgets(data, settings);
 
       return c.json({
-        data: projects,
+        data: data.map((project) => ({
+          ...project,
+          budget: budgets.get(project.id) ?? null,
+        })),
         pagination: {
-          page,
           pageSize,
-          totalCount,
-          totalPages: Math.ceil(totalCount / pageSize),
+          ...(totalCount !== undefined
+            ? {
+                page,
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+              }
+            : {}),
+          ...pageInfo,
         },
       });
     },
@@ -137,7 +320,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getProject
    * @tags projects
-   * @description Get a specific project by ID.
+   * @description Get a specific project by ID. budget holds the hours and billable amount consumed in the current budget period, what remains, and the consumption projected at the pace of the last four weeks; it is null without a budget.
    */
   router.get(
     '/api/projects/:id',
@@ -155,29 +338,34 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           client: true,
           timeEntries: {
+            where: { deletedAt: null },
             orderBy: { startedAt: 'desc' },
             take: 10, // Latest 10 time entries
           },
           _count: {
             select: {
-              timeEntries: true,
+              timeEntries: { where: { deletedAt: null } },
             },
           },
         },
       });
 
-      return c.json(project);
+      const settings = await getUserSettings(c.var.subject.id);
+      const budgets = await getProjectBudgets([project], settings);
+
+      return c.json({ ...project, budget: budgets.get(project.id) ?? null });
     },
   );
 
   /**
    * @openapi updateProject
    * @tags projects
-   * @description Update a project's information.
+   * @description Update a project's information. A new hourlyRate is added to the rate history of the project from now on, so time tracked before keeps the rate it was tracked at. Set budgetHours and budgetAmount to null to remove the budget.
    */
   router.patch(
     '/api/projects/:id',
@@ -199,9 +387,75 @@ export default async function (router: Hono) {
         select: payload.body.hourlyRate,
         against: z.coerce.number().positive().optional(),
       },
+      billableByDefault: {
+        select: payload.body.billableByDefault,
+        against: z.boolean().optional(),
+      },
+      billingMode: {
+        select: payload.body.billingMode,
+        against: z.enum(['HOURLY', 'FIXED_FEE', 'NON_BILLABLE']).optional(),
+      },
+      roundingIncrement: {
+        select: payload.body.roundingIncrement,
+        against: z.number().int().min(1).max(60).nullable().optional(),
+      },
+      roundingMode: {
+        select: payload.body.roundingMode,
+        against: z.enum(['UP', 'DOWN', 'NEAREST']).nullable().optional(),
+      },
+      roundingScope: {
+        select: payload.body.roundingScope,
+        against: z.enum(['ENTRY', 'LINE']).nullable().optional(),
+      },
+      budgetHours: {
+        select: payload.body.budgetHours,
+        against: z.coerce
+          .number()
+          .positive()
+          .max(9999999)
+          .nullable()
+          .optional(),
+      },
+      budgetAmount: {
+        select: payload.body.budgetAmount,
+        against: z.coerce.number().positive().nullable().optional(),
+      },
+      budgetPeriod: {
+        select: payload.body.budgetPeriod,
+        against: z.enum(['TOTAL', 'MONTHLY', 'CUSTOM']).optional(),
+      },
+      budgetStartsAt: {
+        select: payload.body.budgetStartsAt,
+        against: z
+          .union([z.string().datetime(), z.string().date()])
+          .nullable()
+          .optional(),
+      },
+      budgetEndsAt: {
+        select: payload.body.budgetEndsAt,
+        against: z
+          .union([z.string().datetime(), z.string().date()])
+          .nullable()
+          .optional(),
+      },
     })),
     async (c) => {
-      const { id, name, description, hourlyRate } = c.var.input;
+      const {
+        id,
+        name,
+        description,
+        hourlyRate,
+        billableByDefault,
+        billingMode,
+        roundingIncrement,
+        roundingMode,
+        roundingScope,
+        budgetHours,
+        budgetAmount,
+        budgetPeriod,
+        budgetStartsAt,
+        budgetEndsAt,
+      } = c.var.input;
       const userId = c.var.subject.id;
 
       // Check if project exists and belongs to user
@@ -209,6 +463,7 @@ export default async function (router: Hono) {
         where: {
           id,
           userId,
+          deletedAt: null,
         },
       });
 
@@ -233,19 +488,490 @@ export default async function (router: Hono) {
         updateData.hourlyRate = hourlyRate.toString();
       }
 
+      if (billableByDefault !== undefined) {
+        updateData.billableByDefault = billableByDefault;
+      }
+
+      if (billingMode !== undefined) {
+        updateData.billingMode = billingMode;
+      }
+
+      if (roundingIncrement !== undefined) {
+        updateData.roundingIncrement = roundingIncrement;
+      }
+
+      if (roundingMode !== undefined) {
+        updateData.roundingMode = roundingMode;
+      }
+
+      if (roundingScope !== undefined) {
+        updateData.roundingScope = roundingScope;
+      }
+
+      if (
+        [
+          budgetHours,
+          budgetAmount,
+          budgetPeriod,
+          budgetStartsAt,
+          budgetEndsAt,
+        ].some((value) => value !== undefined)
+      ) {
+        // Plain dates cover whole days in the user's time zone
+        const settings = await getUserSettings(userId);
+        const hasBudget =
+          (budgetHours === undefined
+            ? existingProject.budgetHours
+            : budgetHours) !== null ||
+          (budgetAmount === undefined
+            ? existingProject.budgetAmount
+            : budgetAmount) !== null;
+        const budget = {
+          budgetPeriod: hasBudget
+            ? (budgetPeriod ?? existingProject.budgetPeriod ?? 'TOTAL')
+            : null,
+          budgetStartsAt:
+            budgetStartsAt === undefined
+              ? existingProject.budgetStartsAt
+              : budgetStartsAt === null
+                ? null
+                : resolveDateInput(budgetStartsAt, 'start', settings),
+          budgetEndsAt:
+            budgetEndsAt === undefined
+              ? existingProject.budgetEndsAt
+              : budgetEndsAt === null
+                ? null
+                : resolveDateInput(budgetEndsAt, 'end', settings),
+        };
+        validateBudgetPeriod(budget);
+
+        if (budgetHours !== undefined) {
+          updateData.budgetHours =
+            budgetHours === null ? null : budgetHours.toString();
+        }
+        if (budgetAmount !== undefined) {
+          updateData.budgetAmount =
+            budgetAmount === null ? null : budgetAmount.toString();
+        }
+        Object.assign(updateData, budget);
+      }
+
       if (Object.keys(updateData).length === 0) {
         return c.json(existingProject);
       }
 
-      const project = await prisma.project.update({
-        where: { id },
-        data: updateData,
+      const project = await prisma.$transaction(async (tx) => {
+        // A new rate is in effect from now on, past time keeps its rate
+        if (
+          hourlyRate !== undefined &&
+          !existingProject.hourlyRate?.equals(hourlyRate)
+        ) {
+          await addProjectRate(tx, existingProject, {
+            hourlyRate,
+            effectiveFrom: new Date(),
+          });
+        }
+
+        const updated = await tx.project.update({
+          where: { id },
+          data: updateData,
+          include: {
+            client: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'PROJECT',
+          entityId: id,
+          before: existingProject,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(project);
+    },
+  );
+
+  /**
+   * @openapi archiveProject
+   * @tags projects
+   * @description Archive a project. It is hidden from listings and no longer accepts new time entries.
+   */
+  router.post(
+    '/api/projects/:id/archive',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if project exists and belongs to user
+      const existingProject = await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          client: true,
+        },
+      });
+
+      if (existingProject.archivedAt) {
+        return c.json(existingProject);
+      }
+
+      const project = await prisma.$transaction(async (tx) => {
+        const updated = await tx.project.update({
+          where: { id },
+          data: { archivedAt: new Date() },
+          include: {
+            client: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'PROJECT',
+          entityId: id,
+          before: existingProject,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(project);
+    },
+  );
+
+  /**
+   * @openapi unarchiveProject
+   * @tags projects
+   * @description Restore an archived project.
+   */
+  router.post(
+    '/api/projects/:id/unarchive',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if project exists and belongs to user
+      const existingProject = await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+      });
+
+      const project = await prisma.$transaction(async (tx) => {
+        const updated = await tx.project.update({
+          where: { id },
+          data: { archivedAt: null },
+          include: {
+            client: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'PROJECT',
+          entityId: id,
+          before: existingProject,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(project);
+    },
+  );
+  /**
+   * @openapi deleteProject
+   * @tags projects
+   * @description Move a project to the trash, with its time entries. A project billed on an invoice cannot be deleted; archive it instead.
+   */
+  router.delete(
+    '/api/projects/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if project exists and belongs to user
+      const existingProject = await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          _count: {
+            select: {
+              InvoiceLine: true,
+            },
+          },
+        },
+      });
+
+      if (existingProject._count.InvoiceLine > 0) {
+        throw new HTTPException(400, {
+          message: 'Project is invoiced and cannot be deleted',
+          cause: {
+            code: 'api/project-has-invoices',
+            detail: `Project "${existingProject.name}" is billed on ${existingProject._count.InvoiceLine} invoice lines. Archive it instead.`,
+          },
+        });
+      }
+
+      // The time entries share the timestamp, so they are restored together
+      const deletedAt = new Date();
+      await prisma.$transaction(async (tx) => {
+        await tx.timeEntry.updateMany({
+          where: { projectId: id, deletedAt: null },
+          data: { deletedAt },
+        });
+        await tx.project.update({
+          where: { id },
+          data: { deletedAt },
+        });
+
+        const { _count, ...before } = existingProject;
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'PROJECT',
+          entityId: id,
+          before,
+        });
+      });
+
+      return c.json({ message: 'Project deleted successfully' });
+    },
+  );
+
+  /**
+   * @openapi restoreProject
+   * @tags projects
+   * @description Take a project out of the trash, with the time entries deleted along with it. Its client must not be in the trash.
+   */
+  router.post(
+    '/api/projects/:id/restore',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if project is in the trash and belongs to user
+      const existingProject = await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: { not: null },
+        },
         include: {
           client: true,
         },
       });
 
+      if (existingProject.client?.deletedAt) {
+        throw new HTTPException(400, {
+          message: 'Client is in the trash',
+          cause: {
+            code: 'api/parent-in-trash',
+            detail: `Restore client "${existingProject.client.name}" to restore its projects`,
+          },
+        });
+      }
+
+      // A project of the same name may have been created in the meantime
+      await checkDuplicateProjectName(
+        userId,
+        existingProject.clientId,
+        existingProject.name,
+        id,
+      );
+
+      const project = await prisma.$transaction(async (tx) => {
+        await tx.timeEntry.updateMany({
+          where: { projectId: id, deletedAt: existingProject.deletedAt },
+          data: { deletedAt: null },
+        });
+        const restored = await tx.project.update({
+          where: { id },
+          data: { deletedAt: null },
+          include: {
+            client: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'RESTORE',
+          entityType: 'PROJECT',
+          entityId: id,
+          before: existingProject,
+          after: restored,
+        });
+
+        return restored;
+      });
+
       return c.json(project);
     },
   );
+  /**
+   * @openapi getProjectRates
+   * @tags projects
+   * @description Get the rate history of a project, oldest first. Time is billed at the rate in effect when it started; time before the first effective date is billed at the first rate. A project without a rate history bills at its hourlyRate, and one without a rate at the rate history of its client.
+   */
+  router.get(
+    '/api/projects/:id/rates',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if project exists and belongs to user
+      await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          deletedAt: null,
+        },
+      });
+
+      const rates = await prisma.rate.findMany({
+        where: { projectId: id },
+        orderBy: { effectiveFrom: 'asc' },
+      });
+
+      return c.json({ data: rates });
+    },
+  );
+
+  /**
+   * @openapi addProjectRate
+   * @tags projects
+   * @description Add a rate to the history of a project, in effect from effectiveFrom (a plain date is the start of the day in the user's time zone), replacing a rate with the same effective date. The first rate of a project keeps the rates earlier time was priced at, its hourlyRate or else the rate history of its client, in the history before it. Unbilled time is priced again by the new history; invoiced time keeps the rate it was billed at. The project's hourlyRate follows the rate in effect now.
+   */
+  router.post(
+    '/api/projects/:id/rates',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      hourlyRate: {
+        select: payload.body.hourlyRate,
+        against: z.coerce.number().positive().max(99999999),
+      },
+      effectiveFrom: {
+        select: payload.body.effectiveFrom,
+        against: z.union([z.string().datetime(), z.string().date()]),
+      },
+    })),
+    async (c) => {
+      const { id, hourlyRate, effectiveFrom } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if project exists and belongs to user
+      const existingProject = await prisma.project.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      const settings = await getUserSettings(userId);
+
+      const rate = await prisma.$transaction((tx) =>
+        addProjectRate(tx, existingProject, {
+          hourlyRate,
+          effectiveFrom: resolveDateInput(effectiveFrom, 'start', settings),
+        }),
+      );
+
+      return c.json(rate, 201);
+    },
+  );
+
+  /**
+   * @openapi deleteProjectRate
+   * @tags projects
+   * @description Remove a rate from the history of a project. Unbilled time is priced again by the remaining history.
+   */
+  router.delete(
+    '/api/projects/:id/rates/:rateId',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      rateId: {
+        select: payload.params.rateId,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id, rateId } = c.var.input;
+
+      // Check if rate exists and belongs to a project of the user
+      const existingRate = await prisma.rate.findUniqueOrThrow({
+        where: {
+          id: rateId,
+          userId: c.var.subject.id,
+          projectId: id,
+          project: { deletedAt: null },
+        },
+      });
+
+      await prisma.$transaction(async (tx) => {
+        await tx.rate.delete({
+          where: { id: rateId },
+        });
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'RATE',
+          entityId: rateId,
+          before: existingRate,
+        });
+        await syncProjectRate(tx, id);
+      });
+
+      return c.json({ message: 'Rate deleted successfully' });
+    },
+  );
 }
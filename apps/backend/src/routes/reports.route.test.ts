@@ -129,6 +129,62 @@ describe('Reports Route - Error-First Testing', () => {
     });
   });
 
+  describe('Task Summary', () => {
+    it('should reject the task summary without authentication', async () => {
+      const res = await app.request(
+        '/api/reports/summary?groupBy=task&startDate=2025-07-01T00:00:00Z&endDate=2025-07-31T23:59:59Z',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should report time outside any task per project', async () => {
+      console.log('Testing time without task in summary - requires auth setup');
+    });
+
+    it('should value task time at the task rate', async () => {
+      console.log('Testing task rate in summary - requires auth setup');
+    });
+  });
+
+  describe('Budget Report', () => {
+    it('should reject the budget report without authentication', async () => {
+      const res = await app.request('/api/reports/budgets');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should list the most consumed budgets first', async () => {
+      console.log('Testing budget report order - requires auth setup');
+    });
+
+    it('should count only the current month of a monthly budget', async () => {
+      console.log('Testing monthly budget periods - requires auth setup');
+    });
+
+    it('should project the consumption at the end of the period', async () => {
+      console.log('Testing projected burn - requires auth setup');
+    });
+  });
+
+  describe('Profitability Report', () => {
+    it('should reject the profitability report without authentication', async () => {
+      const res = await app.request(
+        '/api/reports/profitability?startDate=2025-07-01T00:00:00Z&endDate=2025-07-31T23:59:59Z',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should count completed milestones as fixed-fee revenue', async () => {
+      console.log('Testing milestone revenue - requires auth setup');
+    });
+
+    it('should count the hours of fixed-fee projects in the effective rate', async () => {
+      console.log('Testing effective rate - requires auth setup');
+    });
+  });
+
   describe('Date Parameter Validation', () => {
     const invalidAuthHeader = 'Bearer fake-token';
 
@@ -366,6 +422,18 @@ describe('Reports Route - Error-First Testing', () => {
     it('should handle locked time entries correctly', async () => {
       console.log('Testing locked time entry handling - requires auth setup');
     });
+
+    it('should report billable and non-billable hours separately', async () => {
+      console.log('Testing billable hour split - requires auth setup');
+    });
+
+    it('should keep raw hours next to rounded hours', async () => {
+      console.log('Testing rounding policy in summary - requires auth setup');
+    });
+
+    it('should count entries with several tags towards each tag', async () => {
+      console.log('Testing tag grouping in summary - requires auth setup');
+    });
   });
 
   describe('Calculation Edge Cases', () => {
@@ -388,6 +456,47 @@ describe('Reports Route - Error-First Testing', () => {
     });
   });
 
+  describe('After-Hours Reporting', () => {
+    it('should split entries crossing the end of the business day', async () => {
+      console.log('Testing after-hours split - requires auth setup');
+    });
+
+    it('should count hours on days off as weekend hours', async () => {
+      console.log('Testing weekend hours - requires auth setup');
+    });
+  });
+
+  describe('Cursor Pagination and Sorting', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown sort field', async () => {
+      const res = await app.request(
+        '/api/reports/detailed?startDate=2025-07-01T00:00:00Z&endDate=2025-08-01T00:00:00Z&sort=unknown',
+        {
+          headers: { Authorization: invalidAuthHeader },
+        },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject paging with a cursor without authentication', async () => {
+      const res = await app.request(
+        '/api/reports/detailed?startDate=2025-07-01T00:00:00Z&endDate=2025-08-01T00:00:00Z&sort=startedAt&order=asc&cursor=abc',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a cursor made for another sort', async () => {
+      console.log('Testing cursor and sort mismatch - requires auth setup');
+    });
+
+    it('should skip the count on pages after a cursor', async () => {
+      console.log('Testing cursor pages - requires auth and database setup');
+    });
+  });
+
   describe('Happy Path - Normal Operation', () => {
     it('should generate client summary report correctly', async () => {
       console.log('Client summary report test - requires authentication setup');
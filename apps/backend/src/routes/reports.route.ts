@@ -1,11 +1,24 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 
+import type { BillingMode, Prisma } from '@iworked/db';
 import { prisma } from '@iworked/db';
 
+import {
+  findBudgetedProjects,
+  getProjectBudgets,
+  raiseBudgetAlerts,
+} from '../core/budgets.ts';
+import {
+  getBusinessHours,
+  splitBusinessHours,
+} from '../core/business-hours.ts';
 import {
   calculateDurationHours,
+  calculateInvoiceBalance,
   calculateTimeEntriesTotals,
+  getBillableHourlyRate,
+  getHourlyRate,
   groupTimeEntriesByClient,
   groupTimeEntriesByProject,
   roundToTwoDecimals,
@@ -16,6 +29,22 @@ import {
   exportTimeEntriesToCSV,
   getCSVHeaders,
 } from '../core/export.ts';
+import type { ListSort } from '../core/pagination.ts';
+import { toOrderBy, toPage, whereAfterCursor } from '../core/pagination.ts';
+import { RATE_HISTORY } from '../core/rates.ts';
+import {
+  calculateRoundedHoursByProject,
+  calculateRoundedHoursByTask,
+  resolveRoundingPolicy,
+  roundEntryHours,
+} from '../core/rounding.ts';
+import {
+  getOrderedWeekdays,
+  getPeriodKey,
+  getUserSettings,
+  getWallClock,
+  startOfPeriod,
+} from '../core/settings.ts';
 import { authenticated } from '../middlewares/auth.ts';
 import { validate } from '../middlewares/validator.ts';
 
@@ -23,7 +52,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getSummary
    * @tags reports
-   * @description Get summary report of hours and amounts by client or project for a date range.
+   * @description Get summary report of hours and amounts by client, project, task or tag for a date range. Amounts are based on the rounded billable hours of each project's rounding policy. By task, the time outside any task is reported per project with a null id. By project, hourlyRate is the rate the time was tracked at, or null when it was tracked at several rates.
    */
   router.get(
     '/api/reports/summary',
@@ -39,7 +68,7 @@ export default async function (router: Hono) {
       },
       groupBy: {
         select: payload.query.groupBy,
-        against: z.enum(['client', 'project']),
+        against: z.enum(['client', 'project', 'task', 'tag']),
       },
       clientId: {
         select: payload.query.clientId,
@@ -63,6 +92,7 @@ export default async function (router: Hono) {
       // Base query for time entries
       const whereClause = {
         userId: c.var.subject.id,
+        deletedAt: null,
         startedAt: {
           gte: startDateTime,
           lte: endDateTime,
@@ -77,55 +107,68 @@ export default async function (router: Hono) {
           where: whereClause,
           include: {
             project: {
-              include: {
-                client: true,
-              },
+              include: RATE_HISTORY,
             },
+            task: true,
           },
         });
 
+        // Amounts follow each project's rounding policy, hours stay as tracked
+        const rounded = calculateRoundedHoursByProject(timeEntries);
+
         // Group and calculate totals
         const summary = timeEntries.reduce(
           (acc, entry) => {
             const clientId = entry.project.client!.id;
             const clientName = entry.project.client!.name;
-            const durationHours =
-              (entry.endedAt.getTime() - entry.startedAt.getTime()) /
-              (1000 * 60 * 60);
-            const hourlyRate = entry.project.hourlyRate
-              ? parseFloat(entry.project.hourlyRate.toString())
-              : 0;
-            const amount = durationHours * hourlyRate;
+            const durationHours = calculateDurationHours(
+              entry.startedAt,
+              entry.endedAt,
+            );
 
             if (!acc[clientId]) {
               acc[clientId] = {
                 id: clientId,
                 name: clientName,
                 totalHours: 0,
+                billableHours: 0,
+                nonBillableHours: 0,
+                roundedHours: 0,
                 totalAmount: 0,
                 projects: {} as Record<
                   string,
-                  { id: string; name: string; hours: number; amount: number }
+                  {
+                    id: string;
+                    name: string;
+                    hours: number;
+                    roundedHours: number;
+                    amount: number;
+                  }
                 >,
               };
             }
 
             acc[clientId].totalHours += durationHours;
-            acc[clientId].totalAmount += amount;
+            acc[clientId][
+              entry.isBillable ? 'billableHours' : 'nonBillableHours'
+            ] += durationHours;
 
             // Also track project breakdown within client
             const projectId = entry.project.id;
             const projectName = entry.project.name;
             if (!acc[clientId].projects[projectId]) {
+              const { roundedHours = 0, amount = 0 } = rounded[projectId] ?? {};
               acc[clientId].projects[projectId] = {
                 id: projectId,
                 name: projectName,
                 hours: 0,
-                amount: 0,
+                roundedHours,
+                amount,
               };
+              acc[clientId].roundedHours += roundedHours;
+              acc[clientId].totalAmount += amount;
             }
             acc[clientId].projects[projectId].hours += durationHours;
-            acc[clientId].projects[projectId].amount += amount;
 
             return acc;
           },
@@ -138,6 +181,9 @@ export default async function (router: Hono) {
           summary: Object.values(summary).map((client) => ({
             ...client,
             totalHours: Math.round(client.totalHours * 100) / 100, // Round to 2 decimal places
+            billableHours: Math.round(client.billableHours * 100) / 100,
+            nonBillableHours: Math.round(client.nonBillableHours * 100) / 100,
+            roundedHours: Math.round(client.roundedHours * 100) / 100,
             totalAmount: Math.round(client.totalAmount * 100) / 100,
             projects: Object.values(client.projects).map((project: any) => ({
               ...project,
@@ -146,32 +192,170 @@ export default async function (router: Hono) {
             })),
           })),
         });
+      } else if (groupBy === 'task') {
+        // Group by task
+        const timeEntries = await prisma.timeEntry.findMany({
+          where: whereClause,
+          include: {
+            project: {
+              include: RATE_HISTORY,
+            },
+            task: true,
+          },
+        });
+
+        // Amounts follow each project's rounding policy, hours stay as tracked
+        const rounded = calculateRoundedHoursByTask(timeEntries);
+
+        const summary = timeEntries.reduce(
+          (acc, entry) => {
+            // Time outside any task is grouped per project
+            const key = entry.task?.id ?? entry.project.id;
+            const durationHours = calculateDurationHours(
+              entry.startedAt,
+              entry.endedAt,
+            );
+
+            if (!acc[key]) {
+              acc[key] = {
+                id: entry.task?.id ?? null,
+                name: entry.task?.name ?? 'No task',
+                status: entry.task?.status ?? null,
+                estimateHours: entry.task?.estimateHours
+                  ? parseFloat(entry.task.estimateHours.toString())
+                  : null,
+                project: {
+                  id: entry.project.id,
+                  name: entry.project.name,
+                },
+                totalHours: 0,
+                billableHours: 0,
+                nonBillableHours: 0,
+                roundedHours: rounded[key]?.roundedHours ?? 0,
+                totalAmount: rounded[key]?.amount ?? 0,
+              };
+            }
+
+            acc[key].totalHours += durationHours;
+            acc[key][entry.isBillable ? 'billableHours' : 'nonBillableHours'] +=
+              durationHours;
+
+            return acc;
+          },
+          {} as Record<string, any>,
+        );
+
+        return c.json({
+          groupBy: 'task',
+          dateRange: { startDate, endDate },
+          summary: Object.values(summary).map((task) => ({
+            ...task,
+            totalHours: roundToTwoDecimals(task.totalHours),
+            billableHours: roundToTwoDecimals(task.billableHours),
+            nonBillableHours: roundToTwoDecimals(task.nonBillableHours),
+          })),
+        });
+      } else if (groupBy === 'tag') {
+        // Group by tag
+        const timeEntries = await prisma.timeEntry.findMany({
+          where: whereClause,
+          include: {
+            project: {
+              include: RATE_HISTORY,
+            },
+            task: true,
+            tags: true,
+          },
+        });
+
+        // Entries with several tags count towards each of them
+        const summary = timeEntries.reduce(
+          (acc, entry) => {
+            const durationHours = calculateDurationHours(
+              entry.startedAt,
+              entry.endedAt,
+            );
+            const amount =
+              roundEntryHours(
+                durationHours,
+                resolveRoundingPolicy(entry.project, entry.project.client),
+              ) * getBillableHourlyRate(entry);
+            const tags =
+              entry.tags.length > 0
+                ? entry.tags
+                : [{ id: null, name: 'Untagged', color: null }];
+
+            for (const tag of tags) {
+              const key = tag.id ?? 'untagged';
+              if (!acc[key]) {
+                acc[key] = {
+                  id: tag.id,
+                  name: tag.name,
+                  color: tag.color,
+                  totalHours: 0,
+                  billableHours: 0,
+                  nonBillableHours: 0,
+                  totalAmount: 0,
+                  entriesCount: 0,
+                };
+              }
+
+              acc[key].totalHours += durationHours;
+              acc[key][
+                entry.isBillable ? 'billableHours' : 'nonBillableHours'
+              ] += durationHours;
+              acc[key].totalAmount += amount;
+              acc[key].entriesCount += 1;
+            }
+
+            return acc;
+          },
+          {} as Record<string, any>,
+        );
+
+        return c.json({
+          groupBy: 'tag',
+          dateRange: { startDate, endDate },
+          summary: Object.values(summary).map((tag) => ({
+            ...tag,
+            totalHours: roundToTwoDecimals(tag.totalHours),
+            billableHours: roundToTwoDecimals(tag.billableHours),
+            nonBillableHours: roundToTwoDecimals(tag.nonBillableHours),
+            totalAmount: roundToTwoDecimals(tag.totalAmount),
+          })),
+        });
       } else {
         // Group by project
         const timeEntries = await prisma.timeEntry.findMany({
           where: whereClause,
           include: {
             project: {
-              include: {
-                client: true,
-              },
+              include: RATE_HISTORY,
             },
+            task: true,
           },
         });
 
+        // Amounts follow each project's rounding policy, hours stay as tracked
+        const rounded = calculateRoundedHoursByProject(timeEntries);
+
         // Group and calculate totals
         const summary = timeEntries.reduce(
           (acc, entry) => {
             const projectId = entry.project.id;
             const projectName = entry.project.name;
             const clientName = entry.project.client!.name;
-            const durationHours =
-              (entry.endedAt.getTime() - entry.startedAt.getTime()) /
-              (1000 * 60 * 60);
-            const hourlyRate = entry.project.hourlyRate
-              ? parseFloat(entry.project.hourlyRate.toString())
-              : 0;
-            const amount = durationHours * hourlyRate;
+            const durationHours = calculateDurationHours(
+              entry.startedAt,
+              entry.endedAt,
+            );
+            // The rate in effect when the time was tracked, or null when
+            // the time of the project was tracked at several rates
+            const rate = getHourlyRate(entry);
+            const hourlyRate = rate ? parseFloat(rate.toString()) : 0;
+            if (acc[projectId] && acc[projectId].hourlyRate !== hourlyRate) {
+              acc[projectId].hourlyRate = null;
+            }
 
             if (!acc[projectId]) {
               acc[projectId] = {
@@ -182,13 +366,18 @@ export default async function (router: Hono) {
                   name: clientName,
                 },
                 totalHours: 0,
-                totalAmount: 0,
+                billableHours: 0,
+                nonBillableHours: 0,
+                roundedHours: rounded[projectId]?.roundedHours ?? 0,
+                totalAmount: rounded[projectId]?.amount ?? 0,
                 hourlyRate,
               };
             }
 
             acc[projectId].totalHours += durationHours;
-            acc[projectId].totalAmount += amount;
+            acc[projectId][
+              entry.isBillable ? 'billableHours' : 'nonBillableHours'
+            ] += durationHours;
 
             return acc;
           },
@@ -201,7 +390,10 @@ export default async function (router: Hono) {
           summary: Object.values(summary).map((project) => ({
             ...project,
             totalHours: Math.round(project.totalHours * 100) / 100, // Round to 2 decimal places
-            totalAmount: Math.round(project.totalAmount * 100) / 100,
+            billableHours: Math.round(project.billableHours * 100) / 100,
+            nonBillableHours: Math.round(project.nonBillableHours * 100) / 100,
+            roundedHours: project.roundedHours,
+            totalAmount: project.totalAmount,
           })),
         });
       }
@@ -211,7 +403,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getDetailedReport
    * @tags reports
-   * @description Get detailed time entries for a specific date range with totals.
+   * @description Get detailed time entries for a specific date range with totals. taskId filters by task, or to the entries outside any task with none. Sort by startedAt or createdAt; pass the nextCursor of a page as cursor to get the next one.
    */
   router.get(
     '/api/reports/detailed',
@@ -241,57 +433,98 @@ export default async function (router: Hono) {
         select: payload.query.pageSize,
         against: z.coerce.number().int().min(1).max(100).default(50),
       },
+      taskId: {
+        select: payload.query.taskId,
+        against: z.union([z.string().uuid(), z.literal('none')]).optional(),
+      },
+      tagId: {
+        select: payload.query.tagId,
+        against: z.string().uuid().optional(),
+      },
+      cursor: {
+        select: payload.query.cursor,
+        against: z.string().optional(),
+      },
+      sort: {
+        select: payload.query.sort,
+        against: z.enum(['startedAt', 'createdAt']).default('startedAt'),
+      },
+      order: {
+        select: payload.query.order,
+        against: z.enum(['asc', 'desc']).default('desc'),
+      },
     })),
     async (c) => {
-      const { startDate, endDate, clientId, projectId, page, pageSize } =
-        c.var.input;
+      const {
+        startDate,
+        endDate,
+        clientId,
+        projectId,
+        page,
+        pageSize,
+        taskId,
+        tagId,
+        cursor,
+        sort,
+        order,
+      } = c.var.input;
+      const sortBy: ListSort = { field: sort, order };
 
       const startDateTime = new Date(startDate);
       const endDateTime = new Date(endDate);
 
       const whereClause = {
         userId: c.var.subject.id,
+        deletedAt: null,
         startedAt: {
           gte: startDateTime,
           lte: endDateTime,
         },
         ...(clientId ? { project: { clientId } } : {}),
         ...(projectId ? { projectId } : {}),
+        ...(taskId ? { taskId: taskId === 'none' ? null : taskId } : {}),
+        ...(tagId ? { tags: { some: { id: tagId } } } : {}),
       };
 
-      const totalCount = await prisma.timeEntry.count({ where: whereClause });
+      // Pages after a cursor are neither counted nor offset
+      const totalCount = cursor
+        ? undefined
+        : await prisma.timeEntry.count({ where: whereClause });
 
       const timeEntries = await prisma.timeEntry.findMany({
-        where: whereClause,
-        orderBy: { startedAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
+        where: whereAfterCursor(whereClause, sortBy, cursor),
+        orderBy: toOrderBy<Prisma.TimeEntryOrderByWithRelationInput[]>(sortBy),
+        skip: cursor ? 0 : (page - 1) * pageSize,
+        take: pageSize + 1,
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
+          tags: true,
         },
       });
 
+      const { data, ...pageInfo } = toPage(timeEntries, pageSize, sortBy);
+
       // Calculate totals for all entries (not just current page)
       const allEntries = await prisma.timeEntry.findMany({
         where: whereClause,
         include: {
-          project: true,
+          project: {
+            include: RATE_HISTORY,
+          },
+          task: true,
         },
       });
 
       const totals = allEntries.reduce(
         (acc, entry) => {
-          const durationHours =
-            (entry.endedAt.getTime() - entry.startedAt.getTime()) /
-            (1000 * 60 * 60);
-          const hourlyRate = entry.project.hourlyRate
-            ? parseFloat(entry.project.hourlyRate.toString())
-            : 0;
-          const amount = durationHours * hourlyRate;
+          const durationHours = calculateDurationHours(
+            entry.startedAt,
+            entry.endedAt,
+          );
+          const amount = durationHours * getBillableHourlyRate(entry);
 
           acc.totalHours += durationHours;
           acc.totalAmount += amount;
@@ -301,14 +534,12 @@ export default async function (router: Hono) {
       );
 
       return c.json({
-        data: timeEntries.map((entry) => {
-          const durationHours =
-            (entry.endedAt.getTime() - entry.startedAt.getTime()) /
-            (1000 * 60 * 60);
-          const hourlyRate = entry.project.hourlyRate
-            ? parseFloat(entry.project.hourlyRate.toString())
-            : 0;
-          const amount = durationHours * hourlyRate;
+        data: data.map((entry) => {
+          const durationHours = calculateDurationHours(
+            entry.startedAt,
+            entry.endedAt,
+          );
+          const amount = durationHours * getBillableHourlyRate(entry);
 
           return {
             ...entry,
@@ -317,10 +548,15 @@ export default async function (router: Hono) {
           };
         }),
         pagination: {
-          page,
           pageSize,
-          totalCount,
-          totalPages: Math.ceil(totalCount / pageSize),
+          ...(totalCount !== undefined
+            ? {
+                page,
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+              }
+            : {}),
+          ...pageInfo,
         },
         totals: {
           totalHours: Math.round(totals.totalHours * 100) / 100,
@@ -349,39 +585,26 @@ export default async function (router: Hono) {
       const { period } = c.var.input;
       const userId = c.var.subject.id;
 
-      // Calculate date range based on period
+      // The current period as it is in the user's time zone
+      const settings = await getUserSettings(userId);
       const now = new Date();
-      let startDate: Date;
-
-      switch (period) {
-        case 'week':
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case 'quarter':
-          startDate = new Date(
-            now.getFullYear(),
-            Math.floor(now.getMonth() / 3) * 3,
-            1,
-          );
-          break;
-        case 'year':
-          startDate = new Date(now.getFullYear(), 0, 1);
-          break;
-        default: // month
-          startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      }
+      const startDate = startOfPeriod(period, now, settings);
 
       // Get time entries for the period
       const timeEntries = await prisma.timeEntry.findMany({
         where: {
           userId,
+          deletedAt: null,
           startedAt: {
             gte: startDate,
             lte: now,
           },
         },
         include: {
-          project: true,
+          project: {
+            include: RATE_HISTORY,
+          },
+          task: true,
         },
       });
 
@@ -391,6 +614,7 @@ export default async function (router: Hono) {
       const invoices = await prisma.invoice.findMany({
         where: {
           userId,
+          deletedAt: null,
           createdAt: {
             gte: startDate,
             lte: now,
@@ -398,26 +622,22 @@ export default async function (router: Hono) {
         },
         include: {
           invoiceLines: true,
+          payments: true,
         },
       });
 
       const invoiceMetrics = invoices.reduce(
         (acc, invoice) => {
-          const totalAmount = invoice.invoiceLines.reduce(
-            (sum, line) => sum + parseFloat(line.amount.toString()),
-            0,
+          const { totalAmount, paidAmount } = calculateInvoiceBalance(
+            invoice.invoiceLines,
+            invoice.payments,
           );
 
           acc.totalInvoiced += totalAmount;
+          acc.totalPaid += paidAmount;
           acc.invoicesByStatus[invoice.status] =
             (acc.invoicesByStatus[invoice.status] || 0) + 1;
 
-          if (invoice.status === 'PAID') {
-            acc.totalPaid += invoice.paidAmount
-              ? parseFloat(invoice.paidAmount.toString())
-              : totalAmount;
-          }
-
           return acc;
         },
         {
@@ -431,8 +651,10 @@ export default async function (router: Hono) {
       const activeProjects = await prisma.project.count({
         where: {
           userId,
+          deletedAt: null,
           timeEntries: {
             some: {
+              deletedAt: null,
               startedAt: {
                 gte: startDate,
                 lte: now,
@@ -446,10 +668,12 @@ export default async function (router: Hono) {
       const activeClients = await prisma.client.count({
         where: {
           userId,
+          deletedAt: null,
           projects: {
             some: {
               timeEntries: {
                 some: {
+                  deletedAt: null,
                   startedAt: {
                     gte: startDate,
                     lte: now,
@@ -469,6 +693,8 @@ export default async function (router: Hono) {
         },
         metrics: {
           totalHours: totals.totalHours,
+          billableHours: totals.billableHours,
+          nonBillableHours: totals.nonBillableHours,
           totalAmount: totals.totalAmount,
           totalInvoiced: roundToTwoDecimals(invoiceMetrics.totalInvoiced),
           totalPaid: roundToTwoDecimals(invoiceMetrics.totalPaid),
@@ -488,7 +714,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getTimeAnalytics
    * @tags reports
-   * @description Get time tracking analytics and patterns.
+   * @description Get time tracking analytics and patterns, including the hours worked after business hours and on days off.
    */
   router.get(
     '/api/reports/time-analytics',
@@ -514,51 +740,45 @@ export default async function (router: Hono) {
       const startDateTime = new Date(startDate);
       const endDateTime = new Date(endDate);
 
-      const timeEntries = await prisma.timeEntry.findMany({
-        where: {
-          userId,
-          startedAt: {
-            gte: startDateTime,
-            lte: endDateTime,
+      const [timeEntries, settings, businessHours] = await Promise.all([
+        prisma.timeEntry.findMany({
+          where: {
+            userId,
+            deletedAt: null,
+            startedAt: {
+              gte: startDateTime,
+              lte: endDateTime,
+            },
           },
-        },
-        include: {
-          project: {
-            include: {
-              client: true,
+          include: {
+            project: {
+              include: RATE_HISTORY,
             },
+            task: true,
           },
-        },
-        orderBy: {
-          startedAt: 'asc',
-        },
-      });
+          orderBy: {
+            startedAt: 'asc',
+          },
+        }),
+        getUserSettings(userId),
+        getBusinessHours(userId),
+      ]);
+      const now = new Date();
 
-      // Group by time period
+      // Group by time period, in the user's time zone
       const analytics = timeEntries.reduce(
         (acc, entry) => {
-          const date = entry.startedAt;
-          let key: string;
-
-          switch (groupBy) {
-            case 'week': {
-              const startOfWeek = new Date(date);
-              startOfWeek.setDate(date.getDate() - date.getDay());
-              key = startOfWeek.toISOString().split('T')[0];
-              break;
-            }
-            case 'month':
-              key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-              break;
-            default: // day
-              key = date.toISOString().split('T')[0];
-          }
+          const key = getPeriodKey(groupBy, entry.startedAt, settings);
 
           if (!acc[key]) {
             acc[key] = {
               period: key,
               totalHours: 0,
+              billableHours: 0,
+              nonBillableHours: 0,
               totalAmount: 0,
+              afterHours: 0,
+              weekendHours: 0,
               entriesCount: 0,
               projects: new Set(),
               clients: new Set(),
@@ -566,12 +786,19 @@ export default async function (router: Hono) {
           }
 
           const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
-          const rate = entry.project.hourlyRate
-            ? parseFloat(entry.project.hourlyRate.toString())
-            : 0;
+          const { afterHours, weekendHours } = splitBusinessHours(
+            entry.startedAt,
+            entry.endedAt ?? now,
+            businessHours,
+            settings,
+          );
 
           acc[key].totalHours += hours;
-          acc[key].totalAmount += hours * rate;
+          acc[key][entry.isBillable ? 'billableHours' : 'nonBillableHours'] +=
+            hours;
+          acc[key].totalAmount += hours * getBillableHourlyRate(entry);
+          acc[key].afterHours += afterHours;
+          acc[key].weekendHours += weekendHours;
           acc[key].entriesCount += 1;
           acc[key].projects.add(entry.project.name);
           if (entry.project.client) {
@@ -587,7 +814,11 @@ export default async function (router: Hono) {
       const result = Object.values(analytics).map((period: any) => ({
         period: period.period,
         totalHours: roundToTwoDecimals(period.totalHours),
+        billableHours: roundToTwoDecimals(period.billableHours),
+        nonBillableHours: roundToTwoDecimals(period.nonBillableHours),
         totalAmount: roundToTwoDecimals(period.totalAmount),
+        afterHours: roundToTwoDecimals(period.afterHours),
+        weekendHours: roundToTwoDecimals(period.weekendHours),
         entriesCount: period.entriesCount,
         projectsCount: period.projects.size,
         clientsCount: period.clients.size,
@@ -599,6 +830,18 @@ export default async function (router: Hono) {
       // Calculate overall statistics
       const overallStats = {
         totalPeriods: result.length,
+        totalBillableHours: roundToTwoDecimals(
+          result.reduce((sum, p) => sum + p.billableHours, 0),
+        ),
+        totalNonBillableHours: roundToTwoDecimals(
+          result.reduce((sum, p) => sum + p.nonBillableHours, 0),
+        ),
+        totalAfterHours: roundToTwoDecimals(
+          result.reduce((sum, p) => sum + p.afterHours, 0),
+        ),
+        totalWeekendHours: roundToTwoDecimals(
+          result.reduce((sum, p) => sum + p.weekendHours, 0),
+        ),
         averageHoursPerPeriod:
           result.length > 0
             ? roundToTwoDecimals(
@@ -632,7 +875,7 @@ export default async function (router: Hono) {
   /**
    * @openapi getProductivityMetrics
    * @tags reports
-   * @description Get productivity metrics and insights.
+   * @description Get productivity metrics and insights, including the hours worked after business hours and on days off.
    */
   router.get(
     '/api/reports/productivity',
@@ -657,6 +900,7 @@ export default async function (router: Hono) {
       const timeEntries = await prisma.timeEntry.findMany({
         where: {
           userId,
+          deletedAt: null,
           startedAt: {
             gte: startDateTime,
             lte: endDateTime,
@@ -664,10 +908,9 @@ export default async function (router: Hono) {
         },
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
         },
       });
 
@@ -676,14 +919,32 @@ export default async function (router: Hono) {
           (1000 * 60 * 60 * 24),
       );
       const totals = calculateTimeEntriesTotals(timeEntries);
+      const [settings, businessHours] = await Promise.all([
+        getUserSettings(userId),
+        getBusinessHours(userId),
+      ]);
+      const now = new Date();
 
-      // Calculate daily patterns
+      // Calculate daily patterns on the user's wall clock
       const dailyHours = Array(7).fill(0);
       const hourlyDistribution = Array(24).fill(0);
+      let afterHours = 0;
+      let billableOutsideBusinessHours = 0;
+      let weekendHours = 0;
 
       timeEntries.forEach((entry) => {
-        const dayOfWeek = entry.startedAt.getDay();
-        const hour = entry.startedAt.getHours();
+        const { dayOfWeek, hour } = getWallClock(entry.startedAt, settings);
+        const split = splitBusinessHours(
+          entry.startedAt,
+          entry.endedAt ?? now,
+          businessHours,
+          settings,
+        );
+        afterHours += split.afterHours;
+        weekendHours += split.weekendHours;
+        if (entry.isBillable) {
+          billableOutsideBusinessHours += split.afterHours + split.weekendHours;
+        }
         const duration = calculateDurationHours(entry.startedAt, entry.endedAt);
 
         dailyHours[dayOfWeek] += duration;
@@ -697,6 +958,14 @@ export default async function (router: Hono) {
       // Calculate productivity metrics
       const metrics = {
         totalHours: totals.totalHours,
+        billableHours: totals.billableHours,
+        nonBillableHours: totals.nonBillableHours,
+        billablePercentage:
+          totals.totalHours > 0
+            ? roundToTwoDecimals(
+                (totals.billableHours / totals.totalHours) * 100,
+              )
+            : 0,
         totalAmount: totals.totalAmount,
         averageHoursPerDay: roundToTwoDecimals(totals.totalHours / totalDays),
         averageSessionDuration:
@@ -704,25 +973,32 @@ export default async function (router: Hono) {
             ? roundToTwoDecimals(totals.totalHours / timeEntries.length)
             : 0,
         totalSessions: timeEntries.length,
+
+        // Work outside business hours
+        afterHours: roundToTwoDecimals(afterHours),
+        weekendHours: roundToTwoDecimals(weekendHours),
+        outsideBusinessHoursPercentage:
+          totals.totalHours > 0
+            ? roundToTwoDecimals(
+                ((afterHours + weekendHours) / totals.totalHours) * 100,
+              )
+            : 0,
+        billableOutsideBusinessHours: roundToTwoDecimals(
+          billableOutsideBusinessHours,
+        ),
         uniqueProjects: Object.keys(projectGroups).length,
         uniqueClients: Object.keys(clientGroups).length,
 
         // Time distribution
-        dailyDistribution: [
-          'Sunday',
-          'Monday',
-          'Tuesday',
-          'Wednesday',
-          'Thursday',
-          'Friday',
-          'Saturday',
-        ].map((day, index) => ({
-          day,
-          hours: roundToTwoDecimals(dailyHours[index]),
-          percentage: roundToTwoDecimals(
-            (dailyHours[index] / totals.totalHours) * 100,
-          ),
-        })),
+        dailyDistribution: getOrderedWeekdays(settings).map(
+          ({ day, index }) => ({
+            day,
+            hours: roundToTwoDecimals(dailyHours[index]),
+            percentage: roundToTwoDecimals(
+              (dailyHours[index] / totals.totalHours) * 100,
+            ),
+          }),
+        ),
 
         // Top performing metrics
         topProjects: Object.values(projectGroups)
@@ -770,6 +1046,227 @@ export default async function (router: Hono) {
     },
   );
 
+  /**
+   * @openapi getBudgetReport
+   * @tags reports
+   * @description Get the budget consumption of every open project with a budget, most consumed first, in hours tracked and billable amount for the current budget period, with what remains and the consumption projected at the pace of the last four weeks. Alerts for the thresholds reached are raised as a side effect.
+   */
+  router.get(
+    '/api/reports/budgets',
+    authenticated(),
+    validate((payload) => ({
+      clientId: {
+        select: payload.query.clientId,
+        against: z.string().uuid().optional(),
+      },
+    })),
+    async (c) => {
+      const { clientId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const settings = await getUserSettings(userId);
+      const projects = await findBudgetedProjects(userId, { clientId });
+      const budgets = await getProjectBudgets(projects, settings);
+      await raiseBudgetAlerts(userId, budgets, settings.budgetAlertThresholds);
+
+      const data = projects
+        .map((project) => ({
+          project: {
+            id: project.id,
+            name: project.name,
+            client: project.client
+              ? { id: project.client.id, name: project.client.name }
+              : null,
+          },
+          budget: budgets.get(project.id)!,
+        }))
+        .sort(
+          (a, b) =>
+            Math.max(
+              b.budget.hours?.percent ?? 0,
+              b.budget.amount?.percent ?? 0,
+            ) -
+            Math.max(
+              a.budget.hours?.percent ?? 0,
+              a.budget.amount?.percent ?? 0,
+            ),
+        );
+
+      return c.json({
+        data,
+        totals: {
+          projects: data.length,
+          overBudget: data.filter(
+            ({ budget }) =>
+              (budget.hours?.remaining ?? 0) < 0 ||
+              (budget.amount?.remaining ?? 0) < 0,
+          ).length,
+        },
+      });
+    },
+  );
+
+  /**
+   * @openapi getProfitabilityReport
+   * @tags reports
+   * @description Get the revenue earned on each project for a date range against the hours tracked on it, most revenue first. Hourly projects earn the amount of their rounded billable hours; fixed-fee projects earn the milestones completed in the range, whether invoiced yet or not, while all their time is still counted. effectiveRate is the revenue per hour tracked.
+   */
+  router.get(
+    '/api/reports/profitability',
+    authenticated(),
+    validate((payload) => ({
+      startDate: {
+        select: payload.query.startDate,
+        against: z.string().datetime(),
+      },
+      endDate: {
+        select: payload.query.endDate,
+        against: z.string().datetime(),
+      },
+      clientId: {
+        select: payload.query.clientId,
+        against: z.string().uuid().optional(),
+      },
+    })),
+    async (c) => {
+      const { startDate, endDate, clientId } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const startDateTime = new Date(startDate);
+      const endDateTime = new Date(endDate);
+
+      if (endDateTime <= startDateTime) {
+        return c.json({ error: 'End date must be after start date' }, 400);
+      }
+
+      const range = { gte: startDateTime, lte: endDateTime };
+      const projectWhere = {
+        deletedAt: null,
+        ...(clientId ? { clientId } : {}),
+      };
+
+      const timeEntries = await prisma.timeEntry.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          startedAt: range,
+          project: projectWhere,
+        },
+        include: {
+          project: {
+            include: RATE_HISTORY,
+          },
+          task: true,
+        },
+      });
+
+      const milestones = await prisma.milestone.findMany({
+        where: {
+          userId,
+          status: { in: ['COMPLETED', 'INVOICED'] },
+          completedAt: range,
+          project: projectWhere,
+        },
+        include: {
+          project: {
+            include: {
+              client: true,
+            },
+          },
+        },
+      });
+
+      // Time on projects not billed by the hour is worth nothing here
+      const rounded = calculateRoundedHoursByProject(timeEntries);
+
+      const rows = new Map<
+        string,
+        {
+          project: {
+            id: string;
+            name: string;
+            billingMode: BillingMode;
+            client: { id: string; name: string } | null;
+          };
+          hours: number;
+          billableHours: number;
+          hourlyRevenue: number;
+          milestones: number;
+          milestoneRevenue: number;
+        }
+      >();
+      const rowOf = (project: (typeof milestones)[number]['project']) => {
+        if (!rows.has(project.id)) {
+          rows.set(project.id, {
+            project: {
+              id: project.id,
+              name: project.name,
+              billingMode: project.billingMode,
+              client: project.client
+                ? { id: project.client.id, name: project.client.name }
+                : null,
+            },
+            hours: 0,
+            billableHours: 0,
+            hourlyRevenue: rounded[project.id]?.amount ?? 0,
+            milestones: 0,
+            milestoneRevenue: 0,
+          });
+        }
+        return rows.get(project.id)!;
+      };
+
+      for (const entry of timeEntries) {
+        const row = rowOf(entry.project);
+        const hours = calculateDurationHours(entry.startedAt, entry.endedAt);
+        row.hours += hours;
+        if (entry.isBillable) row.billableHours += hours;
+      }
+
+      for (const milestone of milestones) {
+        const row = rowOf(milestone.project);
+        row.milestones += 1;
+        row.milestoneRevenue += parseFloat(milestone.amount.toString());
+      }
+
+      const data = [...rows.values()]
+        .map((row) => {
+          const revenue = roundToTwoDecimals(
+            row.hourlyRevenue + row.milestoneRevenue,
+          );
+          return {
+            ...row,
+            hours: roundToTwoDecimals(row.hours),
+            billableHours: roundToTwoDecimals(row.billableHours),
+            milestoneRevenue: roundToTwoDecimals(row.milestoneRevenue),
+            revenue,
+            effectiveRate:
+              row.hours > 0 ? roundToTwoDecimals(revenue / row.hours) : null,
+          };
+        })
+        .sort((a, b) => b.revenue - a.revenue);
+
+      const totalHours = roundToTwoDecimals(
+        data.reduce((sum, row) => sum + row.hours, 0),
+      );
+      const totalRevenue = roundToTwoDecimals(
+        data.reduce((sum, row) => sum + row.revenue, 0),
+      );
+
+      return c.json({
+        data,
+        totals: {
+          hours: totalHours,
+          revenue: totalRevenue,
+          effectiveRate:
+            totalHours > 0
+              ? roundToTwoDecimals(totalRevenue / totalHours)
+              : null,
+        },
+      });
+    },
+  );
+
   /**
    * @openapi exportTimeEntries
    * @tags reports
@@ -805,6 +1302,7 @@ export default async function (router: Hono) {
 
       const whereClause = {
         userId,
+        deletedAt: null,
         startedAt: {
           gte: startDateTime,
           lte: endDateTime,
@@ -818,14 +1316,14 @@ export default async function (router: Hono) {
         orderBy: { startedAt: 'desc' },
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
         },
       });
 
-      const csv = exportTimeEntriesToCSV(timeEntries);
+      const settings = await getUserSettings(userId);
+      const csv = exportTimeEntriesToCSV(timeEntries, settings);
       const filename = `time-entries-${startDate.split('T')[0]}-to-${endDate.split('T')[0]}.csv`;
 
       return new Response(csv, {
@@ -858,6 +1356,7 @@ export default async function (router: Hono) {
 
       const whereClause = {
         userId,
+        deletedAt: null,
         ...(status ? { status } : {}),
         ...(clientId ? { clientId } : {}),
       };
@@ -872,11 +1371,13 @@ export default async function (router: Hono) {
               project: true,
             },
           },
+          payments: true,
         },
       });
 
-      const csv = exportInvoicesToCSV(invoices);
-      const filename = `invoices-${new Date().toISOString().split('T')[0]}.csv`;
+      const settings = await getUserSettings(userId);
+      const csv = exportInvoicesToCSV(invoices, settings);
+      const filename = `invoices-${getPeriodKey('day', new Date(), settings)}.csv`;
 
       return new Response(csv, {
         headers: getCSVHeaders(filename),
@@ -915,11 +1416,13 @@ export default async function (router: Hono) {
         where: {
           id: clientId,
           userId,
+          deletedAt: null,
         },
       });
 
       const whereClause = {
         userId,
+        deletedAt: null,
         project: { clientId },
         ...(startDate || endDate
           ? {
@@ -936,14 +1439,14 @@ export default async function (router: Hono) {
         orderBy: { startedAt: 'desc' },
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
         },
       });
 
-      const csv = exportTimeEntriesToCSV(timeEntries);
+      const settings = await getUserSettings(userId);
+      const csv = exportTimeEntriesToCSV(timeEntries, settings);
       const dateRangeStr =
         startDate && endDate
           ? `${startDate.split('T')[0]}-to-${endDate.split('T')[0]}`
@@ -987,6 +1490,7 @@ export default async function (router: Hono) {
         where: {
           id: projectId,
           userId,
+          deletedAt: null,
         },
         include: {
           client: true,
@@ -999,6 +1503,7 @@ export default async function (router: Hono) {
 
       const whereClause = {
         userId,
+        deletedAt: null,
         projectId,
         ...(startDate || endDate
           ? {
@@ -1015,14 +1520,14 @@ export default async function (router: Hono) {
         orderBy: { startedAt: 'desc' },
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
         },
       });
 
-      const csv = exportTimeEntriesToCSV(timeEntries);
+      const settings = await getUserSettings(userId);
+      const csv = exportTimeEntriesToCSV(timeEntries, settings);
       const dateRangeStr =
         startDate && endDate
           ? `${startDate.split('T')[0]}-to-${endDate.split('T')[0]}`
@@ -1070,6 +1575,7 @@ export default async function (router: Hono) {
         where: {
           id: clientId,
           userId,
+          deletedAt: null,
         },
       });
 
@@ -1082,6 +1588,7 @@ export default async function (router: Hono) {
         where: {
           id: { in: projectIds },
           userId,
+          deletedAt: null,
           clientId,
         },
       });
@@ -1100,6 +1607,7 @@ export default async function (router: Hono) {
 
       const whereClause = {
         userId,
+        deletedAt: null,
         projectId: { in: projectIds },
         project: { clientId },
         ...(startDate || endDate
@@ -1117,14 +1625,14 @@ export default async function (router: Hono) {
         orderBy: [{ project: { name: 'asc' } }, { startedAt: 'desc' }],
         include: {
           project: {
-            include: {
-              client: true,
-            },
+            include: RATE_HISTORY,
           },
+          task: true,
         },
       });
 
-      const csv = exportTimeEntriesToCSV(timeEntries);
+      const settings = await getUserSettings(userId);
+      const csv = exportTimeEntriesToCSV(timeEntries, settings);
       const dateRangeStr =
         startDate && endDate
           ? `${startDate.split('T')[0]}-to-${endDate.split('T')[0]}`
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Search Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up search route test environment');
+  });
+
+  after(async () => {
+    console.log('Search route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject searching without authentication', async () => {
+      const res = await app.request('/api/search?q=checkout');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject searching with invalid token', async () => {
+      const res = await app.request('/api/search?q=checkout', {
+        headers: { Authorization: 'Bearer fake-token' },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Query Parameter Validation', () => {
+    it('should reject a missing or blank query', async () => {
+      console.log('Testing search query validation - requires auth setup');
+    });
+
+    it('should reject an unknown result type', async () => {
+      console.log('Testing search type validation - requires auth setup');
+    });
+  });
+
+  describe('Ranking and Highlighting', () => {
+    it('should rank a match in a project name above one in its description', async () => {
+      console.log('Testing search ranking - requires auth and database setup');
+    });
+
+    it('should match other forms of a word, e.g. "fixing" for "fixed"', async () => {
+      console.log('Testing search stemming - requires auth and database setup');
+    });
+
+    it('should wrap the matched words in mark tags', async () => {
+      console.log(
+        'Testing search highlights - requires auth and database setup',
+      );
+    });
+
+    it('should only return the records of the authenticated user', async () => {
+      console.log(
+        'Testing search isolation - requires auth and database setup',
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { SEARCH_ENTITIES, search } from '../core/search.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi search
+   * @tags search
+   * @description Full-text search across time entry notes, project names and descriptions, client names and emails, and invoice numbers and notes. Results are ranked best match first, typed by the kind of record, and carry a highlight with the matched words in <mark> tags. Quoted phrases, "or" and -excluded words are supported.
+   */
+  router.get(
+    '/api/search',
+    authenticated(),
+    validate((payload) => ({
+      q: {
+        select: payload.query.q,
+        against: z.string().trim().min(1).max(200),
+      },
+      type: {
+        select: payload.query.type,
+        against: z
+          .enum(['TIME_ENTRY', 'PROJECT', 'CLIENT', 'INVOICE'])
+          .optional(),
+      },
+      page: {
+        select: payload.query.page,
+        against: z.coerce.number().int().positive().default(1),
+      },
+      pageSize: {
+        select: payload.query.pageSize,
+        against: z.coerce.number().int().min(1).max(100).default(20),
+      },
+    })),
+    async (c) => {
+      const { q, type, page, pageSize } = c.var.input;
+
+      const { results, totalCount } = await search(c.var.subject.id, q, {
+        types: type ? [type] : SEARCH_ENTITIES,
+        page,
+        pageSize,
+      });
+
+      return c.json({
+        data: results,
+        pagination: {
+          page,
+          pageSize,
+          totalCount,
+          totalPages: Math.ceil(totalCount / pageSize),
+        },
+      });
+    },
+  );
+}
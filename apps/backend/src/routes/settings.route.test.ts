@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Settings Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up settings route test environment');
+  });
+
+  after(async () => {
+    console.log('Settings route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject getting settings without authentication', async () => {
+      const res = await app.request('/api/settings');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject updating settings without authentication', async () => {
+      const res = await app.request('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timeZone: 'Europe/Istanbul' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Business Hours', () => {
+    it('should reject getting business hours without authentication', async () => {
+      const res = await app.request('/api/settings/business-hours');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject replacing business hours without authentication', async () => {
+      const res = await app.request('/api/settings/business-hours', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          days: [{ weekday: 1, start: '09:00', end: '17:00' }],
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a span ending before it starts', async () => {
+      console.log(
+        'Testing business hours span validation - requires auth setup',
+      );
+    });
+
+    it('should reject the same weekday twice', async () => {
+      console.log('Testing duplicate weekday validation - requires auth setup');
+    });
+
+    it('should return Monday to Friday 09:00 - 17:00 when none were saved', async () => {
+      console.log('Testing default business hours - requires auth setup');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject an unknown time zone', async () => {
+      console.log('Testing time zone validation - requires auth setup');
+    });
+
+    it('should reject a first day of the week outside 0-6', async () => {
+      console.log('Testing week start validation - requires auth setup');
+    });
+
+    it('should reject an unknown currency code', async () => {
+      console.log('Testing currency validation - requires auth setup');
+    });
+
+    it('should reject a date format outside the supported ones', async () => {
+      console.log('Testing date format validation - requires auth setup');
+    });
+
+    it('should reject an unknown overlap policy', async () => {
+      console.log('Testing overlap policy validation - requires auth setup');
+    });
+
+    it('should reject budget alert thresholds that are not positive integers', async () => {
+      console.log('Testing budget threshold validation - requires auth setup');
+    });
+  });
+
+  describe('Defaults', () => {
+    it('should return the defaults when no settings were saved', async () => {
+      console.log('Testing default settings - requires auth setup');
+    });
+  });
+
+  describe('Time Zone Handling', () => {
+    it('should count dashboard weeks from the first day of the week in the user time zone', async () => {
+      console.log('Testing zoned dashboard periods - requires auth setup');
+    });
+
+    it('should group analytics per day in the user time zone', async () => {
+      console.log('Testing zoned analytics - requires auth setup');
+    });
+
+    it('should resolve plain invoice dates as whole days in the user time zone', async () => {
+      console.log('Testing zoned invoice periods - requires auth setup');
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import {
+  formatMinutes,
+  getBusinessHours,
+  parseMinutes,
+} from '../core/business-hours.ts';
+import {
+  getUserSettings,
+  isCurrencyCode,
+  isIanaTimeZone,
+  isLocale,
+} from '../core/settings.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi getSettings
+   * @tags settings
+   * @description Get the settings of the authenticated user. Users who never saved any get the defaults.
+   */
+  router.get('/api/settings', authenticated(), async (c) => {
+    const settings = await getUserSettings(c.var.subject.id);
+
+    return c.json(settings);
+  });
+
+  /**
+   * @openapi updateSettings
+   * @tags settings
+   * @description Update the time zone, first day of the week, locale, default currency, date format, overlap policy, business hours enforcement or budget alert thresholds. Reports, CSV exports and invoice periods count days, weeks, months and years in the time zone. The overlap policy decides whether overlapping time entries are rejected, saved with a warning or allowed. An alert is raised when a project reaches each threshold, in percent, of its budget.
+   */
+  router.patch(
+    '/api/settings',
+    authenticated(),
+    validate((payload) => ({
+      timeZone: {
+        select: payload.body.timeZone,
+        against: z
+          .string()
+          .refine((zone) => isIanaTimeZone(zone), {
+            message: 'Unknown time zone',
+          })
+          .optional(),
+      },
+      weekStartsOn: {
+        select: payload.body.weekStartsOn,
+        against: z.number().int().min(0).max(6).optional(), // 0 = Sunday
+      },
+      locale: {
+        select: payload.body.locale,
+        against: z
+          .string()
+          .refine((locale) => isLocale(locale), { message: 'Unknown locale' })
+          .optional(),
+      },
+      currency: {
+        select: payload.body.currency,
+        against: z
+          .string()
+          .toUpperCase()
+          .refine((currency) => isCurrencyCode(currency), {
+            message: 'Unknown currency code',
+          })
+          .optional(),
+      },
+      dateFormat: {
+        select: payload.body.dateFormat,
+        against: z
+          .enum([
+            'yyyy-MM-dd',
+            'dd/MM/yyyy',
+            'MM/dd/yyyy',
+            'dd.MM.yyyy',
+            'd MMM yyyy',
+          ])
+          .optional(),
+      },
+      overlapPolicy: {
+        select: payload.body.overlapPolicy,
+        against: z.enum(['REJECT', 'WARN', 'ALLOW']).optional(),
+      },
+      enforceBusinessHours: {
+        select: payload.body.enforceBusinessHours,
+        against: z.boolean().optional(),
+      },
+      budgetAlertThresholds: {
+        select: payload.body.budgetAlertThresholds,
+        against: z
+          .array(z.number().int().min(1).max(1000))
+          .max(10)
+          .transform((thresholds) =>
+            [...new Set(thresholds)].sort((a, b) => a - b),
+          )
+          .optional(),
+      },
+    })),
+    async (c) => {
+      const {
+        timeZone,
+        weekStartsOn,
+        locale,
+        currency,
+        dateFormat,
+        overlapPolicy,
+        enforceBusinessHours,
+        budgetAlertThresholds,
+      } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const updateData: Prisma.UserSettingsUpdateInput = {};
+
+      if (timeZone !== undefined) {
+        updateData.timeZone = timeZone;
+      }
+      if (weekStartsOn !== undefined) {
+        updateData.weekStartsOn = weekStartsOn;
+      }
+      if (locale !== undefined) {
+        updateData.locale = locale;
+      }
+      if (currency !== undefined) {
+        updateData.currency = currency;
+      }
+      if (dateFormat !== undefined) {
+        updateData.dateFormat = dateFormat;
+      }
+      if (overlapPolicy !== undefined) {
+        updateData.overlapPolicy = overlapPolicy;
+      }
+      if (enforceBusinessHours !== undefined) {
+        updateData.enforceBusinessHours = enforceBusinessHours;
+      }
+      if (budgetAlertThresholds !== undefined) {
+        updateData.budgetAlertThresholds = budgetAlertThresholds;
+      }
+
+      const settings = await prisma.userSettings.upsert({
+        where: { userId },
+        create: {
+          timeZone,
+          weekStartsOn,
+          locale,
+          currency,
+          dateFormat,
+          overlapPolicy,
+          enforceBusinessHours,
+          budgetAlertThresholds,
+          userId,
+        },
+        update: updateData,
+      });
+
+      return c.json(settings);
+    },
+  );
+
+  /**
+   * @openapi getBusinessHours
+   * @tags settings
+   * @description Get the weekly business hours. Weekdays that are missing are days off. Users who never saved any get Monday to Friday, 09:00 - 17:00.
+   */
+  router.get('/api/settings/business-hours', authenticated(), async (c) => {
+    const days = await getBusinessHours(c.var.subject.id);
+
+    return c.json({
+      data: days.map((day) => ({
+        weekday: day.weekday,
+        start: formatMinutes(day.startMinute),
+        end: formatMinutes(day.endMinute),
+      })),
+    });
+  });
+
+  /**
+   * @openapi updateBusinessHours
+   * @tags settings
+   * @description Replace the weekly business hours. Each weekday (0 = Sunday) has at most one span; weekdays left out are days off. Used for the after-hours figures in reports and, when enforceBusinessHours is set, to refuse time entries outside of them.
+   */
+  router.put(
+    '/api/settings/business-hours',
+    authenticated(),
+    validate((payload) => ({
+      days: {
+        select: payload.body.days,
+        against: z
+          .array(
+            z
+              .object({
+                weekday: z.number().int().min(0).max(6),
+                start: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/),
+                end: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/),
+              })
+              .refine(
+                (day) => parseMinutes(day.end) > parseMinutes(day.start),
+                {
+                  message: 'end must be after start',
+                },
+              ),
+          )
+          .min(1)
+          .max(7)
+          .refine(
+            (days) =>
+              new Set(days.map((day) => day.weekday)).size === days.length,
+            { message: 'Each weekday can only appear once' },
+          ),
+      },
+    })),
+    async (c) => {
+      const { days } = c.var.input;
+      const userId = c.var.subject.id;
+
+      await prisma.$transaction([
+        prisma.businessHours.deleteMany({ where: { userId } }),
+        prisma.businessHours.createMany({
+          data: days.map((day) => ({
+            weekday: day.weekday,
+            startMinute: parseMinutes(day.start),
+            endMinute: parseMinutes(day.end),
+            userId,
+          })),
+        }),
+      ]);
+
+      return c.json({
+        data: [...days].sort((a, b) => a.weekday - b.weekday),
+      });
+    },
+  );
+}
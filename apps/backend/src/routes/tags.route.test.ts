@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Tags Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up tags route test environment');
+  });
+
+  after(async () => {
+    console.log('Tags route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject listing tags without authentication token', async () => {
+      const res = await app.request('/api/tags');
+      assert.strictEqual(res.status, 401);
+
+      const data = (await res.json()) as { error: string; cause: any };
+      assert.strictEqual(data.error, 'Authentication required');
+      assert.strictEqual(data.cause.code, 'api/unauthenticated');
+    });
+
+    it('should reject POST requests without authentication', async () => {
+      const res = await app.request('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'meeting' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject PATCH requests without authentication', async () => {
+      const res = await app.request('/api/tags/fake-id', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'bugfix' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject DELETE requests without authentication', async () => {
+      const res = await app.request('/api/tags/fake-id', {
+        method: 'DELETE',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Input Validation - Attack Invalid Data', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an empty tag name', async () => {
+      const res = await app.request('/api/tags', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({ name: '' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a color that is not a hex code', async () => {
+      const res = await app.request('/api/tags', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({ name: 'design', color: 'red' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Business Rules', () => {
+    it('should reject duplicate tag names per user', async () => {
+      console.log('Testing duplicate tag names - requires auth setup');
+    });
+
+    it('should reject tags of other users on time entries', async () => {
+      console.log(
+        'Testing tag ownership on time entries - requires auth setup',
+      );
+    });
+
+    it('should keep time entries when a tag is deleted', async () => {
+      console.log('Testing tag deletion - requires auth setup');
+    });
+  });
+});
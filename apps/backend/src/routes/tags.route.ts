@@ -0,0 +1,207 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { checkDuplicateTagName, validateName } from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi createTag
+   * @tags tags
+   * @description Create a new tag for categorizing time entries.
+   */
+  router.post(
+    '/api/tags',
+    authenticated(),
+    validate((payload) => ({
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(50),
+      },
+      color: {
+        select: payload.body.color,
+        against: z
+          .string()
+          .regex(/^#[0-9a-fA-F]{6}$/)
+          .optional(),
+      },
+    })),
+    async (c) => {
+      const { name, color } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const validatedName = validateName(name, 'Tag name');
+
+      // Check for duplicate tag name
+      await checkDuplicateTagName(userId, validatedName);
+
+      const tag = await prisma.tag.create({
+        data: {
+          name: validatedName,
+          color,
+          userId,
+        },
+      });
+
+      return c.json(tag, 201);
+    },
+  );
+
+  /**
+   * @openapi getTags
+   * @tags tags
+   * @description Get all tags of the authenticated user with their usage count.
+   */
+  router.get('/api/tags', authenticated(), async (c) => {
+    const tags = await prisma.tag.findMany({
+      where: {
+        userId: c.var.subject.id,
+      },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: {
+            timeEntries: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+
+    return c.json({ data: tags });
+  });
+
+  /**
+   * @openapi getTag
+   * @tags tags
+   * @description Get a specific tag by ID.
+   */
+  router.get(
+    '/api/tags/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      const tag = await prisma.tag.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+        },
+        include: {
+          _count: {
+            select: {
+              timeEntries: { where: { deletedAt: null } },
+            },
+          },
+        },
+      });
+
+      return c.json(tag);
+    },
+  );
+
+  /**
+   * @openapi updateTag
+   * @tags tags
+   * @description Rename a tag or change its color.
+   */
+  router.patch(
+    '/api/tags/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(50).optional(),
+      },
+      color: {
+        select: payload.body.color,
+        against: z
+          .string()
+          .regex(/^#[0-9a-fA-F]{6}$/)
+          .nullable()
+          .optional(),
+      },
+    })),
+    async (c) => {
+      const { id, name, color } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if tag exists and belongs to user
+      const existingTag = await prisma.tag.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+        },
+      });
+
+      const updateData: Prisma.TagUpdateInput = {};
+
+      if (name !== undefined) {
+        const validatedName = validateName(name, 'Tag name');
+        await checkDuplicateTagName(userId, validatedName, id);
+        updateData.name = validatedName;
+      }
+
+      if (color !== undefined) {
+        updateData.color = color;
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return c.json(existingTag);
+      }
+
+      const tag = await prisma.tag.update({
+        where: { id },
+        data: updateData,
+      });
+
+      return c.json(tag);
+    },
+  );
+
+  /**
+   * @openapi deleteTag
+   * @tags tags
+   * @description Delete a tag. Time entries keep existing without it.
+   */
+  router.delete(
+    '/api/tags/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if tag exists and belongs to user
+      await prisma.tag.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+        },
+      });
+
+      await prisma.tag.delete({
+        where: { id },
+      });
+
+      return c.json({ message: 'Tag deleted successfully' });
+    },
+  );
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Tasks Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up tasks route test environment');
+  });
+
+  after(async () => {
+    console.log('Tasks route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject listing tasks without authentication token', async () => {
+      const res = await app.request('/api/tasks');
+      assert.strictEqual(res.status, 401);
+
+      const data = (await res.json()) as { error: string; cause: any };
+      assert.strictEqual(data.error, 'Authentication required');
+      assert.strictEqual(data.cause.code, 'api/unauthenticated');
+    });
+
+    it('should reject POST requests without authentication', async () => {
+      const res = await app.request('/api/tasks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: '123e4567-e89b-12d3-a456-426614174000',
+          name: 'Homepage layout',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject PATCH requests without authentication', async () => {
+      const res = await app.request('/api/tasks/fake-id', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'DONE' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject DELETE requests without authentication', async () => {
+      const res = await app.request('/api/tasks/fake-id', {
+        method: 'DELETE',
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Input Validation - Attack Invalid Data', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an empty task name', async () => {
+      const res = await app.request('/api/tasks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          projectId: '123e4567-e89b-12d3-a456-426614174000',
+          name: '',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject an unknown task status', async () => {
+      const res = await app.request('/api/tasks/fake-id', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({ status: 'BLOCKED' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a negative estimate', async () => {
+      const res = await app.request('/api/tasks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          projectId: '123e4567-e89b-12d3-a456-426614174000',
+          name: 'Homepage layout',
+          estimateHours: -4,
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Business Rules', () => {
+    it('should reject duplicate task names within a project', async () => {
+      console.log('Testing duplicate task names - requires auth setup');
+    });
+
+    it('should reject tasks of another project on time entries', async () => {
+      console.log(
+        'Testing task and project of time entries - requires auth setup',
+      );
+    });
+
+    it('should reject new time on DONE tasks', async () => {
+      console.log('Testing DONE task time - requires auth setup');
+    });
+
+    it('should bill task time at the task rate when it has one', async () => {
+      console.log('Testing task rate override - requires auth setup');
+    });
+
+    it('should refuse to delete a task with tracked time', async () => {
+      console.log('Testing task deletion - requires auth setup');
+    });
+  });
+});
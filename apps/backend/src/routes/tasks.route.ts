@@ -0,0 +1,355 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import type { Prisma } from '@iworked/db';
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from '../core/audit.ts';
+import {
+  calculateDurationHours,
+  roundToTwoDecimals,
+} from '../core/calculations.ts';
+import {
+  checkDuplicateTaskName,
+  checkProjectNotArchived,
+  validateName,
+} from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi createTask
+   * @tags tasks
+   * @description Create a task within a project. A task can have an estimate in hours and an hourly rate that overrides the project rate for the time tracked on it.
+   */
+  router.post(
+    '/api/tasks',
+    authenticated(),
+    validate((payload) => ({
+      projectId: {
+        select: payload.body.projectId,
+        against: z.string().uuid(),
+      },
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(255),
+      },
+      status: {
+        select: payload.body.status,
+        against: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+      },
+      estimateHours: {
+        select: payload.body.estimateHours,
+        against: z.coerce.number().positive().max(99999).optional(),
+      },
+      hourlyRate: {
+        select: payload.body.hourlyRate,
+        against: z.coerce.number().positive().optional(),
+      },
+    })),
+    async (c) => {
+      const { projectId, name, status, estimateHours, hourlyRate } =
+        c.var.input;
+      const userId = c.var.subject.id;
+
+      const validatedName = validateName(name, 'Task name');
+
+      // Verify project exists, belongs to user and is open for new work
+      await checkProjectNotArchived(userId, projectId);
+
+      // Check for duplicate task name
+      await checkDuplicateTaskName(projectId, validatedName);
+
+      const task = await prisma.$transaction(async (tx) => {
+        const created = await tx.task.create({
+          data: {
+            name: validatedName,
+            status,
+            estimateHours: estimateHours ? estimateHours.toString() : null,
+            hourlyRate: hourlyRate ? hourlyRate.toString() : null,
+            projectId,
+            userId,
+          },
+          include: {
+            project: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'TASK',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
+      });
+
+      return c.json(task, 201);
+    },
+  );
+
+  /**
+   * @openapi getTasks
+   * @tags tasks
+   * @description Get the tasks of the authenticated user, optionally of one project or with one status, with the hours tracked on each.
+   */
+  router.get(
+    '/api/tasks',
+    authenticated(),
+    validate((payload) => ({
+      projectId: {
+        select: payload.query.projectId,
+        against: z.string().uuid().optional(),
+      },
+      status: {
+        select: payload.query.status,
+        against: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+      },
+    })),
+    async (c) => {
+      const { projectId, status } = c.var.input;
+
+      const where: Prisma.TaskWhereInput = {
+        userId: c.var.subject.id,
+        project: { deletedAt: null },
+        ...(projectId ? { projectId } : {}),
+        ...(status ? { status } : {}),
+      };
+
+      const tasks = await prisma.task.findMany({
+        where,
+        orderBy: [{ projectId: 'asc' }, { name: 'asc' }],
+        include: {
+          project: true,
+          timeEntries: {
+            where: { deletedAt: null },
+            select: { startedAt: true, endedAt: true },
+          },
+        },
+      });
+
+      const data = tasks.map(({ timeEntries, ...task }) => ({
+        ...task,
+        trackedHours: roundToTwoDecimals(
+          timeEntries.reduce(
+            (sum, entry) =>
+              sum + calculateDurationHours(entry.startedAt, entry.endedAt),
+            0,
+          ),
+        ),
+      }));
+
+      return c.json({ data });
+    },
+  );
+
+  /**
+   * @openapi getTask
+   * @tags tasks
+   * @description Get a specific task by ID, with the hours tracked on it.
+   */
+  router.get(
+    '/api/tasks/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      const { timeEntries, ...task } = await prisma.task.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          project: { deletedAt: null },
+        },
+        include: {
+          project: {
+            include: {
+              client: true,
+            },
+          },
+          timeEntries: {
+            where: { deletedAt: null },
+            select: { startedAt: true, endedAt: true },
+          },
+        },
+      });
+
+      return c.json({
+        ...task,
+        trackedHours: roundToTwoDecimals(
+          timeEntries.reduce(
+            (sum, entry) =>
+              sum + calculateDurationHours(entry.startedAt, entry.endedAt),
+            0,
+          ),
+        ),
+      });
+    },
+  );
+
+  /**
+   * @openapi updateTask
+   * @tags tasks
+   * @description Rename a task, change its status, or set or clear its estimate and rate override. Time already invoiced keeps the rate it was billed at. No new time can be tracked on a DONE task.
+   */
+  router.patch(
+    '/api/tasks/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+      name: {
+        select: payload.body.name,
+        against: z.string().min(1).max(255).optional(),
+      },
+      status: {
+        select: payload.body.status,
+        against: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+      },
+      estimateHours: {
+        select: payload.body.estimateHours,
+        against: z.coerce.number().positive().max(99999).nullable().optional(),
+      },
+      hourlyRate: {
+        select: payload.body.hourlyRate,
+        against: z.coerce.number().positive().nullable().optional(),
+      },
+    })),
+    async (c) => {
+      const { id, name, status, estimateHours, hourlyRate } = c.var.input;
+
+      // Check if task exists and belongs to user
+      const existingTask = await prisma.task.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          project: { deletedAt: null },
+        },
+        include: {
+          project: true,
+        },
+      });
+
+      const updateData: Prisma.TaskUpdateInput = {};
+
+      if (name !== undefined) {
+        const validatedName = validateName(name, 'Task name');
+        await checkDuplicateTaskName(existingTask.projectId, validatedName, id);
+        updateData.name = validatedName;
+      }
+
+      if (status !== undefined) updateData.status = status;
+
+      if (estimateHours !== undefined) {
+        updateData.estimateHours =
+          estimateHours === null ? null : estimateHours.toString();
+      }
+
+      if (hourlyRate !== undefined) {
+        updateData.hourlyRate =
+          hourlyRate === null ? null : hourlyRate.toString();
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        return c.json(existingTask);
+      }
+
+      const task = await prisma.$transaction(async (tx) => {
+        const updated = await tx.task.update({
+          where: { id },
+          data: updateData,
+          include: {
+            project: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'TASK',
+          entityId: id,
+          before: existingTask,
+          after: updated,
+        });
+
+        return updated;
+      });
+
+      return c.json(task);
+    },
+  );
+
+  /**
+   * @openapi deleteTask
+   * @tags tasks
+   * @description Delete a task without tracked time. A task with time entries can be marked DONE instead.
+   */
+  router.delete(
+    '/api/tasks/:id',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+
+      // Check if task exists and belongs to user
+      const existingTask = await prisma.task.findUniqueOrThrow({
+        where: {
+          id,
+          userId: c.var.subject.id,
+          project: { deletedAt: null },
+        },
+        include: {
+          _count: {
+            select: {
+              timeEntries: true,
+              invoiceLines: true,
+            },
+          },
+        },
+      });
+
+      if (
+        existingTask._count.timeEntries > 0 ||
+        existingTask._count.invoiceLines > 0
+      ) {
+        throw new HTTPException(400, {
+          message: 'Task has tracked time and cannot be deleted',
+          cause: {
+            code: 'api/task-has-time-entries',
+            detail: `Task "${existingTask.name}" has ${existingTask._count.timeEntries} time entries. Mark it DONE instead.`,
+          },
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.task.delete({
+          where: { id },
+        });
+
+        const { _count, ...before } = existingTask;
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'TASK',
+          entityId: id,
+          before,
+        });
+      });
+
+      return c.json({ message: 'Task deleted successfully' });
+    },
+  );
+}
@@ -233,6 +233,180 @@ describe('Time Entries Route - Error-First Testing', () => {
     });
   });
 
+  describe('Billable Flag and Tags', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject a non-boolean billable flag', async () => {
+      const res = await app.request('/api/time-entries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          startedAt: '2025-07-25T09:00:00Z',
+          endedAt: '2025-07-25T10:00:00Z',
+          projectId: 'valid-uuid-format',
+          isBillable: 'sometimes',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject malformed tag IDs', async () => {
+      const res = await app.request('/api/time-entries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          startedAt: '2025-07-25T09:00:00Z',
+          endedAt: '2025-07-25T10:00:00Z',
+          projectId: 'valid-uuid-format',
+          tagIds: ['not-a-uuid'],
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should default to the project billable setting', async () => {
+      console.log('Testing billable default - requires auth setup');
+    });
+
+    it('should keep non-billable entries off invoices', async () => {
+      console.log('Testing non-billable invoicing - requires auth setup');
+    });
+  });
+
+  describe('Tasks', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject a malformed task ID', async () => {
+      const res = await app.request('/api/time-entries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          startedAt: '2025-07-25T09:00:00Z',
+          endedAt: '2025-07-25T10:00:00Z',
+          projectId: 'valid-uuid-format',
+          taskId: 'not-a-uuid',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject filtering by task without authentication', async () => {
+      const res = await app.request('/api/time-entries?taskId=none');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a task of another project', async () => {
+      console.log('Testing task and project mismatch - requires auth setup');
+    });
+
+    it('should take entries moved to another project off their task', async () => {
+      console.log('Testing bulk project change - requires auth setup');
+    });
+  });
+
+  describe('CSV Import', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+    const exportedCSV = [
+      'Start Date/Time,End Date/Time,Duration (Hours),Rounded Duration (Hours),Client,Project,Hourly Rate,Amount,Note,Billable,Locked',
+      '2025-07-25T09:00:00.000Z,2025-07-25T10:00:00.000Z,1,1,Acme,Website,50,50,"Design, review",Yes,No',
+    ].join('\n');
+
+    it('should reject imports without authentication', async () => {
+      const form = new FormData();
+      form.append('file', new File([exportedCSV], 'time-entries.csv'));
+
+      const res = await app.request('/api/time-entries/import', {
+        method: 'POST',
+        body: form,
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject dry runs with an invalid token', async () => {
+      const form = new FormData();
+      form.append('file', new File([exportedCSV], 'time-entries.csv'));
+      form.append('dryRun', 'true');
+
+      const res = await app.request('/api/time-entries/import', {
+        method: 'POST',
+        headers: { Authorization: invalidAuthHeader },
+        body: form,
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should accept the format of the time entries export', async () => {
+      console.log('Testing export round trip - requires auth setup');
+    });
+
+    it('should report row-level validation and overlap errors on dry run', async () => {
+      console.log('Testing import dry run - requires auth setup');
+    });
+
+    it('should create missing clients and projects only when asked', async () => {
+      console.log('Testing import name resolution - requires auth setup');
+    });
+  });
+
+  describe('Imports from Other Tools', () => {
+    const togglCSV = [
+      'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount (USD)',
+      'Jane,jane@example.com,Acme,Website,,Design review,Yes,2025-07-25,09:00:00,2025-07-25,10:30:00,01:30:00,,75.00',
+    ].join('\n');
+
+    it('should reject imports without authentication', async () => {
+      const form = new FormData();
+      form.append('file', new File([togglCSV], 'toggl.csv'));
+
+      const res = await app.request('/api/time-entries/import/toggl', {
+        method: 'POST',
+        body: form,
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject unsupported sources', async () => {
+      const form = new FormData();
+      form.append('file', new File([togglCSV], 'toggl.csv'));
+
+      const res = await app.request('/api/time-entries/import/timely', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer fake-token' },
+        body: form,
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should skip entries imported before', async () => {
+      console.log('Testing idempotent re-import - requires auth setup');
+    });
+
+    it('should report overlapping rows as conflicting under REJECT', async () => {
+      console.log('Testing import conflicts - requires auth setup');
+    });
+
+    it('should import overlapping rows and report them under WARN', async () => {
+      console.log('Testing import overlap warnings - requires auth setup');
+    });
+  });
+
   describe('URL Parameter Validation', () => {
     const invalidAuthHeader = 'Bearer fake-token';
 
@@ -296,6 +470,18 @@ describe('Time Entries Route - Error-First Testing', () => {
 
       assert.strictEqual(res.status, 401);
     });
+
+    it('should reject a search filter without authentication', async () => {
+      const res = await app.request('/api/time-entries?q=checkout%20bug', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should only list entries whose note matches the search filter', async () => {
+      console.log('Testing time entry search filter - requires auth setup');
+    });
   });
 
   describe('Immutability Rules - Critical Business Rule FR-7', () => {
@@ -321,6 +507,64 @@ describe('Time Entries Route - Error-First Testing', () => {
     });
   });
 
+  describe('Overlap Policy', () => {
+    it('should reject listing overlaps without authentication', async () => {
+      const res = await app.request(
+        '/api/time-entries/overlaps?startDate=2025-07-01T00:00:00Z&endDate=2025-08-01T00:00:00Z',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject overlapping entries with the REJECT policy', async () => {
+      console.log('Testing REJECT overlap policy - requires auth setup');
+    });
+
+    it('should save overlapping entries and return the overlaps with the WARN policy', async () => {
+      console.log('Testing WARN overlap policy - requires auth setup');
+    });
+
+    it('should skip the overlap check with the ALLOW policy', async () => {
+      console.log('Testing ALLOW overlap policy - requires auth setup');
+    });
+
+    it('should list overlapping pairs but not entries that only touch', async () => {
+      console.log('Testing overlap listing - requires auth setup');
+    });
+  });
+
+  describe('Business Hours Enforcement', () => {
+    it('should reject entries outside business hours when enforced', async () => {
+      console.log('Testing business hours enforcement - requires auth setup');
+    });
+
+    it('should reject entries on days off when enforced', async () => {
+      console.log('Testing day off enforcement - requires auth setup');
+    });
+
+    it('should accept entries outside business hours when not enforced', async () => {
+      console.log('Testing unenforced business hours - requires auth setup');
+    });
+  });
+
+  describe('Revision History', () => {
+    it('should reject getting the history without authentication', async () => {
+      const res = await app.request(
+        '/api/time-entries/123e4567-e89b-12d3-a456-426614174000/history',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should list the creation and every update, oldest first', async () => {
+      console.log('Testing time entry history - requires auth setup');
+    });
+
+    it('should keep the history of a deleted entry', async () => {
+      console.log('Testing deleted entry history - requires auth setup');
+    });
+  });
+
   describe('System Invariants - Data Consistency', () => {
     it('should maintain project-time entry relationships', async () => {
       console.log(
@@ -357,6 +601,34 @@ describe('Time Entries Route - Error-First Testing', () => {
     });
   });
 
+  describe('Cursor Pagination and Sorting', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an unknown sort field', async () => {
+      const res = await app.request('/api/time-entries?sort=unknown', {
+        headers: { Authorization: invalidAuthHeader },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject paging with a cursor without authentication', async () => {
+      const res = await app.request(
+        '/api/time-entries?sort=startedAt&order=asc&cursor=abc',
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject a cursor made for another sort', async () => {
+      console.log('Testing cursor and sort mismatch - requires auth setup');
+    });
+
+    it('should keep entries with the same start time in a stable order across pages', async () => {
+      console.log('Testing cursor pages - requires auth and database setup');
+    });
+  });
+
   describe('Happy Path - Normal Operation', () => {
     it('should accept valid time entry creation', async () => {
       console.log(
@@ -382,4 +654,36 @@ describe('Time Entries Route - Error-First Testing', () => {
       console.log('Date range filtering test - requires authentication setup');
     });
   });
+
+  describe('Trash', () => {
+    it('should reject deleting a time entry without authentication', async () => {
+      const res = await app.request(
+        '/api/time-entries/123e4567-e89b-12d3-a456-426614174000',
+        { method: 'DELETE' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject restoring a time entry without authentication', async () => {
+      const res = await app.request(
+        '/api/time-entries/123e4567-e89b-12d3-a456-426614174000/restore',
+        { method: 'POST' },
+      );
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should hide deleted time entries from lists, reports and exports', async () => {
+      console.log('Trashed time entry filtering test - requires auth setup');
+    });
+
+    it('should refuse restoring a time entry whose project is in the trash', async () => {
+      console.log('Trashed project restore test - requires auth setup');
+    });
+
+    it('should apply the overlap policy when restoring', async () => {
+      console.log('Restore overlap test - requires auth setup');
+    });
+  });
 });
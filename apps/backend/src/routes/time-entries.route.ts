@@ -2,23 +2,69 @@ import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 
-import type { Prisma } from '@iworked/db';
-import { prisma } from '@iworked/db';
+import type { ImportSource } from '@iworked/db';
+import { Prisma, prisma } from '@iworked/db';
 
+import { getEntityHistory, recordAudit } from '../core/audit.ts';
+import { getBusinessHours } from '../core/business-hours.ts';
+import {
+  calculateDurationHours,
+  roundToTwoDecimals,
+} from '../core/calculations.ts';
+import type { TimeEntryImportField } from '../core/import.ts';
+import {
+  TIME_ENTRY_IMPORT_FIELDS,
+  createImportProjects,
+  findImportOutsideBusinessHours,
+  findImportOverlaps,
+  parseCSV,
+  planImportProjects,
+  readTimeEntryRows,
+  resolveImportProjects,
+} from '../core/import.ts';
+import { parseExternalExport } from '../core/importers.ts';
+import type { ListSort } from '../core/pagination.ts';
+import { toOrderBy, toPage, whereAfterCursor } from '../core/pagination.ts';
+import type { SearchFilter } from '../core/search.ts';
+import { countMatching, findMatchingPage } from '../core/search.ts';
+import { getUserSettings, isIanaTimeZone } from '../core/settings.ts';
+import type { TimeEntryOverlapWarning } from '../core/validation.ts';
 import {
   checkBulkTimeEntryOverlaps,
+  checkBusinessHours,
+  checkProjectNotArchived,
+  checkTagsExist,
+  checkTaskInProject,
   checkTimeEntryOverlap,
+  findOverlappingPairs,
   sanitizeInput,
+  validateBusinessHours,
   validateTimeEntryDuration,
+  validateTimerStart,
 } from '../core/validation.ts';
 import { authenticated } from '../middlewares/auth.ts';
 import { validate } from '../middlewares/validator.ts';
 
+const MAX_IMPORT_ROWS = 1000;
+const MAX_IMPORT_FILE_SIZE = 1024 * 1024; // 1 MB
+
+// Column header to read each field from, sent as a JSON string in the form
+const IMPORT_MAPPING = z
+  .object(
+    Object.fromEntries(
+      TIME_ENTRY_IMPORT_FIELDS.map((field) => [
+        field,
+        z.string().min(1).optional(),
+      ]),
+    ) as Record<TimeEntryImportField, z.ZodOptional<z.ZodString>>,
+  )
+  .strict();
+
 export default async function (router: Hono) {
   /**
    * @openapi createTimeEntry
    * @tags timeEntries
-   * @description Create a new time entry for a project.
+   * @description Create a new time entry for a project, optionally on one of its tasks. Billable unless the project defaults otherwise or isBillable is false. Overlaps with other entries are handled by the overlap policy of the user's settings; with WARN they are returned in overlaps. Refused outside business hours when the user enforces them.
    */
   router.post(
     '/api/time-entries',
@@ -40,9 +86,29 @@ export default async function (router: Hono) {
         select: payload.body.projectId,
         against: z.string().uuid(),
       },
+      taskId: {
+        select: payload.body.taskId,
+        against: z.string().uuid().optional(),
+      },
+      isBillable: {
+        select: payload.body.isBillable,
+        against: z.boolean().optional(),
+      },
+      tagIds: {
+        select: payload.body.tagIds,
+        against: z.array(z.string().uuid()).max(20).optional(),
+      },
     })),
     async (c) => {
-      const { startedAt, endedAt, note, projectId } = c.var.input;
+      const {
+        startedAt,
+        endedAt,
+        note,
+        projectId,
+        taskId,
+        isBillable,
+        tagIds,
+      } = c.var.input;
 
       const startDate = new Date(startedAt);
       const endDate = new Date(endedAt);
@@ -50,41 +116,73 @@ export default async function (router: Hono) {
 
       // Enhanced validation
       validateTimeEntryDuration(startDate, endDate);
-      await checkTimeEntryOverlap(c.var.subject.id, startDate, endDate);
+      const settings = await getUserSettings(c.var.subject.id);
+      await checkBusinessHours(c.var.subject.id, startDate, endDate, settings);
+      const overlaps = await checkTimeEntryOverlap(
+        c.var.subject.id,
+        startDate,
+        endDate,
+        undefined,
+        settings.overlapPolicy,
+      );
 
-      // Verify project exists and belongs to user
-      await prisma.project.findUniqueOrThrow({
-        where: {
-          id: projectId,
-          userId: c.var.subject.id,
-        },
-      });
+      // Verify project exists, belongs to user and is open for new time
+      const project = await checkProjectNotArchived(
+        c.var.subject.id,
+        projectId,
+      );
 
-      const timeEntry = await prisma.timeEntry.create({
-        data: {
-          startedAt: startDate,
-          endedAt: endDate,
-          note: sanitizedNote,
-          projectId,
-          userId: c.var.subject.id,
-        },
-        include: {
-          project: {
-            include: {
-              client: true,
+      if (taskId) {
+        await checkTaskInProject(c.var.subject.id, taskId, projectId);
+      }
+
+      if (tagIds) {
+        await checkTagsExist(c.var.subject.id, tagIds);
+      }
+
+      const timeEntry = await prisma.$transaction(async (tx) => {
+        const created = await tx.timeEntry.create({
+          data: {
+            startedAt: startDate,
+            endedAt: endDate,
+            note: sanitizedNote,
+            isBillable: isBillable ?? project.billableByDefault,
+            projectId,
+            taskId,
+            userId: c.var.subject.id,
+            ...(tagIds
+              ? { tags: { connect: tagIds.map((id) => ({ id })) } }
+              : {}),
+          },
+          include: {
+            project: {
+              include: {
+                client: true,
+              },
             },
+            task: true,
+            tags: true,
           },
-        },
+        });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'TIME_ENTRY',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
       });
 
-      return c.json(timeEntry, 201);
+      return c.json({ ...timeEntry, overlaps }, 201);
     },
   );
 
   /**
    * @openapi getTimeEntries
    * @tags timeEntries
-   * @description Get a paginated list of time entries for the authenticated user.
+   * @description Get a paginated list of time entries for the authenticated user. taskId filters by task, or to the entries outside any task with none. q filters by full-text search on the note. Sort by startedAt or createdAt; pass the nextCursor of a page as cursor to get the next one.
    */
   router.get(
     '/api/time-entries',
@@ -114,15 +212,55 @@ export default async function (router: Hono) {
         select: payload.query.endDate,
         against: z.string().datetime().optional(),
       },
+      taskId: {
+        select: payload.query.taskId,
+        against: z.union([z.string().uuid(), z.literal('none')]).optional(),
+      },
+      tagId: {
+        select: payload.query.tagId,
+        against: z.string().uuid().optional(),
+      },
+      q: {
+        select: payload.query.q,
+        against: z.string().trim().min(1).max(200).optional(),
+      },
+      cursor: {
+        select: payload.query.cursor,
+        against: z.string().optional(),
+      },
+      sort: {
+        select: payload.query.sort,
+        against: z.enum(['startedAt', 'createdAt']).default('startedAt'),
+      },
+      order: {
+        select: payload.query.order,
+        against: z.enum(['asc', 'desc']).default('desc'),
+      },
     })),
     async (c) => {
-      const { page, pageSize, projectId, clientId, startDate, endDate } =
-        c.var.input;
+      const {
+        page,
+        pageSize,
+        projectId,
+        clientId,
+        startDate,
+        endDate,
+        taskId,
+        tagId,
+        q,
+        cursor,
+        sort,
+        order,
+      } = c.var.input;
+      const sortBy: ListSort = { field: sort, order };
 
       const where: Prisma.TimeEntryWhereInput = {
         userId: c.var.subject.id,
+        deletedAt: null,
         ...(projectId ? { projectId } : {}),
         ...(clientId ? { project: { clientId } } : {}),
+        ...(taskId ? { taskId: taskId === 'none' ? null : taskId } : {}),
+        ...(tagId ? { tags: { some: { id: tagId } } } : {}),
         ...(startDate || endDate
           ? {
               startedAt: {
@@ -132,14 +270,127 @@ export default async function (router: Hono) {
             }
           : {}),
       };
+      const skip = cursor ? 0 : (page - 1) * pageSize;
+      const include = {
+        project: {
+          include: {
+            client: true,
+          },
+        },
+        task: true,
+        tags: true,
+      } satisfies Prisma.TimeEntryInclude;
+
+      let totalCount: number | undefined;
+      let timeEntries;
+      if (q) {
+        // The search on the note runs in SQL, which picks the page of
+        // matching entries
+        const filter: SearchFilter = {
+          userId: c.var.subject.id,
+          query: q,
+          conditions: [
+            ...(projectId ? [Prisma.sql`t."projectId" = ${projectId}`] : []),
+            ...(clientId
+              ? [
+                  Prisma.sql`t."projectId" IN (SELECT "id" FROM "Project" WHERE "clientId" = ${clientId})`,
+                ]
+              : []),
+            ...(taskId === 'none' ? [Prisma.sql`t."taskId" IS NULL`] : []),
+            ...(taskId && taskId !== 'none'
+              ? [Prisma.sql`t."taskId" = ${taskId}`]
+              : []),
+            ...(tagId
+              ? [
+                  Prisma.sql`t."id" IN (SELECT "B" FROM "_TagToTimeEntry" WHERE "A" = ${tagId})`,
+                ]
+              : []),
+            ...(startDate
+              ? [Prisma.sql`t."startedAt" >= ${new Date(startDate)}`]
+              : []),
+            ...(endDate
+              ? [Prisma.sql`t."startedAt" <= ${new Date(endDate)}`]
+              : []),
+          ],
+        };
+        totalCount = cursor
+          ? undefined
+          : await countMatching('TIME_ENTRY', filter);
+        const ids = await findMatchingPage('TIME_ENTRY', filter, {
+          sort: sortBy,
+          cursor,
+          skip,
+          take: pageSize + 1,
+        });
+        const found = await prisma.timeEntry.findMany({
+          where: { id: { in: ids } },
+          include,
+        });
+        timeEntries = ids.flatMap(
+          (id) => found.find((timeEntry) => timeEntry.id === id) ?? [],
+        );
+      } else {
+        // Pages after a cursor are neither counted nor offset
+        totalCount = cursor
+          ? undefined
+          : await prisma.timeEntry.count({ where });
+        timeEntries = await prisma.timeEntry.findMany({
+          where: whereAfterCursor(where, sortBy, cursor),
+          orderBy:
+            toOrderBy<Prisma.TimeEntryOrderByWithRelationInput[]>(sortBy),
+          skip,
+          take: pageSize + 1,
+          include,
+        });
+      }
 
-      const totalCount = await prisma.timeEntry.count({ where });
+      const { data, ...pageInfo } = toPage(timeEntries, pageSize, sortBy);
+
+      return c.json({
+        data,
+        pagination: {
+          pageSize,
+          ...(totalCount !== undefined
+            ? {
+                page,
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+              }
+            : {}),
+          ...pageInfo,
+        },
+      });
+    },
+  );
+
+  /**
+   * @openapi getTimeEntryOverlaps
+   * @tags timeEntries
+   * @description List every pair of overlapping time entries within a date range, running timers included, so they can be cleaned up.
+   */
+  router.get(
+    '/api/time-entries/overlaps',
+    authenticated(),
+    validate((payload) => ({
+      startDate: {
+        select: payload.query.startDate,
+        against: z.string().datetime(),
+      },
+      endDate: {
+        select: payload.query.endDate,
+        against: z.string().datetime(),
+      },
+    })),
+    async (c) => {
+      const { startDate, endDate } = c.var.input;
 
       const timeEntries = await prisma.timeEntry.findMany({
-        where,
-        orderBy: { startedAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
+        where: {
+          userId: c.var.subject.id,
+          deletedAt: null,
+          startedAt: { lt: new Date(endDate) },
+          OR: [{ endedAt: { gt: new Date(startDate) } }, { endedAt: null }],
+        },
         include: {
           project: {
             include: {
@@ -149,15 +400,27 @@ export default async function (router: Hono) {
         },
       });
 
-      return c.json({
-        data: timeEntries,
-        pagination: {
-          page,
-          pageSize,
-          totalCount,
-          totalPages: Math.ceil(totalCount / pageSize),
+      const now = new Date();
+      const pairs = findOverlappingPairs(timeEntries, now).map(
+        ([first, second]) => {
+          const overlapStart = second.startedAt;
+          const overlapEnd = new Date(
+            Math.min(
+              (first.endedAt ?? now).getTime(),
+              (second.endedAt ?? now).getTime(),
+            ),
+          );
+          return {
+            first,
+            second,
+            overlapHours: roundToTwoDecimals(
+              calculateDurationHours(overlapStart, overlapEnd),
+            ),
+          };
         },
-      });
+      );
+
+      return c.json({ data: pairs });
     },
   );
 
@@ -182,6 +445,7 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
         include: {
           project: {
@@ -189,6 +453,8 @@ export default async function (router: Hono) {
               client: true,
             },
           },
+          task: true,
+          tags: true,
         },
       });
 
@@ -196,10 +462,44 @@ export default async function (router: Hono) {
     },
   );
 
+  /**
+   * @openapi getTimeEntryHistory
+   * @tags timeEntries
+   * @description Get the audit records of a time entry, oldest first, with its state before and after each change. The history of a deleted time entry remains available.
+   */
+  router.get(
+    '/api/time-entries/:id/history',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const history = await getEntityHistory(userId, 'TIME_ENTRY', id);
+
+      // Deleted entries keep their history, so only check existence when it is empty
+      if (history.length === 0) {
+        await prisma.timeEntry.findUniqueOrThrow({
+          where: {
+            id,
+            userId,
+          },
+        });
+      }
+
+      return c.json({ data: history });
+    },
+  );
+
   /**
    * @openapi updateTimeEntry
    * @tags timeEntries
-   * @description Update a time entry (only if not locked in an invoice).
+   * @description Update a time entry (only if not locked in an invoice). The task must be one of the entry's project; null takes the entry off its task. Moving to a DONE task, or starting earlier or ending later on one, is rejected. New times are checked against the overlap policy and business hours, as on create.
    */
   router.patch(
     '/api/time-entries/:id',
@@ -221,9 +521,17 @@ export default async function (router: Hono) {
         select: payload.body.note,
         against: z.string().optional(),
       },
+      taskId: {
+        select: payload.body.taskId,
+        against: z.string().uuid().nullable().optional(),
+      },
+      isBillable: {
+        select: payload.body.isBillable,
+        against: z.boolean().optional(),
+      },
     })),
     async (c) => {
-      const { id, startedAt, endedAt, note } = c.var.input;
+      const { id, startedAt, endedAt, note, taskId, isBillable } = c.var.input;
       const sanitizedNote = sanitizeInput(note);
 
       // Check if time entry exists and belongs to user
@@ -231,22 +539,28 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
+        },
+        include: {
+          tags: true,
         },
       });
 
       // Check if time entry is locked (FR-7)
-      if (existingTimeEntry.isLocked) {
+      if (existingTimeEntry.invoiceId) {
         throw new HTTPException(400, {
           message: 'Time entry is locked and cannot be modified',
           cause: {
             code: 'api/time-entry-locked',
             detail:
-              'This time entry is part of a non-draft invoice and cannot be modified',
+              'This time entry is billed on an invoice and cannot be modified',
           },
         });
       }
 
       const updateData: Prisma.TimeEntryUpdateInput = {};
+      let overlaps: TimeEntryOverlapWarning[] = [];
+      let addsTime = false;
 
       if (startedAt !== undefined || endedAt !== undefined) {
         const newStartedAt = startedAt
@@ -256,45 +570,101 @@ export default async function (router: Hono) {
           ? new Date(endedAt)
           : existingTimeEntry.endedAt;
 
-        // Enhanced validation
-        validateTimeEntryDuration(newStartedAt, newEndedAt);
-        await checkTimeEntryOverlap(
+        // Enhanced validation (a running timer is fully validated on stop)
+        const settings = await getUserSettings(c.var.subject.id);
+        if (newEndedAt) {
+          validateTimeEntryDuration(newStartedAt, newEndedAt);
+          await checkBusinessHours(
+            c.var.subject.id,
+            newStartedAt,
+            newEndedAt,
+            settings,
+          );
+        } else {
+          validateTimerStart(newStartedAt);
+          await checkBusinessHours(
+            c.var.subject.id,
+            newStartedAt,
+            null,
+            settings,
+          );
+        }
+        overlaps = await checkTimeEntryOverlap(
           c.var.subject.id,
           newStartedAt,
           newEndedAt,
           id,
+          settings.overlapPolicy,
         );
 
         if (startedAt !== undefined) updateData.startedAt = newStartedAt;
         if (endedAt !== undefined) updateData.endedAt = newEndedAt;
+
+        // Starting earlier or ending later tracks new time
+        addsTime =
+          newStartedAt < existingTimeEntry.startedAt ||
+          (existingTimeEntry.endedAt !== null &&
+            (newEndedAt === null || newEndedAt > existingTimeEntry.endedAt));
+      }
+
+      // Time already on a task stays there once the task is DONE, but no
+      // new time is tracked on it
+      const newTaskId =
+        taskId === undefined ? existingTimeEntry.taskId : taskId;
+      if (newTaskId && (newTaskId !== existingTimeEntry.taskId || addsTime)) {
+        await checkTaskInProject(
+          c.var.subject.id,
+          newTaskId,
+          existingTimeEntry.projectId,
+        );
       }
 
       if (note !== undefined) updateData.note = sanitizedNote;
+      if (taskId !== undefined) {
+        updateData.task = taskId
+          ? { connect: { id: taskId } }
+          : { disconnect: true };
+      }
+      if (isBillable !== undefined) updateData.isBillable = isBillable;
 
       if (Object.keys(updateData).length === 0) {
         return c.json(existingTimeEntry);
       }
 
-      const timeEntry = await prisma.timeEntry.update({
-        where: { id },
-        data: updateData,
-        include: {
-          project: {
-            include: {
-              client: true,
+      const timeEntry = await prisma.$transaction(async (tx) => {
+        const updated = await tx.timeEntry.update({
+          where: { id },
+          data: updateData,
+          include: {
+            project: {
+              include: {
+                client: true,
+              },
             },
+            task: true,
+            tags: true,
           },
-        },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'TIME_ENTRY',
+          entityId: id,
+          before: existingTimeEntry,
+          after: updated,
+        });
+
+        return updated;
       });
 
-      return c.json(timeEntry);
+      return c.json({ ...timeEntry, overlaps });
     },
   );
 
   /**
    * @openapi deleteTimeEntry
    * @tags timeEntries
-   * @description Delete a time entry (only if not locked in an invoice).
+   * @description Move a time entry to the trash (only if not locked in an invoice). It can be restored until the trash is purged.
    */
   router.delete(
     '/api/time-entries/:id',
@@ -313,33 +683,144 @@ export default async function (router: Hono) {
         where: {
           id,
           userId: c.var.subject.id,
+          deletedAt: null,
         },
       });
 
       // Check if time entry is locked (FR-7)
-      if (existingTimeEntry.isLocked) {
+      if (existingTimeEntry.invoiceId) {
         throw new HTTPException(400, {
           message: 'Time entry is locked and cannot be deleted',
           cause: {
             code: 'api/time-entry-locked',
             detail:
-              'This time entry is part of a non-draft invoice and cannot be deleted',
+              'This time entry is billed on an invoice and cannot be deleted',
           },
         });
       }
 
-      await prisma.timeEntry.delete({
-        where: { id },
+      await prisma.$transaction(async (tx) => {
+        await tx.timeEntry.update({
+          where: { id },
+          data: { deletedAt: new Date() },
+        });
+
+        await recordAudit(tx, {
+          action: 'DELETE',
+          entityType: 'TIME_ENTRY',
+          entityId: id,
+          before: existingTimeEntry,
+        });
       });
 
       return c.json({ message: 'Time entry deleted successfully' });
     },
   );
 
+  /**
+   * @openapi restoreTimeEntry
+   * @tags timeEntries
+   * @description Take a time entry out of the trash. Its project must not be in the trash, and overlaps are handled as on create.
+   */
+  router.post(
+    '/api/time-entries/:id/restore',
+    authenticated(),
+    validate((payload) => ({
+      id: {
+        select: payload.params.id,
+        against: z.string().uuid(),
+      },
+    })),
+    async (c) => {
+      const { id } = c.var.input;
+      const userId = c.var.subject.id;
+
+      // Check if time entry is in the trash and belongs to user
+      const existingTimeEntry = await prisma.timeEntry.findUniqueOrThrow({
+        where: {
+          id,
+          userId,
+          deletedAt: { not: null },
+        },
+        include: {
+          project: true,
+        },
+      });
+
+      if (existingTimeEntry.project.deletedAt) {
+        throw new HTTPException(400, {
+          message: 'Project is in the trash',
+          cause: {
+            code: 'api/parent-in-trash',
+            detail: `Restore project "${existingTimeEntry.project.name}" to restore its time entries`,
+          },
+        });
+      }
+
+      // A deleted running timer only comes back if no other timer is running
+      if (!existingTimeEntry.endedAt) {
+        const runningEntry = await prisma.timeEntry.findFirst({
+          where: {
+            userId,
+            endedAt: null,
+            deletedAt: null,
+          },
+        });
+        if (runningEntry) {
+          throw new HTTPException(409, {
+            message: 'A timer is already running',
+            cause: {
+              code: 'api/timer-already-running',
+              detail: `Stop the timer started at ${runningEntry.startedAt.toISOString()} before restoring this one`,
+              runningEntryId: runningEntry.id,
+            },
+          });
+        }
+      }
+
+      const { overlapPolicy } = await getUserSettings(userId);
+      const overlaps = await checkTimeEntryOverlap(
+        userId,
+        existingTimeEntry.startedAt,
+        existingTimeEntry.endedAt,
+        id,
+        overlapPolicy,
+      );
+
+      const timeEntry = await prisma.$transaction(async (tx) => {
+        const restored = await tx.timeEntry.update({
+          where: { id },
+          data: { deletedAt: null },
+          include: {
+            project: {
+              include: {
+                client: true,
+              },
+            },
+            task: true,
+            tags: true,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'RESTORE',
+          entityType: 'TIME_ENTRY',
+          entityId: id,
+          before: existingTimeEntry,
+          after: restored,
+        });
+
+        return restored;
+      });
+
+      return c.json({ ...timeEntry, overlaps });
+    },
+  );
+
   /**
    * @openapi bulkCreateTimeEntries
    * @tags timeEntries
-   * @description Create multiple time entries in a single transaction.
+   * @description Create multiple time entries in a single transaction. Overlaps and business hours are handled as on create.
    */
   router.post(
     '/api/time-entries/bulk',
@@ -354,6 +835,9 @@ export default async function (router: Hono) {
               endedAt: z.string().datetime(),
               note: z.string().optional(),
               projectId: z.string().uuid(),
+              taskId: z.string().uuid().optional(),
+              isBillable: z.boolean().optional(),
+              tagIds: z.array(z.string().uuid()).max(20).optional(),
             }),
           )
           .min(1)
@@ -365,9 +849,18 @@ export default async function (router: Hono) {
       const userId = c.var.subject.id;
 
       // Validate all entries before creating any
-      const validatedEntries = [];
+      const validatedEntries: Prisma.TimeEntryUncheckedCreateInput[] = [];
       const overlapCheckEntries = [];
 
+      const settings = await getUserSettings(userId);
+      const businessHours = settings.enforceBusinessHours
+        ? await getBusinessHours(userId)
+        : undefined;
+      const allTagIds = entries.flatMap((entry) => entry.tagIds ?? []);
+      if (allTagIds.length > 0) {
+        await checkTagsExist(userId, allTagIds);
+      }
+
       for (const entry of entries) {
         const startDate = new Date(entry.startedAt);
         const endDate = new Date(entry.endedAt);
@@ -375,21 +868,25 @@ export default async function (router: Hono) {
 
         // Validate duration
         validateTimeEntryDuration(startDate, endDate);
+        validateBusinessHours(startDate, endDate, businessHours, settings);
 
-        // Verify project exists and belongs to user
-        await prisma.project.findUniqueOrThrow({
-          where: {
-            id: entry.projectId,
-            userId,
-          },
-        });
+        // Verify project exists, belongs to user and is open for new time
+        const project = await checkProjectNotArchived(userId, entry.projectId);
+        if (entry.taskId) {
+          await checkTaskInProject(userId, entry.taskId, entry.projectId);
+        }
 
         validatedEntries.push({
           startedAt: startDate,
           endedAt: endDate,
           note: sanitizedNote,
+          isBillable: entry.isBillable ?? project.billableByDefault,
           projectId: entry.projectId,
+          taskId: entry.taskId,
           userId,
+          ...(entry.tagIds
+            ? { tags: { connect: entry.tagIds.map((id) => ({ id })) } }
+            : {}),
         });
 
         overlapCheckEntries.push({
@@ -399,7 +896,11 @@ export default async function (router: Hono) {
       }
 
       // Perform bulk overlap validation in a single query
-      await checkBulkTimeEntryOverlaps(userId, overlapCheckEntries);
+      const overlaps = await checkBulkTimeEntryOverlaps(
+        userId,
+        overlapCheckEntries,
+        settings.overlapPolicy,
+      );
 
       // Create all entries in a transaction
       const createdEntries = await prisma.$transaction(
@@ -412,25 +913,367 @@ export default async function (router: Hono) {
                   client: true,
                 },
               },
+              task: true,
+              tags: true,
             },
           }),
         ),
       );
 
+      await recordAudit(
+        prisma,
+        createdEntries.map((entry) => ({
+          action: 'CREATE' as const,
+          entityType: 'TIME_ENTRY' as const,
+          entityId: entry.id,
+          after: entry,
+        })),
+      );
+
       return c.json(
         {
           message: `Successfully created ${createdEntries.length} time entries`,
           entries: createdEntries,
+          overlaps,
+        },
+        201,
+      );
+    },
+  );
+
+  /**
+   * @openapi importTimeEntries
+   * @tags timeEntries
+   * @description Import time entries from a CSV file, by default in the format of the time entries export. Clients and projects are matched by name and can be created when missing. Rows outside business hours are invalid when they are enforced. Rows overlapping each other or existing entries are invalid under the REJECT overlap policy and returned as overlaps under WARN. With dryRun nothing is written and the row-level errors are returned; otherwise the import is all or nothing.
+   */
+  router.post(
+    '/api/time-entries/import',
+    authenticated(),
+    validate('multipart/form-data', (payload) => ({
+      file: {
+        select: payload.body.file,
+        against: z
+          .instanceof(File)
+          .refine((file) => file.size <= MAX_IMPORT_FILE_SIZE, {
+            message: 'File must be 1 MB or smaller',
+          }),
+      },
+      mapping: {
+        select: payload.body.mapping,
+        against: z
+          .string()
+          .transform((value, ctx) => {
+            try {
+              const mapping = IMPORT_MAPPING.safeParse(JSON.parse(value));
+              if (mapping.success) return mapping.data;
+              mapping.error.issues.forEach((issue) => ctx.addIssue(issue));
+            } catch {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: 'Mapping must be a JSON object',
+              });
+            }
+            return z.NEVER;
+          })
+          .optional(),
+      },
+      createMissing: {
+        select: payload.body.createMissing,
+        against: z
+          .enum(['true', 'false'])
+          .default('false')
+          .transform((value) => value === 'true'),
+      },
+      dryRun: {
+        select: payload.body.dryRun,
+        against: z
+          .enum(['true', 'false'])
+          .default('false')
+          .transform((value) => value === 'true'),
+      },
+    })),
+    async (c) => {
+      const { file, mapping, createMissing, dryRun } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const rows = parseCSV(await file.text());
+      if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        throw new HTTPException(400, {
+          message: 'Too many rows to import',
+          cause: {
+            code: 'api/import-too-large',
+            detail: `The file has ${rows.length - 1} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+          },
+        });
+      }
+
+      const { entries, errors } = readTimeEntryRows(rows, mapping);
+
+      const { resolved, errors: projectErrors } = await resolveImportProjects(
+        userId,
+        entries,
+        createMissing,
+      );
+      errors.push(...projectErrors);
+
+      // Business hours and overlaps are checked on the valid rows
+      const settings = await getUserSettings(userId);
+      const hoursErrors = await findImportOutsideBusinessHours(
+        userId,
+        resolved,
+        settings,
+      );
+      const overlaps = await findImportOverlaps(userId, resolved, settings);
+      // Overlapping rows are only invalid under REJECT; WARN reports them
+      const overlapErrors = settings.overlapPolicy === 'REJECT' ? overlaps : [];
+      const rejectedRows = new Set(
+        [...hoursErrors, ...overlapErrors].map((error) => error.row),
+      );
+      errors.push(...hoursErrors, ...overlapErrors);
+      errors.sort((a, b) => a.row - b.row);
+
+      const { clientsToCreate, projectsToCreate } =
+        planImportProjects(resolved);
+      const summary = {
+        totalRows: rows.length - 1,
+        validRows: resolved.length - rejectedRows.size,
+        invalidRows: new Set(errors.map((error) => error.row)).size,
+        errors,
+        overlaps: settings.overlapPolicy === 'WARN' ? overlaps : [],
+        clientsToCreate,
+        projectsToCreate: projectsToCreate.map(({ clientName, name }) => ({
+          clientName,
+          name,
+        })),
+      };
+
+      if (dryRun) {
+        return c.json({ dryRun: true, ...summary });
+      }
+
+      if (errors.length > 0) {
+        throw new HTTPException(400, {
+          message: 'Import contains invalid rows',
+          cause: {
+            code: 'api/import-invalid-rows',
+            detail: `${summary.invalidRows} of ${summary.totalRows} rows are invalid. Nothing was imported.`,
+            errors,
+          },
+        });
+      }
+
+      const imported = await prisma.$transaction(async (tx) => {
+        const { projectIds } = await createImportProjects(tx, userId, resolved);
+
+        const created = await tx.timeEntry.createManyAndReturn({
+          data: resolved.map((entry, index) => ({
+            startedAt: entry.startedAt,
+            endedAt: entry.endedAt,
+            note: entry.note,
+            isBillable: entry.isBillable ?? entry.billableByDefault,
+            projectId: projectIds[index],
+            userId,
+          })),
+        });
+        await recordAudit(
+          tx,
+          created.map((entry) => ({
+            action: 'CREATE' as const,
+            entityType: 'TIME_ENTRY' as const,
+            entityId: entry.id,
+            after: entry,
+          })),
+        );
+
+        return created;
+      });
+
+      return c.json(
+        {
+          message: `Successfully imported ${imported.length} time entries`,
+          importedCount: imported.length,
+          overlaps: summary.overlaps,
+          createdClients: summary.clientsToCreate,
+          createdProjects: summary.projectsToCreate,
         },
         201,
       );
     },
   );
 
+  /**
+   * @openapi importExternalTimeEntries
+   * @tags timeEntries
+   * @description Import the detailed report export of Toggl Track, Clockify or Harvest, as CSV or JSON. Clients and projects are matched by name and created when missing. Entries keep their id in the source tool, so importing the same export again skips what was imported before; rows outside enforced business hours are skipped, and rows that overlap other time entries are reported as conflicting and left out under the REJECT overlap policy, or imported and returned as overlaps under WARN. Times without a zone are read in timeZone, the user's time zone by default.
+   */
+  router.post(
+    '/api/time-entries/import/:source',
+    authenticated(),
+    validate('multipart/form-data', (payload) => ({
+      source: {
+        select: payload.params.source,
+        against: z.enum(['toggl', 'clockify', 'harvest']),
+      },
+      file: {
+        select: payload.body.file,
+        against: z
+          .instanceof(File)
+          .refine((file) => file.size <= MAX_IMPORT_FILE_SIZE, {
+            message: 'File must be 1 MB or smaller',
+          }),
+      },
+      timeZone: {
+        select: payload.body.timeZone,
+        against: z
+          .string()
+          .refine((zone) => isIanaTimeZone(zone), {
+            message: 'Unknown time zone',
+          })
+          .optional(), // For exports with local wall clock times
+      },
+    })),
+    async (c) => {
+      const { file, timeZone } = c.var.input;
+      const source = c.var.input.source.toUpperCase() as ImportSource;
+      const userId = c.var.subject.id;
+
+      // Wall clock times are the user's own unless the export says otherwise
+      const settings = await getUserSettings(userId);
+      const { entries, errors } = parseExternalExport(
+        source,
+        await file.text(),
+        timeZone ?? settings.timeZone,
+      );
+      const totalRows = entries.length + errors.length;
+      if (totalRows > MAX_IMPORT_ROWS) {
+        throw new HTTPException(400, {
+          message: 'Too many rows to import',
+          cause: {
+            code: 'api/import-too-large',
+            detail: `The file has ${totalRows} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+          },
+        });
+      }
+
+      const skipped = [...errors];
+
+      // Entries imported before, or repeated in the file, are skipped
+      const alreadyImported = await prisma.timeEntry.findMany({
+        where: {
+          userId,
+          importSource: source,
+          externalId: { in: entries.map((entry) => entry.externalId) },
+        },
+        select: { externalId: true },
+      });
+      const importedIds = new Set(
+        alreadyImported.map((entry) => entry.externalId),
+      );
+      const seenIds = new Set<string>();
+      const newEntries = entries.filter((entry) => {
+        if (importedIds.has(entry.externalId)) {
+          skipped.push({
+            row: entry.row,
+            code: 'api/already-imported',
+            message: 'Imported before',
+          });
+          return false;
+        }
+        if (seenIds.has(entry.externalId)) {
+          skipped.push({
+            row: entry.row,
+            code: 'api/duplicate-entry',
+            message: 'Same entry as an earlier row',
+          });
+          return false;
+        }
+        seenIds.add(entry.externalId);
+        return true;
+      });
+
+      const { resolved, errors: projectErrors } = await resolveImportProjects(
+        userId,
+        newEntries,
+        true,
+      );
+      skipped.push(...projectErrors);
+
+      // Rows outside enforced business hours are skipped
+      const hoursErrors = await findImportOutsideBusinessHours(
+        userId,
+        resolved,
+        settings,
+      );
+      skipped.push(...hoursErrors);
+      const outsideRows = new Set(hoursErrors.map((error) => error.row));
+      const withinHours = resolved.filter(
+        (entry) => !outsideRows.has(entry.row),
+      );
+
+      // Under REJECT, rows overlapping each other or existing entries are
+      // left for the user; under WARN they are imported and reported
+      const overlaps = await findImportOverlaps(userId, withinHours, settings);
+      const conflicting = settings.overlapPolicy === 'REJECT' ? overlaps : [];
+      const conflictingRows = new Set(conflicting.map((error) => error.row));
+      const toCreate = withinHours.filter(
+        (entry) => !conflictingRows.has(entry.row),
+      );
+
+      const { created, createdClients, createdProjects } =
+        await prisma.$transaction(async (tx) => {
+          const { projectIds, ...createdNames } = await createImportProjects(
+            tx,
+            userId,
+            toCreate,
+          );
+
+          const created = await tx.timeEntry.createManyAndReturn({
+            data: toCreate.map((entry, index) => ({
+              startedAt: entry.startedAt,
+              endedAt: entry.endedAt,
+              note: entry.note,
+              isBillable: entry.isBillable ?? entry.billableByDefault,
+              importSource: source,
+              externalId: entry.externalId,
+              projectId: projectIds[index],
+              userId,
+            })),
+            skipDuplicates: true,
+          });
+          await recordAudit(
+            tx,
+            created.map((entry) => ({
+              action: 'CREATE' as const,
+              entityType: 'TIME_ENTRY' as const,
+              entityId: entry.id,
+              after: entry,
+            })),
+          );
+
+          return { created, ...createdNames };
+        });
+
+      return c.json({
+        message: `Imported ${created.length} of ${totalRows} time entries`,
+        summary: {
+          totalRows,
+          created: created.length,
+          skipped: skipped.length,
+          conflicting: conflicting.length,
+        },
+        skipped: skipped.sort((a, b) => a.row - b.row),
+        conflicting,
+        overlaps: settings.overlapPolicy === 'WARN' ? overlaps : [],
+        createdClients,
+        createdProjects,
+      });
+    },
+  );
+
   /**
    * @openapi bulkDeleteTimeEntries
    * @tags timeEntries
-   * @description Delete multiple time entries by IDs.
+   * @description Move multiple time entries to the trash by IDs.
    */
   router.delete(
     '/api/time-entries/bulk',
@@ -450,6 +1293,7 @@ export default async function (router: Hono) {
         where: {
           id: { in: ids },
           userId,
+          deletedAt: null,
         },
       });
 
@@ -465,7 +1309,7 @@ export default async function (router: Hono) {
         });
       }
 
-      const lockedEntries = existingEntries.filter((e) => e.isLocked);
+      const lockedEntries = existingEntries.filter((e) => e.invoiceId);
       if (lockedEntries.length > 0) {
         throw new HTTPException(400, {
           message: 'Cannot delete locked time entries',
@@ -476,14 +1320,25 @@ export default async function (router: Hono) {
         });
       }
 
-      // Delete all entries
-      await prisma.timeEntry.deleteMany({
+      // Move all entries to the trash
+      await prisma.timeEntry.updateMany({
         where: {
           id: { in: ids },
           userId,
         },
+        data: { deletedAt: new Date() },
       });
 
+      await recordAudit(
+        prisma,
+        existingEntries.map((entry) => ({
+          action: 'DELETE' as const,
+          entityType: 'TIME_ENTRY' as const,
+          entityId: entry.id,
+          before: entry,
+        })),
+      );
+
       return c.json({
         message: `Successfully deleted ${ids.length} time entries`,
         deletedIds: ids,
@@ -494,7 +1349,7 @@ export default async function (router: Hono) {
   /**
    * @openapi bulkUpdateTimeEntries
    * @tags timeEntries
-   * @description Update multiple time entries with the same data.
+   * @description Update multiple time entries with the same data. Setting projectId takes the entries off their task unless a task of that project is given as well; a null taskId also takes them off.
    */
   router.patch(
     '/api/time-entries/bulk',
@@ -509,6 +1364,9 @@ export default async function (router: Hono) {
         against: z.object({
           note: z.string().optional(),
           projectId: z.string().uuid().optional(),
+          taskId: z.string().uuid().nullable().optional(),
+          isBillable: z.boolean().optional(),
+          tagIds: z.array(z.string().uuid()).max(20).optional(), // Replaces the current tags
         }),
       },
     })),
@@ -522,6 +1380,10 @@ export default async function (router: Hono) {
         where: {
           id: { in: ids },
           userId,
+          deletedAt: null,
+        },
+        include: {
+          tags: true,
         },
       });
 
@@ -537,7 +1399,7 @@ export default async function (router: Hono) {
         });
       }
 
-      const lockedEntries = existingEntries.filter((e) => e.isLocked);
+      const lockedEntries = existingEntries.filter((e) => e.invoiceId);
       if (lockedEntries.length > 0) {
         throw new HTTPException(400, {
           message: 'Cannot update locked time entries',
@@ -548,24 +1410,46 @@ export default async function (router: Hono) {
         });
       }
 
-      // If updating project, verify it exists and belongs to user
+      // If updating project, verify it exists, belongs to user and is not archived
       if (updates.projectId) {
-        await prisma.project.findUniqueOrThrow({
-          where: {
-            id: updates.projectId,
-            userId,
-          },
-        });
+        await checkProjectNotArchived(userId, updates.projectId);
+      }
+
+      // The task must belong to the project every entry ends up on
+      if (updates.taskId) {
+        const projectIds = updates.projectId
+          ? [updates.projectId]
+          : [...new Set(existingEntries.map((entry) => entry.projectId))];
+        for (const projectId of projectIds) {
+          await checkTaskInProject(userId, updates.taskId, projectId);
+        }
+      }
+
+      if (updates.tagIds) {
+        await checkTagsExist(userId, updates.tagIds);
       }
 
       // Build update data
       const updateData: Prisma.TimeEntryUpdateInput = {};
       if (sanitizedNote !== undefined) updateData.note = sanitizedNote;
+      if (updates.isBillable !== undefined) {
+        updateData.isBillable = updates.isBillable;
+      }
       if (updates.projectId) {
         updateData.project = {
           connect: { id: updates.projectId },
         };
       }
+      if (updates.taskId) {
+        updateData.task = { connect: { id: updates.taskId } };
+      } else if (updates.taskId === null || updates.projectId) {
+        updateData.task = { disconnect: true };
+      }
+      if (updates.tagIds) {
+        updateData.tags = {
+          set: updates.tagIds.map((id) => ({ id })),
+        };
+      }
 
       if (Object.keys(updateData).length === 0) {
         return c.json({
@@ -574,18 +1458,31 @@ export default async function (router: Hono) {
         });
       }
 
-      // Update all entries
-      const result = await prisma.timeEntry.updateMany({
-        where: {
-          id: { in: ids },
-          userId,
-        },
-        data: updateData,
-      });
+      // Update all entries; relations (project, tags) need one update per entry
+      const result = await prisma.$transaction(
+        ids.map((id) =>
+          prisma.timeEntry.update({
+            where: { id },
+            data: updateData,
+            include: { tags: true },
+          }),
+        ),
+      );
+
+      await recordAudit(
+        prisma,
+        result.map((entry) => ({
+          action: 'UPDATE' as const,
+          entityType: 'TIME_ENTRY' as const,
+          entityId: entry.id,
+          before: existingEntries.find((existing) => existing.id === entry.id),
+          after: entry,
+        })),
+      );
 
       return c.json({
-        message: `Successfully updated ${result.count} time entries`,
-        updatedCount: result.count,
+        message: `Successfully updated ${result.length} time entries`,
+        updatedCount: result.length,
       });
     },
   );
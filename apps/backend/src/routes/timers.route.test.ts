@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Timers Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up timers route test environment');
+  });
+
+  after(async () => {
+    console.log('Timers route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject current timer requests without authentication token', async () => {
+      const res = await app.request('/api/timers/current');
+      assert.strictEqual(res.status, 401);
+
+      const data = (await res.json()) as { error: string; cause: any };
+      assert.strictEqual(data.error, 'Authentication required');
+      assert.strictEqual(data.cause.code, 'api/unauthenticated');
+    });
+
+    it('should reject start requests without authentication', async () => {
+      const res = await app.request('/api/timers/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId: 'fake-uuid' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject stop requests without authentication', async () => {
+      const res = await app.request('/api/timers/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Timer Start With Invalid Token', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an invalid token before checking the projectId', async () => {
+      const res = await app.request('/api/timers/start', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({ projectId: 'not-a-uuid' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject an invalid token before checking startedAt', async () => {
+      const res = await app.request('/api/timers/start', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({
+          projectId: 'valid-uuid-format',
+          startedAt: '2999-01-01T09:00:00Z',
+        }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Timer Stop With Invalid Token', () => {
+    const invalidAuthHeader = 'Bearer fake-token';
+
+    it('should reject an invalid token before checking endedAt', async () => {
+      const res = await app.request('/api/timers/stop', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: invalidAuthHeader,
+        },
+        body: JSON.stringify({ endedAt: 'not-a-date' }),
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('System Invariants - Running Timers', () => {
+    it('should allow at most one running timer per user', async () => {
+      console.log(
+        'Testing single running timer enforcement - requires auth and database setup',
+      );
+    });
+
+    it('should reject stopping when no timer is running', async () => {
+      console.log(
+        'Testing stop without running timer - requires auth and database setup',
+      );
+    });
+
+    it('should exclude running timers from invoice creation', async () => {
+      console.log(
+        'Testing running timer exclusion from invoices - requires auth and database setup',
+      );
+    });
+
+    it('should enforce business hours on timer start and stop', async () => {
+      console.log(
+        'Testing business hours on timers - requires auth and database setup',
+      );
+    });
+  });
+
+  describe('Happy Path - Normal Operation', () => {
+    it('should start, report and stop a timer', async () => {
+      console.log('Timer lifecycle test - requires authentication setup');
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import { Prisma, prisma } from '@iworked/db';
+
+import { recordAudit } from '../core/audit.ts';
+import {
+  calculateDurationHours,
+  roundToTwoDecimals,
+} from '../core/calculations.ts';
+import { getUserSettings } from '../core/settings.ts';
+import {
+  checkBusinessHours,
+  checkProjectNotArchived,
+  checkTaskInProject,
+  checkTimeEntryOverlap,
+  sanitizeInput,
+  validateTimeEntryDuration,
+  validateTimerStart,
+} from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi startTimer
+   * @tags timers
+   * @description Start a running timer for a project, optionally on one of its tasks. Only one timer can run at a time. Overlaps with other entries are handled by the overlap policy, and enforced business hours apply to the start, as when creating a time entry.
+   */
+  router.post(
+    '/api/timers/start',
+    authenticated(),
+    validate((payload) => ({
+      projectId: {
+        select: payload.body.projectId,
+        against: z.string().uuid(),
+      },
+      taskId: {
+        select: payload.body.taskId,
+        against: z.string().uuid().optional(),
+      },
+      note: {
+        select: payload.body.note,
+        against: z.string().optional(),
+      },
+      startedAt: {
+        select: payload.body.startedAt,
+        against: z.string().datetime().optional(),
+      },
+      isBillable: {
+        select: payload.body.isBillable,
+        against: z.boolean().optional(),
+      },
+    })),
+    async (c) => {
+      const { projectId, taskId, note, startedAt, isBillable } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const startDate = startedAt ? new Date(startedAt) : new Date();
+      validateTimerStart(startDate);
+
+      // Verify project exists, belongs to user and is open for new time
+      const project = await checkProjectNotArchived(userId, projectId);
+      if (taskId) {
+        await checkTaskInProject(userId, taskId, projectId);
+      }
+
+      const runningEntry = await prisma.timeEntry.findFirst({
+        where: {
+          userId,
+          deletedAt: null,
+          endedAt: null,
+        },
+      });
+
+      if (runningEntry) {
+        throw new HTTPException(409, {
+          message: 'A timer is already running',
+          cause: {
+            code: 'api/timer-already-running',
+            detail: `Stop the timer started at ${runningEntry.startedAt.toISOString()} before starting a new one`,
+            runningEntryId: runningEntry.id,
+          },
+        });
+      }
+
+      const settings = await getUserSettings(userId);
+      await checkBusinessHours(userId, startDate, null, settings);
+      const overlaps = await checkTimeEntryOverlap(
+        userId,
+        startDate,
+        null,
+        undefined,
+        settings.overlapPolicy,
+      );
+
+      const timeEntry = await prisma.$transaction(async (tx) => {
+        const created = await tx.timeEntry
+          .create({
+            data: {
+              startedAt: startDate,
+              endedAt: null,
+              note: sanitizeInput(note),
+              isBillable: isBillable ?? project.billableByDefault,
+              projectId,
+              taskId,
+              userId,
+            },
+            include: {
+              project: {
+                include: {
+                  client: true,
+                },
+              },
+              task: true,
+            },
+          })
+          .catch((error) => {
+            // Another timer was started since the check above; the database
+            // allows one running timer per user
+            if (
+              error instanceof Prisma.PrismaClientKnownRequestError &&
+              error.code === 'P2002'
+            ) {
+              throw new HTTPException(409, {
+                message: 'A timer is already running',
+                cause: {
+                  code: 'api/timer-already-running',
+                  detail: 'Stop the running timer before starting a new one',
+                },
+              });
+            }
+            throw error;
+          });
+
+        await recordAudit(tx, {
+          action: 'CREATE',
+          entityType: 'TIME_ENTRY',
+          entityId: created.id,
+          after: created,
+        });
+
+        return created;
+      });
+
+      return c.json({ ...timeEntry, overlaps }, 201);
+    },
+  );
+
+  /**
+   * @openapi stopTimer
+   * @tags timers
+   * @description Stop the running timer and turn it into a regular time entry. Overlaps are handled by the overlap policy and enforced business hours apply, as when creating a time entry.
+   */
+  router.post(
+    '/api/timers/stop',
+    authenticated(),
+    validate((payload) => ({
+      endedAt: {
+        select: payload.body.endedAt,
+        against: z.string().datetime().optional(),
+      },
+      note: {
+        select: payload.body.note,
+        against: z.string().optional(),
+      },
+    })),
+    async (c) => {
+      const { endedAt, note } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const runningEntry = await prisma.timeEntry.findFirst({
+        where: {
+          userId,
+          deletedAt: null,
+          endedAt: null,
+        },
+      });
+
+      if (!runningEntry) {
+        throw new HTTPException(400, {
+          message: 'No timer is running',
+          cause: {
+            code: 'api/no-running-timer',
+            detail: 'Start a timer before trying to stop it',
+          },
+        });
+      }
+
+      const endDate = endedAt ? new Date(endedAt) : new Date();
+
+      validateTimeEntryDuration(runningEntry.startedAt, endDate);
+      const settings = await getUserSettings(userId);
+      await checkBusinessHours(
+        userId,
+        runningEntry.startedAt,
+        endDate,
+        settings,
+      );
+      const overlaps = await checkTimeEntryOverlap(
+        userId,
+        runningEntry.startedAt,
+        endDate,
+        runningEntry.id,
+        settings.overlapPolicy,
+      );
+
+      const timeEntry = await prisma.$transaction(async (tx) => {
+        const stopped = await tx.timeEntry.update({
+          where: { id: runningEntry.id },
+          data: {
+            endedAt: endDate,
+            ...(note !== undefined ? { note: sanitizeInput(note) } : {}),
+          },
+          include: {
+            project: {
+              include: {
+                client: true,
+              },
+            },
+          },
+        });
+
+        await recordAudit(tx, {
+          action: 'UPDATE',
+          entityType: 'TIME_ENTRY',
+          entityId: stopped.id,
+          before: runningEntry,
+          after: stopped,
+        });
+
+        return stopped;
+      });
+
+      return c.json({ ...timeEntry, overlaps });
+    },
+  );
+
+  /**
+   * @openapi getCurrentTimer
+   * @tags timers
+   * @description Get the running timer of the authenticated user, if any.
+   */
+  router.get('/api/timers/current', authenticated(), async (c) => {
+    const timeEntry = await prisma.timeEntry.findFirst({
+      where: {
+        userId: c.var.subject.id,
+        deletedAt: null,
+        endedAt: null,
+      },
+      include: {
+        project: {
+          include: {
+            client: true,
+          },
+        },
+      },
+    });
+
+    if (!timeEntry) {
+      return c.json({ running: false, timeEntry: null });
+    }
+
+    return c.json({
+      running: true,
+      timeEntry,
+      elapsedHours: roundToTwoDecimals(
+        calculateDurationHours(timeEntry.startedAt, timeEntry.endedAt),
+      ),
+    });
+  });
+}
@@ -0,0 +1,263 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+
+import { prisma } from '@iworked/db';
+
+import { recordAudit } from '../core/audit.ts';
+import { getBusinessHours } from '../core/business-hours.ts';
+import { getUserSettings } from '../core/settings.ts';
+import {
+  buildTimesheet,
+  findTimesheetEntries,
+  getTimesheetWeek,
+  planTimesheetChanges,
+} from '../core/timesheet.ts';
+import {
+  checkBulkTimeEntryOverlaps,
+  checkProjectNotArchived,
+  validateBusinessHours,
+  validateTimeEntryDuration,
+} from '../core/validation.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi getWeeklyTimesheet
+   * @tags timesheets
+   * @description Get the hours of a week as a project × day grid, with the ids of the time entries behind each cell. The week is the one containing start (today by default), beginning on the user's first day of the week. Cells holding time billed on an invoice or a running timer are read-only.
+   */
+  router.get(
+    '/api/timesheets/week',
+    authenticated(),
+    validate((payload) => ({
+      start: {
+        select: payload.query.start,
+        against: z.string().date().optional(),
+      },
+    })),
+    async (c) => {
+      const { start } = c.var.input;
+
+      const settings = await getUserSettings(c.var.subject.id);
+      const days = getTimesheetWeek(start, settings);
+      const timeEntries = await findTimesheetEntries(c.var.subject.id, days);
+
+      return c.json({
+        start: days[0].date,
+        days: days.map((day) => day.date),
+        ...buildTimesheet(timeEntries, days),
+      });
+    },
+  );
+
+  /**
+   * @openapi updateWeeklyTimesheet
+   * @tags timesheets
+   * @description Save an edited weekly grid. Time entries are created, shortened, extended or moved to the trash so each given cell adds up to its hours; cells left out are not changed. Read-only cells cannot be changed. New time is placed after the other time of the day, from the start of the business day, and must end by midnight; a day whose cells don't fit is rejected. Entries on a DONE task are not extended; new time goes in a new entry without a task. Overlaps and business hours are handled as when creating time entries.
+   */
+  router.put(
+    '/api/timesheets/week',
+    authenticated(),
+    validate((payload) => ({
+      start: {
+        select: payload.body.start,
+        against: z.string().date(),
+      },
+      rows: {
+        select: payload.body.rows,
+        against: z
+          .array(
+            z.object({
+              projectId: z.string().uuid(),
+              cells: z
+                .array(
+                  z.object({
+                    date: z.string().date(),
+                    hours: z.coerce.number().min(0).max(24),
+                  }),
+                )
+                .max(7),
+            }),
+          )
+          .max(100),
+      },
+    })),
+    async (c) => {
+      const { start, rows } = c.var.input;
+      const userId = c.var.subject.id;
+
+      const settings = await getUserSettings(userId);
+      const days = getTimesheetWeek(start, settings);
+      const updates = rows.flatMap((row) =>
+        row.cells.map((cell) => ({ projectId: row.projectId, ...cell })),
+      );
+
+      const outsideWeek = updates.filter(
+        (update) => !days.some((day) => day.date === update.date),
+      );
+      if (outsideWeek.length > 0) {
+        throw new HTTPException(400, {
+          message: 'Some cells are outside the week',
+          cause: {
+            code: 'api/timesheet-date-outside-week',
+            detail: `The week runs from ${days[0].date} to ${days[6].date}; got ${outsideWeek.map((update) => update.date).join(', ')}`,
+          },
+        });
+      }
+
+      const cellKeys = updates.map(
+        (update) => `${update.projectId}:${update.date}`,
+      );
+      if (new Set(cellKeys).size !== cellKeys.length) {
+        throw new HTTPException(400, {
+          message: 'Duplicate timesheet cells',
+          cause: {
+            code: 'api/duplicate-timesheet-cell',
+            detail: 'Each project and day can be given only once',
+          },
+        });
+      }
+
+      // Verify all projects exist and belong to user
+      const projectIds = [...new Set(rows.map((row) => row.projectId))];
+      const projects = await prisma.project.findMany({
+        where: {
+          id: { in: projectIds },
+          userId,
+        },
+        select: { id: true },
+      });
+      if (projects.length !== projectIds.length) {
+        const foundIds = projects.map((project) => project.id);
+        const missingIds = projectIds.filter((id) => !foundIds.includes(id));
+        throw new HTTPException(400, {
+          message: 'Some projects were not found',
+          cause: {
+            code: 'api/projects-not-found',
+            detail: `Projects not found: ${missingIds.join(', ')}`,
+          },
+        });
+      }
+
+      const timeEntries = await findTimesheetEntries(userId, days);
+      const schedule = await getBusinessHours(userId);
+      const changes = planTimesheetChanges(
+        timeEntries,
+        days,
+        updates,
+        schedule,
+        settings,
+      );
+
+      // New entries need a project that is open for new time
+      const billableByDefault = new Map<string, boolean>();
+      for (const projectId of new Set(
+        changes.create.map((entry) => entry.projectId),
+      )) {
+        const project = await checkProjectNotArchived(userId, projectId);
+        billableByDefault.set(projectId, project.billableByDefault);
+      }
+
+      for (const entry of [...changes.create, ...changes.update]) {
+        validateTimeEntryDuration(entry.startedAt, entry.endedAt);
+        if (settings.enforceBusinessHours) {
+          validateBusinessHours(
+            entry.startedAt,
+            entry.endedAt,
+            schedule,
+            settings,
+          );
+        }
+      }
+
+      const overlaps = await checkBulkTimeEntryOverlaps(
+        userId,
+        [
+          ...changes.create,
+          ...changes.update.map((entry) => ({
+            startedAt: entry.startedAt,
+            endedAt: entry.endedAt,
+            excludeEntryId: entry.id,
+          })),
+        ],
+        settings.overlapPolicy,
+        changes.delete,
+      );
+
+      await prisma.$transaction(async (tx) => {
+        // Entries billed in the meantime are left alone
+        await tx.timeEntry.updateMany({
+          where: {
+            id: { in: changes.delete },
+            invoiceId: null,
+          },
+          data: { deletedAt: new Date() },
+        });
+
+        const updatedEntries = await Promise.all(
+          changes.update.map((entry) =>
+            tx.timeEntry.update({
+              where: { id: entry.id, invoiceId: null },
+              data: { endedAt: entry.endedAt },
+            }),
+          ),
+        );
+
+        const createdEntries = await Promise.all(
+          changes.create.map((entry) =>
+            tx.timeEntry.create({
+              data: {
+                startedAt: entry.startedAt,
+                endedAt: entry.endedAt,
+                isBillable: billableByDefault.get(entry.projectId),
+                projectId: entry.projectId,
+                userId,
+              },
+            }),
+          ),
+        );
+
+        const before = (id: string) =>
+          timeEntries.find((existing) => existing.id === id);
+
+        await recordAudit(tx, [
+          ...changes.delete.map((id) => ({
+            action: 'DELETE' as const,
+            entityType: 'TIME_ENTRY' as const,
+            entityId: id,
+            before: before(id),
+          })),
+          ...updatedEntries.map((entry) => ({
+            action: 'UPDATE' as const,
+            entityType: 'TIME_ENTRY' as const,
+            entityId: entry.id,
+            before: before(entry.id),
+            after: entry,
+          })),
+          ...createdEntries.map((entry) => ({
+            action: 'CREATE' as const,
+            entityType: 'TIME_ENTRY' as const,
+            entityId: entry.id,
+            after: entry,
+          })),
+        ]);
+      });
+
+      const refreshedEntries = await findTimesheetEntries(userId, days);
+
+      return c.json({
+        start: days[0].date,
+        days: days.map((day) => day.date),
+        ...buildTimesheet(refreshedEntries, days),
+        changes: {
+          created: changes.create.length,
+          updated: changes.update.length,
+          deleted: changes.delete.length,
+        },
+        overlaps,
+      });
+    },
+  );
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import app from '../app.ts';
+
+describe('Trash Route - Error-First Testing', () => {
+  before(async () => {
+    console.log('Setting up trash route test environment');
+  });
+
+  after(async () => {
+    console.log('Trash route test cleanup completed');
+  });
+
+  describe('Authentication Requirements', () => {
+    it('should reject listing the trash without authentication', async () => {
+      const res = await app.request('/api/trash');
+
+      assert.strictEqual(res.status, 401);
+    });
+
+    it('should reject listing the trash with invalid token', async () => {
+      const res = await app.request('/api/trash?type=PROJECT', {
+        headers: { Authorization: 'Bearer fake-token' },
+      });
+
+      assert.strictEqual(res.status, 401);
+    });
+  });
+
+  describe('Query Parameter Validation', () => {
+    it('should reject an unknown record type', async () => {
+      console.log('Testing trash type validation - requires auth setup');
+    });
+  });
+
+  describe('Listing', () => {
+    it('should list the most recently deleted records first', async () => {
+      console.log('Testing trash order - requires auth and database setup');
+    });
+
+    it('should not list time entries deleted along with their project', async () => {
+      console.log(
+        'Testing cascaded trash items - requires auth and database setup',
+      );
+    });
+
+    it('should give when each record is purged', async () => {
+      console.log('Testing purge dates - requires auth and database setup');
+    });
+
+    it('should only list the records of the authenticated user', async () => {
+      console.log('Testing trash isolation - requires auth and database setup');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+import { TRASH_ENTITIES, listTrash } from '../core/trash.ts';
+import { authenticated } from '../middlewares/auth.ts';
+import { validate } from '../middlewares/validator.ts';
+
+export default async function (router: Hono) {
+  /**
+   * @openapi getTrash
+   * @tags trash
+   * @description Get the deleted time entries, projects, clients and invoices of the authenticated user, most recently deleted first, with when each is purged for good. Records deleted along with their project or client are restored with it and not listed on their own.
+   */
+  router.get(
+    '/api/trash',
+    authenticated(),
+    validate((payload) => ({
+      type: {
+        select: payload.query.type,
+        against: z
+          .enum(['TIME_ENTRY', 'PROJECT', 'CLIENT', 'INVOICE'])
+          .optional(),
+      },
+      page: {
+        select: payload.query.page,
+        against: z.coerce.number().int().positive().default(1),
+      },
+      pageSize: {
+        select: payload.query.pageSize,
+        against: z.coerce.number().int().min(1).max(100).default(20),
+      },
+    })),
+    async (c) => {
+      const { type, page, pageSize } = c.var.input;
+
+      const { items, totalCount } = await listTrash(c.var.subject.id, {
+        types: type ? [type] : TRASH_ENTITIES,
+        page,
+        pageSize,
+      });
+
+      return c.json({
+        data: items,
+        pagination: {
+          page,
+          pageSize,
+          totalCount,
+          totalPages: Math.ceil(totalCount / pageSize),
+        },
+      });
+    },
+  );
+}
@@ -3,6 +3,7 @@ import './startup.ts';
 import { serve } from '@hono/node-server';
 
 import app from './app.ts';
+import { purgeTrash } from './core/trash.ts';
 
 const port = Number.parseInt(process.env.PORT ?? '3000', 10);
 
@@ -15,3 +16,18 @@ serve(
     console.log(`Server is running on http://localhost:${info.port}`);
   },
 );
+
+// Records past the trash retention window are removed once a day
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+async function purgeExpiredTrash() {
+  try {
+    const purged = await purgeTrash();
+    console.log('Purged the trash', purged);
+  } catch (error) {
+    console.error('Failed to purge the trash', error);
+  }
+}
+
+void purgeExpiredTrash();
+setInterval(purgeExpiredTrash, PURGE_INTERVAL_MS);
@@ -9,6 +9,8 @@ const env = z.object({
   NODE_ENV: z.enum(['development', 'production']),
   FRONTEND_URL: z.string().url().optional(),
   AGENT_BASE_URL: z.string().url(),
+  STORAGE_DIR: z.string().optional(),
+  TRASH_RETENTION_DAYS: z.string().regex(/^\d+$/).optional(),
 });
 
 try {
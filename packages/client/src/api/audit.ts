@@ -0,0 +1,72 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as audit from '../inputs/audit.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'GET /api/audit': {
+    schema: audit.getAuditLogSchema,
+    output: [
+      http.Ok<outputs.GetAuditLog>,
+      http.BadRequest<outputs.GetAuditLog400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof audit.getAuditLogSchema>) {
+      return toRequest(
+        'GET /api/audit',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [
+            'page',
+            'pageSize',
+            'entityType',
+            'entityId',
+            'action',
+            'requestId',
+            'startDate',
+            'endDate',
+          ],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof audit.getAuditLogSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
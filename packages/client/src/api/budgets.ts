@@ -0,0 +1,63 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as budgets from '../inputs/budgets.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'GET /api/budget-alerts': {
+    schema: budgets.getBudgetAlertsSchema,
+    output: [
+      http.Ok<outputs.GetBudgetAlerts>,
+      http.BadRequest<outputs.GetBudgetAlerts400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof budgets.getBudgetAlertsSchema>) {
+      return toRequest(
+        'GET /api/budget-alerts',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['after', 'projectId'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof budgets.getBudgetAlertsSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
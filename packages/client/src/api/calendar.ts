@@ -0,0 +1,193 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as calendar from '../inputs/calendar.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'GET /api/calendar.ics': {
+    schema: calendar.getCalendarFeedSchema,
+    output: [
+      http.Ok<outputs.GetCalendarFeed>,
+      http.BadRequest<outputs.GetCalendarFeed400>,
+      http.Unauthorized<outputs.GetCalendarFeed401>,
+    ],
+    toRequest(input: z.input<typeof calendar.getCalendarFeedSchema>) {
+      return toRequest(
+        'GET /api/calendar.ics',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [
+            'token',
+            'clientId',
+            'projectId',
+            'pastDays',
+            'futureDays',
+          ],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof calendar.getCalendarFeedSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/calendar/rules': {
+    schema: calendar.createCalendarMatchRuleSchema,
+    output: [
+      http.Created<outputs.CreateCalendarMatchRule201>,
+      http.BadRequest<outputs.CreateCalendarMatchRule400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof calendar.createCalendarMatchRuleSchema>) {
+      return toRequest(
+        'POST /api/calendar/rules',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['keyword', 'projectId'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof calendar.createCalendarMatchRuleSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'PATCH /api/calendar/rules/{id}': {
+    schema: calendar.updateCalendarMatchRuleSchema,
+    output: [
+      http.Ok<outputs.UpdateCalendarMatchRule>,
+      http.BadRequest<outputs.UpdateCalendarMatchRule400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof calendar.updateCalendarMatchRuleSchema>) {
+      return toRequest(
+        'PATCH /api/calendar/rules/{id}',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['keyword', 'projectId'],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof calendar.updateCalendarMatchRuleSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/calendar/rules/{id}': {
+    schema: calendar.deleteCalendarMatchRuleSchema,
+    output: [
+      http.Ok<outputs.DeleteCalendarMatchRule>,
+      http.BadRequest<outputs.DeleteCalendarMatchRule400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof calendar.deleteCalendarMatchRuleSchema>) {
+      return toRequest(
+        'DELETE /api/calendar/rules/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof calendar.deleteCalendarMatchRuleSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/calendar/import': {
+    schema: calendar.importCalendarEventsSchema,
+    output: [
+      http.Ok<outputs.ImportCalendarEvents>,
+      http.BadRequest<outputs.ImportCalendarEvents400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof calendar.importCalendarEventsSchema>) {
+      return toRequest(
+        'POST /api/calendar/import',
+        formdata(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['file', 'dateFrom', 'dateTo', 'timeZone'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof calendar.importCalendarEventsSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
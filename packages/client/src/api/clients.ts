@@ -36,19 +36,25 @@ export default {
       http.BadRequest<outputs.CreateClient400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof clients.createClientSchema>) {
+    toRequest(input: z.input<typeof clients.createClientSchema>) {
       return toRequest(
         'POST /api/clients',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['name', 'email'],
+          inputBody: [
+            'name',
+            'email',
+            'roundingIncrement',
+            'roundingMode',
+            'roundingScope',
+          ],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof clients.createClientSchema>,
+      input: z.input<typeof clients.createClientSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -67,28 +73,50 @@ export default {
       http.BadRequest<outputs.GetClients400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof clients.getClientsSchema>) {
+    toRequest(input: z.input<typeof clients.getClientsSchema>) {
       return toRequest(
         'GET /api/clients',
         empty(input, {
           inputHeaders: [],
-          inputQuery: ['page', 'pageSize'],
+          inputQuery: [
+            'page',
+            'pageSize',
+            'includeArchived',
+            'q',
+            'cursor',
+            'sort',
+            'order',
+          ],
           inputBody: [],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof clients.getClientsSchema>,
+      input: z.input<typeof clients.getClientsSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
         fetch: z.infer<typeof fetchType>;
       },
     ) {
-      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
-      const result = await dispatcher.send(this.toRequest(input), this.output);
-      return result.data;
+      const pagination = new CursorPagination(input, async (nextPageParams) => {
+        const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+        const result = await dispatcher.send(
+          this.toRequest({ ...input, ...nextPageParams }),
+          this.output,
+        );
+
+        return {
+          data: result.data.data,
+          meta: {
+            hasMore: Boolean(result.data.pagination.hasMore),
+            nextCursor: result.data.pagination.nextCursor ?? undefined,
+          },
+        };
+      });
+      await pagination.getNextPage();
+      return pagination;
     },
   },
   'GET /api/clients/{id}': {
@@ -98,7 +126,7 @@ export default {
       http.BadRequest<outputs.GetClient400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof clients.getClientSchema>) {
+    toRequest(input: z.input<typeof clients.getClientSchema>) {
       return toRequest(
         'GET /api/clients/{id}',
         empty(input, {
@@ -110,7 +138,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof clients.getClientSchema>,
+      input: z.input<typeof clients.getClientSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -129,19 +157,242 @@ export default {
       http.BadRequest<outputs.UpdateClient400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof clients.updateClientSchema>) {
+    toRequest(input: z.input<typeof clients.updateClientSchema>) {
       return toRequest(
         'PATCH /api/clients/{id}',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['name', 'email'],
+          inputBody: [
+            'name',
+            'email',
+            'roundingIncrement',
+            'roundingMode',
+            'roundingScope',
+          ],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.updateClientSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/clients/{id}': {
+    schema: clients.deleteClientSchema,
+    output: [
+      http.Ok<outputs.DeleteClient>,
+      http.BadRequest<outputs.DeleteClient400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.deleteClientSchema>) {
+      return toRequest(
+        'DELETE /api/clients/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.deleteClientSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/clients/{id}/archive': {
+    schema: clients.archiveClientSchema,
+    output: [
+      http.Ok<outputs.ArchiveClient>,
+      http.BadRequest<outputs.ArchiveClient400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.archiveClientSchema>) {
+      return toRequest(
+        'POST /api/clients/{id}/archive',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.archiveClientSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/clients/{id}/unarchive': {
+    schema: clients.unarchiveClientSchema,
+    output: [
+      http.Ok<outputs.UnarchiveClient>,
+      http.BadRequest<outputs.UnarchiveClient400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.unarchiveClientSchema>) {
+      return toRequest(
+        'POST /api/clients/{id}/unarchive',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.unarchiveClientSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/clients/{id}/restore': {
+    schema: clients.restoreClientSchema,
+    output: [
+      http.Ok<outputs.RestoreClient>,
+      http.BadRequest<outputs.RestoreClient400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.restoreClientSchema>) {
+      return toRequest(
+        'POST /api/clients/{id}/restore',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.restoreClientSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/clients/{id}/rates': {
+    schema: clients.getClientRatesSchema,
+    output: [
+      http.Ok<outputs.GetClientRates>,
+      http.BadRequest<outputs.GetClientRates400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.getClientRatesSchema>) {
+      return toRequest(
+        'GET /api/clients/{id}/rates',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.getClientRatesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/clients/{id}/rates': {
+    schema: clients.addClientRateSchema,
+    output: [
+      http.Created<outputs.AddClientRate201>,
+      http.BadRequest<outputs.AddClientRate400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.addClientRateSchema>) {
+      return toRequest(
+        'POST /api/clients/{id}/rates',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['hourlyRate', 'effectiveFrom'],
           inputParams: ['id'],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof clients.updateClientSchema>,
+      input: z.input<typeof clients.addClientRateSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/clients/{id}/rates/{rateId}': {
+    schema: clients.deleteClientRateSchema,
+    output: [
+      http.Ok<outputs.DeleteClientRate>,
+      http.BadRequest<outputs.DeleteClientRate400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof clients.deleteClientRateSchema>) {
+      return toRequest(
+        'DELETE /api/clients/{id}/rates/{rateId}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id', 'rateId'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof clients.deleteClientRateSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -36,19 +36,19 @@ export default {
       http.BadRequest<outputs.CreateInvoice400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.createInvoiceSchema>) {
+    toRequest(input: z.input<typeof invoices.createInvoiceSchema>) {
       return toRequest(
         'POST /api/invoices',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['clientId', 'dateFrom', 'dateTo'],
+          inputBody: ['clientId', 'dateFrom', 'dateTo', 'lineGrouping'],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.createInvoiceSchema>,
+      input: z.input<typeof invoices.createInvoiceSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -67,28 +67,51 @@ export default {
       http.BadRequest<outputs.GetInvoices400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.getInvoicesSchema>) {
+    toRequest(input: z.input<typeof invoices.getInvoicesSchema>) {
       return toRequest(
         'GET /api/invoices',
         empty(input, {
           inputHeaders: [],
-          inputQuery: ['page', 'pageSize', 'status', 'clientId'],
+          inputQuery: [
+            'page',
+            'pageSize',
+            'status',
+            'clientId',
+            'q',
+            'cursor',
+            'sort',
+            'order',
+          ],
           inputBody: [],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.getInvoicesSchema>,
+      input: z.input<typeof invoices.getInvoicesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
         fetch: z.infer<typeof fetchType>;
       },
     ) {
-      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
-      const result = await dispatcher.send(this.toRequest(input), this.output);
-      return result.data;
+      const pagination = new CursorPagination(input, async (nextPageParams) => {
+        const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+        const result = await dispatcher.send(
+          this.toRequest({ ...input, ...nextPageParams }),
+          this.output,
+        );
+
+        return {
+          data: result.data.data,
+          meta: {
+            hasMore: Boolean(result.data.pagination.hasMore),
+            nextCursor: result.data.pagination.nextCursor ?? undefined,
+          },
+        };
+      });
+      await pagination.getNextPage();
+      return pagination;
     },
   },
   'GET /api/invoices/{id}': {
@@ -98,7 +121,7 @@ export default {
       http.BadRequest<outputs.GetInvoice400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.getInvoiceSchema>) {
+    toRequest(input: z.input<typeof invoices.getInvoiceSchema>) {
       return toRequest(
         'GET /api/invoices/{id}',
         empty(input, {
@@ -110,7 +133,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.getInvoiceSchema>,
+      input: z.input<typeof invoices.getInvoiceSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -129,7 +152,7 @@ export default {
       http.BadRequest<outputs.DeleteInvoice400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.deleteInvoiceSchema>) {
+    toRequest(input: z.input<typeof invoices.deleteInvoiceSchema>) {
       return toRequest(
         'DELETE /api/invoices/{id}',
         empty(input, {
@@ -141,7 +164,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.deleteInvoiceSchema>,
+      input: z.input<typeof invoices.deleteInvoiceSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -160,7 +183,7 @@ export default {
       http.BadRequest<outputs.UpdateInvoice400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.updateInvoiceSchema>) {
+    toRequest(input: z.input<typeof invoices.updateInvoiceSchema>) {
       return toRequest(
         'PATCH /api/invoices/{id}',
         json(input, {
@@ -172,7 +195,38 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.updateInvoiceSchema>,
+      input: z.input<typeof invoices.updateInvoiceSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/invoices/{id}/history': {
+    schema: invoices.getInvoiceHistorySchema,
+    output: [
+      http.Ok<outputs.GetInvoiceHistory>,
+      http.BadRequest<outputs.GetInvoiceHistory400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof invoices.getInvoiceHistorySchema>) {
+      return toRequest(
+        'GET /api/invoices/{id}/history',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof invoices.getInvoiceHistorySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -191,7 +245,7 @@ export default {
       http.BadRequest<outputs.UpdateInvoiceStatus400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.updateInvoiceStatusSchema>) {
+    toRequest(input: z.input<typeof invoices.updateInvoiceStatusSchema>) {
       return toRequest(
         'PATCH /api/invoices/{id}/status',
         json(input, {
@@ -203,7 +257,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.updateInvoiceStatusSchema>,
+      input: z.input<typeof invoices.updateInvoiceStatusSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -222,7 +276,7 @@ export default {
       http.BadRequest<outputs.GenerateInvoicePdf400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.generateInvoicePdfSchema>) {
+    toRequest(input: z.input<typeof invoices.generateInvoicePdfSchema>) {
       return toRequest(
         'POST /api/invoices/{id}/pdf',
         empty(input, {
@@ -234,7 +288,100 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.generateInvoicePdfSchema>,
+      input: z.input<typeof invoices.generateInvoicePdfSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/invoices/{id}/pdf': {
+    schema: invoices.downloadInvoicePdfSchema,
+    output: [
+      http.Ok<outputs.DownloadInvoicePdf>,
+      http.BadRequest<outputs.DownloadInvoicePdf400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof invoices.downloadInvoicePdfSchema>) {
+      return toRequest(
+        'GET /api/invoices/{id}/pdf',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof invoices.downloadInvoicePdfSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/invoices/{id}/restore': {
+    schema: invoices.restoreInvoiceSchema,
+    output: [
+      http.Ok<outputs.RestoreInvoice>,
+      http.BadRequest<outputs.RestoreInvoice400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof invoices.restoreInvoiceSchema>) {
+      return toRequest(
+        'POST /api/invoices/{id}/restore',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof invoices.restoreInvoiceSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/invoices/{id}/recalculate': {
+    schema: invoices.recalculateInvoiceSchema,
+    output: [
+      http.Ok<outputs.RecalculateInvoice>,
+      http.BadRequest<outputs.RecalculateInvoice400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof invoices.recalculateInvoiceSchema>) {
+      return toRequest(
+        'POST /api/invoices/{id}/recalculate',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof invoices.recalculateInvoiceSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -253,7 +400,7 @@ export default {
       http.BadRequest<outputs.UpdateInvoiceLine400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.updateInvoiceLineSchema>) {
+    toRequest(input: z.input<typeof invoices.updateInvoiceLineSchema>) {
       return toRequest(
         'PATCH /api/invoices/{id}/lines/{lineId}',
         json(input, {
@@ -265,7 +412,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.updateInvoiceLineSchema>,
+      input: z.input<typeof invoices.updateInvoiceLineSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -284,7 +431,7 @@ export default {
       http.BadRequest<outputs.DeleteInvoiceLine400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.deleteInvoiceLineSchema>) {
+    toRequest(input: z.input<typeof invoices.deleteInvoiceLineSchema>) {
       return toRequest(
         'DELETE /api/invoices/{id}/lines/{lineId}',
         empty(input, {
@@ -296,7 +443,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.deleteInvoiceLineSchema>,
+      input: z.input<typeof invoices.deleteInvoiceLineSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -315,19 +462,25 @@ export default {
       http.BadRequest<outputs.AddInvoiceLine400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof invoices.addInvoiceLineSchema>) {
+    toRequest(input: z.input<typeof invoices.addInvoiceLineSchema>) {
       return toRequest(
         'POST /api/invoices/{id}/lines',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['description', 'hours', 'rate', 'projectId'],
+          inputBody: [
+            'description',
+            'hours',
+            'rate',
+            'projectId',
+            'timeEntryIds',
+          ],
           inputParams: ['id'],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof invoices.addInvoiceLineSchema>,
+      input: z.input<typeof invoices.addInvoiceLineSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -0,0 +1,187 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as milestones from '../inputs/milestones.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'POST /api/milestones': {
+    schema: milestones.createMilestoneSchema,
+    output: [
+      http.Created<outputs.CreateMilestone201>,
+      http.BadRequest<outputs.CreateMilestone400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof milestones.createMilestoneSchema>) {
+      return toRequest(
+        'POST /api/milestones',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['projectId', 'name', 'amount', 'dueDate'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof milestones.createMilestoneSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/milestones': {
+    schema: milestones.getMilestonesSchema,
+    output: [
+      http.Ok<outputs.GetMilestones>,
+      http.BadRequest<outputs.GetMilestones400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof milestones.getMilestonesSchema>) {
+      return toRequest(
+        'GET /api/milestones',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['projectId', 'status'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof milestones.getMilestonesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/milestones/{id}': {
+    schema: milestones.getMilestoneSchema,
+    output: [
+      http.Ok<outputs.GetMilestone>,
+      http.BadRequest<outputs.GetMilestone400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof milestones.getMilestoneSchema>) {
+      return toRequest(
+        'GET /api/milestones/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof milestones.getMilestoneSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'PATCH /api/milestones/{id}': {
+    schema: milestones.updateMilestoneSchema,
+    output: [
+      http.Ok<outputs.UpdateMilestone>,
+      http.BadRequest<outputs.UpdateMilestone400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof milestones.updateMilestoneSchema>) {
+      return toRequest(
+        'PATCH /api/milestones/{id}',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['name', 'amount', 'dueDate', 'status', 'completedAt'],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof milestones.updateMilestoneSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/milestones/{id}': {
+    schema: milestones.deleteMilestoneSchema,
+    output: [
+      http.Ok<outputs.DeleteMilestone>,
+      http.BadRequest<outputs.DeleteMilestone400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof milestones.deleteMilestoneSchema>) {
+      return toRequest(
+        'DELETE /api/milestones/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof milestones.deleteMilestoneSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
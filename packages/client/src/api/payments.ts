@@ -0,0 +1,125 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as payments from '../inputs/payments.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'POST /api/invoices/{id}/payments': {
+    schema: payments.createPaymentSchema,
+    output: [
+      http.Created<outputs.CreatePayment201>,
+      http.BadRequest<outputs.CreatePayment400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof payments.createPaymentSchema>) {
+      return toRequest(
+        'POST /api/invoices/{id}/payments',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['amount', 'paidAt', 'notes'],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof payments.createPaymentSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/invoices/{id}/payments': {
+    schema: payments.getPaymentsSchema,
+    output: [
+      http.Ok<outputs.GetPayments>,
+      http.BadRequest<outputs.GetPayments400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof payments.getPaymentsSchema>) {
+      return toRequest(
+        'GET /api/invoices/{id}/payments',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof payments.getPaymentsSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/invoices/{id}/payments/{paymentId}': {
+    schema: payments.deletePaymentSchema,
+    output: [
+      http.Ok<outputs.DeletePayment>,
+      http.BadRequest<outputs.DeletePayment400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof payments.deletePaymentSchema>) {
+      return toRequest(
+        'DELETE /api/invoices/{id}/payments/{paymentId}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id', 'paymentId'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof payments.deletePaymentSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
@@ -36,19 +36,34 @@ export default {
       http.BadRequest<outputs.CreateProject400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof projects.createProjectSchema>) {
+    toRequest(input: z.input<typeof projects.createProjectSchema>) {
       return toRequest(
         'POST /api/projects',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['name', 'description', 'hourlyRate', 'clientId'],
+          inputBody: [
+            'name',
+            'description',
+            'hourlyRate',
+            'clientId',
+            'billableByDefault',
+            'billingMode',
+            'roundingIncrement',
+            'roundingMode',
+            'roundingScope',
+            'budgetHours',
+            'budgetAmount',
+            'budgetPeriod',
+            'budgetStartsAt',
+            'budgetEndsAt',
+          ],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof projects.createProjectSchema>,
+      input: z.input<typeof projects.createProjectSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -67,28 +82,51 @@ export default {
       http.BadRequest<outputs.GetProjects400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof projects.getProjectsSchema>) {
+    toRequest(input: z.input<typeof projects.getProjectsSchema>) {
       return toRequest(
         'GET /api/projects',
         empty(input, {
           inputHeaders: [],
-          inputQuery: ['page', 'pageSize', 'clientId'],
+          inputQuery: [
+            'page',
+            'pageSize',
+            'clientId',
+            'includeArchived',
+            'q',
+            'cursor',
+            'sort',
+            'order',
+          ],
           inputBody: [],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof projects.getProjectsSchema>,
+      input: z.input<typeof projects.getProjectsSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
         fetch: z.infer<typeof fetchType>;
       },
     ) {
-      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
-      const result = await dispatcher.send(this.toRequest(input), this.output);
-      return result.data;
+      const pagination = new CursorPagination(input, async (nextPageParams) => {
+        const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+        const result = await dispatcher.send(
+          this.toRequest({ ...input, ...nextPageParams }),
+          this.output,
+        );
+
+        return {
+          data: result.data.data,
+          meta: {
+            hasMore: Boolean(result.data.pagination.hasMore),
+            nextCursor: result.data.pagination.nextCursor ?? undefined,
+          },
+        };
+      });
+      await pagination.getNextPage();
+      return pagination;
     },
   },
   'GET /api/projects/{id}': {
@@ -98,7 +136,7 @@ export default {
       http.BadRequest<outputs.GetProject400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof projects.getProjectSchema>) {
+    toRequest(input: z.input<typeof projects.getProjectSchema>) {
       return toRequest(
         'GET /api/projects/{id}',
         empty(input, {
@@ -110,7 +148,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof projects.getProjectSchema>,
+      input: z.input<typeof projects.getProjectSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -129,19 +167,250 @@ export default {
       http.BadRequest<outputs.UpdateProject400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof projects.updateProjectSchema>) {
+    toRequest(input: z.input<typeof projects.updateProjectSchema>) {
       return toRequest(
         'PATCH /api/projects/{id}',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['name', 'description', 'hourlyRate'],
+          inputBody: [
+            'name',
+            'description',
+            'hourlyRate',
+            'billableByDefault',
+            'billingMode',
+            'roundingIncrement',
+            'roundingMode',
+            'roundingScope',
+            'budgetHours',
+            'budgetAmount',
+            'budgetPeriod',
+            'budgetStartsAt',
+            'budgetEndsAt',
+          ],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.updateProjectSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/projects/{id}': {
+    schema: projects.deleteProjectSchema,
+    output: [
+      http.Ok<outputs.DeleteProject>,
+      http.BadRequest<outputs.DeleteProject400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.deleteProjectSchema>) {
+      return toRequest(
+        'DELETE /api/projects/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.deleteProjectSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/projects/{id}/archive': {
+    schema: projects.archiveProjectSchema,
+    output: [
+      http.Ok<outputs.ArchiveProject>,
+      http.BadRequest<outputs.ArchiveProject400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.archiveProjectSchema>) {
+      return toRequest(
+        'POST /api/projects/{id}/archive',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.archiveProjectSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/projects/{id}/unarchive': {
+    schema: projects.unarchiveProjectSchema,
+    output: [
+      http.Ok<outputs.UnarchiveProject>,
+      http.BadRequest<outputs.UnarchiveProject400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.unarchiveProjectSchema>) {
+      return toRequest(
+        'POST /api/projects/{id}/unarchive',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.unarchiveProjectSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/projects/{id}/restore': {
+    schema: projects.restoreProjectSchema,
+    output: [
+      http.Ok<outputs.RestoreProject>,
+      http.BadRequest<outputs.RestoreProject400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.restoreProjectSchema>) {
+      return toRequest(
+        'POST /api/projects/{id}/restore',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.restoreProjectSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/projects/{id}/rates': {
+    schema: projects.getProjectRatesSchema,
+    output: [
+      http.Ok<outputs.GetProjectRates>,
+      http.BadRequest<outputs.GetProjectRates400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.getProjectRatesSchema>) {
+      return toRequest(
+        'GET /api/projects/{id}/rates',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.getProjectRatesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/projects/{id}/rates': {
+    schema: projects.addProjectRateSchema,
+    output: [
+      http.Created<outputs.AddProjectRate201>,
+      http.BadRequest<outputs.AddProjectRate400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.addProjectRateSchema>) {
+      return toRequest(
+        'POST /api/projects/{id}/rates',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['hourlyRate', 'effectiveFrom'],
           inputParams: ['id'],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof projects.updateProjectSchema>,
+      input: z.input<typeof projects.addProjectRateSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/projects/{id}/rates/{rateId}': {
+    schema: projects.deleteProjectRateSchema,
+    output: [
+      http.Ok<outputs.DeleteProjectRate>,
+      http.BadRequest<outputs.DeleteProjectRate400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof projects.deleteProjectRateSchema>) {
+      return toRequest(
+        'DELETE /api/projects/{id}/rates/{rateId}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id', 'rateId'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof projects.deleteProjectRateSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -36,7 +36,7 @@ export default {
       http.BadRequest<outputs.GetSummary400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.getSummarySchema>) {
+    toRequest(input: z.input<typeof reports.getSummarySchema>) {
       return toRequest(
         'GET /api/reports/summary',
         empty(input, {
@@ -54,7 +54,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.getSummarySchema>,
+      input: z.input<typeof reports.getSummarySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -73,7 +73,7 @@ export default {
       http.BadRequest<outputs.GetDetailedReport400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.getDetailedReportSchema>) {
+    toRequest(input: z.input<typeof reports.getDetailedReportSchema>) {
       return toRequest(
         'GET /api/reports/detailed',
         empty(input, {
@@ -85,6 +85,11 @@ export default {
             'projectId',
             'page',
             'pageSize',
+            'taskId',
+            'tagId',
+            'cursor',
+            'sort',
+            'order',
           ],
           inputBody: [],
           inputParams: [],
@@ -92,16 +97,30 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.getDetailedReportSchema>,
+      input: z.input<typeof reports.getDetailedReportSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
         fetch: z.infer<typeof fetchType>;
       },
     ) {
-      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
-      const result = await dispatcher.send(this.toRequest(input), this.output);
-      return result.data;
+      const pagination = new CursorPagination(input, async (nextPageParams) => {
+        const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+        const result = await dispatcher.send(
+          this.toRequest({ ...input, ...nextPageParams }),
+          this.output,
+        );
+
+        return {
+          data: result.data.data,
+          meta: {
+            hasMore: Boolean(result.data.pagination.hasMore),
+            nextCursor: result.data.pagination.nextCursor ?? undefined,
+          },
+        };
+      });
+      await pagination.getNextPage();
+      return pagination;
     },
   },
   'GET /api/reports/dashboard': {
@@ -111,7 +130,7 @@ export default {
       http.BadRequest<outputs.GetDashboard400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.getDashboardSchema>) {
+    toRequest(input: z.input<typeof reports.getDashboardSchema>) {
       return toRequest(
         'GET /api/reports/dashboard',
         empty(input, {
@@ -123,7 +142,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.getDashboardSchema>,
+      input: z.input<typeof reports.getDashboardSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -142,7 +161,7 @@ export default {
       http.BadRequest<outputs.GetTimeAnalytics400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.getTimeAnalyticsSchema>) {
+    toRequest(input: z.input<typeof reports.getTimeAnalyticsSchema>) {
       return toRequest(
         'GET /api/reports/time-analytics',
         empty(input, {
@@ -154,7 +173,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.getTimeAnalyticsSchema>,
+      input: z.input<typeof reports.getTimeAnalyticsSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -173,7 +192,7 @@ export default {
       http.BadRequest<outputs.GetProductivityMetrics400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.getProductivityMetricsSchema>) {
+    toRequest(input: z.input<typeof reports.getProductivityMetricsSchema>) {
       return toRequest(
         'GET /api/reports/productivity',
         empty(input, {
@@ -185,7 +204,69 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.getProductivityMetricsSchema>,
+      input: z.input<typeof reports.getProductivityMetricsSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/reports/budgets': {
+    schema: reports.getBudgetReportSchema,
+    output: [
+      http.Ok<outputs.GetBudgetReport>,
+      http.BadRequest<outputs.GetBudgetReport400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof reports.getBudgetReportSchema>) {
+      return toRequest(
+        'GET /api/reports/budgets',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['clientId'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof reports.getBudgetReportSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/reports/profitability': {
+    schema: reports.getProfitabilityReportSchema,
+    output: [
+      http.Ok<outputs.GetProfitabilityReport>,
+      http.BadRequest<outputs.GetProfitabilityReport400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof reports.getProfitabilityReportSchema>) {
+      return toRequest(
+        'GET /api/reports/profitability',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['startDate', 'endDate', 'clientId'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof reports.getProfitabilityReportSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -204,7 +285,7 @@ export default {
       http.BadRequest<outputs.ExportTimeEntries400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.exportTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof reports.exportTimeEntriesSchema>) {
       return toRequest(
         'GET /api/reports/export/time-entries',
         empty(input, {
@@ -216,7 +297,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.exportTimeEntriesSchema>,
+      input: z.input<typeof reports.exportTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -235,7 +316,7 @@ export default {
       http.BadRequest<outputs.ExportInvoices400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.exportInvoicesSchema>) {
+    toRequest(input: z.input<typeof reports.exportInvoicesSchema>) {
       return toRequest(
         'GET /api/reports/export/invoices',
         empty(input, {
@@ -247,7 +328,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.exportInvoicesSchema>,
+      input: z.input<typeof reports.exportInvoicesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -266,7 +347,7 @@ export default {
       http.BadRequest<outputs.ExportClientTimeEntries400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof reports.exportClientTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof reports.exportClientTimeEntriesSchema>) {
       return toRequest(
         'GET /api/reports/export/clients/{clientId}/time-entries',
         empty(input, {
@@ -278,7 +359,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.exportClientTimeEntriesSchema>,
+      input: z.input<typeof reports.exportClientTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -298,7 +379,7 @@ export default {
       http.Unauthorized<outputs.UnauthorizedErr>,
       http.NotFound<outputs.ExportProjectTimeEntries404>,
     ],
-    toRequest(input: z.infer<typeof reports.exportProjectTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof reports.exportProjectTimeEntriesSchema>) {
       return toRequest(
         'GET /api/reports/export/projects/{projectId}/time-entries',
         empty(input, {
@@ -310,7 +391,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.exportProjectTimeEntriesSchema>,
+      input: z.input<typeof reports.exportProjectTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -331,7 +412,7 @@ export default {
       http.NotFound<outputs.ExportClientProjectsTimeEntries404>,
     ],
     toRequest(
-      input: z.infer<typeof reports.exportClientProjectsTimeEntriesSchema>,
+      input: z.input<typeof reports.exportClientProjectsTimeEntriesSchema>,
     ) {
       return toRequest(
         'POST /api/reports/export/clients/{clientId}/projects/time-entries',
@@ -344,7 +425,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof reports.exportClientProjectsTimeEntriesSchema>,
+      input: z.input<typeof reports.exportClientProjectsTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -1,14 +1,38 @@
 import { KIND } from '../http/index.ts';
+import audit from './audit.ts';
+import budgets from './budgets.ts';
+import calendar from './calendar.ts';
 import clients from './clients.ts';
 import invoices from './invoices.ts';
+import milestones from './milestones.ts';
+import payments from './payments.ts';
 import projects from './projects.ts';
 import reports from './reports.ts';
+import search from './search.ts';
+import settings from './settings.ts';
+import tags from './tags.ts';
+import tasks from './tasks.ts';
 import timeEntries from './time-entries.ts';
+import timers from './timers.ts';
+import timesheets from './timesheets.ts';
+import trash from './trash.ts';
 
 export default {
   ...clients,
   ...projects,
+  ...tasks,
+  ...milestones,
   ...timeEntries,
+  ...timers,
+  ...timesheets,
+  ...tags,
   ...reports,
+  ...budgets,
   ...invoices,
+  ...payments,
+  ...calendar,
+  ...settings,
+  ...audit,
+  ...search,
+  ...trash,
 };
@@ -0,0 +1,103 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as settings from '../inputs/settings.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'PATCH /api/settings': {
+    schema: settings.updateSettingsSchema,
+    output: [
+      http.Ok<outputs.UpdateSettings>,
+      http.BadRequest<outputs.UpdateSettings400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof settings.updateSettingsSchema>) {
+      return toRequest(
+        'PATCH /api/settings',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [
+            'timeZone',
+            'weekStartsOn',
+            'locale',
+            'currency',
+            'dateFormat',
+            'overlapPolicy',
+            'enforceBusinessHours',
+            'budgetAlertThresholds',
+          ],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof settings.updateSettingsSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'PUT /api/settings/business-hours': {
+    schema: settings.updateBusinessHoursSchema,
+    output: [
+      http.Ok<outputs.UpdateBusinessHours>,
+      http.BadRequest<outputs.UpdateBusinessHours400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof settings.updateBusinessHoursSchema>) {
+      return toRequest(
+        'PUT /api/settings/business-hours',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['days'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof settings.updateBusinessHoursSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
@@ -0,0 +1,193 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as tasks from '../inputs/tasks.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'POST /api/tasks': {
+    schema: tasks.createTaskSchema,
+    output: [
+      http.Created<outputs.CreateTask201>,
+      http.BadRequest<outputs.CreateTask400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof tasks.createTaskSchema>) {
+      return toRequest(
+        'POST /api/tasks',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [
+            'projectId',
+            'name',
+            'status',
+            'estimateHours',
+            'hourlyRate',
+          ],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof tasks.createTaskSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/tasks': {
+    schema: tasks.getTasksSchema,
+    output: [
+      http.Ok<outputs.GetTasks>,
+      http.BadRequest<outputs.GetTasks400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof tasks.getTasksSchema>) {
+      return toRequest(
+        'GET /api/tasks',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['projectId', 'status'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof tasks.getTasksSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/tasks/{id}': {
+    schema: tasks.getTaskSchema,
+    output: [
+      http.Ok<outputs.GetTask>,
+      http.BadRequest<outputs.GetTask400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof tasks.getTaskSchema>) {
+      return toRequest(
+        'GET /api/tasks/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof tasks.getTaskSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'PATCH /api/tasks/{id}': {
+    schema: tasks.updateTaskSchema,
+    output: [
+      http.Ok<outputs.UpdateTask>,
+      http.BadRequest<outputs.UpdateTask400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof tasks.updateTaskSchema>) {
+      return toRequest(
+        'PATCH /api/tasks/{id}',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['name', 'status', 'estimateHours', 'hourlyRate'],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof tasks.updateTaskSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'DELETE /api/tasks/{id}': {
+    schema: tasks.deleteTaskSchema,
+    output: [
+      http.Ok<outputs.DeleteTask>,
+      http.BadRequest<outputs.DeleteTask400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof tasks.deleteTaskSchema>) {
+      return toRequest(
+        'DELETE /api/tasks/{id}',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof tasks.deleteTaskSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
@@ -36,19 +36,27 @@ export default {
       http.BadRequest<outputs.CreateTimeEntry400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.createTimeEntrySchema>) {
+    toRequest(input: z.input<typeof timeEntries.createTimeEntrySchema>) {
       return toRequest(
         'POST /api/time-entries',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['startedAt', 'endedAt', 'note', 'projectId'],
+          inputBody: [
+            'startedAt',
+            'endedAt',
+            'note',
+            'projectId',
+            'taskId',
+            'isBillable',
+            'tagIds',
+          ],
           inputParams: [],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.createTimeEntrySchema>,
+      input: z.input<typeof timeEntries.createTimeEntrySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -67,7 +75,7 @@ export default {
       http.BadRequest<outputs.GetTimeEntries400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.getTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof timeEntries.getTimeEntriesSchema>) {
       return toRequest(
         'GET /api/time-entries',
         empty(input, {
@@ -79,6 +87,12 @@ export default {
             'clientId',
             'startDate',
             'endDate',
+            'taskId',
+            'tagId',
+            'q',
+            'cursor',
+            'sort',
+            'order',
           ],
           inputBody: [],
           inputParams: [],
@@ -86,7 +100,52 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.getTimeEntriesSchema>,
+      input: z.input<typeof timeEntries.getTimeEntriesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const pagination = new CursorPagination(input, async (nextPageParams) => {
+        const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+        const result = await dispatcher.send(
+          this.toRequest({ ...input, ...nextPageParams }),
+          this.output,
+        );
+
+        return {
+          data: result.data.data,
+          meta: {
+            hasMore: Boolean(result.data.pagination.hasMore),
+            nextCursor: result.data.pagination.nextCursor ?? undefined,
+          },
+        };
+      });
+      await pagination.getNextPage();
+      return pagination;
+    },
+  },
+  'GET /api/time-entries/overlaps': {
+    schema: timeEntries.getTimeEntryOverlapsSchema,
+    output: [
+      http.Ok<outputs.GetTimeEntryOverlaps>,
+      http.BadRequest<outputs.GetTimeEntryOverlaps400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timeEntries.getTimeEntryOverlapsSchema>) {
+      return toRequest(
+        'GET /api/time-entries/overlaps',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['startDate', 'endDate'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timeEntries.getTimeEntryOverlapsSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -105,7 +164,7 @@ export default {
       http.BadRequest<outputs.GetTimeEntry400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.getTimeEntrySchema>) {
+    toRequest(input: z.input<typeof timeEntries.getTimeEntrySchema>) {
       return toRequest(
         'GET /api/time-entries/{id}',
         empty(input, {
@@ -117,7 +176,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.getTimeEntrySchema>,
+      input: z.input<typeof timeEntries.getTimeEntrySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -136,19 +195,19 @@ export default {
       http.BadRequest<outputs.UpdateTimeEntry400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.updateTimeEntrySchema>) {
+    toRequest(input: z.input<typeof timeEntries.updateTimeEntrySchema>) {
       return toRequest(
         'PATCH /api/time-entries/{id}',
         json(input, {
           inputHeaders: [],
           inputQuery: [],
-          inputBody: ['startedAt', 'endedAt', 'note'],
+          inputBody: ['startedAt', 'endedAt', 'note', 'taskId', 'isBillable'],
           inputParams: ['id'],
         }),
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.updateTimeEntrySchema>,
+      input: z.input<typeof timeEntries.updateTimeEntrySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -167,7 +226,7 @@ export default {
       http.BadRequest<outputs.DeleteTimeEntry400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.deleteTimeEntrySchema>) {
+    toRequest(input: z.input<typeof timeEntries.deleteTimeEntrySchema>) {
       return toRequest(
         'DELETE /api/time-entries/{id}',
         empty(input, {
@@ -179,7 +238,70 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.deleteTimeEntrySchema>,
+      input: z.input<typeof timeEntries.deleteTimeEntrySchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'GET /api/time-entries/{id}/history': {
+    schema: timeEntries.getTimeEntryHistorySchema,
+    output: [
+      http.Ok<outputs.GetTimeEntryHistory>,
+      http.BadRequest<outputs.GetTimeEntryHistory400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timeEntries.getTimeEntryHistorySchema>) {
+      return toRequest(
+        'GET /api/time-entries/{id}/history',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timeEntries.getTimeEntryHistorySchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/time-entries/{id}/restore': {
+    schema: timeEntries.restoreTimeEntrySchema,
+    output: [
+      http.Ok<outputs.RestoreTimeEntry>,
+      http.BadRequest<outputs.RestoreTimeEntry400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+      http.Conflict<outputs.RestoreTimeEntry409>,
+    ],
+    toRequest(input: z.input<typeof timeEntries.restoreTimeEntrySchema>) {
+      return toRequest(
+        'POST /api/time-entries/{id}/restore',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: [],
+          inputParams: ['id'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timeEntries.restoreTimeEntrySchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -198,7 +320,7 @@ export default {
       http.BadRequest<outputs.BulkCreateTimeEntries400>,
       http.Unauthorized<outputs.UnauthorizedErr>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.bulkCreateTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof timeEntries.bulkCreateTimeEntriesSchema>) {
       return toRequest(
         'POST /api/time-entries/bulk',
         json(input, {
@@ -210,7 +332,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.bulkCreateTimeEntriesSchema>,
+      input: z.input<typeof timeEntries.bulkCreateTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -230,7 +352,7 @@ export default {
       http.Unauthorized<outputs.UnauthorizedErr>,
       http.NotFound<outputs.BulkDeleteTimeEntries404>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.bulkDeleteTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof timeEntries.bulkDeleteTimeEntriesSchema>) {
       return toRequest(
         'DELETE /api/time-entries/bulk',
         json(input, {
@@ -242,7 +364,7 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.bulkDeleteTimeEntriesSchema>,
+      input: z.input<typeof timeEntries.bulkDeleteTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -262,7 +384,7 @@ export default {
       http.Unauthorized<outputs.UnauthorizedErr>,
       http.NotFound<outputs.BulkUpdateTimeEntries404>,
     ],
-    toRequest(input: z.infer<typeof timeEntries.bulkUpdateTimeEntriesSchema>) {
+    toRequest(input: z.input<typeof timeEntries.bulkUpdateTimeEntriesSchema>) {
       return toRequest(
         'PATCH /api/time-entries/bulk',
         json(input, {
@@ -274,7 +396,72 @@ export default {
       );
     },
     async dispatch(
-      input: z.infer<typeof timeEntries.bulkUpdateTimeEntriesSchema>,
+      input: z.input<typeof timeEntries.bulkUpdateTimeEntriesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/time-entries/import': {
+    schema: timeEntries.importTimeEntriesSchema,
+    output: [
+      http.Ok<outputs.ImportTimeEntries>,
+      http.Created<outputs.ImportTimeEntries201>,
+      http.BadRequest<outputs.ImportTimeEntries400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timeEntries.importTimeEntriesSchema>) {
+      return toRequest(
+        'POST /api/time-entries/import',
+        formdata(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['file', 'mapping', 'createMissing', 'dryRun'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timeEntries.importTimeEntriesSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/time-entries/import/{source}': {
+    schema: timeEntries.importExternalTimeEntriesSchema,
+    output: [
+      http.Ok<outputs.ImportExternalTimeEntries>,
+      http.BadRequest<outputs.ImportExternalTimeEntries400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(
+      input: z.input<typeof timeEntries.importExternalTimeEntriesSchema>,
+    ) {
+      return toRequest(
+        'POST /api/time-entries/import/{source}',
+        formdata(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['file', 'timeZone'],
+          inputParams: ['source'],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timeEntries.importExternalTimeEntriesSchema>,
       options: {
         signal?: AbortSignal;
         interceptors: Interceptor[];
@@ -0,0 +1,95 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as timers from '../inputs/timers.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'POST /api/timers/start': {
+    schema: timers.startTimerSchema,
+    output: [
+      http.Created<outputs.StartTimer201>,
+      http.BadRequest<outputs.StartTimer400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+      http.Conflict<outputs.StartTimer409>,
+    ],
+    toRequest(input: z.input<typeof timers.startTimerSchema>) {
+      return toRequest(
+        'POST /api/timers/start',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['projectId', 'taskId', 'note', 'startedAt', 'isBillable'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timers.startTimerSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'POST /api/timers/stop': {
+    schema: timers.stopTimerSchema,
+    output: [
+      http.Ok<outputs.StopTimer>,
+      http.BadRequest<outputs.StopTimer400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timers.stopTimerSchema>) {
+      return toRequest(
+        'POST /api/timers/stop',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['endedAt', 'note'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timers.stopTimerSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
@@ -0,0 +1,94 @@
+import z from 'zod';
+
+import {
+  Dispatcher,
+  type InstanceType,
+  fetchType,
+} from '../http/dispatcher.ts';
+import {
+  type Interceptor,
+  createBaseUrlInterceptor,
+  createHeadersInterceptor,
+} from '../http/interceptors.ts';
+import { buffered, chunked } from '../http/parse-response.ts';
+import {
+  type HeadersInit,
+  empty,
+  formdata,
+  json,
+  toRequest,
+  urlencoded,
+} from '../http/request.ts';
+import * as http from '../http/response.ts';
+import * as timesheets from '../inputs/timesheets.ts';
+import * as outputs from '../outputs/index.ts';
+import {
+  CursorPagination,
+  OffsetPagination,
+  Pagination,
+} from '../pagination/index.ts';
+
+export default {
+  'GET /api/timesheets/week': {
+    schema: timesheets.getWeeklyTimesheetSchema,
+    output: [
+      http.Ok<outputs.GetWeeklyTimesheet>,
+      http.BadRequest<outputs.GetWeeklyTimesheet400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timesheets.getWeeklyTimesheetSchema>) {
+      return toRequest(
+        'GET /api/timesheets/week',
+        empty(input, {
+          inputHeaders: [],
+          inputQuery: ['start'],
+          inputBody: [],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timesheets.getWeeklyTimesheetSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+  'PUT /api/timesheets/week': {
+    schema: timesheets.updateWeeklyTimesheetSchema,
+    output: [
+      http.Ok<outputs.UpdateWeeklyTimesheet>,
+      http.BadRequest<outputs.UpdateWeeklyTimesheet400>,
+      http.Unauthorized<outputs.UnauthorizedErr>,
+    ],
+    toRequest(input: z.input<typeof timesheets.updateWeeklyTimesheetSchema>) {
+      return toRequest(
+        'PUT /api/timesheets/week',
+        json(input, {
+          inputHeaders: [],
+          inputQuery: [],
+          inputBody: ['start', 'rows'],
+          inputParams: [],
+        }),
+      );
+    },
+    async dispatch(
+      input: z.input<typeof timesheets.updateWeeklyTimesheetSchema>,
+      options: {
+        signal?: AbortSignal;
+        interceptors: Interceptor[];
+        fetch: z.infer<typeof fetchType>;
+      },
+    ) {
+      const dispatcher = new Dispatcher(options.interceptors, options.fetch);
+      const result = await dispatcher.send(this.toRequest(input), this.output);
+      return result.data;
+    },
+  },
+};
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const getAuditLogSchema = z.object({
+  page: z.number().gt(0).default(1),
+  pageSize: z.number().min(1).max(100).default(20),
+  entityType: z
+    .enum([
+      'CLIENT',
+      'PROJECT',
+      'TIME_ENTRY',
+      'INVOICE',
+      'TASK',
+      'RATE',
+      'MILESTONE',
+    ])
+    .optional(),
+  entityId: z.string().uuid().optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE', 'RESTORE']).optional(),
+  requestId: z.string().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
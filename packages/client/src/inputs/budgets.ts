@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const getBudgetAlertsSchema = z.object({
+  after: z.string().datetime().optional(),
+  projectId: z.string().uuid().optional(),
+});
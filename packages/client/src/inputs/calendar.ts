@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const getCalendarFeedSchema = z.object({
+  token: z.string(),
+  clientId: z.string().uuid().optional(),
+  projectId: z.string().uuid().optional(),
+  pastDays: z.number().min(0).max(366).default(90),
+  futureDays: z.number().min(0).max(366).default(30),
+});
+export const createCalendarMatchRuleSchema = z.object({
+  keyword: z.string(),
+  projectId: z.string().uuid(),
+});
+export const updateCalendarMatchRuleSchema = z.object({
+  keyword: z.string().optional(),
+  projectId: z.string().uuid().optional(),
+  id: z.string().uuid(),
+});
+export const deleteCalendarMatchRuleSchema = z.object({
+  id: z.string().uuid(),
+});
+export const importCalendarEventsSchema = z.object({
+  file: z.instanceof(Blob),
+  dateFrom: z.string().datetime(),
+  dateTo: z.string().datetime(),
+  timeZone: z.string().default('UTC'),
+});
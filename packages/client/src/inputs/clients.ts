@@ -3,14 +3,39 @@ import { z } from 'zod';
 export const createClientSchema = z.object({
   name: z.string(),
   email: z.string().email().optional(),
+  roundingIncrement: z.number().min(1).max(60).optional(),
+  roundingMode: z.enum(['UP', 'DOWN', 'NEAREST']).optional(),
+  roundingScope: z.enum(['ENTRY', 'LINE']).optional(),
 });
 export const getClientsSchema = z.object({
   page: z.number().gt(0).default(1),
   pageSize: z.number().min(1).max(100).default(20),
+  includeArchived: z.enum(['true', 'false']).default('false'),
+  q: z.string().optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['createdAt', 'name']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
 });
 export const getClientSchema = z.object({ id: z.string().uuid() });
 export const updateClientSchema = z.object({
   name: z.string().optional(),
   email: z.string().email().optional(),
+  roundingIncrement: z.number().min(1).max(60).optional(),
+  roundingMode: z.enum(['UP', 'DOWN', 'NEAREST']).optional(),
+  roundingScope: z.enum(['ENTRY', 'LINE']).optional(),
   id: z.string().uuid(),
 });
+export const deleteClientSchema = z.object({ id: z.string().uuid() });
+export const archiveClientSchema = z.object({ id: z.string().uuid() });
+export const unarchiveClientSchema = z.object({ id: z.string().uuid() });
+export const restoreClientSchema = z.object({ id: z.string().uuid() });
+export const getClientRatesSchema = z.object({ id: z.string().uuid() });
+export const addClientRateSchema = z.object({
+  hourlyRate: z.number().gt(0).max(99999999).optional(),
+  effectiveFrom: z.union([z.string().datetime(), z.coerce.date()]),
+  id: z.string().uuid(),
+});
+export const deleteClientRateSchema = z.object({
+  id: z.string().uuid(),
+  rateId: z.string().uuid(),
+});
@@ -1,5 +1,17 @@
+export * from './audit.ts';
+export * from './budgets.ts';
+export * from './calendar.ts';
 export * from './clients.ts';
 export * from './invoices.ts';
+export * from './milestones.ts';
+export * from './payments.ts';
 export * from './projects.ts';
 export * from './reports.ts';
+export * from './search.ts';
+export * from './settings.ts';
+export * from './tags.ts';
+export * from './tasks.ts';
 export * from './time-entries.ts';
+export * from './timers.ts';
+export * from './timesheets.ts';
+export * from './trash.ts';
@@ -2,28 +2,37 @@ import { z } from 'zod';
 
 export const createInvoiceSchema = z.object({
   clientId: z.string().uuid(),
-  dateFrom: z.string().datetime(),
-  dateTo: z.string().datetime(),
+  dateFrom: z.union([z.string().datetime(), z.coerce.date()]),
+  dateTo: z.union([z.string().datetime(), z.coerce.date()]),
+  lineGrouping: z.enum(['PROJECT', 'TASK']).default('PROJECT'),
 });
 export const getInvoicesSchema = z.object({
   page: z.number().gt(0).default(1),
   pageSize: z.number().min(1).max(100).default(20),
   status: z.enum(['DRAFT', 'SENT', 'PAID']).optional(),
   clientId: z.string().uuid().optional(),
+  q: z.string().optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['createdAt', 'dateFrom', 'totalAmount']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
 });
 export const getInvoiceSchema = z.object({ id: z.string().uuid() });
 export const deleteInvoiceSchema = z.object({ id: z.string().uuid() });
 export const updateInvoiceSchema = z.object({
-  dateFrom: z.string().datetime().optional(),
-  dateTo: z.string().datetime().optional(),
+  dateFrom: z.union([z.string().datetime(), z.coerce.date()]).optional(),
+  dateTo: z.union([z.string().datetime(), z.coerce.date()]).optional(),
   id: z.string().uuid(),
 });
+export const getInvoiceHistorySchema = z.object({ id: z.string().uuid() });
 export const updateInvoiceStatusSchema = z.object({
   status: z.enum(['SENT', 'PAID']).optional(),
   paidAmount: z.number().gt(0).optional(),
   id: z.string().uuid(),
 });
 export const generateInvoicePdfSchema = z.object({ id: z.string().uuid() });
+export const downloadInvoicePdfSchema = z.object({ id: z.string().uuid() });
+export const restoreInvoiceSchema = z.object({ id: z.string().uuid() });
+export const recalculateInvoiceSchema = z.object({ id: z.string().uuid() });
 export const updateInvoiceLineSchema = z.object({
   description: z.string().optional(),
   hours: z.number().gt(0).optional(),
@@ -37,8 +46,9 @@ export const deleteInvoiceLineSchema = z.object({
 });
 export const addInvoiceLineSchema = z.object({
   description: z.string().optional(),
-  hours: z.number().gt(0),
+  hours: z.number().gt(0).optional(),
   rate: z.number().gt(0),
   projectId: z.string().uuid(),
+  timeEntryIds: z.array(z.string().uuid()).optional(),
   id: z.string().uuid(),
 });
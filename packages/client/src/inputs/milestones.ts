@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const createMilestoneSchema = z.object({
+  projectId: z.string().uuid(),
+  name: z.string(),
+  amount: z.number().gt(0).max(99999999),
+  dueDate: z.union([z.string().datetime(), z.coerce.date()]),
+});
+export const getMilestonesSchema = z.object({
+  projectId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'COMPLETED', 'INVOICED']).optional(),
+});
+export const getMilestoneSchema = z.object({ id: z.string().uuid() });
+export const updateMilestoneSchema = z.object({
+  name: z.string().optional(),
+  amount: z.number().gt(0).max(99999999).optional(),
+  dueDate: z.union([z.string().datetime(), z.coerce.date()]).optional(),
+  status: z.enum(['PENDING', 'COMPLETED']).optional(),
+  completedAt: z.union([z.string().datetime(), z.coerce.date()]).optional(),
+  id: z.string().uuid(),
+});
+export const deleteMilestoneSchema = z.object({ id: z.string().uuid() });
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const createPaymentSchema = z.object({
+  amount: z.number().gt(0).optional(),
+  paidAt: z.string().datetime().optional(),
+  notes: z.string().optional(),
+  id: z.string().uuid(),
+});
+export const getPaymentsSchema = z.object({ id: z.string().uuid() });
+export const deletePaymentSchema = z.object({
+  id: z.string().uuid(),
+  paymentId: z.string().uuid(),
+});
@@ -5,16 +5,55 @@ export const createProjectSchema = z.object({
   description: z.string().optional(),
   hourlyRate: z.number().gt(0).optional(),
   clientId: z.string().uuid(),
+  billableByDefault: z.boolean().optional(),
+  billingMode: z.enum(['HOURLY', 'FIXED_FEE', 'NON_BILLABLE']).optional(),
+  roundingIncrement: z.number().min(1).max(60).optional(),
+  roundingMode: z.enum(['UP', 'DOWN', 'NEAREST']).optional(),
+  roundingScope: z.enum(['ENTRY', 'LINE']).optional(),
+  budgetHours: z.number().gt(0).max(9999999).optional(),
+  budgetAmount: z.number().gt(0).optional(),
+  budgetPeriod: z.enum(['TOTAL', 'MONTHLY', 'CUSTOM']).optional(),
+  budgetStartsAt: z.union([z.string().datetime(), z.coerce.date()]).optional(),
+  budgetEndsAt: z.union([z.string().datetime(), z.coerce.date()]).optional(),
 });
 export const getProjectsSchema = z.object({
   page: z.number().gt(0).default(1),
   pageSize: z.number().min(1).max(100).default(20),
   clientId: z.string().uuid().optional(),
+  includeArchived: z.enum(['true', 'false']).default('false'),
+  q: z.string().optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['createdAt', 'name']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
 });
 export const getProjectSchema = z.object({ id: z.string().uuid() });
 export const updateProjectSchema = z.object({
   name: z.string().optional(),
   description: z.string().optional(),
   hourlyRate: z.number().gt(0).optional(),
+  billableByDefault: z.boolean().optional(),
+  billingMode: z.enum(['HOURLY', 'FIXED_FEE', 'NON_BILLABLE']).optional(),
+  roundingIncrement: z.number().min(1).max(60).optional(),
+  roundingMode: z.enum(['UP', 'DOWN', 'NEAREST']).optional(),
+  roundingScope: z.enum(['ENTRY', 'LINE']).optional(),
+  budgetHours: z.number().gt(0).max(9999999).optional(),
+  budgetAmount: z.number().gt(0).optional(),
+  budgetPeriod: z.enum(['TOTAL', 'MONTHLY', 'CUSTOM']).optional(),
+  budgetStartsAt: z.unknown().optional(),
+  budgetEndsAt: z.unknown().optional(),
   id: z.string().uuid(),
 });
+export const deleteProjectSchema = z.object({ id: z.string().uuid() });
+export const archiveProjectSchema = z.object({ id: z.string().uuid() });
+export const unarchiveProjectSchema = z.object({ id: z.string().uuid() });
+export const restoreProjectSchema = z.object({ id: z.string().uuid() });
+export const getProjectRatesSchema = z.object({ id: z.string().uuid() });
+export const addProjectRateSchema = z.object({
+  hourlyRate: z.number().gt(0).max(99999999).optional(),
+  effectiveFrom: z.union([z.string().datetime(), z.coerce.date()]),
+  id: z.string().uuid(),
+});
+export const deleteProjectRateSchema = z.object({
+  id: z.string().uuid(),
+  rateId: z.string().uuid(),
+});
@@ -3,7 +3,7 @@ import { z } from 'zod';
 export const getSummarySchema = z.object({
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
-  groupBy: z.enum(['client', 'project']),
+  groupBy: z.enum(['client', 'project', 'task', 'tag']),
   clientId: z.string().uuid().optional(),
   projectId: z.string().uuid().optional(),
 });
@@ -14,6 +14,11 @@ export const getDetailedReportSchema = z.object({
   projectId: z.string().uuid().optional(),
   page: z.number().gt(0).default(1),
   pageSize: z.number().min(1).max(100).default(50),
+  taskId: z.union([z.string().uuid(), z.string().default('none')]).optional(),
+  tagId: z.string().uuid().optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['startedAt', 'createdAt']).default('startedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
 });
 export const getDashboardSchema = z.object({
   period: z.enum(['week', 'month', 'quarter', 'year']).default('month'),
@@ -27,6 +32,14 @@ export const getProductivityMetricsSchema = z.object({
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
 });
+export const getBudgetReportSchema = z.object({
+  clientId: z.string().uuid().optional(),
+});
+export const getProfitabilityReportSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  clientId: z.string().uuid().optional(),
+});
 export const exportTimeEntriesSchema = z.object({
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const searchSchema = z.object({
+  q: z.string(),
+  type: z.enum(['TIME_ENTRY', 'PROJECT', 'CLIENT', 'INVOICE']).optional(),
+  page: z.number().gt(0).default(1),
+  pageSize: z.number().min(1).max(100).default(20),
+});
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const updateSettingsSchema = z.object({
+  timeZone: z.string().optional(),
+  weekStartsOn: z.number().min(0).max(6).optional(),
+  locale: z.string().optional(),
+  currency: z.string().optional(),
+  dateFormat: z
+    .enum(['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'd MMM yyyy'])
+    .optional(),
+  overlapPolicy: z.enum(['REJECT', 'WARN', 'ALLOW']).optional(),
+  enforceBusinessHours: z.boolean().optional(),
+  budgetAlertThresholds: z.array(z.number().min(1).max(1000)).optional(),
+});
+export const updateBusinessHoursSchema = z.object({
+  days: z.array(
+    z.object({
+      weekday: z.number().min(0).max(6),
+      start: z.string(),
+      end: z.string(),
+    }),
+  ),
+});
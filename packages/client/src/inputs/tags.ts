@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const createTagSchema = z.object({
+  name: z.string(),
+  color: z.string().optional(),
+});
+export const getTagSchema = z.object({ id: z.string().uuid() });
+export const updateTagSchema = z.object({
+  name: z.string().optional(),
+  color: z.string().optional(),
+  id: z.string().uuid(),
+});
+export const deleteTagSchema = z.object({ id: z.string().uuid() });
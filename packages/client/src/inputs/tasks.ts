@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const createTaskSchema = z.object({
+  projectId: z.string().uuid(),
+  name: z.string(),
+  status: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+  estimateHours: z.number().gt(0).max(99999).optional(),
+  hourlyRate: z.number().gt(0).optional(),
+});
+export const getTasksSchema = z.object({
+  projectId: z.string().uuid().optional(),
+  status: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+});
+export const getTaskSchema = z.object({ id: z.string().uuid() });
+export const updateTaskSchema = z.object({
+  name: z.string().optional(),
+  status: z.enum(['OPEN', 'IN_PROGRESS', 'DONE']).optional(),
+  estimateHours: z.number().gt(0).max(99999).optional(),
+  hourlyRate: z.number().gt(0).optional(),
+  id: z.string().uuid(),
+});
+export const deleteTaskSchema = z.object({ id: z.string().uuid() });
@@ -5,6 +5,9 @@ export const createTimeEntrySchema = z.object({
   endedAt: z.string().datetime(),
   note: z.string().optional(),
   projectId: z.string().uuid(),
+  taskId: z.string().uuid().optional(),
+  isBillable: z.boolean().optional(),
+  tagIds: z.array(z.string().uuid()).optional(),
 });
 export const getTimeEntriesSchema = z.object({
   page: z.number().gt(0).default(1),
@@ -13,23 +16,40 @@ export const getTimeEntriesSchema = z.object({
   clientId: z.string().uuid().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
+  taskId: z.union([z.string().uuid(), z.string().default('none')]).optional(),
+  tagId: z.string().uuid().optional(),
+  q: z.string().optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['startedAt', 'createdAt']).default('startedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+export const getTimeEntryOverlapsSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
 });
 export const getTimeEntrySchema = z.object({ id: z.string().uuid() });
 export const updateTimeEntrySchema = z.object({
   startedAt: z.string().datetime().optional(),
   endedAt: z.string().datetime().optional(),
   note: z.string().optional(),
+  taskId: z.string().uuid().optional(),
+  isBillable: z.boolean().optional(),
   id: z.string().uuid(),
 });
 export const deleteTimeEntrySchema = z.object({ id: z.string().uuid() });
+export const getTimeEntryHistorySchema = z.object({ id: z.string().uuid() });
+export const restoreTimeEntrySchema = z.object({ id: z.string().uuid() });
 export const bulkCreateTimeEntriesSchema = z.object({
   entries: z
     .array(
       z.object({
         startedAt: z.string().datetime(),
         endedAt: z.string().datetime(),
-        note: z.string(),
+        note: z.string().optional(),
         projectId: z.string().uuid(),
+        taskId: z.string().uuid().optional(),
+        isBillable: z.boolean().optional(),
+        tagIds: z.array(z.string().uuid()).optional(),
       }),
     )
     .optional(),
@@ -40,6 +60,23 @@ export const bulkDeleteTimeEntriesSchema = z.object({
 export const bulkUpdateTimeEntriesSchema = z.object({
   ids: z.array(z.string().uuid()),
   updates: z
-    .object({ note: z.string(), projectId: z.string().uuid().optional() })
+    .object({
+      note: z.string().optional(),
+      projectId: z.string().uuid().optional(),
+      taskId: z.string().uuid().optional(),
+      isBillable: z.boolean().optional(),
+      tagIds: z.array(z.string().uuid()).optional(),
+    })
     .optional(),
 });
+export const importTimeEntriesSchema = z.object({
+  file: z.instanceof(Blob),
+  mapping: z.string().optional(),
+  createMissing: z.enum(['true', 'false']).default('false'),
+  dryRun: z.enum(['true', 'false']).default('false'),
+});
+export const importExternalTimeEntriesSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  timeZone: z.string().optional(),
+  source: z.enum(['toggl', 'clockify', 'harvest']),
+});
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const startTimerSchema = z.object({
+  projectId: z.string().uuid(),
+  taskId: z.string().uuid().optional(),
+  note: z.string().optional(),
+  startedAt: z.string().datetime().optional(),
+  isBillable: z.boolean().optional(),
+});
+export const stopTimerSchema = z.object({
+  endedAt: z.string().datetime().optional(),
+  note: z.string().optional(),
+});
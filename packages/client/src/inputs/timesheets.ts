@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const getWeeklyTimesheetSchema = z.object({
+  start: z.coerce.date().optional(),
+});
+export const updateWeeklyTimesheetSchema = z.object({
+  start: z.coerce.date(),
+  rows: z.array(
+    z.object({
+      projectId: z.string().uuid(),
+      cells: z.array(
+        z.object({ date: z.coerce.date(), hours: z.number().min(0).max(24) }),
+      ),
+    }),
+  ),
+});
@@ -0,0 +1,8 @@
+export type BudgetUsage = {
+  budget: number;
+  consumed: number;
+  remaining: number;
+  percent: number;
+  projected: number;
+  runsOutAt: string;
+};
@@ -0,0 +1,14 @@
+export type ImportRowError = {
+  row: number;
+  field:
+    | 'client'
+    | 'project'
+    | 'startedAt'
+    | 'endedAt'
+    | 'note'
+    | 'isBillable'
+    | 'duration'
+    | undefined;
+  code: string;
+  message: string;
+};
@@ -1,2 +1,10 @@
+export * from './budget-usage.ts';
+export * from './import-row-error.ts';
 export * from './json-value.ts';
+export * from './project-budget.ts';
+export * from './search-result.ts';
+export * from './time-entry-overlap-warning.ts';
+export * from './timesheet-cell.ts';
+export * from './timesheet-row.ts';
+export * from './trash-item.ts';
 export * from './validation-error.ts';
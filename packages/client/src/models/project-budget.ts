@@ -0,0 +1,10 @@
+import type * as models from '../index.ts';
+
+export type ProjectBudget = {
+  period: 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+  periodStart: string;
+  periodEnd: string;
+  periodKey: string;
+  hours: models.BudgetUsage;
+  amount: models.BudgetUsage;
+};
@@ -0,0 +1,8 @@
+export type SearchResult = {
+  type: 'TIME_ENTRY' | 'PROJECT' | 'CLIENT' | 'INVOICE';
+  id: string;
+  title: string;
+  highlight: string;
+  rank: number;
+  date: string;
+};
@@ -0,0 +1,13 @@
+export type TimeEntryOverlapWarning = {
+  code: 'api/time-entry-overlap';
+  detail: string;
+  conflictingEntry: {
+    id: string;
+    project: string;
+    client: string | undefined;
+    startedAt: string;
+    endedAt: string;
+  };
+  entryIndex: number | undefined;
+  entryIndexes: number[];
+};
@@ -0,0 +1,6 @@
+export type TimesheetCell = {
+  date: string;
+  hours: number;
+  entryIds: string[];
+  readOnly: boolean;
+};
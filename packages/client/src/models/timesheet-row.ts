@@ -0,0 +1,7 @@
+import type * as models from '../index.ts';
+
+export type TimesheetRow = {
+  project: { id: string; name: string; client: { id: string; name: string } };
+  cells: models.TimesheetCell[];
+  totalHours: number;
+};
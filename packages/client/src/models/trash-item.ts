@@ -0,0 +1,7 @@
+export type TrashItem = {
+  type: 'TIME_ENTRY' | 'PROJECT' | 'CLIENT' | 'INVOICE';
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string;
+};
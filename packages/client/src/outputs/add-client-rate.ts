@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type AddClientRate201 = {
+  id: string;
+  createdAt: string;
+  userId: string;
+  hourlyRate: string;
+  clientId: string;
+  effectiveFrom: string;
+  projectId: string;
+};
+
+export type AddClientRate400 = models.ValidationError;
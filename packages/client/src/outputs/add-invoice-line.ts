@@ -4,20 +4,36 @@ export type AddInvoiceLine201 = {
   project: {
     id: string;
     name: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
     description: string;
     hourlyRate: string;
+    billableByDefault: boolean;
+    billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+    budgetHours: string;
+    budgetAmount: string;
+    budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+    budgetStartsAt: string;
+    budgetEndsAt: string;
     clientId: string;
   };
+  rate: string;
   id: string;
   description: string;
   projectId: string;
+  taskId: string;
+  invoiceId: string;
   hours: string;
-  rate: string;
   amount: string;
-  invoiceId: string;
+  rawHours: string;
+  isManual: boolean;
+  milestoneId: string;
 };
 
-export type AddInvoiceLine400 = models.ValidationError;
+export type AddInvoiceLine400 = any | models.ValidationError;
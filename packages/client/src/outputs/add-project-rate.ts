@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type AddProjectRate201 = {
+  id: string;
+  createdAt: string;
+  userId: string;
+  hourlyRate: string;
+  clientId: string;
+  effectiveFrom: string;
+  projectId: string;
+};
+
+export type AddProjectRate400 = models.ValidationError;
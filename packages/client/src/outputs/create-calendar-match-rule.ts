@@ -0,0 +1,12 @@
+import type * as models from '../index.ts';
+
+export type CreateCalendarMatchRule201 = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  projectId: string;
+  keyword: string;
+};
+
+export type CreateCalendarMatchRule400 = models.ValidationError;
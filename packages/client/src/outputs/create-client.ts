@@ -4,6 +4,11 @@ export type CreateClient201 = {
   id: string;
   name: string;
   email: string;
+  roundingIncrement: number;
+  roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+  roundingScope: null | 'ENTRY' | 'LINE';
+  archivedAt: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
@@ -5,6 +5,11 @@ export type CreateInvoice201 = {
     id: string;
     name: string;
     email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -13,22 +18,50 @@ export type CreateInvoice201 = {
     project: {
       id: string;
       name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
       description: string;
       hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
       clientId: string;
     };
+    task: {
+      id: string;
+      name: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+      hourlyRate: string;
+      projectId: string;
+      estimateHours: string;
+    };
+    rate: string;
     id: string;
     description: string;
     projectId: string;
+    taskId: string;
+    invoiceId: string;
     hours: string;
-    rate: string;
     amount: string;
-    invoiceId: string;
+    rawHours: string;
+    isManual: boolean;
+    milestoneId: string;
   }[];
   id: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
@@ -41,7 +74,10 @@ export type CreateInvoice201 = {
   paidAt: string;
   paidAmount: string;
   pdfUrl: string;
+  pdfKey: string;
+  pdfChecksum: string;
   notes: string;
+  lineGrouping: 'PROJECT' | 'TASK';
 };
 
 export type CreateInvoice400 = any | models.ValidationError;
@@ -0,0 +1,19 @@
+import type * as models from '../index.ts';
+
+export type CreatePayment201 = {
+  balance: {
+    totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+  };
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  invoiceId: string;
+  amount: string;
+  paidAt: string;
+  notes: string;
+};
+
+export type CreatePayment400 = any | models.ValidationError;
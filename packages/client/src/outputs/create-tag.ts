@@ -0,0 +1,12 @@
+import type * as models from '../index.ts';
+
+export type CreateTag201 = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  color: string;
+};
+
+export type CreateTag400 = models.ValidationError;
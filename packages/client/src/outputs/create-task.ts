@@ -0,0 +1,37 @@
+import type * as models from '../index.ts';
+
+export type CreateTask201 = {
+  project: {
+    id: string;
+    name: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+    description: string;
+    hourlyRate: string;
+    billableByDefault: boolean;
+    billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+    budgetHours: string;
+    budgetAmount: string;
+    budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+    budgetStartsAt: string;
+    budgetEndsAt: string;
+    clientId: string;
+  };
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+  hourlyRate: string;
+  projectId: string;
+  estimateHours: string;
+};
+
+export type CreateTask400 = models.ValidationError;
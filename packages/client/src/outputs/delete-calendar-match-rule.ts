@@ -0,0 +1,7 @@
+import type * as models from '../index.ts';
+
+export type DeleteCalendarMatchRule = {
+  message: 'Calendar match rule deleted successfully';
+};
+
+export type DeleteCalendarMatchRule400 = models.ValidationError;
@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteClientRate = { message: 'Rate deleted successfully' };
+
+export type DeleteClientRate400 = models.ValidationError;
@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteClient = { message: 'Client deleted successfully' };
+
+export type DeleteClient400 = any | models.ValidationError;
@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteMilestone = { message: 'Milestone deleted successfully' };
+
+export type DeleteMilestone400 = any | models.ValidationError;
@@ -0,0 +1,12 @@
+import type * as models from '../index.ts';
+
+export type DeletePayment = {
+  message: 'Payment deleted successfully';
+  balance: {
+    totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+  };
+};
+
+export type DeletePayment400 = models.ValidationError;
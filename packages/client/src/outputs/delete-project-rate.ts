@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteProjectRate = { message: 'Rate deleted successfully' };
+
+export type DeleteProjectRate400 = models.ValidationError;
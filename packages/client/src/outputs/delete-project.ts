@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteProject = { message: 'Project deleted successfully' };
+
+export type DeleteProject400 = any | models.ValidationError;
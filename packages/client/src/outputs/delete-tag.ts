@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteTag = { message: 'Tag deleted successfully' };
+
+export type DeleteTag400 = models.ValidationError;
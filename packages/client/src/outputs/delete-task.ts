@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DeleteTask = { message: 'Task deleted successfully' };
+
+export type DeleteTask400 = any | models.ValidationError;
@@ -0,0 +1,5 @@
+import type * as models from '../index.ts';
+
+export type DownloadInvoicePdf = { [key: string]: any };
+
+export type DownloadInvoicePdf400 = models.ValidationError;
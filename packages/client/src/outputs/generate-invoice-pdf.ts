@@ -2,7 +2,7 @@ import type * as models from '../index.ts';
 
 export type GenerateInvoicePdf = {
   pdfUrl: string;
-  message: 'PDF generation initiated';
+  message: 'PDF generated successfully';
 };
 
 export type GenerateInvoicePdf400 = models.ValidationError;
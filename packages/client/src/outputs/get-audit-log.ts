@@ -0,0 +1,30 @@
+import type * as models from '../index.ts';
+
+export type GetAuditLog = {
+  data: {
+    id: string;
+    createdAt: string;
+    userId: string;
+    requestId: string;
+    action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+    entityType:
+      | 'TIME_ENTRY'
+      | 'PROJECT'
+      | 'CLIENT'
+      | 'INVOICE'
+      | 'TASK'
+      | 'RATE'
+      | 'MILESTONE';
+    entityId: string;
+    before: models.JsonValue;
+    after: models.JsonValue;
+  }[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+export type GetAuditLog400 = models.ValidationError;
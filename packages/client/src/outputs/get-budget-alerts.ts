@@ -0,0 +1,52 @@
+import type * as models from '../index.ts';
+
+export type GetBudgetAlerts = {
+  data: {
+    project: {
+      client: {
+        id: string;
+        name: string;
+        email: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+      };
+      id: string;
+      name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      description: string;
+      hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
+      clientId: string;
+    };
+    id: string;
+    createdAt: string;
+    userId: string;
+    metric: 'HOURS' | 'AMOUNT';
+    projectId: string;
+    budget: string;
+    periodKey: string;
+    threshold: number;
+    consumed: string;
+  }[];
+};
+
+export type GetBudgetAlerts400 = models.ValidationError;
@@ -0,0 +1,11 @@
+import type * as models from '../index.ts';
+
+export type GetBudgetReport = {
+  data: {
+    project: { id: string; name: string; client: { id: string; name: string } };
+    budget: models.ProjectBudget;
+  }[];
+  totals: { projects: number; overBudget: number };
+};
+
+export type GetBudgetReport400 = models.ValidationError;
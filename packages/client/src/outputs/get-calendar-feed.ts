@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type GetCalendarFeed = { [key: string]: any };
+
+export type GetCalendarFeed400 = models.ValidationError;
+
+export type GetCalendarFeed401 = {
+  message: 'Invalid calendar feed token';
+  cause: {
+    code: 'api/invalid-calendar-token';
+    detail: 'The calendar feed token is unknown or was revoked';
+  };
+};
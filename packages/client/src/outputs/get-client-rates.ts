@@ -0,0 +1,15 @@
+import type * as models from '../index.ts';
+
+export type GetClientRates = {
+  data: {
+    id: string;
+    createdAt: string;
+    userId: string;
+    hourlyRate: string;
+    clientId: string;
+    effectiveFrom: string;
+    projectId: string;
+  }[];
+};
+
+export type GetClientRates400 = models.ValidationError;
@@ -4,17 +4,34 @@ export type GetClient = {
   projects: {
     id: string;
     name: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
     description: string;
     hourlyRate: string;
+    billableByDefault: boolean;
+    billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+    budgetHours: string;
+    budgetAmount: string;
+    budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+    budgetStartsAt: string;
+    budgetEndsAt: string;
     clientId: string;
   }[];
   _count: { invoices: number };
   id: string;
   name: string;
   email: string;
+  roundingIncrement: number;
+  roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+  roundingScope: null | 'ENTRY' | 'LINE';
+  archivedAt: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
@@ -6,15 +6,22 @@ export type GetClients = {
     id: string;
     name: string;
     email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
   }[];
   pagination: {
-    page: number;
-    pageSize: number;
-    totalCount: number;
+    hasMore: boolean;
+    nextCursor: string;
+    page: number | undefined;
+    totalCount: number | undefined;
     totalPages: number;
+    pageSize: number;
   };
 };
 
@@ -5,6 +5,8 @@ export type GetDashboard = {
   dateRange: { startDate: string; endDate: string };
   metrics: {
     totalHours: number;
+    billableHours: number;
+    nonBillableHours: number;
     totalAmount: number;
     totalInvoiced: number;
     totalPaid: number;
@@ -0,0 +1,24 @@
+import type * as models from '../index.ts';
+
+export type GetInvoiceHistory = {
+  data: {
+    id: string;
+    createdAt: string;
+    userId: string;
+    requestId: string;
+    action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+    entityType:
+      | 'TIME_ENTRY'
+      | 'PROJECT'
+      | 'CLIENT'
+      | 'INVOICE'
+      | 'TASK'
+      | 'RATE'
+      | 'MILESTONE';
+    entityId: string;
+    before: models.JsonValue;
+    after: models.JsonValue;
+  }[];
+};
+
+export type GetInvoiceHistory400 = models.ValidationError;
@@ -2,34 +2,129 @@ import type * as models from '../index.ts';
 
 export type GetInvoice = {
   totalAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
   client: {
     id: string;
     name: string;
     email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
   };
+  timeEntries: {
+    project: {
+      id: string;
+      name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      description: string;
+      hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
+      clientId: string;
+    };
+    task: {
+      id: string;
+      name: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+      hourlyRate: string;
+      projectId: string;
+      estimateHours: string;
+    };
+    id: string;
+    deletedAt: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+    projectId: string;
+    startedAt: string;
+    endedAt: string;
+    note: string;
+    isBillable: boolean;
+    importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+    externalId: string;
+    taskId: string;
+    invoiceId: string;
+    invoiceLineId: string;
+  }[];
   invoiceLines: {
     project: {
       id: string;
       name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
       description: string;
       hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
       clientId: string;
     };
+    task: {
+      id: string;
+      name: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+      hourlyRate: string;
+      projectId: string;
+      estimateHours: string;
+    };
+    rate: string;
     id: string;
     description: string;
     projectId: string;
+    taskId: string;
+    invoiceId: string;
     hours: string;
-    rate: string;
     amount: string;
+    rawHours: string;
+    isManual: boolean;
+    milestoneId: string;
+  }[];
+  payments: {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
     invoiceId: string;
+    amount: string;
+    paidAt: string;
+    notes: string;
   }[];
   id: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
@@ -40,9 +135,11 @@ export type GetInvoice = {
   dateTo: string;
   sentAt: string;
   paidAt: string;
-  paidAmount: string;
   pdfUrl: string;
+  pdfKey: string;
+  pdfChecksum: string;
   notes: string;
+  lineGrouping: 'PROJECT' | 'TASK';
 };
 
 export type GetInvoice400 = models.ValidationError;
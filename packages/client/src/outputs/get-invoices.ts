@@ -3,24 +3,46 @@ import type * as models from '../index.ts';
 export type GetInvoices = {
   data: {
     totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
     client: {
       id: string;
       name: string;
       email: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
     };
     invoiceLines: {
+      rate: string;
       id: string;
       description: string;
       projectId: string;
+      taskId: string;
+      invoiceId: string;
       hours: string;
-      rate: string;
       amount: string;
+      rawHours: string;
+      isManual: boolean;
+      milestoneId: string;
+    }[];
+    payments: {
+      id: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
       invoiceId: string;
+      amount: string;
+      paidAt: string;
+      notes: string;
     }[];
     id: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -31,15 +53,19 @@ export type GetInvoices = {
     dateTo: string;
     sentAt: string;
     paidAt: string;
-    paidAmount: string;
     pdfUrl: string;
+    pdfKey: string;
+    pdfChecksum: string;
     notes: string;
+    lineGrouping: 'PROJECT' | 'TASK';
   }[];
   pagination: {
-    page: number;
-    pageSize: number;
-    totalCount: number;
+    hasMore: boolean;
+    nextCursor: string;
+    page: number | undefined;
+    totalCount: number | undefined;
     totalPages: number;
+    pageSize: number;
   };
 };
 
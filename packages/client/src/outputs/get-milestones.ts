@@ -0,0 +1,40 @@
+import type * as models from '../index.ts';
+
+export type GetMilestones = {
+  data: {
+    project: {
+      id: string;
+      name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      description: string;
+      hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
+      clientId: string;
+    };
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+    status: 'PENDING' | 'COMPLETED' | 'INVOICED';
+    projectId: string;
+    amount: string;
+    dueDate: string;
+    completedAt: string;
+  }[];
+};
+
+export type GetMilestones400 = models.ValidationError;
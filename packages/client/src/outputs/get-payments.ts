@@ -0,0 +1,21 @@
+import type * as models from '../index.ts';
+
+export type GetPayments = {
+  data: {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+    invoiceId: string;
+    amount: string;
+    paidAt: string;
+    notes: string;
+  }[];
+  balance: {
+    totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+  };
+};
+
+export type GetPayments400 = models.ValidationError;
@@ -5,10 +5,17 @@ export type GetProductivityMetrics = {
   totalDays: number;
   productivity: {
     totalHours: number;
+    billableHours: number;
+    nonBillableHours: number;
+    billablePercentage: number;
     totalAmount: number;
     averageHoursPerDay: number;
     averageSessionDuration: number;
     totalSessions: number;
+    afterHours: number;
+    weekendHours: number;
+    outsideBusinessHoursPercentage: number;
+    billableOutsideBusinessHours: number;
     uniqueProjects: number;
     uniqueClients: number;
     dailyDistribution: { day: string; hours: number; percentage: number }[];
@@ -0,0 +1,22 @@
+import type * as models from '../index.ts';
+
+export type GetProfitabilityReport = {
+  data: {
+    hours: number;
+    billableHours: number;
+    milestoneRevenue: number;
+    revenue: number;
+    effectiveRate: number;
+    project: {
+      id: string;
+      name: string;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      client: { id: string; name: string };
+    };
+    hourlyRevenue: number;
+    milestones: number;
+  }[];
+  totals: { hours: number; revenue: number; effectiveRate: number };
+};
+
+export type GetProfitabilityReport400 = any | models.ValidationError;
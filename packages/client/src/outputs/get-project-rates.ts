@@ -0,0 +1,15 @@
+import type * as models from '../index.ts';
+
+export type GetProjectRates = {
+  data: {
+    id: string;
+    createdAt: string;
+    userId: string;
+    hourlyRate: string;
+    clientId: string;
+    effectiveFrom: string;
+    projectId: string;
+  }[];
+};
+
+export type GetProjectRates400 = models.ValidationError;
@@ -1,10 +1,16 @@
 import type * as models from '../index.ts';
 
 export type GetProject = {
+  budget: models.ProjectBudget;
   client: {
     id: string;
     name: string;
     email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -12,22 +18,40 @@ export type GetProject = {
   _count: { timeEntries: number };
   timeEntries: {
     id: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
+    projectId: string;
     startedAt: string;
     endedAt: string;
     note: string;
-    isLocked: boolean;
-    projectId: string;
+    isBillable: boolean;
+    importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+    externalId: string;
+    taskId: string;
+    invoiceId: string;
+    invoiceLineId: string;
   }[];
   id: string;
   name: string;
+  roundingIncrement: number;
+  roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+  roundingScope: null | 'ENTRY' | 'LINE';
+  archivedAt: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
   description: string;
   hourlyRate: string;
+  billableByDefault: boolean;
+  billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+  budgetHours: string;
+  budgetAmount: string;
+  budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+  budgetStartsAt: string;
+  budgetEndsAt: string;
   clientId: string;
 };
 
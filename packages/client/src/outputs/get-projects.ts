@@ -2,10 +2,16 @@ import type * as models from '../index.ts';
 
 export type GetProjects = {
   data: {
+    budget: models.ProjectBudget;
     client: {
       id: string;
       name: string;
       email: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
@@ -13,18 +19,32 @@ export type GetProjects = {
     _count: { timeEntries: number };
     id: string;
     name: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
     description: string;
     hourlyRate: string;
+    billableByDefault: boolean;
+    billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+    budgetHours: string;
+    budgetAmount: string;
+    budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+    budgetStartsAt: string;
+    budgetEndsAt: string;
     clientId: string;
   }[];
   pagination: {
-    page: number;
-    pageSize: number;
-    totalCount: number;
+    hasMore: boolean;
+    nextCursor: string;
+    page: number | undefined;
+    totalCount: number | undefined;
     totalPages: number;
+    pageSize: number;
   };
 };
 
@@ -6,6 +6,16 @@ export type GetSummary =
       dateRange: { startDate: string; endDate: string };
       summary: any[];
     }
+  | {
+      groupBy: 'task';
+      dateRange: { startDate: string; endDate: string };
+      summary: any[];
+    }
+  | {
+      groupBy: 'tag';
+      dateRange: { startDate: string; endDate: string };
+      summary: any[];
+    }
   | {
       groupBy: 'project';
       dateRange: { startDate: string; endDate: string };
@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type GetTag = {
+  _count: { timeEntries: number };
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  color: string;
+};
+
+export type GetTag400 = models.ValidationError;
@@ -6,7 +6,11 @@ export type GetTimeAnalytics = {
   analytics: {
     period: any;
     totalHours: number;
+    billableHours: number;
+    nonBillableHours: number;
     totalAmount: number;
+    afterHours: number;
+    weekendHours: number;
     entriesCount: any;
     projectsCount: any;
     clientsCount: any;
@@ -14,6 +18,10 @@ export type GetTimeAnalytics = {
   }[];
   statistics: {
     totalPeriods: number;
+    totalBillableHours: number;
+    totalNonBillableHours: number;
+    totalAfterHours: number;
+    totalWeekendHours: number;
     averageHoursPerPeriod: number;
     averageAmountPerPeriod: number;
     mostProductivePeriod: any;
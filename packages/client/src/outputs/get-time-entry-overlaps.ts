@@ -0,0 +1,113 @@
+import type * as models from '../index.ts';
+
+export type GetTimeEntryOverlaps = {
+  data: {
+    first: {
+      project: {
+        client: {
+          id: string;
+          name: string;
+          email: string;
+          roundingIncrement: number;
+          roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+          roundingScope: null | 'ENTRY' | 'LINE';
+          archivedAt: string;
+          deletedAt: string;
+          createdAt: string;
+          updatedAt: string;
+          userId: string;
+        };
+        id: string;
+        name: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+        description: string;
+        hourlyRate: string;
+        billableByDefault: boolean;
+        billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+        budgetHours: string;
+        budgetAmount: string;
+        budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+        budgetStartsAt: string;
+        budgetEndsAt: string;
+        clientId: string;
+      };
+      id: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      projectId: string;
+      startedAt: string;
+      endedAt: string;
+      note: string;
+      isBillable: boolean;
+      importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+      externalId: string;
+      taskId: string;
+      invoiceId: string;
+      invoiceLineId: string;
+    };
+    second: {
+      project: {
+        client: {
+          id: string;
+          name: string;
+          email: string;
+          roundingIncrement: number;
+          roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+          roundingScope: null | 'ENTRY' | 'LINE';
+          archivedAt: string;
+          deletedAt: string;
+          createdAt: string;
+          updatedAt: string;
+          userId: string;
+        };
+        id: string;
+        name: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+        description: string;
+        hourlyRate: string;
+        billableByDefault: boolean;
+        billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+        budgetHours: string;
+        budgetAmount: string;
+        budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+        budgetStartsAt: string;
+        budgetEndsAt: string;
+        clientId: string;
+      };
+      id: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      projectId: string;
+      startedAt: string;
+      endedAt: string;
+      note: string;
+      isBillable: boolean;
+      importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+      externalId: string;
+      taskId: string;
+      invoiceId: string;
+      invoiceLineId: string;
+    };
+    overlapHours: number;
+  }[];
+};
+
+export type GetTimeEntryOverlaps400 = models.ValidationError;
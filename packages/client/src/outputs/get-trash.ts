@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type GetTrash = {
+  data: models.TrashItem[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+export type GetTrash400 = models.ValidationError;
@@ -0,0 +1,11 @@
+import type * as models from '../index.ts';
+
+export type GetWeeklyTimesheet = {
+  rows: models.TimesheetRow[];
+  dailyTotals: number[];
+  totalHours: number;
+  start: string;
+  days: string[];
+};
+
+export type GetWeeklyTimesheet400 = models.ValidationError;
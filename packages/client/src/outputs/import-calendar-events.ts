@@ -0,0 +1,19 @@
+import type * as models from '../index.ts';
+
+export type ImportCalendarEvents = {
+  data: {
+    projectId: string;
+    clientId: string;
+    matchedBy: null | 'keyword' | 'domain';
+    matchedValue: string;
+    eventId: string;
+    summary: string;
+    attendees: string[];
+    startedAt: string;
+    endedAt: string;
+    note: string | undefined;
+  }[];
+  skipped: { eventId: string; summary: string; code: string; reason: string }[];
+};
+
+export type ImportCalendarEvents400 = any | models.ValidationError;
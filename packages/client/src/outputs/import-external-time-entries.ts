@@ -0,0 +1,18 @@
+import type * as models from '../index.ts';
+
+export type ImportExternalTimeEntries = {
+  message: string;
+  summary: {
+    totalRows: number;
+    created: number;
+    skipped: number;
+    conflicting: number;
+  };
+  skipped: models.ImportRowError[];
+  conflicting: models.ImportRowError[];
+  overlaps: models.ImportRowError[];
+  createdClients: string[];
+  createdProjects: { clientName: string; name: string }[];
+};
+
+export type ImportExternalTimeEntries400 = any | models.ValidationError;
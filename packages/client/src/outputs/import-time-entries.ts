@@ -0,0 +1,22 @@
+import type * as models from '../index.ts';
+
+export type ImportTimeEntries = {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  errors: models.ImportRowError[];
+  overlaps: models.ImportRowError[];
+  clientsToCreate: string[];
+  projectsToCreate: { clientName: string; name: string }[];
+  dryRun: boolean;
+};
+
+export type ImportTimeEntries201 = {
+  message: string;
+  importedCount: number;
+  overlaps: models.ImportRowError[];
+  createdClients: string[];
+  createdProjects: { clientName: string; name: string }[];
+};
+
+export type ImportTimeEntries400 = any | models.ValidationError;
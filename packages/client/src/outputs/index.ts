@@ -1,37 +1,94 @@
+export * from './add-client-rate.ts';
 export * from './add-invoice-line.ts';
+export * from './add-project-rate.ts';
+export * from './archive-client.ts';
+export * from './archive-project.ts';
 export * from './bulk-create-time-entries.ts';
 export * from './bulk-delete-time-entries.ts';
 export * from './bulk-update-time-entries.ts';
+export * from './create-calendar-match-rule.ts';
 export * from './create-client.ts';
 export * from './create-invoice.ts';
+export * from './create-milestone.ts';
+export * from './create-payment.ts';
 export * from './create-project.ts';
+export * from './create-tag.ts';
+export * from './create-task.ts';
 export * from './create-time-entry.ts';
+export * from './delete-calendar-match-rule.ts';
+export * from './delete-client-rate.ts';
+export * from './delete-client.ts';
 export * from './delete-invoice-line.ts';
 export * from './delete-invoice.ts';
+export * from './delete-milestone.ts';
+export * from './delete-payment.ts';
+export * from './delete-project-rate.ts';
+export * from './delete-project.ts';
+export * from './delete-tag.ts';
+export * from './delete-task.ts';
 export * from './delete-time-entry.ts';
+export * from './download-invoice-pdf.ts';
 export * from './export-client-projects-time-entries.ts';
 export * from './export-client-time-entries.ts';
 export * from './export-invoices.ts';
 export * from './export-project-time-entries.ts';
 export * from './export-time-entries.ts';
 export * from './generate-invoice-pdf.ts';
+export * from './get-audit-log.ts';
+export * from './get-budget-alerts.ts';
+export * from './get-budget-report.ts';
+export * from './get-calendar-feed.ts';
+export * from './get-client-rates.ts';
 export * from './get-client.ts';
 export * from './get-clients.ts';
 export * from './get-dashboard.ts';
 export * from './get-detailed-report.ts';
+export * from './get-invoice-history.ts';
 export * from './get-invoice.ts';
 export * from './get-invoices.ts';
+export * from './get-milestone.ts';
+export * from './get-milestones.ts';
+export * from './get-payments.ts';
 export * from './get-productivity-metrics.ts';
+export * from './get-profitability-report.ts';
+export * from './get-project-rates.ts';
 export * from './get-project.ts';
 export * from './get-projects.ts';
 export * from './get-summary.ts';
+export * from './get-tag.ts';
+export * from './get-task.ts';
+export * from './get-tasks.ts';
 export * from './get-time-analytics.ts';
 export * from './get-time-entries.ts';
+export * from './get-time-entry-history.ts';
+export * from './get-time-entry-overlaps.ts';
 export * from './get-time-entry.ts';
+export * from './get-trash.ts';
+export * from './get-weekly-timesheet.ts';
+export * from './import-calendar-events.ts';
+export * from './import-external-time-entries.ts';
+export * from './import-time-entries.ts';
+export * from './recalculate-invoice.ts';
+export * from './restore-client.ts';
+export * from './restore-invoice.ts';
+export * from './restore-project.ts';
+export * from './restore-time-entry.ts';
+export * from './search.ts';
+export * from './start-timer.ts';
+export * from './stop-timer.ts';
+export * from './unarchive-client.ts';
+export * from './unarchive-project.ts';
 export * from './unauthorized-err.ts';
+export * from './update-business-hours.ts';
+export * from './update-calendar-match-rule.ts';
 export * from './update-client.ts';
 export * from './update-invoice-line.ts';
 export * from './update-invoice-status.ts';
 export * from './update-invoice.ts';
+export * from './update-milestone.ts';
 export * from './update-project.ts';
+export * from './update-settings.ts';
+export * from './update-tag.ts';
+export * from './update-task.ts';
 export * from './update-time-entry.ts';
+export * from './update-weekly-timesheet.ts';
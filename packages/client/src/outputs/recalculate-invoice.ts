@@ -0,0 +1,83 @@
+import type * as models from '../index.ts';
+
+export type RecalculateInvoice = {
+  client: {
+    id: string;
+    name: string;
+    email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+  };
+  invoiceLines: {
+    project: {
+      id: string;
+      name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      description: string;
+      hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
+      clientId: string;
+    };
+    task: {
+      id: string;
+      name: string;
+      createdAt: string;
+      updatedAt: string;
+      userId: string;
+      status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+      hourlyRate: string;
+      projectId: string;
+      estimateHours: string;
+    };
+    rate: string;
+    id: string;
+    description: string;
+    projectId: string;
+    taskId: string;
+    invoiceId: string;
+    hours: string;
+    amount: string;
+    rawHours: string;
+    isManual: boolean;
+    milestoneId: string;
+  }[];
+  id: string;
+  deletedAt: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  status: 'DRAFT' | 'SENT' | 'PAID';
+  clientId: string;
+  invoiceNumber: string;
+  dateFrom: string;
+  dateTo: string;
+  sentAt: string;
+  paidAt: string;
+  paidAmount: string;
+  pdfUrl: string;
+  pdfKey: string;
+  pdfChecksum: string;
+  notes: string;
+  lineGrouping: 'PROJECT' | 'TASK';
+};
+
+export type RecalculateInvoice400 = models.ValidationError;
@@ -0,0 +1,17 @@
+import type * as models from '../index.ts';
+
+export type RestoreClient = {
+  id: string;
+  name: string;
+  email: string;
+  roundingIncrement: number;
+  roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+  roundingScope: null | 'ENTRY' | 'LINE';
+  archivedAt: string;
+  deletedAt: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+};
+
+export type RestoreClient400 = models.ValidationError;
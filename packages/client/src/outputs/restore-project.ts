@@ -0,0 +1,39 @@
+import type * as models from '../index.ts';
+
+export type RestoreProject = {
+  client: {
+    id: string;
+    name: string;
+    email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
+  };
+  id: string;
+  name: string;
+  roundingIncrement: number;
+  roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+  roundingScope: null | 'ENTRY' | 'LINE';
+  archivedAt: string;
+  deletedAt: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  description: string;
+  hourlyRate: string;
+  billableByDefault: boolean;
+  billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+  budgetHours: string;
+  budgetAmount: string;
+  budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+  budgetStartsAt: string;
+  budgetEndsAt: string;
+  clientId: string;
+};
+
+export type RestoreProject400 = any | models.ValidationError;
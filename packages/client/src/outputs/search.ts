@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type Search = {
+  data: models.SearchResult[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+export type Search400 = models.ValidationError;
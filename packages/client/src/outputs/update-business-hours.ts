@@ -0,0 +1,7 @@
+import type * as models from '../index.ts';
+
+export type UpdateBusinessHours = {
+  data: { start: string; end: string; weekday: number }[];
+};
+
+export type UpdateBusinessHours400 = models.ValidationError;
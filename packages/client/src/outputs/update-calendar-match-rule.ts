@@ -0,0 +1,12 @@
+import type * as models from '../index.ts';
+
+export type UpdateCalendarMatchRule = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  projectId: string;
+  keyword: string;
+};
+
+export type UpdateCalendarMatchRule400 = models.ValidationError;
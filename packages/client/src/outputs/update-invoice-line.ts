@@ -2,32 +2,52 @@ import type * as models from '../index.ts';
 
 export type UpdateInvoiceLine =
   | {
+      rate: string;
       id: string;
       description: string;
       projectId: string;
+      taskId: string;
+      invoiceId: string;
       hours: string;
-      rate: string;
       amount: string;
-      invoiceId: string;
+      rawHours: string;
+      isManual: boolean;
+      milestoneId: string;
     }
   | {
       project: {
         id: string;
         name: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
         createdAt: string;
         updatedAt: string;
         userId: string;
         description: string;
         hourlyRate: string;
+        billableByDefault: boolean;
+        billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+        budgetHours: string;
+        budgetAmount: string;
+        budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+        budgetStartsAt: string;
+        budgetEndsAt: string;
         clientId: string;
       };
+      rate: string;
       id: string;
       description: string;
       projectId: string;
+      taskId: string;
+      invoiceId: string;
       hours: string;
-      rate: string;
       amount: string;
-      invoiceId: string;
+      rawHours: string;
+      isManual: boolean;
+      milestoneId: string;
     };
 
 export type UpdateInvoiceLine400 = models.ValidationError;
@@ -1,10 +1,18 @@
 import type * as models from '../index.ts';
 
 export type UpdateInvoiceStatus = {
+  totalAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
   client: {
     id: string;
     name: string;
     email: string;
+    roundingIncrement: number;
+    roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+    roundingScope: null | 'ENTRY' | 'LINE';
+    archivedAt: string;
+    deletedAt: string;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -13,22 +21,49 @@ export type UpdateInvoiceStatus = {
     project: {
       id: string;
       name: string;
+      roundingIncrement: number;
+      roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+      roundingScope: null | 'ENTRY' | 'LINE';
+      archivedAt: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
       description: string;
       hourlyRate: string;
+      billableByDefault: boolean;
+      billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+      budgetHours: string;
+      budgetAmount: string;
+      budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+      budgetStartsAt: string;
+      budgetEndsAt: string;
       clientId: string;
     };
+    rate: string;
     id: string;
     description: string;
     projectId: string;
+    taskId: string;
+    invoiceId: string;
     hours: string;
-    rate: string;
     amount: string;
+    rawHours: string;
+    isManual: boolean;
+    milestoneId: string;
+  }[];
+  payments: {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    userId: string;
     invoiceId: string;
+    amount: string;
+    paidAt: string;
+    notes: string;
   }[];
   id: string;
+  deletedAt: string;
   createdAt: string;
   updatedAt: string;
   userId: string;
@@ -39,9 +74,11 @@ export type UpdateInvoiceStatus = {
   dateTo: string;
   sentAt: string;
   paidAt: string;
-  paidAmount: string;
   pdfUrl: string;
+  pdfKey: string;
+  pdfChecksum: string;
   notes: string;
+  lineGrouping: 'PROJECT' | 'TASK';
 };
 
 export type UpdateInvoiceStatus400 = any | models.ValidationError;
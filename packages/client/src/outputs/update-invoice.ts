@@ -3,15 +3,20 @@ import type * as models from '../index.ts';
 export type UpdateInvoice =
   | {
       invoiceLines: {
+        rate: string;
         id: string;
         description: string;
         projectId: string;
+        taskId: string;
+        invoiceId: string;
         hours: string;
-        rate: string;
         amount: string;
-        invoiceId: string;
+        rawHours: string;
+        isManual: boolean;
+        milestoneId: string;
       }[];
       id: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
@@ -24,13 +29,21 @@ export type UpdateInvoice =
       paidAt: string;
       paidAmount: string;
       pdfUrl: string;
+      pdfKey: string;
+      pdfChecksum: string;
       notes: string;
+      lineGrouping: 'PROJECT' | 'TASK';
     }
   | {
       client: {
         id: string;
         name: string;
         email: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
         createdAt: string;
         updatedAt: string;
         userId: string;
@@ -39,22 +52,50 @@ export type UpdateInvoice =
         project: {
           id: string;
           name: string;
+          roundingIncrement: number;
+          roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+          roundingScope: null | 'ENTRY' | 'LINE';
+          archivedAt: string;
+          deletedAt: string;
           createdAt: string;
           updatedAt: string;
           userId: string;
           description: string;
           hourlyRate: string;
+          billableByDefault: boolean;
+          billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+          budgetHours: string;
+          budgetAmount: string;
+          budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+          budgetStartsAt: string;
+          budgetEndsAt: string;
           clientId: string;
         };
+        task: {
+          id: string;
+          name: string;
+          createdAt: string;
+          updatedAt: string;
+          userId: string;
+          status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+          hourlyRate: string;
+          projectId: string;
+          estimateHours: string;
+        };
+        rate: string;
         id: string;
         description: string;
         projectId: string;
+        taskId: string;
+        invoiceId: string;
         hours: string;
-        rate: string;
         amount: string;
-        invoiceId: string;
+        rawHours: string;
+        isManual: boolean;
+        milestoneId: string;
       }[];
       id: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
@@ -67,7 +108,10 @@ export type UpdateInvoice =
       paidAt: string;
       paidAmount: string;
       pdfUrl: string;
+      pdfKey: string;
+      pdfChecksum: string;
       notes: string;
+      lineGrouping: 'PROJECT' | 'TASK';
     };
 
 export type UpdateInvoice400 = any | models.ValidationError;
@@ -0,0 +1,18 @@
+import type * as models from '../index.ts';
+
+export type UpdateSettings = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  timeZone: string;
+  weekStartsOn: number;
+  locale: string;
+  currency: string;
+  dateFormat: string;
+  overlapPolicy: 'REJECT' | 'WARN' | 'ALLOW';
+  enforceBusinessHours: boolean;
+  budgetAlertThresholds: number[];
+};
+
+export type UpdateSettings400 = models.ValidationError;
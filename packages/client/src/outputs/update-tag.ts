@@ -0,0 +1,12 @@
+import type * as models from '../index.ts';
+
+export type UpdateTag = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  color: string;
+};
+
+export type UpdateTag400 = models.ValidationError;
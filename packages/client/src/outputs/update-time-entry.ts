@@ -2,44 +2,101 @@ import type * as models from '../index.ts';
 
 export type UpdateTimeEntry =
   | {
+      tags: {
+        id: string;
+        name: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+        color: string;
+      }[];
       id: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
+      projectId: string;
       startedAt: string;
       endedAt: string;
       note: string;
-      isLocked: boolean;
-      projectId: string;
+      isBillable: boolean;
+      importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+      externalId: string;
+      taskId: string;
+      invoiceId: string;
+      invoiceLineId: string;
     }
   | {
+      overlaps: models.TimeEntryOverlapWarning[];
       project: {
         client: {
           id: string;
           name: string;
           email: string;
+          roundingIncrement: number;
+          roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+          roundingScope: null | 'ENTRY' | 'LINE';
+          archivedAt: string;
+          deletedAt: string;
           createdAt: string;
           updatedAt: string;
           userId: string;
         };
         id: string;
         name: string;
+        roundingIncrement: number;
+        roundingMode: null | 'UP' | 'DOWN' | 'NEAREST';
+        roundingScope: null | 'ENTRY' | 'LINE';
+        archivedAt: string;
+        deletedAt: string;
         createdAt: string;
         updatedAt: string;
         userId: string;
         description: string;
         hourlyRate: string;
+        billableByDefault: boolean;
+        billingMode: 'HOURLY' | 'FIXED_FEE' | 'NON_BILLABLE';
+        budgetHours: string;
+        budgetAmount: string;
+        budgetPeriod: null | 'TOTAL' | 'MONTHLY' | 'CUSTOM';
+        budgetStartsAt: string;
+        budgetEndsAt: string;
         clientId: string;
       };
+      task: {
+        id: string;
+        name: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+        status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+        hourlyRate: string;
+        projectId: string;
+        estimateHours: string;
+      };
+      tags: {
+        id: string;
+        name: string;
+        createdAt: string;
+        updatedAt: string;
+        userId: string;
+        color: string;
+      }[];
       id: string;
+      deletedAt: string;
       createdAt: string;
       updatedAt: string;
       userId: string;
+      projectId: string;
       startedAt: string;
       endedAt: string;
       note: string;
-      isLocked: boolean;
-      projectId: string;
+      isBillable: boolean;
+      importSource: null | 'TOGGL' | 'CLOCKIFY' | 'HARVEST';
+      externalId: string;
+      taskId: string;
+      invoiceId: string;
+      invoiceLineId: string;
     };
 
 export type UpdateTimeEntry400 = any | models.ValidationError;
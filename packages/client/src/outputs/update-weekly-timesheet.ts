@@ -0,0 +1,13 @@
+import type * as models from '../index.ts';
+
+export type UpdateWeeklyTimesheet = {
+  changes: { created: number; updated: number; deleted: number };
+  overlaps: models.TimeEntryOverlapWarning[];
+  rows: models.TimesheetRow[];
+  dailyTotals: number[];
+  totalHours: number;
+  start: string;
+  days: string[];
+};
+
+export type UpdateWeeklyTimesheet400 = any | models.ValidationError;
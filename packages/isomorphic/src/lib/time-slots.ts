@@ -15,27 +15,37 @@ export const startOfDayDate = resetDate(new Date(), 9);
 /**
  * Generates an array of 30-minute time slots for a given day using date-fns.
  *
- * The function creates time slots within a predefined working day, starting at 9:00 AM
- * and ending before 5:00 PM. The last generated slot will be at 4:30 PM.
+ * The function creates time slots within the user's business day, by default starting
+ * at 9:00 AM and ending before 5:00 PM, in which case the last generated slot will be
+ * at 4:30 PM.
  *
  * @param startFrom - The base date for which the time slots will be generated. The year,
  * month, and day from this date will be used for all generated slots.
+ * @param businessDay - The user's business hours for that weekday, as the minutes after
+ * midnight the day starts and ends at (the startMinute and endMinute of a BusinessDay).
  * @returns An array of `Date` objects, where each object represents a 30-minute time
- * slot from 9:00 AM to 4:30 PM on the provided base date.
+ * slot within the business day on the provided base date.
  */
-export const generateTimeSlots = (startFrom: Date | string) => {
+export const generateTimeSlots = (
+  startFrom: Date | string,
+  businessDay: { startMinute: number; endMinute: number } = {
+    startMinute: 9 * 60, // 9:00 AM
+    endMinute: 17 * 60, // 5:00 PM
+  },
+) => {
   const slots: Date[] = [];
-  const startOfDayWork = 9; // 9:00 AM
-  const endOfDayWork = 17; // 5:00 PM
   const timeSlotMinutes = 30; // 30 minutes
 
   const inputDate = new Date(startFrom);
-  const startOfDayWorkDate = resetDate(startFrom, startOfDayWork);
+  const startOfDayWorkDate = addMinutes(
+    resetDate(startFrom, 0),
+    businessDay.startMinute,
+  );
 
   let currentSlot =
     inputDate >= startOfDayWorkDate ? inputDate : startOfDayWorkDate;
 
-  const endTime = resetDate(startFrom, endOfDayWork);
+  const endTime = addMinutes(resetDate(startFrom, 0), businessDay.endMinute);
 
   do {
     slots.push(new Date(currentSlot));
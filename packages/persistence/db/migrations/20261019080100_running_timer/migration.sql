@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "TimeEntry" ALTER COLUMN "endedAt" DROP NOT NULL;
+
+-- CreateIndex
+-- Only one timer can run per user; Prisma cannot declare partial indexes, so
+-- this one lives in the migration only.
+CREATE UNIQUE INDEX "TimeEntry_userId_running_key" ON "TimeEntry"("userId") WHERE "endedAt" IS NULL;
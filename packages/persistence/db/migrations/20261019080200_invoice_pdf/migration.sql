@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "pdfChecksum" TEXT,
+ADD COLUMN     "pdfKey" TEXT;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN "invoiceId" TEXT;
+
+-- Link every locked entry to the invoice that billed it. Locked entries used to
+-- be matched by project and date range only, so when several invoices overlap
+-- the earliest one is taken, as it is the one that locked the entry.
+UPDATE "TimeEntry" AS te
+SET "invoiceId" = (
+    SELECT i."id"
+    FROM "Invoice" AS i
+    WHERE i."userId" = te."userId"
+      AND te."startedAt" >= i."dateFrom"
+      AND te."startedAt" <= i."dateTo"
+      AND EXISTS (
+          SELECT 1
+          FROM "InvoiceLine" AS il
+          WHERE il."invoiceId" = i."id"
+            AND il."projectId" = te."projectId"
+      )
+    ORDER BY i."createdAt" ASC
+    LIMIT 1
+)
+WHERE te."isLocked" = true;
+
+-- DropIndex
+DROP INDEX IF EXISTS "TimeEntry_isLocked_idx";
+
+-- AlterTable
+ALTER TABLE "TimeEntry" DROP COLUMN "isLocked";
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_invoiceId_idx" ON "TimeEntry"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
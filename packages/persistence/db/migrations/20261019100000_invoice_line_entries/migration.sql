@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "InvoiceLine" ADD COLUMN "isManual" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN "invoiceLineId" TEXT;
+
+-- Attach every billed entry to the line of its invoice for the same project,
+-- which is the line the entry was aggregated into. When an invoice has several
+-- lines for the project, the one whose hours are closest to the hours of its
+-- entries is taken.
+WITH "EntryHours" AS (
+    SELECT te."invoiceId",
+           te."projectId",
+           SUM(EXTRACT(EPOCH FROM (te."endedAt" - te."startedAt")) / 3600) AS "hours"
+    FROM "TimeEntry" AS te
+    WHERE te."invoiceId" IS NOT NULL
+    GROUP BY te."invoiceId", te."projectId"
+)
+UPDATE "TimeEntry" AS te
+SET "invoiceLineId" = (
+    SELECT il."id"
+    FROM "InvoiceLine" AS il
+    JOIN "EntryHours" AS eh
+      ON eh."invoiceId" = il."invoiceId"
+     AND eh."projectId" = il."projectId"
+    WHERE il."invoiceId" = te."invoiceId"
+      AND il."projectId" = te."projectId"
+    ORDER BY ABS(il."hours" - eh."hours") ASC, il."id" ASC
+    LIMIT 1
+)
+WHERE te."invoiceId" IS NOT NULL;
+
+-- Lines without entries were added by hand
+UPDATE "InvoiceLine" AS il
+SET "isManual" = true
+WHERE NOT EXISTS (
+    SELECT 1
+    FROM "TimeEntry" AS te
+    WHERE te."invoiceLineId" = il."id"
+);
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_invoiceLineId_idx" ON "TimeEntry"("invoiceLineId");
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_invoiceLineId_fkey" FOREIGN KEY ("invoiceLineId") REFERENCES "InvoiceLine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "billableByDefault" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN     "isBillable" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "RoundingMode" AS ENUM ('UP', 'DOWN', 'NEAREST');
+
+-- CreateEnum
+CREATE TYPE "RoundingScope" AS ENUM ('ENTRY', 'LINE');
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "roundingIncrement" INTEGER,
+ADD COLUMN     "roundingMode" "RoundingMode",
+ADD COLUMN     "roundingScope" "RoundingScope";
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "roundingIncrement" INTEGER,
+ADD COLUMN     "roundingMode" "RoundingMode",
+ADD COLUMN     "roundingScope" "RoundingScope";
+
+-- AlterTable
+ALTER TABLE "InvoiceLine" ADD COLUMN     "rawHours" DECIMAL(5,2);
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ImportSource" AS ENUM ('TOGGL', 'CLOCKIFY', 'HARVEST');
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN     "externalId" TEXT,
+ADD COLUMN     "importSource" "ImportSource";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeEntry_userId_importSource_externalId_key" ON "TimeEntry"("userId", "importSource", "externalId");
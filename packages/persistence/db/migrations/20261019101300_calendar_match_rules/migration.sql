@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "CalendarMatchRule" (
+    "id" TEXT NOT NULL,
+    "keyword" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "CalendarMatchRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CalendarMatchRule_projectId_idx" ON "CalendarMatchRule"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarMatchRule_userId_keyword_key" ON "CalendarMatchRule"("userId", "keyword");
+
+-- AddForeignKey
+ALTER TABLE "CalendarMatchRule" ADD CONSTRAINT "CalendarMatchRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarMatchRule" ADD CONSTRAINT "CalendarMatchRule_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "OverlapPolicy" AS ENUM ('REJECT', 'WARN', 'ALLOW');
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "overlapPolicy" "OverlapPolicy" NOT NULL DEFAULT 'REJECT';
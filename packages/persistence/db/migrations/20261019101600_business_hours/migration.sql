@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "enforceBusinessHours" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "BusinessHours" (
+    "id" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "BusinessHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusinessHours_userId_weekday_key" ON "BusinessHours"("userId", "weekday");
+
+-- AddForeignKey
+ALTER TABLE "BusinessHours" ADD CONSTRAINT "BusinessHours_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- The search vectors are generated by PostgreSQL from the searchable columns,
+-- so they stay up to date without any work from the application. Matches in
+-- names, titles and numbers (weight A) rank above matches in longer text
+-- (weight B).
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('english', coalesce("note", ''))
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("description", '')), 'B')
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("email", '')), 'B')
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("invoiceNumber", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("notes", '')), 'B')
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_searchVector_idx" ON "TimeEntry" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Project_searchVector_idx" ON "Project" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Client_searchVector_idx" ON "Client" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Invoice_searchVector_idx" ON "Invoice" USING GIN ("searchVector");
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "TaskStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'DONE');
+
+-- CreateEnum
+CREATE TYPE "LineGrouping" AS ENUM ('PROJECT', 'TASK');
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN     "taskId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "lineGrouping" "LineGrouping" NOT NULL DEFAULT 'PROJECT';
+
+-- AlterTable
+ALTER TABLE "InvoiceLine" ADD COLUMN     "taskId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Task" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "TaskStatus" NOT NULL DEFAULT 'OPEN',
+    "estimateHours" DECIMAL(7,2),
+    "hourlyRate" DECIMAL(10,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "Task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_userId_projectId_idx" ON "Task"("userId", "projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_projectId_name_key" ON "Task"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_taskId_idx" ON "TimeEntry"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Client_deletedAt_idx" ON "Client"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Project_deletedAt_idx" ON "Project"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_deletedAt_idx" ON "TimeEntry"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Invoice_deletedAt_idx" ON "Invoice"("deletedAt");
+
+-- DropIndex
+DROP INDEX "TimeEntry_userId_running_key";
+
+-- CreateIndex
+-- A running timer in the trash does not keep another one from starting
+CREATE UNIQUE INDEX "TimeEntry_userId_running_key" ON "TimeEntry"("userId") WHERE "endedAt" IS NULL AND "deletedAt" IS NULL;
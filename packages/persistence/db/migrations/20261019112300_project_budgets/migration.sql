@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "BudgetPeriod" AS ENUM ('TOTAL', 'MONTHLY', 'CUSTOM');
+
+-- CreateEnum
+CREATE TYPE "BudgetMetric" AS ENUM ('HOURS', 'AMOUNT');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "budgetAmount" DECIMAL(12,2),
+ADD COLUMN     "budgetEndsAt" TIMESTAMP(3),
+ADD COLUMN     "budgetHours" DECIMAL(9,2),
+ADD COLUMN     "budgetPeriod" "BudgetPeriod",
+ADD COLUMN     "budgetStartsAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "budgetAlertThresholds" INTEGER[] DEFAULT ARRAY[75, 90, 100]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "BudgetAlert" (
+    "id" TEXT NOT NULL,
+    "metric" "BudgetMetric" NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "periodKey" TEXT NOT NULL,
+    "consumed" DECIMAL(12,2) NOT NULL,
+    "budget" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "BudgetAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BudgetAlert_userId_createdAt_idx" ON "BudgetAlert"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetAlert_projectId_metric_threshold_periodKey_key" ON "BudgetAlert"("projectId", "metric", "threshold", "periodKey");
+
+-- AddForeignKey
+ALTER TABLE "BudgetAlert" ADD CONSTRAINT "BudgetAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetAlert" ADD CONSTRAINT "BudgetAlert_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "BillingMode" AS ENUM ('HOURLY', 'FIXED_FEE', 'NON_BILLABLE');
+
+-- CreateEnum
+CREATE TYPE "MilestoneStatus" AS ENUM ('PENDING', 'COMPLETED', 'INVOICED');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "billingMode" "BillingMode" NOT NULL DEFAULT 'HOURLY';
+
+-- AlterTable
+ALTER TABLE "InvoiceLine" ADD COLUMN     "milestoneId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Milestone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "MilestoneStatus" NOT NULL DEFAULT 'PENDING',
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "Milestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Milestone_userId_projectId_idx" ON "Milestone"("userId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "Milestone_status_idx" ON "Milestone"("status");
+
+-- AddForeignKey
+ALTER TABLE "Milestone" ADD CONSTRAINT "Milestone_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Milestone" ADD CONSTRAINT "Milestone_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Rate" (
+    "id" TEXT NOT NULL,
+    "hourlyRate" DECIMAL(10,2) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "clientId" TEXT,
+
+    CONSTRAINT "Rate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rate_projectId_effectiveFrom_idx" ON "Rate"("projectId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "Rate_clientId_effectiveFrom_idx" ON "Rate"("clientId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "Rate" ADD CONSTRAINT "Rate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rate" ADD CONSTRAINT "Rate_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rate" ADD CONSTRAINT "Rate_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
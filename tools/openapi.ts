@@ -1,5 +1,5 @@
 import { execFile } from 'node:child_process';
-import { rm, writeFile } from 'node:fs/promises';
+import { readFile, readdir, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { cwd } from 'node:process';
 
@@ -55,6 +55,25 @@ const { paths, components, tags } = await analyze(
           },
         },
       };
+      // List routes take the nextCursor of a page as cursor (core/pagination.ts)
+      if (
+        operation.parameters?.some(
+          (parameter) =>
+            'in' in parameter &&
+            parameter.in === 'query' &&
+            parameter.name === 'cursor',
+        )
+      ) {
+        operation['x-pagination'] = {
+          type: 'cursor',
+          cursorParamName: 'cursor',
+          cursorKeyword: 'cursor',
+          limitParamName: 'pageSize',
+          limitKeyword: 'pageSize',
+          items: 'data',
+          hasMore: 'pagination.hasMore',
+        };
+      }
       return {};
     },
   },
@@ -136,8 +155,21 @@ await generate(spec, {
   output: join(process.cwd(), 'packages/client/src'),
   name: 'IWorked',
   readme: true,
-  pagination: false,
-  formatCode: ({ output, env }) => {
+  pagination: { guess: false },
+  formatCode: async ({ output, env }) => {
+    // The cursor template only passes hasMore on, so CursorPagination would
+    // ask for the first page again. Hand it the nextCursor as well.
+    const api = join(output, 'api');
+    for (const file of await readdir(api)) {
+      const source = await readFile(join(api, file), 'utf8');
+      await writeFile(
+        join(api, file),
+        source.replaceAll(
+          'hasMore: Boolean(result.data.pagination.hasMore),',
+          'hasMore: Boolean(result.data.pagination.hasMore), nextCursor: result.data.pagination.nextCursor ?? undefined,',
+        ),
+      );
+    }
     execFile('prettier', ['openapi.json', output, '--write'], { env: env });
   },
 });